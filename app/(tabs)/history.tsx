@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { View, Text, StyleSheet, FlatList, Platform, ScrollView, Pressable } from 'react-native';
+import { View, Text, StyleSheet, FlatList, Platform, ScrollView, Pressable, ActivityIndicator } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
@@ -110,8 +110,8 @@ function IncidentCard({ type, quartier, ville, region, date, confirmations, hasP
 export default function HistoryScreen() {
   const insets = useSafeAreaInsets();
   const { t } = useI18n();
-  const { outages, regions } = useOutages();
-  const { incidents } = useIncidents();
+  const { outages, regions, loadMoreOutages, hasMoreOutages } = useOutages();
+  const { incidents, loadMoreIncidents, hasMoreIncidents } = useIncidents();
   const [category, setCategory] = useState<CategoryFilter>('all');
   const [filterType, setFilterType] = useState<string | null>(null);
   const [filterRegion, setFilterRegion] = useState<string | null>(null);
@@ -197,6 +197,13 @@ export default function HistoryScreen() {
     return types;
   }, [category, t]);
 
+  const hasMore = (category !== 'incidents' && hasMoreOutages) || (category !== 'outages' && hasMoreIncidents);
+
+  const handleEndReached = () => {
+    if (category !== 'incidents') loadMoreOutages();
+    if (category !== 'outages') loadMoreIncidents();
+  };
+
   const handleCategoryChange = (newCategory: CategoryFilter) => {
     setCategory(newCategory);
     setFilterType(null);
@@ -258,6 +265,9 @@ export default function HistoryScreen() {
         contentContainerStyle={[styles.listContent, { paddingBottom: 100 + (Platform.OS === 'web' ? 34 : 0) }]}
         showsVerticalScrollIndicator={false}
         scrollEnabled={feedItems.length > 0}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={hasMore && feedItems.length > 0 ? <ActivityIndicator style={styles.footerLoader} color={Colors.accent} /> : null}
         renderItem={({ item, index }) => {
           if (item.kind === 'incident') {
             return (
@@ -315,6 +325,7 @@ const styles = StyleSheet.create({
   filtersSection: { paddingHorizontal: 12, marginBottom: 6, gap: 4, marginTop: 6 },
   filterRow: { paddingHorizontal: 4, paddingVertical: 2 },
   listContent: { paddingHorizontal: 16, paddingTop: 8 },
+  footerLoader: { paddingVertical: 16 },
   emptyState: { alignItems: 'center', paddingVertical: 60, gap: 12 },
   emptyCircle: {
     width: 64, height: 64, borderRadius: 32, backgroundColor: Colors.borderLight,
@@ -11,7 +11,10 @@ import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useOutages } from '@/lib/outage-store';
 import { useIncidents } from '@/lib/incident-store';
+import { useOutbox } from '@/lib/outbox-store';
 import OutageCard from '@/components/OutageCard';
+import { fetchForecast, type LocalForecast } from '@/lib/api';
+import { areaAround, setFeedArea } from '@/lib/feed';
 import tips from '@/assets/data/tips.json';
 
 function getDailyTip(lang: 'fr' | 'en'): string {
@@ -77,6 +80,12 @@ function getIncidentColor(type: string): string {
   }
 }
 
+const riskColors: Record<string, string> = {
+  low: Colors.success,
+  medium: Colors.warning,
+  high: Colors.internet,
+};
+
 interface NeighborhoodEvent {
   id: string;
   kind: 'outage' | 'incident';
@@ -92,9 +101,12 @@ interface NeighborhoodEvent {
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const { t, lang, toggleLang } = useI18n();
-  const { outages, getRecentOutages, getNearbyOutages } = useOutages();
-  const { incidents, getNearbyIncidents } = useIncidents();
+  const { outages, getRecentOutages, getNearbyOutages, loadNearbyOutages } = useOutages();
+  const { incidents, getNearbyIncidents, loadNearbyIncidents } = useIncidents();
+  const { pendingOutages, pendingIncidents, isFlushing, flush } = useOutbox();
+  const pendingTotal = pendingOutages + pendingIncidents;
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [forecast, setForecast] = useState<LocalForecast | null>(null);
 
   useEffect(() => {
     (async () => {
@@ -108,6 +120,22 @@ export default function HomeScreen() {
     })();
   }, []);
 
+  useEffect(() => {
+    if (!userLocation) return;
+    loadNearbyOutages(userLocation.latitude, userLocation.longitude, 20);
+    loadNearbyIncidents(userLocation.latitude, userLocation.longitude, 20);
+    setFeedArea(areaAround(userLocation.latitude, userLocation.longitude));
+  }, [userLocation, loadNearbyOutages, loadNearbyIncidents]);
+
+  useEffect(() => {
+    if (!userLocation) return;
+    let cancelled = false;
+    fetchForecast(userLocation.latitude, userLocation.longitude)
+      .then(data => { if (!cancelled) setForecast(data); })
+      .catch(() => { if (!cancelled) setForecast(null); });
+    return () => { cancelled = true; };
+  }, [userLocation]);
+
   const recentOutages = getRecentOutages(48);
   const activeWater = outages.filter(o => o.type === 'water' && !o.estRetablie).length;
   const activeElectricity = outages.filter(o => o.type === 'electricity' && !o.estRetablie).length;
@@ -198,6 +226,28 @@ export default function HomeScreen() {
         contentContainerStyle={[styles.scrollContent, { paddingBottom: 100 + (Platform.OS === 'web' ? 34 : 0) }]}
         showsVerticalScrollIndicator={false}
       >
+        {pendingTotal > 0 && (
+          <Animated.View entering={FadeInDown.delay(50).springify()} style={styles.syncBanner}>
+            <Ionicons name="cloud-upload-outline" size={22} color={Colors.warning} />
+            <View style={styles.syncBannerText}>
+              <Text style={styles.syncBannerTitle}>{t.pendingSync.replace('%s', String(pendingTotal))}</Text>
+              <Text style={styles.syncBannerSub}>
+                {t.pendingSyncDetail.replace('%o', String(pendingOutages)).replace('%i', String(pendingIncidents))}
+              </Text>
+            </View>
+            <Pressable
+              style={({ pressed }) => [styles.syncBtn, pressed && { opacity: 0.7 }]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                flush();
+              }}
+              disabled={isFlushing}
+            >
+              <Text style={styles.syncBtnText}>{isFlushing ? t.syncing : t.sync}</Text>
+            </Pressable>
+          </Animated.View>
+        )}
+
         <Animated.View entering={FadeInDown.delay(100).springify()}>
           <Pressable
             style={({ pressed }) => [styles.reportCta, pressed && styles.ctaPressed]}
@@ -265,6 +315,33 @@ export default function HomeScreen() {
           />
         </Animated.View>
 
+        {forecast && (
+          <Animated.View entering={FadeInDown.delay(225).springify()}>
+            <View style={styles.tipCard}>
+              <View style={styles.tipHeader}>
+                <View style={[styles.tipIconCircle, { backgroundColor: Colors.accent + '15' }]}>
+                  <Ionicons name="pulse-outline" size={20} color={Colors.accent} />
+                </View>
+                <View style={styles.reportCtaText}>
+                  <Text style={styles.tipTitle}>{t.riskToday}</Text>
+                  <Text style={styles.riskArea}>{forecast.quartier}, {forecast.ville}</Text>
+                </View>
+              </View>
+              {forecast.scores.map(score => (
+                <View key={score.type} style={styles.riskRow}>
+                  <Ionicons name={getOutageIcon(score.type) as any} size={18} color={getOutageColor(score.type)} />
+                  <Text style={styles.riskLabel}>{score.type === 'water' ? t.water : score.type === 'electricity' ? t.electricity : t.internet}</Text>
+                  <Text style={styles.riskPercent}>{Math.round(score.probability * 100)} %</Text>
+                  <View style={[styles.riskBadge, { backgroundColor: riskColors[score.level] + '20' }]}>
+                    <Text style={[styles.riskBadgeText, { color: riskColors[score.level] }]}>{t.riskLevels[score.level]}</Text>
+                  </View>
+                </View>
+              ))}
+              <Text style={styles.riskHint}>{t.riskHint.replace('%s', String(forecast.trainingWeeks))}</Text>
+            </View>
+          </Animated.View>
+        )}
+
         <Animated.View entering={FadeInDown.delay(250).springify()}>
           <View style={styles.tipCard}>
             <View style={styles.tipHeader}>
@@ -402,6 +479,42 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.background,
   },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.cardBg,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 14,
+    borderWidth: 1,
+    borderColor: Colors.warning + '40',
+  },
+  syncBannerText: {
+    flex: 1,
+  },
+  syncBannerTitle: {
+    fontSize: 13,
+    fontFamily: 'Nunito_700Bold',
+    color: Colors.text,
+  },
+  syncBannerSub: {
+    fontSize: 11,
+    fontFamily: 'Nunito_400Regular',
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  syncBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: Colors.warning + '20',
+  },
+  syncBtnText: {
+    fontSize: 12,
+    fontFamily: 'Nunito_700Bold',
+    color: Colors.warning,
+  },
   header: {
     paddingHorizontal: 20,
     paddingBottom: 24,
@@ -623,6 +736,45 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     lineHeight: 21,
   },
+  riskArea: {
+    fontSize: 12,
+    fontFamily: 'Nunito_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  riskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  riskLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Nunito_600SemiBold',
+    color: Colors.text,
+  },
+  riskPercent: {
+    fontSize: 15,
+    fontFamily: 'Nunito_800ExtraBold',
+    color: Colors.text,
+  },
+  riskBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+    minWidth: 64,
+    alignItems: 'center',
+  },
+  riskBadgeText: {
+    fontSize: 12,
+    fontFamily: 'Nunito_700Bold',
+  },
+  riskHint: {
+    fontSize: 11,
+    fontFamily: 'Nunito_400Regular',
+    color: Colors.textTertiary,
+    marginTop: 8,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
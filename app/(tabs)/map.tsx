@@ -12,6 +12,14 @@ import { useIncidents, IncidentType, Incident } from '@/lib/incident-store';
 import { formatTimeAgo } from '@/components/OutageCard';
 import FilterChip from '@/components/FilterChip';
 import NativeMapComponent, { isNativeMapAvailable as nativeMapAvailable } from '@/components/NativeMapView';
+import {
+  loadOfflineSnapshot,
+  offlineTilePaths,
+  refreshStaleSnapshots,
+  useOfflineBundles,
+  withSnapshot,
+  type OfflineSnapshot,
+} from '@/lib/offline-bundle';
 
 const typeIcons: Record<OutageType, { icon: any; color: string }> = {
   water: { icon: 'water', color: Colors.water },
@@ -93,8 +101,10 @@ function MapIncidentItem({ incident, t, onPress }: { incident: Incident; t: any;
 export default function MapScreen() {
   const insets = useSafeAreaInsets();
   const { t } = useI18n();
-  const { outages, getNearbyOutages } = useOutages();
-  const { incidents, getNearbyIncidents } = useIncidents();
+  const { outages: liveOutages, getNearbyOutages, loadNearbyOutages, isOffline } = useOutages();
+  const { incidents: liveIncidents, getNearbyIncidents, loadNearbyIncidents } = useIncidents();
+  const bundles = useOfflineBundles();
+  const [snapshot, setSnapshot] = useState<OfflineSnapshot | null>(null);
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [loading, setLoading] = useState(true);
   const [filterType, setFilterType] = useState<OutageType | null>(null);
@@ -105,6 +115,26 @@ export default function MapScreen() {
     getLocation();
   }, []);
 
+  useEffect(() => {
+    if (!userLocation) return;
+    loadNearbyOutages(userLocation.latitude, userLocation.longitude, 50);
+    loadNearbyIncidents(userLocation.latitude, userLocation.longitude, 50);
+  }, [userLocation, loadNearbyOutages, loadNearbyIncidents]);
+
+  // Downloaded regions fill in for the server while it cannot be reached.
+  useEffect(() => {
+    if (bundles.length === 0 || !isOffline) {
+      setSnapshot(null);
+      if (bundles.length > 0) refreshStaleSnapshots();
+      return;
+    }
+    let cancelled = false;
+    loadOfflineSnapshot()
+      .then(s => { if (!cancelled) setSnapshot(s); })
+      .catch(e => console.error('Error loading offline snapshot:', e));
+    return () => { cancelled = true; };
+  }, [bundles, isOffline]);
+
   const getLocation = async () => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -128,21 +158,25 @@ export default function MapScreen() {
     }
   };
 
+  const outages = snapshot ? withSnapshot(liveOutages, snapshot.outages) : liveOutages;
+  const incidents = snapshot ? withSnapshot(liveIncidents, snapshot.incidents) : liveIncidents;
+  const offlineAsOf = snapshot?.asOf ?? null;
+
   const activeOutages = outages.filter(o => !o.estRetablie);
   const filteredOutages = filterType ? activeOutages.filter(o => o.type === filterType) : activeOutages;
-  const nearbyOutages = userLocation
+  const nearbyOutages = userLocation && !snapshot
     ? getNearbyOutages(userLocation.latitude, userLocation.longitude, 50)
     : filteredOutages;
 
   const displayOutages = filterType
     ? filteredOutages
-    : (userLocation ? nearbyOutages : filteredOutages);
+    : (userLocation && !snapshot ? nearbyOutages : filteredOutages);
 
   const activeIncidents = incidents.filter(i => !i.estResolue);
-  const nearbyIncidents = userLocation
+  const nearbyIncidents = userLocation && !snapshot
     ? getNearbyIncidents(userLocation.latitude, userLocation.longitude, 50)
     : activeIncidents;
-  const displayIncidents = userLocation ? nearbyIncidents : activeIncidents;
+  const displayIncidents = userLocation && !snapshot ? nearbyIncidents : activeIncidents;
 
   const waterCount = activeOutages.filter(o => o.type === 'water').length;
   const elecCount = activeOutages.filter(o => o.type === 'electricity').length;
@@ -175,6 +209,8 @@ export default function MapScreen() {
       <NativeMapComponent
         outages={displayOutages}
         incidents={displayIncidents}
+        allOutages={outages}
+        allIncidents={incidents}
         category={category}
         setCategory={setCategory}
         filterType={filterType}
@@ -183,6 +219,8 @@ export default function MapScreen() {
         waterCount={waterCount}
         elecCount={elecCount}
         netCount={netCount}
+        offlineAsOf={offlineAsOf}
+        offlineTiles={offlineTilePaths(bundles)}
       />
     );
   }
@@ -239,6 +277,13 @@ export default function MapScreen() {
           contentContainerStyle={[styles.scrollContent, { paddingBottom: 100 + (Platform.OS === 'web' ? 34 : 0) }]}
           showsVerticalScrollIndicator={false}
         >
+          {offlineAsOf && (
+            <View style={styles.offlineBanner}>
+              <Ionicons name="cloud-offline-outline" size={18} color={Colors.warning} />
+              <Text style={styles.offlineBannerText}>{t.offlineDataAsOf.replace('%s', new Date(offlineAsOf).toLocaleString())}</Text>
+            </View>
+          )}
+
           {userLocation && (
             <View style={styles.locationBanner}>
               <Ionicons name="navigate-circle" size={20} color={Colors.accent} />
@@ -330,6 +375,12 @@ const styles = StyleSheet.create({
     borderRadius: 14, marginBottom: 12, borderWidth: 1, borderColor: Colors.borderLight,
   },
   locationBannerText: { fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  offlineBanner: {
+    flexDirection: 'row', alignItems: 'center', gap: 8,
+    backgroundColor: Colors.warning + '15', paddingHorizontal: 14, paddingVertical: 10,
+    borderRadius: 14, marginBottom: 12,
+  },
+  offlineBannerText: { flex: 1, fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: Colors.text },
   emptyState: { alignItems: 'center', paddingVertical: 50, gap: 12 },
   emptyCircle: {
     width: 64, height: 64, borderRadius: 32, backgroundColor: Colors.successLight,
@@ -1,5 +1,5 @@
-import React, { useState, useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView, Platform, Pressable } from 'react-native';
+import React, { useState, useMemo, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Platform, Pressable, useWindowDimensions } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
@@ -9,55 +9,122 @@ import { router } from 'expo-router';
 import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useOutages } from '@/lib/outage-store';
-import { useIncidents } from '@/lib/incident-store';
-import { PieChart, BarChart } from '@/components/StatChart';
+import { PieChart, BarChart, StackedBarList, LineChart, Heatmap } from '@/components/StatChart';
+import FilterChip from '@/components/FilterChip';
+import {
+  fetchDurationStats,
+  fetchIncidentStats,
+  fetchOutageHeatmap,
+  fetchOutageStats,
+  fetchStatSeries,
+  type DurationStats,
+  type IncidentStats,
+  type OutageHeatmap,
+  type OutageStats,
+  type StatSeries,
+} from '@/lib/api';
 
 type Period = 'week' | 'month' | 'all';
 type Category = 'outages' | 'incidents' | 'all';
+type AreaLevel = 'region' | 'ville' | 'quartier';
+
+const TREND_RANGES = [7, 30, 90];
+const HEATMAP_HOUR_LABELS = Array.from({ length: 24 }, (_, h) => (h % 6 === 0 ? `${h}h` : ''));
+// A day is a spike when it is this many standard deviations above the window mean...
+const SPIKE_SIGMAS = 2;
+// ...and has at least this many reports, so quiet regions do not flag every blip.
+const SPIKE_MIN_REPORTS = 3;
+
+const typeColors: Record<string, string> = {
+  water: Colors.water,
+  electricity: Colors.electricity,
+  internet: Colors.internet,
+};
+
+function findSpikes(totals: number[]): boolean[] {
+  if (totals.length === 0) return [];
+  const mean = totals.reduce((sum, v) => sum + v, 0) / totals.length;
+  const sd = Math.sqrt(totals.reduce((sum, v) => sum + (v - mean) ** 2, 0) / totals.length);
+  return totals.map(v => v >= SPIKE_MIN_REPORTS && v > mean + SPIKE_SIGMAS * sd);
+}
 
 export default function StatsScreen() {
   const insets = useSafeAreaInsets();
   const { t } = useI18n();
   const { outages, regions } = useOutages();
-  const { incidents } = useIncidents();
   const [period, setPeriod] = useState<Period>('all');
   const [category, setCategory] = useState<Category>('all');
+  const [outageStats, setOutageStats] = useState<OutageStats | null>(null);
+  const [incidentStats, setIncidentStats] = useState<IncidentStats | null>(null);
+  const [durations, setDurations] = useState<DurationStats | null>(null);
+  const [areaLevel, setAreaLevel] = useState<AreaLevel>('region');
+  const [trendDays, setTrendDays] = useState(30);
+  const [trendRegion, setTrendRegion] = useState<string | null>(null);
+  const [trend, setTrend] = useState<StatSeries | null>(null);
+  const [heatType, setHeatType] = useState<string | null>(null);
+  const [heatRegion, setHeatRegion] = useState<string | null>(null);
+  const [heatVille, setHeatVille] = useState<string | null>(null);
+  const [heatmap, setHeatmap] = useState<OutageHeatmap | null>(null);
+  const { width: windowWidth } = useWindowDimensions();
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
-  const filteredOutages = useMemo(() => {
-    if (period === 'all') return outages;
-    const now = Date.now();
-    const cutoff = period === 'week' ? now - 7 * 86400000 : now - 30 * 86400000;
-    return outages.filter(o => new Date(o.date).getTime() > cutoff);
-  }, [outages, period]);
+  useEffect(() => {
+    let cancelled = false;
+    // Counted per UTC day on the server, today included.
+    const from = period === 'all' ? undefined : new Date(Date.now() - ((period === 'week' ? 7 : 30) - 1) * 86400000).toISOString().slice(0, 10);
+    fetchOutageStats({ from })
+      .then(data => { if (!cancelled) setOutageStats(data); })
+      .catch(() => { if (!cancelled) setOutageStats(null); });
+    fetchIncidentStats({ from })
+      .then(data => { if (!cancelled) setIncidentStats(data); })
+      .catch(() => { if (!cancelled) setIncidentStats(null); });
+    return () => { cancelled = true; };
+  }, [period]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = period === 'all' ? undefined : new Date(Date.now() - (period === 'week' ? 7 : 30) * 86400000).toISOString();
+    fetchDurationStats({ from })
+      .then(data => { if (!cancelled) setDurations(data); })
+      .catch(() => { if (!cancelled) setDurations(null); });
+    return () => { cancelled = true; };
+  }, [period]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = new Date(Date.now() - (trendDays - 1) * 86400000).toISOString().slice(0, 10);
+    fetchStatSeries({ entity: 'outage', from, region: trendRegion || undefined })
+      .then(data => { if (!cancelled) setTrend(data); })
+      .catch(() => { if (!cancelled) setTrend(null); });
+    return () => { cancelled = true; };
+  }, [trendDays, trendRegion]);
 
-  const filteredIncidents = useMemo(() => {
-    if (period === 'all') return incidents;
-    const now = Date.now();
-    const cutoff = period === 'week' ? now - 7 * 86400000 : now - 30 * 86400000;
-    return incidents.filter(i => new Date(i.date).getTime() > cutoff);
-  }, [incidents, period]);
+  useEffect(() => {
+    let cancelled = false;
+    fetchOutageHeatmap({ region: heatRegion || undefined, ville: heatVille || undefined, type: heatType || undefined })
+      .then(data => { if (!cancelled) setHeatmap(data); })
+      .catch(() => { if (!cancelled) setHeatmap(null); });
+    return () => { cancelled = true; };
+  }, [heatType, heatRegion, heatVille]);
 
   const outagePieData = useMemo(() => {
-    const counts = { water: 0, electricity: 0, internet: 0 };
-    filteredOutages.forEach(o => counts[o.type]++);
+    const counts = outageStats?.byType || {};
     return [
-      { label: t.water, value: counts.water, color: Colors.water },
-      { label: t.electricity, value: counts.electricity, color: Colors.electricity },
-      { label: t.internet, value: counts.internet, color: Colors.internet },
+      { label: t.water, value: counts.water || 0, color: Colors.water },
+      { label: t.electricity, value: counts.electricity || 0, color: Colors.electricity },
+      { label: t.internet, value: counts.internet || 0, color: Colors.internet },
     ];
-  }, [filteredOutages, t]);
+  }, [outageStats, t]);
 
   const incidentPieData = useMemo(() => {
-    const counts = { broken_pipe: 0, fallen_pole: 0, cable_on_ground: 0, other: 0 };
-    filteredIncidents.forEach(i => counts[i.incidentType]++);
+    const counts = incidentStats?.byType || {};
     return [
-      { label: t.brokenPipe, value: counts.broken_pipe, color: Colors.water },
-      { label: t.fallenPole, value: counts.fallen_pole, color: Colors.electricity },
-      { label: t.cableOnGround, value: counts.cable_on_ground, color: Colors.internet },
-      { label: t.otherIncident, value: counts.other, color: Colors.accent },
+      { label: t.brokenPipe, value: counts.broken_pipe || 0, color: Colors.water },
+      { label: t.fallenPole, value: counts.fallen_pole || 0, color: Colors.electricity },
+      { label: t.cableOnGround, value: counts.cable_on_ground || 0, color: Colors.internet },
+      { label: t.otherIncident, value: counts.other || 0, color: Colors.accent },
     ];
-  }, [filteredIncidents, t]);
+  }, [incidentStats, t]);
 
   const combinedPieData = useMemo(() => {
     if (category === 'outages') return outagePieData;
@@ -69,18 +136,17 @@ export default function StatsScreen() {
     const counts: Record<string, number> = {};
     regions.forEach(r => counts[r] = 0);
 
-    if (category === 'outages' || category === 'all') {
-      filteredOutages.forEach(o => { if (counts[o.region] !== undefined) counts[o.region]++; });
-    }
-    if (category === 'incidents' || category === 'all') {
-      filteredIncidents.forEach(i => { if (counts[i.region] !== undefined) counts[i.region]++; });
-    }
+    const add = (byRegion: Record<string, number> = {}) => {
+      Object.entries(byRegion).forEach(([r, n]) => { if (counts[r] !== undefined) counts[r] += n; });
+    };
+    if (category === 'outages' || category === 'all') add(outageStats?.byRegion);
+    if (category === 'incidents' || category === 'all') add(incidentStats?.byRegion);
 
     return regions.map(r => ({ label: r, value: counts[r], color: Colors.accent })).filter(d => d.value > 0);
-  }, [filteredOutages, filteredIncidents, regions, category]);
+  }, [outageStats, incidentStats, regions, category]);
 
-  const totalOutages = filteredOutages.length;
-  const totalIncidents = filteredIncidents.length;
+  const totalOutages = outageStats?.total ?? 0;
+  const totalIncidents = incidentStats?.total ?? 0;
 
   const displayTotal = useMemo(() => {
     if (category === 'outages') return totalOutages;
@@ -90,25 +156,17 @@ export default function StatsScreen() {
 
   const displayActive = useMemo(() => {
     let count = 0;
-    if (category === 'outages' || category === 'all') {
-      count += filteredOutages.filter(o => !o.estRetablie).length;
-    }
-    if (category === 'incidents' || category === 'all') {
-      count += filteredIncidents.filter(i => !i.estResolue).length;
-    }
+    if (category === 'outages' || category === 'all') count += outageStats?.active ?? 0;
+    if (category === 'incidents' || category === 'all') count += incidentStats?.active ?? 0;
     return count;
-  }, [category, filteredOutages, filteredIncidents]);
+  }, [category, outageStats, incidentStats]);
 
   const displayRestored = useMemo(() => {
     let count = 0;
-    if (category === 'outages' || category === 'all') {
-      count += filteredOutages.filter(o => o.estRetablie).length;
-    }
-    if (category === 'incidents' || category === 'all') {
-      count += filteredIncidents.filter(i => i.estResolue).length;
-    }
+    if (category === 'outages' || category === 'all') count += outageStats?.restored ?? 0;
+    if (category === 'incidents' || category === 'all') count += incidentStats?.resolved ?? 0;
     return count;
-  }, [category, filteredOutages, filteredIncidents]);
+  }, [category, outageStats, incidentStats]);
 
   const pieChartTitle = useMemo(() => {
     if (category === 'incidents') return t.incidents + ' - ' + t.outagesByType;
@@ -117,6 +175,59 @@ export default function StatsScreen() {
 
   const hasData = displayTotal > 0;
 
+  const distributionData = useMemo(() => (durations?.distribution || []).map(d => ({
+    label: (t.durationBuckets as Record<string, string>)[d.bucket] || d.bucket,
+    value: d.count,
+    color: Colors.accent,
+  })), [durations, t]);
+
+  const hoursWithoutRows = useMemo(() => {
+    if (!durations) return [];
+    const areas = areaLevel === 'region' ? durations.byRegion : areaLevel === 'ville' ? durations.byVille : durations.byQuartier;
+    return areas.slice(0, 10).map(a => ({
+      label: a.area,
+      sublabel: a.parent || undefined,
+      segments: Object.entries(a.hoursWithout).map(([type, value]) => ({ value, color: typeColors[type] || Colors.accent })),
+    }));
+  }, [durations, areaLevel]);
+
+  const mttrBarData = useMemo(() => (durations?.byRegion || [])
+    .filter(r => r.mttrHours !== null)
+    .map(r => ({ label: r.area, value: Math.round(r.mttrHours!), color: Colors.success })), [durations]);
+
+  const trendChart = useMemo(() => {
+    const points = trend?.points || [];
+    const spikes = findSpikes(points.map(p => p.reported));
+    return {
+      labels: points.map(p => p.day.slice(8, 10) + '/' + p.day.slice(5, 7)),
+      series: Object.entries(typeColors).map(([type, color]) => ({
+        label: t[type as 'water' | 'electricity' | 'internet'],
+        color,
+        values: points.map(p => p.byType[type] || 0),
+      })),
+      spikes,
+      spikeCount: spikes.filter(Boolean).length,
+      empty: points.every(p => p.reported === 0),
+    };
+  }, [trend, t]);
+
+  const heatVilles = useMemo(() => {
+    if (!heatRegion) return [];
+    const villes = new Set<string>();
+    outages.forEach(o => { if (o.region === heatRegion && o.ville && o.ville !== 'N/A') villes.add(o.ville); });
+    return Array.from(villes).sort();
+  }, [outages, heatRegion]);
+
+  const heatPeak = useMemo(() => {
+    let peak = { day: 0, hour: 0, value: 0 };
+    heatmap?.cells.forEach((row, day) => row.forEach((value, hour) => {
+      if (value > peak.value) peak = { day, hour, value };
+    }));
+    return peak.value > 0 ? peak : null;
+  }, [heatmap]);
+
+  const formatHours = (hours: number | null) => hours === null ? '—' : `${hours} ${t.hoursShort}`;
+
   const categoryButtons: { key: Category; label: string }[] = [
     { key: 'outages', label: t.outages },
     { key: 'incidents', label: t.incidents },
@@ -203,7 +314,185 @@ export default function StatsScreen() {
           )}
         </Animated.View>
 
-        <Animated.View entering={FadeInDown.delay(400)}>
+        {category !== 'incidents' && (
+          <Animated.View entering={FadeInDown.delay(320)} style={styles.card}>
+            <Text style={styles.cardTitle}>{t.dailyTrend}</Text>
+            <View style={styles.levelRow}>
+              {TREND_RANGES.map(days => (
+                <Pressable
+                  key={days}
+                  style={[styles.levelBtn, trendDays === days && styles.levelActive]}
+                  onPress={() => { Haptics.selectionAsync(); setTrendDays(days); }}
+                >
+                  <Text style={[styles.levelText, trendDays === days && styles.levelTextActive]}>{t.trendDays.replace('%s', String(days))}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.regionChips}>
+              <FilterChip label={t.allRegions} selected={!trendRegion} onPress={() => setTrendRegion(null)} />
+              {regions.map(r => (
+                <FilterChip key={r} label={r} selected={trendRegion === r} onPress={() => setTrendRegion(r)} />
+              ))}
+            </ScrollView>
+            {!trend || trendChart.empty ? (
+              <View style={styles.emptyChart}>
+                <Ionicons name="trending-up-outline" size={40} color={Colors.textTertiary} />
+                <Text style={styles.emptyChartText}>{t.noTrend}</Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.typeLegend}>
+                  {trendChart.series.map(s => (
+                    <View key={s.label} style={styles.typeLegendItem}>
+                      <View style={[styles.typeLegendDot, { backgroundColor: s.color }]} />
+                      <Text style={styles.typeLegendText}>{s.label}</Text>
+                    </View>
+                  ))}
+                </View>
+                <LineChart
+                  series={trendChart.series}
+                  labels={trendChart.labels}
+                  highlight={trendChart.spikes}
+                  width={windowWidth - 76}
+                />
+                {trendChart.spikeCount > 0 && (
+                  <View style={styles.spikeNote}>
+                    <View style={styles.spikeSwatch} />
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.spikeTitle}>{t.anomalyDays.replace('%s', String(trendChart.spikeCount))}</Text>
+                      <Text style={styles.spikeHint}>{t.anomalyHint}</Text>
+                    </View>
+                  </View>
+                )}
+              </>
+            )}
+          </Animated.View>
+        )}
+
+        {category !== 'incidents' && (
+          <Animated.View entering={FadeInDown.delay(340)} style={styles.card}>
+            <Text style={styles.cardTitle}>{t.outageHeatmap}</Text>
+            <View style={styles.levelRow}>
+              {[null, ...Object.keys(typeColors)].map(type => (
+                <Pressable
+                  key={type ?? 'all'}
+                  style={[styles.levelBtn, heatType === type && styles.levelActive]}
+                  onPress={() => { Haptics.selectionAsync(); setHeatType(type); }}
+                >
+                  <Text style={[styles.levelText, heatType === type && styles.levelTextActive]}>
+                    {type ? t[type as 'water' | 'electricity' | 'internet'] : t.allTypes}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.regionChips}>
+              <FilterChip label={t.allRegions} selected={!heatRegion} onPress={() => { setHeatRegion(null); setHeatVille(null); }} />
+              {regions.map(r => (
+                <FilterChip key={r} label={r} selected={heatRegion === r} onPress={() => { setHeatRegion(r); setHeatVille(null); }} />
+              ))}
+            </ScrollView>
+            {heatVilles.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.regionChips}>
+                <FilterChip label={t.allVilles} selected={!heatVille} onPress={() => setHeatVille(null)} color={Colors.primary} />
+                {heatVilles.map(v => (
+                  <FilterChip key={v} label={v} selected={heatVille === v} onPress={() => setHeatVille(v)} color={Colors.primary} />
+                ))}
+              </ScrollView>
+            )}
+            {!heatmap || !heatPeak ? (
+              <View style={styles.emptyChart}>
+                <Ionicons name="grid-outline" size={40} color={Colors.textTertiary} />
+                <Text style={styles.emptyChartText}>{t.noOutages}</Text>
+              </View>
+            ) : (
+              <>
+                <Heatmap
+                  cells={heatmap.cells}
+                  rowLabels={t.weekdaysShort}
+                  columnLabels={HEATMAP_HOUR_LABELS}
+                  color={heatType ? typeColors[heatType] : Colors.accent}
+                  width={windowWidth - 76}
+                />
+                <Text style={[styles.spikeTitle, styles.heatPeak]}>
+                  {t.heatmapPeak.replace('%s', `${t.weekdaysShort[heatPeak.day]} ${heatPeak.hour}h (${Math.round(heatPeak.value * 100)} %)`)}
+                </Text>
+                <Text style={styles.spikeHint}>{t.heatmapHint}</Text>
+              </>
+            )}
+          </Animated.View>
+        )}
+
+        {category !== 'incidents' && durations && (
+          <>
+            <Animated.View entering={FadeInDown.delay(350)} style={styles.card}>
+              <Text style={styles.cardTitle}>{t.restorationTimes}</Text>
+              {durations.overall.restored === 0 ? (
+                <View style={styles.emptyChart}>
+                  <Ionicons name="time-outline" size={40} color={Colors.textTertiary} />
+                  <Text style={styles.emptyChartText}>{t.noDurations}</Text>
+                </View>
+              ) : (
+                <>
+                  <View style={styles.metricRow}>
+                    <View style={styles.metric}>
+                      <Text style={styles.metricValue}>{formatHours(durations.overall.mttrHours)}</Text>
+                      <Text style={styles.metricLabel}>{t.mttr}</Text>
+                    </View>
+                    <View style={styles.metric}>
+                      <Text style={styles.metricValue}>{formatHours(durations.overall.medianHours)}</Text>
+                      <Text style={styles.metricLabel}>{t.median}</Text>
+                    </View>
+                    <View style={styles.metric}>
+                      <Text style={styles.metricValue}>{formatHours(durations.overall.p90Hours)}</Text>
+                      <Text style={styles.metricLabel}>{t.p90}</Text>
+                    </View>
+                  </View>
+                  <Text style={styles.cardSubtitle}>{t.durationDistribution}</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <BarChart data={distributionData} height={180} />
+                  </ScrollView>
+                </>
+              )}
+            </Animated.View>
+
+            {hoursWithoutRows.length > 0 && (
+              <Animated.View entering={FadeInDown.delay(380)} style={styles.card}>
+                <Text style={styles.cardTitle}>{t.hoursWithoutService}</Text>
+                <View style={styles.levelRow}>
+                  {(['region', 'ville', 'quartier'] as AreaLevel[]).map(level => (
+                    <Pressable
+                      key={level}
+                      style={[styles.levelBtn, areaLevel === level && styles.levelActive]}
+                      onPress={() => { Haptics.selectionAsync(); setAreaLevel(level); }}
+                    >
+                      <Text style={[styles.levelText, areaLevel === level && styles.levelTextActive]}>{t.areaLevels[level]}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <View style={styles.typeLegend}>
+                  {Object.entries(typeColors).map(([type, color]) => (
+                    <View key={type} style={styles.typeLegendItem}>
+                      <View style={[styles.typeLegendDot, { backgroundColor: color }]} />
+                      <Text style={styles.typeLegendText}>{t[type as 'water' | 'electricity' | 'internet']}</Text>
+                    </View>
+                  ))}
+                </View>
+                <StackedBarList rows={hoursWithoutRows} unit={` ${t.hoursShort}`} />
+              </Animated.View>
+            )}
+
+            {mttrBarData.length > 0 && (
+              <Animated.View entering={FadeInDown.delay(400)} style={styles.card}>
+                <Text style={styles.cardTitle}>{t.mttrByRegion}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <BarChart data={mttrBarData} height={200} />
+                </ScrollView>
+              </Animated.View>
+            )}
+          </>
+        )}
+
+        <Animated.View entering={FadeInDown.delay(450)}>
           <Pressable
             onPress={() => { Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium); router.push('/pdf-report'); }}
             style={({ pressed }) => [styles.pdfBtn, pressed && { opacity: 0.9, transform: [{ scale: 0.98 }] }]}
@@ -259,6 +548,29 @@ const styles = StyleSheet.create({
     shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 4 }, shadowOpacity: 1, shadowRadius: 12, elevation: 3,
   },
   cardTitle: { fontSize: 16, fontFamily: 'Nunito_700Bold', color: Colors.text, marginBottom: 16 },
+  cardSubtitle: { fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary, marginTop: 18, marginBottom: 8 },
+  metricRow: { flexDirection: 'row', gap: 10 },
+  metric: { flex: 1, alignItems: 'center', backgroundColor: Colors.background, borderRadius: 14, paddingVertical: 12 },
+  metricValue: { fontSize: 18, fontFamily: 'Nunito_800ExtraBold', color: Colors.text },
+  metricLabel: { fontSize: 11, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary, marginTop: 2 },
+  levelRow: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  levelBtn: {
+    flex: 1, paddingVertical: 8, borderRadius: 12, backgroundColor: Colors.cardBg,
+    alignItems: 'center', borderWidth: 1.5, borderColor: Colors.border,
+  },
+  levelActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  levelText: { fontSize: 12, fontFamily: 'Nunito_700Bold', color: Colors.textSecondary },
+  levelTextActive: { color: '#FFF' },
+  typeLegend: { flexDirection: 'row', gap: 14, marginBottom: 14 },
+  typeLegendItem: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  typeLegendDot: { width: 10, height: 10, borderRadius: 5 },
+  typeLegendText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  regionChips: { paddingBottom: 14 },
+  spikeNote: { flexDirection: 'row', alignItems: 'center', gap: 10, marginTop: 12 },
+  spikeSwatch: { width: 14, height: 14, borderRadius: 4, backgroundColor: Colors.accent, opacity: 0.35 },
+  spikeTitle: { fontSize: 13, fontFamily: 'Nunito_700Bold', color: Colors.text },
+  spikeHint: { fontSize: 11, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
+  heatPeak: { marginTop: 12 },
   emptyChart: { alignItems: 'center', paddingVertical: 30, gap: 8 },
   emptyChartText: { fontSize: 13, fontFamily: 'Nunito_400Regular', color: Colors.textTertiary },
   pdfBtn: { borderRadius: 18, overflow: 'hidden', marginBottom: 14 },
@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Alert, ActivityIndicator, FlatList } from 'react-native';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Alert, ActivityIndicator, FlatList, Linking } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
+import { Image } from 'expo-image';
 import * as Haptics from 'expo-haptics';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import Colors from '@/constants/colors';
@@ -10,49 +11,79 @@ import { useI18n } from '@/lib/i18n';
 import { useAuth } from '@/lib/auth-store';
 import { useOutages } from '@/lib/outage-store';
 import {
-  listAllUsers,
-  deleteUserDoc,
-  setUserAdminStatus,
-  deleteOutageDoc,
-  updateOutageDoc,
-  type UserProfile,
-} from '@/lib/appwrite';
+  deleteOutage,
+  deleteUser,
+  fetchReviewQueue,
+  fetchUsers,
+  reviewMedia,
+  setOutageStatus,
+  setUserAdmin,
+  type AdminUser,
+  type ReviewItem,
+} from '@/lib/api';
 
-type Tab = 'users' | 'outages';
-
-interface AdminUser {
-  id: string;
-  phone: string;
-  displayName: string;
-  isAdmin: boolean;
-}
+type Tab = 'users' | 'outages' | 'photos';
+type ReviewQueue = 'held' | 'blurred';
 
 export default function AdminScreen() {
   const insets = useSafeAreaInsets();
   const { t } = useI18n();
   const { user } = useAuth();
-  const { outages, removeOutage } = useOutages();
+  const { outages, removeOutage, refreshOutages, loadMoreOutages, hasMoreOutages } = useOutages();
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
   const [tab, setTab] = useState<Tab>('users');
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [usersCursor, setUsersCursor] = useState<string | null>(null);
+  const loadingMoreUsers = useRef(false);
+  const [queue, setQueue] = useState<ReviewQueue>('held');
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const [loadingReview, setLoadingReview] = useState(false);
 
-  const fetchUsers = useCallback(async () => {
+  const loadUsers = useCallback(async () => {
     setLoadingUsers(true);
     try {
-      const data = await listAllUsers();
-      setUsers(data);
+      const page = await fetchUsers();
+      setUsers(page.items);
+      setUsersCursor(page.nextCursor);
     } catch {
     } finally {
       setLoadingUsers(false);
     }
   }, []);
 
+  const loadMoreUsers = useCallback(async () => {
+    if (!usersCursor || loadingMoreUsers.current) return;
+    loadingMoreUsers.current = true;
+    try {
+      const page = await fetchUsers(usersCursor);
+      setUsers(prev => [...prev, ...page.items.filter(u => !prev.some(p => p.id === u.id))]);
+      setUsersCursor(page.nextCursor);
+    } catch {
+    } finally {
+      loadingMoreUsers.current = false;
+    }
+  }, [usersCursor]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const loadReview = useCallback(async () => {
+    setLoadingReview(true);
+    try {
+      setReviewItems(await fetchReviewQueue(queue));
+    } catch {
+    } finally {
+      setLoadingReview(false);
+    }
+  }, [queue]);
+
   useEffect(() => {
-    fetchUsers();
-  }, [fetchUsers]);
+    if (tab === 'photos') loadReview();
+  }, [tab, loadReview]);
 
   const handleDeleteUser = (userId: string, phone: string) => {
     Alert.alert(
@@ -66,7 +97,7 @@ export default function AdminScreen() {
           onPress: async () => {
             setActionLoading(userId);
             try {
-              await deleteUserDoc(userId);
+              await deleteUser(userId);
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
               setUsers(prev => prev.filter(u => u.id !== userId));
             } catch {
@@ -83,7 +114,7 @@ export default function AdminScreen() {
   const handleToggleAdmin = async (userId: string, currentIsAdmin: boolean) => {
     setActionLoading(userId);
     try {
-      const updated = await setUserAdminStatus(userId, !currentIsAdmin);
+      const updated = await setUserAdmin(userId, !currentIsAdmin);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setUsers(prev => prev.map(u => u.id === userId ? { ...u, isAdmin: updated.isAdmin } : u));
     } catch {
@@ -105,7 +136,7 @@ export default function AdminScreen() {
           onPress: async () => {
             setActionLoading(outageId);
             try {
-              await deleteOutageDoc(outageId);
+              await deleteOutage(outageId);
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
               removeOutage(outageId);
             } catch {
@@ -119,11 +150,12 @@ export default function AdminScreen() {
     );
   };
 
-  const handleRestoreOutage = async (outageId: string) => {
+  const handleSetStatus = async (outageId: string, status: 'restored' | 'rejected') => {
     setActionLoading(outageId);
     try {
-      await updateOutageDoc(outageId, { estRetablie: true, dateRetablissement: new Date().toISOString() });
+      await setOutageStatus(outageId, status);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await refreshOutages();
     } catch {
       Alert.alert('Error');
     } finally {
@@ -131,6 +163,25 @@ export default function AdminScreen() {
     }
   };
 
+  const handleReview = async (mediaId: string, decision: 'approve' | 'reject') => {
+    setActionLoading(mediaId);
+    try {
+      await reviewMedia(mediaId, decision);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setReviewItems(prev => prev.filter(m => m.mediaId !== mediaId));
+    } catch {
+      Alert.alert('Error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const reasonLabel = (reason: string) => {
+    if (reason === 'nsfw') return t.reasonNsfw;
+    if (reason === 'video') return t.reasonVideo;
+    return t.reasonUnchecked;
+  };
+
   const getTypeColor = (type: string) => {
     if (type === 'water') return Colors.water;
     if (type === 'electricity') return Colors.electricity;
@@ -162,7 +213,7 @@ export default function AdminScreen() {
         >
           <Ionicons name="people" size={18} color={tab === 'users' ? '#FFF' : Colors.textSecondary} />
           <Text style={[styles.tabText, tab === 'users' && styles.tabTextActive]}>
-            {t.manageUsers} ({users.length})
+            {t.manageUsers} ({users.length}{usersCursor ? '+' : ''})
           </Text>
         </Pressable>
         <Pressable
@@ -171,9 +222,16 @@ export default function AdminScreen() {
         >
           <Ionicons name="alert-circle" size={18} color={tab === 'outages' ? '#FFF' : Colors.textSecondary} />
           <Text style={[styles.tabText, tab === 'outages' && styles.tabTextActive]}>
-            {t.manageOutages} ({outages.length})
+            {t.manageOutages} ({outages.length}{hasMoreOutages ? '+' : ''})
           </Text>
         </Pressable>
+        <Pressable
+          style={[styles.tabBtn, tab === 'photos' && styles.tabActive]}
+          onPress={() => setTab('photos')}
+        >
+          <Ionicons name="images" size={18} color={tab === 'photos' ? '#FFF' : Colors.textSecondary} />
+          <Text style={[styles.tabText, tab === 'photos' && styles.tabTextActive]}>{t.reviewMedia}</Text>
+        </Pressable>
       </Animated.View>
 
       {tab === 'users' ? (
@@ -187,6 +245,8 @@ export default function AdminScreen() {
             keyExtractor={item => item.id}
             contentContainerStyle={[styles.listContent, { paddingBottom: 40 + insets.bottom + (Platform.OS === 'web' ? 34 : 0) }]}
             showsVerticalScrollIndicator={false}
+            onEndReached={loadMoreUsers}
+            onEndReachedThreshold={0.5}
             renderItem={({ item, index }) => (
               <Animated.View entering={FadeInDown.delay(index * 40).springify()}>
                 <View style={styles.userCard}>
@@ -244,12 +304,14 @@ export default function AdminScreen() {
             )}
           />
         )
-      ) : (
+      ) : tab === 'outages' ? (
         <FlatList
           data={outages}
           keyExtractor={item => item.id}
           contentContainerStyle={[styles.listContent, { paddingBottom: 40 + insets.bottom + (Platform.OS === 'web' ? 34 : 0) }]}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMoreOutages}
+          onEndReachedThreshold={0.5}
           renderItem={({ item, index }) => (
             <Animated.View entering={FadeInDown.delay(Math.min(index, 10) * 40).springify()}>
               <View style={styles.outageCard}>
@@ -273,7 +335,7 @@ export default function AdminScreen() {
                   {!item.estRetablie && (
                     <Pressable
                       style={({ pressed }) => [styles.actionBtn, styles.restoreBtn, pressed && { opacity: 0.7 }]}
-                      onPress={() => handleRestoreOutage(item.id)}
+                      onPress={() => handleSetStatus(item.id, 'restored')}
                       disabled={actionLoading === item.id}
                     >
                       {actionLoading === item.id ? (
@@ -286,6 +348,15 @@ export default function AdminScreen() {
                       )}
                     </Pressable>
                   )}
+                  {!item.estRetablie && (
+                    <Pressable
+                      style={({ pressed }) => [styles.actionBtn, styles.deleteBtn, pressed && { opacity: 0.7 }]}
+                      onPress={() => handleSetStatus(item.id, 'rejected')}
+                      disabled={actionLoading === item.id}
+                    >
+                      <Ionicons name="close-circle-outline" size={16} color={Colors.internet} />
+                    </Pressable>
+                  )}
                   <Pressable
                     style={({ pressed }) => [styles.actionBtn, styles.deleteBtn, pressed && { opacity: 0.7 }]}
                     onPress={() => handleDeleteOutage(item.id)}
@@ -304,6 +375,97 @@ export default function AdminScreen() {
             </View>
           )}
         />
+      ) : (
+        <>
+          <View style={styles.queueRow}>
+            {(['held', 'blurred'] as const).map(q => (
+              <Pressable key={q} style={[styles.queueChip, queue === q && styles.queueChipActive]} onPress={() => setQueue(q)}>
+                <Text style={[styles.queueChipText, queue === q && styles.queueChipTextActive]}>
+                  {q === 'held' ? t.reviewHeld : t.reviewBlurred}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          {loadingReview ? (
+            <View style={styles.loader}>
+              <ActivityIndicator size="large" color={Colors.accent} />
+            </View>
+          ) : (
+            <FlatList
+              data={reviewItems}
+              keyExtractor={item => item.mediaId}
+              contentContainerStyle={[styles.listContent, { paddingBottom: 40 + insets.bottom + (Platform.OS === 'web' ? 34 : 0) }]}
+              showsVerticalScrollIndicator={false}
+              onRefresh={loadReview}
+              refreshing={false}
+              renderItem={({ item, index }) => (
+                <Animated.View entering={FadeInDown.delay(Math.min(index, 10) * 40).springify()}>
+                  <View style={styles.reviewCard}>
+                    <Image
+                      source={{ uri: item.originalUrl ?? item.thumbnailUrl }}
+                      placeholder={{ uri: item.thumbnailUrl }}
+                      placeholderContentFit="cover"
+                      style={styles.reviewImage}
+                      contentFit="cover"
+                    />
+                    <View style={styles.reasonRow}>
+                      {item.reasons.map(reason => (
+                        <View key={reason} style={styles.reasonChip}>
+                          <Text style={styles.reasonText}>{reasonLabel(reason)}</Text>
+                        </View>
+                      ))}
+                      <Text style={styles.reviewMeta}>
+                        {t.facesPlates.replace('%f', String(item.faces)).replace('%p', String(item.plates))}
+                        {item.nsfwScore !== null ? ` · NSFW ${Math.round(item.nsfwScore * 100)}%` : ''}
+                      </Text>
+                    </View>
+                    <View style={styles.outageActions}>
+                      {item.videoUrl && (
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, styles.adminToggleBtn, pressed && { opacity: 0.7 }]}
+                          onPress={() => Linking.openURL(item.videoUrl!)}
+                        >
+                          <Ionicons name="play-circle-outline" size={16} color={Colors.accent} />
+                          <Text style={styles.adminToggleText}>{t.watchVideo}</Text>
+                        </Pressable>
+                      )}
+                      {item.status === 'held' && (
+                        <Pressable
+                          style={({ pressed }) => [styles.actionBtn, styles.restoreBtn, pressed && { opacity: 0.7 }]}
+                          onPress={() => handleReview(item.mediaId, 'approve')}
+                          disabled={actionLoading === item.mediaId}
+                        >
+                          {actionLoading === item.mediaId ? (
+                            <ActivityIndicator size="small" color={Colors.success} />
+                          ) : (
+                            <>
+                              <Ionicons name="checkmark-circle-outline" size={16} color={Colors.success} />
+                              <Text style={styles.restoreBtnText}>{t.approveMedia}</Text>
+                            </>
+                          )}
+                        </Pressable>
+                      )}
+                      <Pressable
+                        style={({ pressed }) => [styles.actionBtn, styles.deleteBtn, pressed && { opacity: 0.7 }]}
+                        onPress={() => handleReview(item.mediaId, 'reject')}
+                        disabled={actionLoading === item.mediaId}
+                      >
+                        <Ionicons name="close-circle-outline" size={16} color={Colors.internet} />
+                        <Text style={styles.rejectText}>{t.rejectMedia}</Text>
+                      </Pressable>
+                    </View>
+                  </View>
+                </Animated.View>
+              )}
+              ListEmptyComponent={() => (
+                <View style={styles.emptyState}>
+                  <Ionicons name="images-outline" size={40} color={Colors.textTertiary} />
+                  <Text style={styles.emptyText}>{t.noPendingMedia}</Text>
+                </View>
+              )}
+            />
+          )}
+        </>
       )}
     </View>
   );
@@ -378,6 +540,24 @@ const styles = StyleSheet.create({
   outageActions: { flexDirection: 'row', gap: 8, marginTop: 10 },
   restoreBtn: { flex: 1, justifyContent: 'center', backgroundColor: Colors.successLight },
   restoreBtnText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.success },
+  queueRow: { flexDirection: 'row', gap: 8, marginHorizontal: 16, marginBottom: 12 },
+  queueChip: {
+    paddingHorizontal: 12, paddingVertical: 6, borderRadius: 12, backgroundColor: Colors.cardBg,
+    borderWidth: 1, borderColor: Colors.border,
+  },
+  queueChipActive: { backgroundColor: Colors.accent + '15', borderColor: Colors.accent },
+  queueChipText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  queueChipTextActive: { color: Colors.accent },
+  reviewCard: {
+    backgroundColor: Colors.cardBg, borderRadius: 16, padding: 12, marginBottom: 10,
+    shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  reviewImage: { width: '100%', height: 220, borderRadius: 12, backgroundColor: Colors.borderLight },
+  reasonRow: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 6, marginTop: 10 },
+  reasonChip: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 8, backgroundColor: Colors.internetLight },
+  reasonText: { fontSize: 10, fontFamily: 'Nunito_700Bold', color: Colors.internet },
+  reviewMeta: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
+  rejectText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.internet },
   emptyState: { alignItems: 'center', paddingVertical: 60, gap: 12 },
   emptyText: { fontSize: 14, fontFamily: 'Nunito_600SemiBold', color: Colors.textTertiary },
 });
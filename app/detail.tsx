@@ -1,9 +1,8 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Share, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import Animated, { FadeInDown, ZoomIn } from 'react-native-reanimated';
@@ -11,6 +10,10 @@ import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useOutages } from '@/lib/outage-store';
 import { formatTimeAgo } from '@/components/OutageCard';
+import OutageTimeline from '@/components/OutageTimeline';
+import RestorationVotes from '@/components/RestorationVotes';
+import MediaGallery from '@/components/MediaGallery';
+import { fetchRestorationVotes, type RestorationTally } from '@/lib/api';
 
 const typeConfig = {
   water: { icon: 'water' as const, color: Colors.water, gradientColors: [Colors.water, Colors.waterDark] as [string, string] },
@@ -22,11 +25,21 @@ export default function DetailScreen() {
   const insets = useSafeAreaInsets();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { t } = useI18n();
-  const { outages, confirmOutage, canConfirm, markRestored } = useOutages();
+  const { outages, confirmOutage, canConfirm, markRestored, markStillOut } = useOutages();
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const [tally, setTally] = useState<RestorationTally | null>(null);
 
   const outage = useMemo(() => outages.find(o => o.id === id), [outages, id]);
 
+  useEffect(() => {
+    if (!outage?.synced) return;
+    let cancelled = false;
+    fetchRestorationVotes(outage.id)
+      .then(data => { if (!cancelled) setTally(data); })
+      .catch(() => { });
+    return () => { cancelled = true; };
+  }, [outage?.id, outage?.synced, outage?.status]);
+
   if (!outage) {
     return (
       <View style={[styles.container, styles.center, { paddingTop: insets.top + webTopInset }]}>
@@ -58,9 +71,19 @@ export default function DetailScreen() {
 
   const handleMarkRestored = async () => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    await markRestored(outage.id);
+    const votes = await markRestored(outage.id);
+    if (votes) setTally(votes);
   };
 
+  const handleMarkStillOut = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const votes = await markStillOut(outage.id);
+    if (votes) setTally(votes);
+  };
+
+  const contested = outage.estRetablie || outage.status === 'restoration_claimed';
+  const hasVotes = !!tally && tally.restored + tally.stillOut > 0;
+
   return (
     <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
       <View style={styles.topBar}>
@@ -111,11 +134,33 @@ export default function DetailScreen() {
           <InfoRow icon="time" label={t.date} value={new Date(outage.date).toLocaleString()} sub={formatTimeAgo(outage.date, t)} />
           <View style={styles.divider} />
           <InfoRow icon="navigate" label="GPS" value={`${outage.latitude.toFixed(4)}, ${outage.longitude.toFixed(4)}`} />
+          {(outage.reportCount ?? 1) > 1 && (
+            <>
+              <View style={styles.divider} />
+              <InfoRow icon="people" label={t.reportCount} value={String(outage.reportCount)} />
+            </>
+          )}
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(300).springify()}>
+          <MediaGallery
+            targetType="outage"
+            targetId={outage.id}
+            synced={outage.synced}
+            photoUri={outage.photoUri}
+            photoThumbUri={outage.photoThumbUri}
+          />
         </Animated.View>
 
-        {outage.photoUri && (
-          <Animated.View entering={FadeInDown.delay(300).springify()} style={styles.photoCard}>
-            <Image source={{ uri: outage.photoUri }} style={styles.photo} contentFit="cover" />
+        {outage.synced && tally && (hasVotes || contested) && (
+          <Animated.View entering={FadeInDown.delay(310).springify()}>
+            <RestorationVotes tally={tally} />
+          </Animated.View>
+        )}
+
+        {outage.synced && (
+          <Animated.View entering={FadeInDown.delay(320).springify()}>
+            <OutageTimeline outageId={outage.id} refreshKey={`${outage.status}:${outage.confirmations}`} />
           </Animated.View>
         )}
 
@@ -144,7 +189,7 @@ export default function DetailScreen() {
             </View>
           )}
 
-          {!outage.estRetablie && (
+          {!outage.estRetablie && tally?.myVote !== 'restored' && (
             <Pressable
               style={({ pressed }) => [styles.restoreBtn, pressed && { opacity: 0.85 }]}
               onPress={handleMarkRestored}
@@ -153,6 +198,16 @@ export default function DetailScreen() {
               <Text style={styles.restoreBtnText}>{t.markRestored}</Text>
             </Pressable>
           )}
+
+          {contested && outage.status !== 'rejected' && tally?.myVote !== 'still_out' && (
+            <Pressable
+              style={({ pressed }) => [styles.stillOutBtn, pressed && { opacity: 0.85 }]}
+              onPress={handleMarkStillOut}
+            >
+              <Ionicons name="alert-circle" size={20} color={Colors.accent} />
+              <Text style={styles.stillOutBtnText}>{t.markStillOut}</Text>
+            </Pressable>
+          )}
         </Animated.View>
       </ScrollView>
     </View>
@@ -223,8 +278,6 @@ const styles = StyleSheet.create({
   infoValue: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: Colors.text, marginTop: 2 },
   infoSub: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary, marginTop: 1 },
   divider: { height: 1, backgroundColor: Colors.borderLight },
-  photoCard: { borderRadius: 20, overflow: 'hidden', marginBottom: 16 },
-  photo: { width: '100%', height: 250, borderRadius: 20 },
   actionsSection: { gap: 12 },
   confirmBtn: { borderRadius: 18, overflow: 'hidden' },
   confirmGradient: {
@@ -242,4 +295,10 @@ const styles = StyleSheet.create({
     borderWidth: 1.5, borderColor: Colors.success,
   },
   restoreBtnText: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: Colors.success },
+  stillOutBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    backgroundColor: Colors.cardBg, paddingVertical: 14, borderRadius: 18,
+    borderWidth: 1.5, borderColor: Colors.accent,
+  },
+  stillOutBtnText: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: Colors.accent },
 });
@@ -3,7 +3,6 @@ import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Share, Alert }
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
-import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import Animated, { FadeInDown } from 'react-native-reanimated';
@@ -11,6 +10,7 @@ import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useIncidents, IncidentType } from '@/lib/incident-store';
 import { formatTimeAgo } from '@/components/OutageCard';
+import MediaGallery from '@/components/MediaGallery';
 
 const incidentTypeConfig: Record<IncidentType, {
   icon: string;
@@ -157,11 +157,15 @@ export default function IncidentDetailScreen() {
           ) : null}
         </Animated.View>
 
-        {incident.photoUri && (
-          <Animated.View entering={FadeInDown.delay(300).springify()} style={styles.photoCard}>
-            <Image source={{ uri: incident.photoUri }} style={styles.photo} contentFit="cover" />
-          </Animated.View>
-        )}
+        <Animated.View entering={FadeInDown.delay(300).springify()}>
+          <MediaGallery
+            targetType="incident"
+            targetId={incident.id}
+            synced={incident.synced}
+            photoUri={incident.photoUri}
+            photoThumbUri={incident.photoThumbUri}
+          />
+        </Animated.View>
 
         <Animated.View entering={FadeInDown.delay(350).springify()} style={styles.actionsSection}>
           {!incident.estResolue && confirmable && (
@@ -267,8 +271,6 @@ const styles = StyleSheet.create({
   infoValue: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: Colors.text, marginTop: 2 },
   infoSub: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary, marginTop: 1 },
   divider: { height: 1, backgroundColor: Colors.borderLight },
-  photoCard: { borderRadius: 20, overflow: 'hidden', marginBottom: 16 },
-  photo: { width: '100%', height: 250, borderRadius: 20 },
   actionsSection: { gap: 12 },
   confirmBtn: { borderRadius: 18, overflow: 'hidden' },
   confirmGradient: {
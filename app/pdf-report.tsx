@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, Platform, ActivityIndicator, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
@@ -11,9 +11,29 @@ import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useOutages } from '@/lib/outage-store';
 import { useIncidents } from '@/lib/incident-store';
+import {
+  fetchIncidentStats,
+  fetchOutageHeatmap,
+  fetchOutageStats,
+  type IncidentStats,
+  type OutageHeatmap,
+  type OutageStats,
+} from '@/lib/api';
 
 type PeriodKey = '24h' | '7d' | '30d' | 'all';
 
+const HEATMAP_DAYS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
+
+// Same accent as the app (#FF5722), one shade per cell.
+function heatmapTable(heatmap: OutageHeatmap): string {
+  const header = Array.from({ length: 24 }, (_, h) => `<th>${h}</th>`).join('');
+  const rows = heatmap.cells.map((row, day) => `
+    <tr><th>${HEATMAP_DAYS[day]}</th>${row.map(value =>
+      `<td style="background:rgba(255,87,34,${value > 0 ? (0.15 + 0.85 * value).toFixed(2) : 0})">${value > 0 ? Math.round(value * 100) : ''}</td>`).join('')}</tr>
+  `).join('');
+  return `<table class="heatmap"><tr><th></th>${header}</tr>${rows}</table>`;
+}
+
 interface PeriodOption {
   key: PeriodKey;
   label: string;
@@ -31,6 +51,8 @@ export default function PdfReportScreen() {
   const [selectedPeriod, setSelectedPeriod] = useState<PeriodKey>('7d');
   const [isGenerating, setIsGenerating] = useState(false);
   const [isGenerated, setIsGenerated] = useState(false);
+  const [outageStats, setOutageStats] = useState<OutageStats | null>(null);
+  const [incidentStats, setIncidentStats] = useState<IncidentStats | null>(null);
 
   const periods: PeriodOption[] = [
     { key: '24h', label: '24h', hours: 24 },
@@ -38,6 +60,26 @@ export default function PdfReportScreen() {
     { key: '30d', label: '30j', hours: 720 },
     { key: 'all', label: t.all, hours: null },
   ];
+  const periodHours = periods.find(p => p.key === selectedPeriod)?.hours ?? null;
+
+  // The totals come from the server's counters, which go by UTC day: 24h
+  // covers yesterday and today.
+  useEffect(() => {
+    let cancelled = false;
+    const params = {
+      from: periodHours ? new Date(Date.now() - periodHours * 60 * 60 * 1000).toISOString().slice(0, 10) : undefined,
+      region: selectedRegion || undefined,
+    };
+    Promise.all([fetchOutageStats(params), fetchIncidentStats(params)])
+      .then(([o, i]) => { if (!cancelled) { setOutageStats(o); setIncidentStats(i); } })
+      .catch(() => { if (!cancelled) { setOutageStats(null); setIncidentStats(null); } });
+    return () => { cancelled = true; };
+  }, [selectedRegion, periodHours]);
+
+  const totalOutages = outageStats?.total ?? 0;
+  const totalIncidents = incidentStats?.total ?? 0;
+  const activeCount = (outageStats?.active ?? 0) + (incidentStats?.active ?? 0);
+  const restoredCount = (outageStats?.restored ?? 0) + (incidentStats?.resolved ?? 0);
 
   const allRegions = useMemo(() => {
     const regionSet = new Set<string>();
@@ -86,11 +128,6 @@ export default function PdfReportScreen() {
       const periodOption = periods.find(p => p.key === selectedPeriod);
       const periodLabel = periodOption?.label || '';
 
-      const totalOutages = filteredOutages.length;
-      const totalIncidents = filteredIncidents.length;
-      const activeCount = filteredOutages.filter(o => !o.estRetablie).length + filteredIncidents.filter(i => !i.estResolue).length;
-      const restoredCount = filteredOutages.filter(o => o.estRetablie).length + filteredIncidents.filter(i => i.estResolue).length;
-
       const outageRows = filteredOutages.map(o => `
         <tr>
           <td>${o.type === 'water' ? 'Eau' : o.type === 'electricity' ? 'Electricité' : 'Internet'}</td>
@@ -102,6 +139,9 @@ export default function PdfReportScreen() {
         </tr>
       `).join('');
 
+      // Always over the server's default window, whatever the report period.
+      const heatmap = await fetchOutageHeatmap({ region: regionName }).catch(() => null);
+
       const incidentRows = filteredIncidents.map(i => `
         <tr>
           <td>${i.incidentType === 'broken_pipe' ? 'Tuyau cassé' : i.incidentType === 'fallen_pole' ? 'Poteau tombé' : i.incidentType === 'cable_on_ground' ? 'Câble au sol' : 'Autre'}</td>
@@ -128,6 +168,9 @@ export default function PdfReportScreen() {
     .stat-number { font-size: 24px; font-weight: bold; color: #1B2838; }
     .stat-label { font-size: 12px; color: #666; }
     tr:nth-child(even) { background: #f9f9f9; }
+    .heatmap th, .heatmap td { padding: 2px; text-align: center; font-size: 8px; border: 1px solid #fff; }
+    .heatmap th { background: #fff; color: #666; }
+    .note { font-size: 11px; color: #666; }
   </style>
 </head>
 <body>
@@ -147,6 +190,12 @@ export default function PdfReportScreen() {
     ${outageRows}
   </table>
   
+  ${heatmap && heatmap.outages > 0 ? `
+  <h2>Quand surviennent les coupures</h2>
+  <p class="note">Part des heures (en %) avec une coupure en cours, par jour et heure, sur les 12 dernières semaines (heure du Cameroun).</p>
+  ${heatmapTable(heatmap)}
+  ` : ''}
+
   <h2>Incidents Infrastructure</h2>
   <table>
     <tr><th>Type</th><th>Quartier</th><th>Ville</th><th>Date</th><th>Status</th><th>Confirmations</th></tr>
@@ -202,7 +251,7 @@ export default function PdfReportScreen() {
             </View>
             <Text style={styles.heroTitle}>{t.reportPDF}</Text>
             <Text style={styles.heroSubtitle}>
-              {filteredOutages.length} {t.outages} | {filteredIncidents.length} {t.incidents}
+              {totalOutages} {t.outages} | {totalIncidents} {t.incidents}
             </Text>
           </LinearGradient>
         </Animated.View>
@@ -259,18 +308,18 @@ export default function PdfReportScreen() {
         <Animated.View entering={FadeInDown.delay(350).springify()} style={styles.summaryCard}>
           <View style={styles.summaryRow}>
             <View style={styles.summaryItem}>
-              <Text style={styles.summaryNumber}>{filteredOutages.length}</Text>
+              <Text style={styles.summaryNumber}>{totalOutages}</Text>
               <Text style={styles.summaryLabel}>{t.outages}</Text>
             </View>
             <View style={styles.summaryDivider} />
             <View style={styles.summaryItem}>
-              <Text style={styles.summaryNumber}>{filteredIncidents.length}</Text>
+              <Text style={styles.summaryNumber}>{totalIncidents}</Text>
               <Text style={styles.summaryLabel}>{t.incidents}</Text>
             </View>
             <View style={styles.summaryDivider} />
             <View style={styles.summaryItem}>
               <Text style={[styles.summaryNumber, { color: Colors.accent }]}>
-                {filteredOutages.filter(o => !o.estRetablie).length + filteredIncidents.filter(i => !i.estResolue).length}
+                {activeCount}
               </Text>
               <Text style={styles.summaryLabel}>Actifs</Text>
             </View>
@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Alert, ActivityIndicator, TextInput } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import * as Location from 'expo-location';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import Colors from '@/constants/colors';
+import FilterChip from '@/components/FilterChip';
+import { useI18n } from '@/lib/i18n';
+import { fetchPlaces, createPlace, updatePlace, deletePlace, type SavedPlace, type SavedPlacePayload } from '@/lib/api';
+
+const RADIUS_OPTIONS = [500, 1000, 2000, 5000];
+const OUTAGE_TYPES = ['water', 'electricity', 'internet'] as const;
+const DEFAULT_QUIET = { quietStart: '22:00', quietEnd: '06:00' };
+
+function deviceTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'Africa/Douala';
+  } catch {
+    return 'Africa/Douala';
+  }
+}
+
+function formatRadius(m: number): string {
+  return m >= 1000 ? `${m / 1000} km` : `${m} m`;
+}
+
+function shiftHour(time: string, delta: number): string {
+  const hour = (parseInt(time.slice(0, 2)) + delta + 24) % 24;
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+function HourStepper({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <View style={styles.stepper}>
+      <Pressable onPress={() => onChange(shiftHour(value, -1))} style={styles.stepBtn} hitSlop={6}>
+        <Ionicons name="remove" size={16} color={Colors.text} />
+      </Pressable>
+      <Text style={styles.stepValue}>{value}</Text>
+      <Pressable onPress={() => onChange(shiftHour(value, 1))} style={styles.stepBtn} hitSlop={6}>
+        <Ionicons name="add" size={16} color={Colors.text} />
+      </Pressable>
+    </View>
+  );
+}
+
+export default function PlacesScreen() {
+  const insets = useSafeAreaInsets();
+  const { t } = useI18n();
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [radiusM, setRadiusM] = useState(1000);
+
+  const loadPlaces = useCallback(async () => {
+    try {
+      setPlaces(await fetchPlaces());
+    } catch (e) {
+      console.log('Failed to load places:', e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlaces();
+  }, [loadPlaces]);
+
+  const handleAdd = async () => {
+    if (!name.trim()) return;
+    setAdding(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert(t.locationPermission, t.locationPermissionMsg);
+        return;
+      }
+      const loc = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      const place = await createPlace({
+        name: name.trim(),
+        latitude: loc.coords.latitude,
+        longitude: loc.coords.longitude,
+        radiusM,
+        timezone: deviceTimezone(),
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPlaces(prev => [...prev, place]);
+      setName('');
+    } catch (e: any) {
+      Alert.alert(t.placeSaveFailed, e?.message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // Optimistic: the place is updated right away and rolled back if the server refuses.
+  const handleUpdate = async (place: SavedPlace, data: SavedPlacePayload) => {
+    setPlaces(prev => prev.map(p => p.id === place.id ? { ...p, ...data } : p));
+    try {
+      const saved = await updatePlace(place.id, data);
+      setPlaces(prev => prev.map(p => p.id === place.id ? saved : p));
+    } catch (e: any) {
+      setPlaces(prev => prev.map(p => p.id === place.id ? place : p));
+      Alert.alert(t.placeSaveFailed, e?.message);
+    }
+  };
+
+  const toggleType = (place: SavedPlace, type: string) => {
+    const selected = place.types.length === 0 ? [...OUTAGE_TYPES] : place.types;
+    const next = selected.includes(type) ? selected.filter(x => x !== type) : [...selected, type];
+    if (next.length === 0) return;
+    handleUpdate(place, { types: next.length === OUTAGE_TYPES.length ? [] : next });
+  };
+
+  const handleDelete = (place: SavedPlace) => {
+    Alert.alert(
+      place.name,
+      t.confirmDeletePlace,
+      [
+        { text: t.cancel, style: 'cancel' },
+        {
+          text: t.deletePlace,
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePlace(place.id);
+              setPlaces(prev => prev.filter(p => p.id !== place.id));
+            } catch {
+              Alert.alert('Error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
+      <View style={styles.topBar}>
+        <Pressable onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={22} color={Colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>{t.myPlaces}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 40 + insets.bottom + (Platform.OS === 'web' ? 34 : 0) }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Animated.View entering={FadeInDown.delay(50)} style={styles.card}>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder={t.placeName}
+            placeholderTextColor={Colors.textTertiary}
+            maxLength={60}
+            testID="place-name-input"
+          />
+          <Text style={styles.fieldLabel}>{t.radius}</Text>
+          <View style={styles.chipRow}>
+            {RADIUS_OPTIONS.map(r => (
+              <FilterChip key={r} label={formatRadius(r)} selected={radiusM === r} onPress={() => setRadiusM(r)} />
+            ))}
+          </View>
+          <Pressable
+            style={({ pressed }) => [styles.addBtn, (!name.trim() || adding) && { opacity: 0.5 }, pressed && { opacity: 0.8 }]}
+            onPress={handleAdd}
+            disabled={!name.trim() || adding}
+            testID="add-place-btn"
+          >
+            {adding ? <ActivityIndicator color="#FFF" /> : <Ionicons name="locate" size={18} color="#FFF" />}
+            <Text style={styles.addBtnText}>{t.addPlaceHere}</Text>
+          </Pressable>
+        </Animated.View>
+
+        {loading ? (
+          <ActivityIndicator style={{ marginTop: 30 }} color={Colors.accent} />
+        ) : places.length === 0 ? (
+          <Text style={styles.empty}>{t.placesEmpty}</Text>
+        ) : places.map((place, index) => {
+          const quiet = !!place.quietStart && !!place.quietEnd;
+          return (
+            <Animated.View key={place.id} entering={FadeInDown.delay(100 + index * 50)} style={styles.card}>
+              <View style={styles.placeHeader}>
+                <Ionicons name="location" size={20} color={Colors.accent} />
+                <Text style={styles.placeName}>{place.name}</Text>
+                <Text style={styles.placeRadius}>{formatRadius(place.radiusM)}</Text>
+                <Pressable onPress={() => handleDelete(place)} hitSlop={8} testID={`delete-place-${place.id}`}>
+                  <Ionicons name="trash-outline" size={18} color={Colors.internet} />
+                </Pressable>
+              </View>
+
+              <Text style={styles.fieldLabel}>{t.alertTypes}</Text>
+              <View style={styles.chipRow}>
+                {OUTAGE_TYPES.map(type => (
+                  <FilterChip
+                    key={type}
+                    label={t[type]}
+                    color={Colors[type]}
+                    selected={place.types.length === 0 || place.types.includes(type)}
+                    onPress={() => toggleType(place, type)}
+                  />
+                ))}
+              </View>
+
+              <Text style={styles.fieldLabel}>{t.quietHours}</Text>
+              <View style={styles.chipRow}>
+                <FilterChip
+                  label={quiet ? `${place.quietStart} → ${place.quietEnd}` : t.quietOff}
+                  selected={quiet}
+                  onPress={() => handleUpdate(place, quiet
+                    ? { quietStart: null, quietEnd: null }
+                    : { ...DEFAULT_QUIET, timezone: deviceTimezone() })}
+                />
+              </View>
+              {quiet && (
+                <View style={styles.quietRow}>
+                  <Text style={styles.quietLabel}>{t.quietFrom}</Text>
+                  <HourStepper value={place.quietStart!} onChange={v => handleUpdate(place, { quietStart: v })} />
+                  <Text style={styles.quietLabel}>{t.quietTo}</Text>
+                  <HourStepper value={place.quietEnd!} onChange={v => handleUpdate(place, { quietEnd: v })} />
+                </View>
+              )}
+            </Animated.View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  topBar: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingVertical: 10,
+  },
+  backBtn: {
+    width: 40, height: 40, borderRadius: 20, backgroundColor: Colors.borderLight,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  headerTitle: { fontSize: 18, fontFamily: 'Nunito_700Bold', color: Colors.text },
+  scrollContent: { paddingHorizontal: 18, paddingTop: 8 },
+  card: {
+    backgroundColor: Colors.cardBg, borderRadius: 18, padding: 16, marginTop: 14,
+    shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  input: {
+    borderWidth: 1.5, borderColor: Colors.border, borderRadius: 12,
+    paddingHorizontal: 14, paddingVertical: 10,
+    fontSize: 15, fontFamily: 'Nunito_600SemiBold', color: Colors.text,
+  },
+  fieldLabel: {
+    fontSize: 12, fontFamily: 'Nunito_700Bold', color: Colors.textSecondary,
+    marginTop: 14, marginBottom: 8, textTransform: 'uppercase', letterSpacing: 0.8,
+  },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', rowGap: 8 },
+  addBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    marginTop: 16, paddingVertical: 12, borderRadius: 14, backgroundColor: Colors.accent,
+  },
+  addBtnText: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: '#FFF' },
+  empty: {
+    fontSize: 14, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary,
+    textAlign: 'center', marginTop: 30, paddingHorizontal: 20,
+  },
+  placeHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  placeName: { flex: 1, fontSize: 16, fontFamily: 'Nunito_700Bold', color: Colors.text },
+  placeRadius: { fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  quietRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 10 },
+  quietLabel: { fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  stepper: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    borderRadius: 12, backgroundColor: Colors.background, paddingHorizontal: 6, paddingVertical: 4,
+  },
+  stepBtn: {
+    width: 26, height: 26, borderRadius: 13, backgroundColor: Colors.borderLight,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  stepValue: { fontSize: 14, fontFamily: 'Nunito_700Bold', color: Colors.text, minWidth: 44, textAlign: 'center' },
+});
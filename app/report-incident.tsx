@@ -3,14 +3,15 @@ import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Alert, Activit
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Location from 'expo-location';
-import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
-import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
-import Animated, { FadeInDown, FadeIn, ZoomIn } from 'react-native-reanimated';
+import Animated, { FadeInDown, ZoomIn } from 'react-native-reanimated';
 import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useIncidents, IncidentType } from '@/lib/incident-store';
+import MediaPicker from '@/components/MediaPicker';
+import { splitCover } from '@/lib/media';
+import type { LocalMedia } from '@/lib/api';
 import { router } from 'expo-router';
 
 function normalizeRegion(raw: string): string {
@@ -56,7 +57,7 @@ export default function ReportIncidentScreen() {
   const [quartier, setQuartier] = useState('');
   const [ville, setVille] = useState('');
   const [region, setRegion] = useState('');
-  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [media, setMedia] = useState<LocalMedia[]>([]);
   const [commentaire, setCommentaire] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
@@ -115,24 +116,11 @@ export default function ReportIncidentScreen() {
     }
   };
 
-  const pickImage = async (useCamera: boolean) => {
-    try {
-      if (useCamera) {
-        const perm = await ImagePicker.requestCameraPermissionsAsync();
-        if (!perm.granted) return;
-        const result = await ImagePicker.launchCameraAsync({ quality: 0.7, allowsEditing: true });
-        if (!result.canceled && result.assets[0]) setPhotoUri(result.assets[0].uri);
-      } else {
-        const result = await ImagePicker.launchImageLibraryAsync({ quality: 0.7, allowsEditing: true });
-        if (!result.canceled && result.assets[0]) setPhotoUri(result.assets[0].uri);
-      }
-    } catch { }
-  };
-
   const handleSubmit = async () => {
     if (!selectedType || !coords) return;
     setSubmitting(true);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const { cover, extra } = splitCover(media);
     try {
       await addIncident({
         incidentType: selectedType,
@@ -142,9 +130,9 @@ export default function ReportIncidentScreen() {
         ville: ville || 'N/A',
         region: region || 'N/A',
         date: new Date().toISOString(),
-        photoUri,
+        photoUri: cover,
         commentaire,
-      });
+      }, extra);
       setSubmitted(true);
       setTimeout(() => {
         router.back();
@@ -292,35 +280,7 @@ export default function ReportIncidentScreen() {
 
         <Animated.View entering={FadeInDown.delay(300)}>
           <Text style={styles.sectionLabel}>{t.addPhoto}</Text>
-          {!photoUri ? (
-            <View style={styles.photoActions}>
-              <Pressable
-                style={({ pressed }) => [styles.photoBtn, pressed && styles.photoBtnPressed]}
-                onPress={() => pickImage(true)}
-              >
-                <View style={styles.photoBtnIcon}>
-                  <Ionicons name="camera-outline" size={24} color={Colors.primary} />
-                </View>
-                <Text style={styles.photoBtnText}>{t.takePhoto}</Text>
-              </Pressable>
-              <Pressable
-                style={({ pressed }) => [styles.photoBtn, pressed && styles.photoBtnPressed]}
-                onPress={() => pickImage(false)}
-              >
-                <View style={styles.photoBtnIcon}>
-                  <Ionicons name="images-outline" size={24} color={Colors.primary} />
-                </View>
-                <Text style={styles.photoBtnText}>{t.chooseGallery}</Text>
-              </Pressable>
-            </View>
-          ) : (
-            <Animated.View entering={FadeIn} style={styles.photoPreviewWrap}>
-              <Image source={{ uri: photoUri }} style={styles.photoPreview} contentFit="cover" />
-              <Pressable style={styles.removePhotoBtn} onPress={() => setPhotoUri(null)}>
-                <Ionicons name="close" size={18} color="#FFF" />
-              </Pressable>
-            </Animated.View>
-          )}
+          <MediaPicker media={media} onChange={setMedia} />
         </Animated.View>
 
         <Animated.View entering={FadeInDown.delay(400)}>
@@ -454,20 +414,6 @@ const styles = StyleSheet.create({
   locationMain: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: Colors.text },
   locationSub: { fontSize: 13, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
   coordsText: { fontSize: 11, fontFamily: 'Nunito_400Regular', color: Colors.textTertiary, marginTop: 2 },
-  photoActions: { flexDirection: 'row', gap: 10 },
-  photoBtn: {
-    flex: 1, backgroundColor: Colors.cardBg, borderRadius: 18, paddingVertical: 20, alignItems: 'center',
-    gap: 8, borderWidth: 1.5, borderColor: Colors.border, borderStyle: 'dashed',
-  },
-  photoBtnPressed: { opacity: 0.7, transform: [{ scale: 0.97 }] },
-  photoBtnIcon: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.background, alignItems: 'center', justifyContent: 'center' },
-  photoBtnText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
-  photoPreviewWrap: { borderRadius: 18, overflow: 'hidden', position: 'relative' },
-  photoPreview: { width: '100%', height: 200, borderRadius: 18 },
-  removePhotoBtn: {
-    position: 'absolute', top: 10, right: 10, width: 32, height: 32, borderRadius: 16,
-    backgroundColor: 'rgba(0,0,0,0.5)', alignItems: 'center', justifyContent: 'center',
-  },
   commentCard: {
     backgroundColor: Colors.cardBg, borderRadius: 18, padding: 16,
     shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 4 }, shadowOpacity: 1, shadowRadius: 12, elevation: 3,
@@ -1,5 +1,5 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView, Pressable, Platform } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, Alert, ActivityIndicator } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
@@ -8,6 +8,101 @@ import Animated, { FadeInDown } from 'react-native-reanimated';
 import Colors from '@/constants/colors';
 import { useI18n } from '@/lib/i18n';
 import { useAuth } from '@/lib/auth-store';
+import { useOutages } from '@/lib/outage-store';
+import {
+  deleteAllBundles,
+  deleteBundle,
+  downloadBundle,
+  estimateTileCount,
+  offlineBundlesSupported,
+  offlineTilesAvailable,
+  useOfflineBundles,
+  type DownloadProgress,
+} from '@/lib/offline-bundle';
+
+function formatSize(bytes: number, t: any): string {
+  return `${(bytes / 1048576).toFixed(1)} ${t.megabytes}`;
+}
+
+function OfflineMapsSection() {
+  const { t } = useI18n();
+  const { regions } = useOutages();
+  const bundles = useOfflineBundles();
+  const [progress, setProgress] = useState<Record<string, DownloadProgress>>({});
+
+  if (!offlineBundlesSupported) {
+    return <Text style={styles.offlineNote}>{t.offlineUnavailable}</Text>;
+  }
+
+  const download = async (region: string) => {
+    Haptics.selectionAsync();
+    setProgress(prev => ({ ...prev, [region]: { done: 0, total: 0 } }));
+    try {
+      await downloadBundle(region, p => setProgress(prev => ({ ...prev, [region]: p })));
+    } catch (e: any) {
+      Alert.alert(t.offlineDownloadFailed, e?.message);
+    } finally {
+      setProgress(({ [region]: _done, ...rest }) => rest);
+    }
+  };
+
+  const remove = (region: string) => {
+    Alert.alert(region, t.confirmDeleteOffline, [
+      { text: t.cancel, style: 'cancel' },
+      { text: t.deleteOffline, style: 'destructive', onPress: () => deleteBundle(region) },
+    ]);
+  };
+
+  const totalBytes = bundles.reduce((sum, b) => sum + b.bytes, 0);
+
+  return (
+    <View style={styles.offlineCard}>
+      <Text style={styles.statusSub}>{t.offlineMapsHint}</Text>
+      {!offlineTilesAvailable && <Text style={styles.offlineNote}>{t.offlineDataOnly}</Text>}
+      {regions.map(region => {
+        const bundle = bundles.find(b => b.region === region);
+        const current = progress[region];
+        const detail = bundle
+          ? `${t.offlineUpdated.replace('%s', new Date(bundle.snapshotAt).toLocaleString())} · ${formatSize(bundle.bytes, t)}`
+          : offlineTilesAvailable
+            ? t.offlineTilesEstimate.replace('%s', String(estimateTileCount(region)))
+            : t.offlineNotDownloaded;
+        return (
+          <View key={region} style={styles.offlineRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.offlineRegion}>{region}</Text>
+              <Text style={styles.offlineDetail}>
+                {current && current.total > 0 ? `${Math.round((current.done / current.total) * 100)} %` : detail}
+              </Text>
+            </View>
+            {current ? (
+              <ActivityIndicator size="small" color={Colors.accent} />
+            ) : (
+              <>
+                <Pressable onPress={() => download(region)} hitSlop={8} style={styles.offlineBtn}>
+                  <Ionicons name={bundle ? 'refresh' : 'download-outline'} size={20} color={Colors.primary} />
+                </Pressable>
+                {bundle && (
+                  <Pressable onPress={() => remove(region)} hitSlop={8} style={styles.offlineBtn}>
+                    <Ionicons name="trash-outline" size={20} color={Colors.internet} />
+                  </Pressable>
+                )}
+              </>
+            )}
+          </View>
+        );
+      })}
+      {bundles.length > 0 && (
+        <View style={styles.offlineFooter}>
+          <Text style={styles.offlineDetail}>{t.offlineStorageUsed.replace('%s', formatSize(totalBytes, t))}</Text>
+          <Pressable onPress={() => deleteAllBundles()} disabled={Object.keys(progress).length > 0}>
+            <Text style={styles.offlineDeleteAll}>{t.offlineDeleteAll}</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
@@ -70,6 +165,30 @@ export default function SettingsScreen() {
           </View>
         </Animated.View>
 
+        <Animated.View entering={FadeInDown.delay(75)}>
+          <Text style={styles.sectionLabel}>{t.alerts}</Text>
+          <Pressable
+            style={({ pressed }) => [styles.statusCard, pressed && { opacity: 0.8 }]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              router.push('/places');
+            }}
+            testID="places-btn"
+          >
+            <Ionicons name="notifications" size={24} color={Colors.accent} />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.statusTitle}>{t.myPlaces}</Text>
+              <Text style={styles.statusSub}>{t.myPlacesHint}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={16} color={Colors.textTertiary} />
+          </Pressable>
+        </Animated.View>
+
+        <Animated.View entering={FadeInDown.delay(90)}>
+          <Text style={styles.sectionLabel}>{t.offlineMaps}</Text>
+          <OfflineMapsSection />
+        </Animated.View>
+
         <Animated.View entering={FadeInDown.delay(100)}>
           <Text style={styles.sectionLabel}>{t.language}</Text>
           <View style={styles.langRow}>
@@ -158,4 +277,24 @@ const styles = StyleSheet.create({
   statusTitle: { fontSize: 15, fontFamily: 'Nunito_700Bold', color: Colors.text },
   statusSub: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
   statusDot: { width: 10, height: 10, borderRadius: 5 },
+  offlineCard: {
+    backgroundColor: Colors.cardBg, borderRadius: 18, padding: 16, gap: 4,
+    shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 1, shadowRadius: 8, elevation: 2,
+  },
+  offlineNote: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textTertiary, marginTop: 4 },
+  offlineRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 10,
+    paddingVertical: 10, borderTopWidth: 1, borderTopColor: Colors.borderLight,
+  },
+  offlineRegion: { fontSize: 14, fontFamily: 'Nunito_700Bold', color: Colors.text },
+  offlineDetail: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
+  offlineBtn: {
+    width: 36, height: 36, borderRadius: 18, backgroundColor: Colors.background,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  offlineFooter: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingTop: 10, borderTopWidth: 1, borderTopColor: Colors.borderLight,
+  },
+  offlineDeleteAll: { fontSize: 13, fontFamily: 'Nunito_700Bold', color: Colors.internet },
 });
@@ -0,0 +1,159 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Colors from '@/constants/colors';
+import { useI18n } from '@/lib/i18n';
+import { OutageType } from '@/lib/outage-store';
+import FilterChip from '@/components/FilterChip';
+import { SHADE_LEGEND } from '@/lib/choropleth';
+import type { ViewRegion } from '@/lib/map-clusters';
+import { HOURS_PERIOD_DAYS, typeColors, type MapLayers, type MapViewProps } from '@/lib/map-layers';
+
+// Filters, legend, area summary and locate button drawn over either map.
+export default function MapOverlay({ map, layers, onMoveTo }: {
+  map: MapViewProps;
+  layers: MapLayers;
+  onMoveTo: (region: ViewRegion) => void;
+}) {
+  const insets = useSafeAreaInsets();
+  const { t } = useI18n();
+  const top = insets.top + (Platform.OS === 'web' ? 67 : 0);
+  const bottom = insets.bottom + (Platform.OS === 'web' ? 34 : 0);
+  const { category, setCategory, filterType, setFilterType, userLocation, waterCount, elecCount, netCount, offlineAsOf } = map;
+  const { level, metric, setMetric, maxValue, selectedArea, setSelectedArea, selectedSummary } = layers;
+
+  return (
+    <>
+      <View style={[styles.overlay, { top: top + 10 }]}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          <FilterChip label={t.allEvents} selected={category === 'all'} onPress={() => setCategory('all')} color={Colors.primary} />
+          <FilterChip label={t.outages} selected={category === 'outages'} onPress={() => setCategory('outages')} color={Colors.accent} />
+          <FilterChip label={t.incidents} selected={category === 'incidents'} onPress={() => setCategory('incidents')} color={Colors.electricityDark} />
+        </ScrollView>
+        {(category === 'outages' || category === 'all') && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            <FilterChip label={t.allTypes} selected={!filterType} onPress={() => setFilterType(null)} color={Colors.primary} />
+            <FilterChip label={`${t.water} (${waterCount})`} selected={filterType === 'water'} onPress={() => setFilterType(filterType === 'water' ? null : 'water')} color={Colors.water} />
+            <FilterChip label={`${t.electricity} (${elecCount})`} selected={filterType === 'electricity'} onPress={() => setFilterType(filterType === 'electricity' ? null : 'electricity')} color={Colors.electricityDark} />
+            <FilterChip label={`${t.internet} (${netCount})`} selected={filterType === 'internet'} onPress={() => setFilterType(filterType === 'internet' ? null : 'internet')} color={Colors.internet} />
+          </ScrollView>
+        )}
+        {level && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            <FilterChip label={t.mapActiveMetric} selected={metric === 'active'} onPress={() => setMetric('active')} color={Colors.primary} />
+            <FilterChip label={t.mapHoursMetric} selected={metric === 'hours'} onPress={() => setMetric('hours')} color={Colors.primary} />
+          </ScrollView>
+        )}
+        {offlineAsOf && (
+          <View style={styles.offlineBanner}>
+            <Ionicons name="cloud-offline-outline" size={16} color={Colors.warning} />
+            <Text style={styles.offlineBannerText}>{t.offlineDataAsOf.replace('%s', new Date(offlineAsOf).toLocaleString())}</Text>
+          </View>
+        )}
+      </View>
+
+      {level && maxValue > 0 && !selectedArea && (
+        <View style={[styles.legend, { bottom: 100 + bottom }]}>
+          <View style={styles.legendSwatches}>
+            {SHADE_LEGEND.map(color => <View key={color} style={[styles.legendSwatch, { backgroundColor: color }]} />)}
+          </View>
+          <Text style={styles.legendText}>1 – {maxValue} {metric === 'active' ? t.activeOutages : t.hoursShort}</Text>
+        </View>
+      )}
+
+      {selectedArea && (
+        <View style={[styles.sheet, { bottom: 90 + bottom }]}>
+          <View style={styles.sheetHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.sheetTitle}>{selectedArea.name}</Text>
+              {selectedArea.region && <Text style={styles.sheetSub}>{selectedArea.region}</Text>}
+            </View>
+            <Pressable onPress={() => setSelectedArea(null)} hitSlop={10}>
+              <Ionicons name="close" size={22} color={Colors.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={styles.sheetRow}>
+            {(Object.keys(typeColors) as OutageType[]).map(type => (
+              <View key={type} style={styles.sheetStat}>
+                <Text style={[styles.sheetNumber, { color: typeColors[type] }]}>{selectedSummary?.activeByType[type] ?? 0}</Text>
+                <Text style={styles.sheetLabel}>{t[type]}</Text>
+              </View>
+            ))}
+            <View style={styles.sheetStat}>
+              <Text style={styles.sheetNumber}>{selectedSummary?.incidents ?? 0}</Text>
+              <Text style={styles.sheetLabel}>{t.incidents}</Text>
+            </View>
+          </View>
+          <Text style={styles.sheetHours}>
+            {t.areaHoursWithout.replace('%s', String(Math.round(selectedSummary?.hours ?? 0))).replace('%d', String(HOURS_PERIOD_DAYS))}
+          </Text>
+          <Pressable
+            style={styles.sheetBtn}
+            onPress={() => {
+              onMoveTo({
+                ...selectedArea.center,
+                latitudeDelta: selectedArea.latitudeDelta,
+                longitudeDelta: selectedArea.longitudeDelta,
+              });
+              setSelectedArea(null);
+            }}
+          >
+            <Ionicons name="search" size={16} color="#FFF" />
+            <Text style={styles.sheetBtnText}>{t.zoomIn}</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {userLocation && (
+        <Pressable
+          style={[styles.locateBtn, { bottom: 100 + bottom }]}
+          onPress={() => onMoveTo({ ...userLocation, latitudeDelta: 0.08, longitudeDelta: 0.08 })}
+        >
+          <Ionicons name="locate" size={22} color={Colors.primary} />
+        </Pressable>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: { position: 'absolute', left: 0, right: 0 },
+  filterRow: { paddingHorizontal: 12, paddingVertical: 4 },
+  offlineBanner: {
+    flexDirection: 'row', alignItems: 'center', gap: 6, alignSelf: 'flex-start',
+    marginHorizontal: 12, marginTop: 4, paddingHorizontal: 10, paddingVertical: 6, borderRadius: 10, backgroundColor: '#FFF',
+    shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.12, shadowRadius: 6, elevation: 4,
+  },
+  offlineBannerText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.text },
+  legend: {
+    position: 'absolute', left: 16, backgroundColor: '#FFF', borderRadius: 12, padding: 8, gap: 4,
+    shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.12, shadowRadius: 6, elevation: 4,
+  },
+  legendSwatches: { flexDirection: 'row', gap: 2 },
+  legendSwatch: { width: 22, height: 10, borderRadius: 2 },
+  legendText: { fontSize: 11, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  sheet: {
+    position: 'absolute', left: 12, right: 12, backgroundColor: '#FFF', borderRadius: 18, padding: 16,
+    shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.15, shadowRadius: 12, elevation: 8,
+  },
+  sheetHeader: { flexDirection: 'row', alignItems: 'flex-start', marginBottom: 12 },
+  sheetTitle: { fontSize: 18, fontFamily: 'Nunito_800ExtraBold', color: Colors.text },
+  sheetSub: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  sheetRow: { flexDirection: 'row', gap: 8 },
+  sheetStat: { flex: 1, alignItems: 'center', backgroundColor: Colors.background, borderRadius: 12, paddingVertical: 8 },
+  sheetNumber: { fontSize: 18, fontFamily: 'Nunito_800ExtraBold', color: Colors.text },
+  sheetLabel: { fontSize: 10, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  sheetHours: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary, marginTop: 10 },
+  sheetBtn: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6, marginTop: 12,
+    backgroundColor: Colors.primary, borderRadius: 12, paddingVertical: 10,
+  },
+  sheetBtnText: { fontSize: 14, fontFamily: 'Nunito_700Bold', color: '#FFF' },
+  locateBtn: {
+    position: 'absolute', right: 16,
+    width: 48, height: 48, borderRadius: 24,
+    backgroundColor: '#FFF', alignItems: 'center', justifyContent: 'center',
+    shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.15, shadowRadius: 8, elevation: 6,
+  },
+});
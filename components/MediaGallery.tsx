@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, Modal, Alert, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { useI18n } from '@/lib/i18n';
+import { useOutbox } from '@/lib/outbox-store';
+import { fetchMedia, type MediaKind, type MediaTarget } from '@/lib/api';
+import { MAX_MEDIA_PER_REPORT, MAX_VIDEO_SECONDS, attachOrQueue, pickMedia } from '@/lib/media';
+
+interface MediaGalleryProps {
+  targetType: MediaTarget;
+  targetId: string;
+  synced: boolean;
+  // The report's own photo, shown alone for reports from before attachments
+  // and for ones still in the outbox.
+  photoUri?: string | null;
+  photoThumbUri?: string | null;
+}
+
+interface GalleryItem {
+  key: string;
+  kind: MediaKind;
+  // Null while a video waits for an admin.
+  url: string | null;
+  thumbnailUrl: string;
+  durationSec: number | null;
+  // Blurred for the public until an admin has looked at it.
+  held: boolean;
+}
+
+function VideoPlayer({ url }: { url: string }) {
+  const player = useVideoPlayer(url, p => { p.play(); });
+  return <VideoView player={player} style={styles.viewerMedia} contentFit="contain" nativeControls />;
+}
+
+function ReviewBadge({ label }: { label: string }) {
+  return (
+    <View style={styles.reviewBadge}>
+      <Ionicons name="eye-off-outline" size={11} color="#FFF" />
+      <Text style={styles.videoBadgeText}>{label}</Text>
+    </View>
+  );
+}
+
+export default function MediaGallery({ targetType, targetId, synced, photoUri, photoThumbUri }: MediaGalleryProps) {
+  const insets = useSafeAreaInsets();
+  const { t } = useI18n();
+  const { enqueue, onSynced } = useOutbox();
+  const [items, setItems] = useState<GalleryItem[] | null>(synced ? null : []);
+  const [adding, setAdding] = useState(false);
+  const [viewing, setViewing] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    if (!synced) return;
+    try {
+      const media = await fetchMedia(targetType, targetId);
+      setItems(media.map(m => ({
+        key: m.id,
+        kind: m.kind,
+        url: m.url,
+        thumbnailUrl: m.thumbnailUrl,
+        durationSec: m.durationSec,
+        held: m.moderation === 'held',
+      })));
+    } catch {
+      setItems(prev => prev ?? []);
+    }
+  }, [targetType, targetId, synced]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Evidence queued offline shows up once the outbox sends it.
+  useEffect(() => onSynced((event) => {
+    if (event.kind === 'addMedia' && event.record.targetId === targetId) load();
+  }), [onSynced, targetId, load]);
+
+  const shown: GalleryItem[] = items && items.length > 0
+    ? items
+    : photoUri ? [{ key: 'cover', kind: 'photo', url: photoUri, thumbnailUrl: photoThumbUri || photoUri, durationSec: null, held: false }] : [];
+  const remaining = MAX_MEDIA_PER_REPORT - shown.length;
+
+  const add = async (useCamera: boolean) => {
+    if (remaining <= 0) {
+      Alert.alert(t.mediaFull.replace('%n', String(MAX_MEDIA_PER_REPORT)));
+      return;
+    }
+    try {
+      const { items: picked, rejected } = await pickMedia(useCamera, remaining);
+      if (rejected > 0) Alert.alert(t.videoRejected.replace('%s', String(MAX_VIDEO_SECONDS)));
+      if (picked.length === 0) return;
+      setAdding(true);
+      const { queued, failed } = await attachOrQueue(targetType, targetId, picked, enqueue, synced);
+      if (failed > 0) Alert.alert(t.evidenceRefused);
+      else if (queued > 0) Alert.alert(t.evidenceQueued);
+      else Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await load();
+    } catch {
+      Alert.alert(t.mediaLoadError);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const current = viewing !== null ? shown[viewing] : null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t.media}{shown.length > 0 ? ` · ${shown.length}` : ''}</Text>
+        {adding ? (
+          <ActivityIndicator size="small" color={Colors.accent} />
+        ) : remaining > 0 && (
+          <View style={styles.addRow}>
+            <Pressable style={styles.addBtn} onPress={() => add(true)} hitSlop={6}>
+              <Ionicons name="camera-outline" size={16} color={Colors.accent} />
+            </Pressable>
+            <Pressable style={styles.addBtn} onPress={() => add(false)} hitSlop={6}>
+              <Ionicons name="add" size={16} color={Colors.accent} />
+              <Text style={styles.addText}>{t.addEvidence}</Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+
+      {items === null ? (
+        <ActivityIndicator size="small" color={Colors.accent} style={styles.loader} />
+      ) : shown.length === 0 ? (
+        <Text style={styles.empty}>{t.noMedia}</Text>
+      ) : shown.length === 1 && shown[0].kind === 'photo' ? (
+        <Pressable onPress={() => setViewing(0)}>
+          <Image
+            source={{ uri: shown[0].url ?? shown[0].thumbnailUrl }}
+            placeholder={{ uri: shown[0].thumbnailUrl }}
+            placeholderContentFit="cover"
+            style={styles.single}
+            contentFit="cover"
+          />
+          {shown[0].held && <ReviewBadge label={t.underReview} />}
+        </Pressable>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+          {shown.map((item, index) => (
+            <Pressable key={item.key} style={styles.tile} onPress={() => setViewing(index)}>
+              <Image source={{ uri: item.thumbnailUrl }} style={styles.tileImage} contentFit="cover" />
+              {item.kind === 'video' && (
+                <View style={styles.videoBadge}>
+                  <Ionicons name="play" size={12} color="#FFF" />
+                  {item.durationSec != null && <Text style={styles.videoBadgeText}>{Math.round(item.durationSec)}s</Text>}
+                </View>
+              )}
+              {item.held && <ReviewBadge label={t.underReview} />}
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal visible={current !== null} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={[styles.viewer, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+          {current && (current.kind === 'video' && current.url ? (
+            <VideoPlayer key={current.key} url={current.url} />
+          ) : (
+            <Image
+              source={{ uri: current.url ?? current.thumbnailUrl }}
+              placeholder={{ uri: current.thumbnailUrl }}
+              placeholderContentFit="contain"
+              style={styles.viewerMedia}
+              contentFit="contain"
+            />
+          ))}
+          {current?.held && (
+            <View style={[styles.viewerNotice, { bottom: insets.bottom + 24 }]}>
+              <Ionicons name="eye-off-outline" size={16} color="#FFF" />
+              <Text style={styles.viewerNoticeText}>{t.underReviewHint}</Text>
+            </View>
+          )}
+          <Pressable style={[styles.viewerClose, { top: insets.top + 12 }]} onPress={() => setViewing(null)} hitSlop={8}>
+            <Ionicons name="close" size={24} color="#FFF" />
+          </Pressable>
+          {viewing !== null && viewing > 0 && (
+            <Pressable style={[styles.viewerNav, { left: 12 }]} onPress={() => setViewing(viewing - 1)} hitSlop={8}>
+              <Ionicons name="chevron-back" size={28} color="#FFF" />
+            </Pressable>
+          )}
+          {viewing !== null && viewing < shown.length - 1 && (
+            <Pressable style={[styles.viewerNav, { right: 12 }]} onPress={() => setViewing(viewing + 1)} hitSlop={8}>
+              <Ionicons name="chevron-forward" size={28} color="#FFF" />
+            </Pressable>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.cardBg, borderRadius: 20, padding: 16, marginBottom: 16,
+    shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 4 }, shadowOpacity: 1, shadowRadius: 12, elevation: 3,
+  },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 10 },
+  title: { fontSize: 11, fontFamily: 'Nunito_600SemiBold', color: Colors.textTertiary, textTransform: 'uppercase', letterSpacing: 0.5 },
+  addRow: { flexDirection: 'row', gap: 8 },
+  addBtn: {
+    flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 10, paddingVertical: 5,
+    borderRadius: 12, backgroundColor: Colors.accent + '12',
+  },
+  addText: { fontSize: 12, fontFamily: 'Nunito_700Bold', color: Colors.accent },
+  loader: { paddingVertical: 8 },
+  empty: { fontSize: 13, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
+  single: { width: '100%', height: 250, borderRadius: 14 },
+  strip: { gap: 10 },
+  tile: { width: 110, height: 110, borderRadius: 14, overflow: 'hidden' },
+  tileImage: { width: '100%', height: '100%' },
+  videoBadge: {
+    position: 'absolute', left: 6, bottom: 6, flexDirection: 'row', alignItems: 'center', gap: 2,
+    paddingHorizontal: 6, paddingVertical: 2, borderRadius: 8, backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  videoBadgeText: { fontSize: 11, fontFamily: 'Nunito_700Bold', color: '#FFF' },
+  reviewBadge: {
+    position: 'absolute', top: 6, left: 6, flexDirection: 'row', alignItems: 'center', gap: 3,
+    paddingHorizontal: 6, paddingVertical: 2, borderRadius: 8, backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  viewer: { flex: 1, backgroundColor: '#000', justifyContent: 'center' },
+  viewerMedia: { width: '100%', height: '100%' },
+  viewerNotice: {
+    position: 'absolute', left: 24, right: 24, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 6,
+    paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  viewerNoticeText: { flexShrink: 1, fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: '#FFF', textAlign: 'center' },
+  viewerClose: {
+    position: 'absolute', right: 16, width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', alignItems: 'center', justifyContent: 'center',
+  },
+  viewerNav: {
+    position: 'absolute', top: '50%', marginTop: -22, width: 44, height: 44, borderRadius: 22,
+    backgroundColor: 'rgba(255,255,255,0.15)', alignItems: 'center', justifyContent: 'center',
+  },
+});
@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import Animated, { FadeIn } from 'react-native-reanimated';
+import Colors from '@/constants/colors';
+import { useI18n } from '@/lib/i18n';
+import type { LocalMedia } from '@/lib/api';
+import { MAX_MEDIA_PER_REPORT, MAX_VIDEO_SECONDS, pickMedia } from '@/lib/media';
+
+interface MediaPickerProps {
+  media: LocalMedia[];
+  onChange: (media: LocalMedia[]) => void;
+}
+
+export default function MediaPicker({ media, onChange }: MediaPickerProps) {
+  const { t } = useI18n();
+  const remaining = MAX_MEDIA_PER_REPORT - media.length;
+
+  const pick = async (useCamera: boolean) => {
+    try {
+      const { items, rejected } = await pickMedia(useCamera, remaining);
+      if (rejected > 0) Alert.alert(t.videoRejected.replace('%s', String(MAX_VIDEO_SECONDS)));
+      if (items.length > 0) onChange([...media, ...items]);
+    } catch { }
+  };
+
+  return (
+    <View style={styles.container}>
+      {media.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+          {media.map((item, index) => (
+            <Animated.View key={item.uri} entering={FadeIn} style={styles.preview}>
+              {item.kind === 'photo' || item.thumbnailUri ? (
+                <Image source={{ uri: item.kind === 'photo' ? item.uri : item.thumbnailUri! }} style={styles.previewImage} contentFit="cover" />
+              ) : (
+                <View style={[styles.previewImage, styles.videoPlaceholder]} />
+              )}
+              {item.kind === 'video' && (
+                <View style={styles.videoBadge}>
+                  <Ionicons name="play" size={12} color="#FFF" />
+                  {item.durationSec != null && <Text style={styles.videoBadgeText}>{Math.round(item.durationSec)}s</Text>}
+                </View>
+              )}
+              <Pressable style={styles.removeBtn} onPress={() => onChange(media.filter((_, i) => i !== index))} hitSlop={6}>
+                <Ionicons name="close" size={14} color="#FFF" />
+              </Pressable>
+            </Animated.View>
+          ))}
+        </ScrollView>
+      )}
+      {remaining > 0 && (
+        <View style={styles.actions}>
+          <Pressable style={({ pressed }) => [styles.btn, pressed && styles.btnPressed]} onPress={() => pick(true)}>
+            <View style={styles.btnIcon}>
+              <Ionicons name="camera-outline" size={24} color={Colors.primary} />
+            </View>
+            <Text style={styles.btnText}>{t.takePhoto}</Text>
+          </Pressable>
+          <Pressable style={({ pressed }) => [styles.btn, pressed && styles.btnPressed]} onPress={() => pick(false)}>
+            <View style={styles.btnIcon}>
+              <Ionicons name="images-outline" size={24} color={Colors.primary} />
+            </View>
+            <Text style={styles.btnText}>{t.chooseGallery}</Text>
+          </Pressable>
+        </View>
+      )}
+      <Text style={styles.hint}>
+        {t.mediaHint.replace('%n', String(MAX_MEDIA_PER_REPORT)).replace('%s', String(MAX_VIDEO_SECONDS))}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { gap: 10 },
+  strip: { gap: 10 },
+  preview: { width: 96, height: 96, borderRadius: 14, overflow: 'hidden' },
+  previewImage: { width: '100%', height: '100%' },
+  videoPlaceholder: { backgroundColor: Colors.primary },
+  videoBadge: {
+    position: 'absolute', left: 6, bottom: 6, flexDirection: 'row', alignItems: 'center', gap: 2,
+    paddingHorizontal: 6, paddingVertical: 2, borderRadius: 8, backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  videoBadgeText: { fontSize: 11, fontFamily: 'Nunito_700Bold', color: '#FFF' },
+  removeBtn: {
+    position: 'absolute', top: 6, right: 6, width: 24, height: 24, borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.5)', alignItems: 'center', justifyContent: 'center',
+  },
+  actions: { flexDirection: 'row', gap: 10 },
+  btn: {
+    flex: 1, backgroundColor: Colors.cardBg, borderRadius: 18, paddingVertical: 20, alignItems: 'center',
+    gap: 8, borderWidth: 1.5, borderColor: Colors.border, borderStyle: 'dashed',
+  },
+  btnPressed: { opacity: 0.7, transform: [{ scale: 0.97 }] },
+  btnIcon: { width: 44, height: 44, borderRadius: 22, backgroundColor: Colors.background, alignItems: 'center', justifyContent: 'center' },
+  btnText: { fontSize: 12, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  hint: { fontSize: 11, fontFamily: 'Nunito_400Regular', color: Colors.textTertiary },
+});
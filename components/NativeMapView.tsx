@@ -1,9 +1,219 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import 'leaflet/dist/leaflet.css';
+import React, { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import L from 'leaflet';
+import { router } from 'expo-router';
 import Colors from '@/constants/colors';
+import { useI18n } from '@/lib/i18n';
+import { formatTimeAgo } from '@/components/OutageCard';
+import MapOverlay from '@/components/MapOverlay';
+import { areaKey, metricOf, shadeFor } from '@/lib/choropleth';
+import { zoomRegionFor, type ViewRegion } from '@/lib/map-clusters';
+import {
+  incidentTypeColors,
+  incidentTypeTranslationKeys,
+  initialRegion,
+  kindColor,
+  typeColors,
+  useMapLayers,
+  type MapViewProps,
+} from '@/lib/map-layers';
 
-export default function NativeMapView(_props: any) {
-  return null;
+// Leaflet on web. Tiles come from EXPO_PUBLIC_MAP_TILE_URL, so a self-hosted
+// tile server can replace the public OpenStreetMap one.
+const TILE_URL = process.env.EXPO_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = process.env.EXPO_PUBLIC_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>';
+const MAX_ZOOM = Number(process.env.EXPO_PUBLIC_MAP_MAX_ZOOM) || 19;
+
+export const isNativeMapAvailable = true;
+
+function regionOf(map: L.Map): ViewRegion {
+  const bounds = map.getBounds();
+  const center = map.getCenter();
+  return {
+    latitude: center.lat,
+    longitude: center.lng,
+    latitudeDelta: bounds.getNorth() - bounds.getSouth(),
+    longitudeDelta: bounds.getEast() - bounds.getWest(),
+  };
+}
+
+function boundsOf(region: ViewRegion): L.LatLngBoundsExpression {
+  return [
+    [region.latitude - region.latitudeDelta / 2, region.longitude - region.longitudeDelta / 2],
+    [region.latitude + region.latitudeDelta / 2, region.longitude + region.longitudeDelta / 2],
+  ];
+}
+
+// The shades are #RRGGBBAA; SVG wants the colour and its opacity apart.
+function splitAlpha(color: string): { color: string; opacity: number } {
+  return { color: color.slice(0, 7), opacity: color.length > 7 ? parseInt(color.slice(7, 9), 16) / 255 : 1 };
+}
+
+// Built with DOM nodes rather than an HTML string, so report text is never parsed as markup.
+function popupContent(title: string, lines: string[], link: string, onOpen: () => void): HTMLElement {
+  const root = document.createElement('div');
+  root.style.minWidth = '160px';
+  const heading = document.createElement('div');
+  heading.textContent = title;
+  heading.style.cssText = 'font-size:14px;font-weight:700;margin-bottom:4px;';
+  root.appendChild(heading);
+  for (const line of lines) {
+    const row = document.createElement('div');
+    row.textContent = line;
+    row.style.cssText = `font-size:12px;color:${Colors.textSecondary};margin-bottom:2px;`;
+    root.appendChild(row);
+  }
+  const anchor = document.createElement('a');
+  anchor.href = '#';
+  anchor.textContent = link;
+  anchor.style.cssText = `display:inline-block;margin-top:6px;font-size:12px;font-weight:700;color:${Colors.accent};`;
+  anchor.onclick = e => {
+    e.preventDefault();
+    onOpen();
+  };
+  root.appendChild(anchor);
+  return root;
+}
+
+function clusterIcon(count: number, color: string): L.DivIcon {
+  const size = count >= 100 ? 46 : count >= 10 ? 38 : 30;
+  const label = count >= 1000 ? `${Math.floor(count / 1000)}k` : String(count);
+  return L.divIcon({
+    className: '',
+    iconSize: [size, size],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:${size / 2}px;background:${color};border:2px solid #FFF;`
+      + `box-sizing:border-box;display:flex;align-items:center;justify-content:center;`
+      + `font:800 12px Nunito_800ExtraBold,sans-serif;color:#FFF;">${label}</div>`,
+  });
+}
+
+export default function WebMapScreen(props: MapViewProps) {
+  const { userLocation } = props;
+  const { t } = useI18n();
+  const containerRef = useRef<View>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const areaLayerRef = useRef<L.LayerGroup | null>(null);
+  const markerLayerRef = useRef<L.LayerGroup | null>(null);
+  // Markers by key, kept across renders so an open popup survives a data refresh.
+  const markersRef = useRef(new Map<string, L.Layer>());
+  // Popups are filled when opened, in the language of that moment.
+  const tRef = useRef(t);
+  tRef.current = t;
+  const [startRegion] = useState(() => initialRegion(userLocation));
+  const [viewRegion, setViewRegion] = useState<ViewRegion>(startRegion);
+  const layers = useMapLayers(props, viewRegion);
+  const { areas, summaries, metric, maxValue, setSelectedArea, visibleClusters } = layers;
+
+  useEffect(() => {
+    // On web a View's ref is its DOM node.
+    const element = containerRef.current as unknown as HTMLElement | null;
+    if (!element) return;
+    const map = L.map(element, { zoomControl: false });
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: MAX_ZOOM }).addTo(map);
+    areaLayerRef.current = L.layerGroup().addTo(map);
+    markerLayerRef.current = L.layerGroup().addTo(map);
+    map.fitBounds(boundsOf(startRegion));
+    map.on('moveend', () => setViewRegion(regionOf(map)));
+    mapRef.current = map;
+    setViewRegion(regionOf(map));
+    const markers = markersRef.current;
+    return () => {
+      map.remove();
+      markers.clear();
+      mapRef.current = null;
+    };
+  }, [startRegion]);
+
+  useEffect(() => {
+    const group = areaLayerRef.current;
+    if (!group) return;
+    group.clearLayers();
+    const stroke = splitAlpha(Colors.accent + '99');
+    for (const area of areas) {
+      const fill = splitAlpha(shadeFor(metricOf(summaries.get(areaKey(area.name)), metric), maxValue));
+      L.polygon(area.rings.map(ring => ring.map(p => [p.latitude, p.longitude] as L.LatLngTuple)), {
+        fillColor: fill.color,
+        fillOpacity: fill.opacity,
+        color: stroke.color,
+        opacity: stroke.opacity,
+        weight: 1,
+      })
+        .on('click', () => setSelectedArea(area))
+        .addTo(group);
+    }
+  }, [areas, summaries, metric, maxValue, setSelectedArea]);
+
+  useEffect(() => {
+    const group = markerLayerRef.current;
+    const map = mapRef.current;
+    if (!group || !map) return;
+    const markers = markersRef.current;
+    const wanted = new Map<string, () => L.Layer>();
+
+    for (const cluster of visibleClusters) {
+      if (cluster.count > 1) {
+        wanted.set(`cluster-${cluster.id}-${cluster.count}-${cluster.dominant}`, () =>
+          L.marker([cluster.latitude, cluster.longitude], { icon: clusterIcon(cluster.count, kindColor(cluster.dominant)) })
+            .on('click', () => map.fitBounds(boundsOf(zoomRegionFor(cluster, regionOf(map))))));
+        continue;
+      }
+      const item = cluster.items[0];
+      if (item.kind === 'outage') {
+        const o = item.data;
+        wanted.set(`outage-${o.id}-${o.confirmations}`, () =>
+          L.circleMarker([o.latitude, o.longitude], {
+            radius: 8, color: '#FFF', weight: 2, fillColor: typeColors[o.type], fillOpacity: 1,
+          }).bindPopup(() => {
+            const t = tRef.current;
+            return popupContent(
+              t[o.type],
+              [`${o.quartier}, ${o.ville}`, formatTimeAgo(o.date, t), `${o.confirmations} ${t.confirmations}`],
+              t.details,
+              () => router.push({ pathname: '/detail', params: { id: o.id } }),
+            );
+          }));
+        continue;
+      }
+      const inc = item.data;
+      wanted.set(`incident-${inc.id}-${inc.confirmations}`, () =>
+        L.circleMarker([inc.latitude, inc.longitude], {
+          radius: 8, color: '#FFF', weight: 2, fillColor: incidentTypeColors[inc.incidentType], fillOpacity: 1,
+        }).bindPopup(() => {
+          const t = tRef.current;
+          return popupContent(
+            (t as any)[incidentTypeTranslationKeys[inc.incidentType]],
+            [`${inc.quartier}, ${inc.ville}`, formatTimeAgo(inc.date, t), `${inc.confirmations} ${t.confirmations}`],
+            t.details,
+            () => router.push({ pathname: '/incident-detail', params: { id: inc.id } }),
+          );
+        }));
+    }
+
+    markers.forEach((layer, key) => {
+      if (wanted.has(key)) return;
+      group.removeLayer(layer);
+      markers.delete(key);
+    });
+    wanted.forEach((create, key) => {
+      if (markers.has(key)) return;
+      const layer = create();
+      group.addLayer(layer);
+      markers.set(key, layer);
+    });
+  }, [visibleClusters]);
+
+  return (
+    <View style={styles.container}>
+      <View ref={containerRef} style={styles.map} />
+      <MapOverlay map={props} layers={layers} onMoveTo={region => mapRef.current?.flyToBounds(boundsOf(region))} />
+    </View>
+  );
 }
 
-export const isNativeMapAvailable = false;
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.background },
+  // Its own stacking context, so Leaflet's panes stay under the overlay.
+  map: { flex: 1, zIndex: 0 },
+});
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import { useI18n } from '@/lib/i18n';
+import { fetchOutageHistory, type OutageHistoryEntry } from '@/lib/api';
+import { formatTimeAgo } from '@/components/OutageCard';
+
+interface OutageTimelineProps {
+  outageId: string;
+  // Changes whenever the outage changes locally, so the trail is fetched again.
+  refreshKey?: string;
+}
+
+const statusIcons: Record<string, keyof typeof Ionicons.glyphMap> = {
+  reported: 'megaphone',
+  confirmed: 'people',
+  restoration_claimed: 'hourglass',
+  restored: 'checkmark-circle',
+  verified: 'shield-checkmark',
+  reopened: 'refresh-circle',
+  rejected: 'close-circle',
+};
+
+const statusColors: Record<string, string> = {
+  restored: Colors.success,
+  verified: Colors.success,
+  rejected: Colors.textTertiary,
+  reopened: Colors.internet,
+};
+
+export default function OutageTimeline({ outageId, refreshKey }: OutageTimelineProps) {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<OutageHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOutageHistory(outageId)
+      .then(data => { if (!cancelled) setEntries(data); })
+      .catch(() => { if (!cancelled) setEntries([]); });
+    return () => { cancelled = true; };
+  }, [outageId, refreshKey]);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{t.statusHistory}</Text>
+      {entries === null ? (
+        <ActivityIndicator size="small" color={Colors.accent} style={styles.loader} />
+      ) : entries.length === 0 ? (
+        <Text style={styles.empty}>{t.historyEmpty}</Text>
+      ) : (
+        entries.map((entry, i) => {
+          const color = statusColors[entry.toStatus] || Colors.accent;
+          return (
+            <View key={entry.id} style={styles.row}>
+              <View style={styles.rail}>
+                <View style={[styles.dot, { backgroundColor: color + '20' }]}>
+                  <Ionicons name={statusIcons[entry.toStatus] || 'ellipse'} size={14} color={color} />
+                </View>
+                {i < entries.length - 1 && <View style={styles.line} />}
+              </View>
+              <View style={styles.content}>
+                <Text style={styles.status}>
+                  {(t.statuses as Record<string, string>)[entry.toStatus] || entry.toStatus}
+                </Text>
+                <Text style={styles.meta}>
+                  {t.actors[entry.actorRole]} · {formatTimeAgo(entry.createdAt, t)}
+                </Text>
+                {!!entry.note && <Text style={styles.note}>{entry.note}</Text>}
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.cardBg, borderRadius: 20, padding: 16, marginBottom: 16,
+    shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 4 }, shadowOpacity: 1, shadowRadius: 12, elevation: 3,
+  },
+  title: { fontSize: 11, fontFamily: 'Nunito_600SemiBold', color: Colors.textTertiary, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 10 },
+  loader: { paddingVertical: 8 },
+  empty: { fontSize: 13, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary },
+  row: { flexDirection: 'row', gap: 12 },
+  rail: { alignItems: 'center', width: 28 },
+  dot: { width: 28, height: 28, borderRadius: 14, alignItems: 'center', justifyContent: 'center' },
+  line: { flex: 1, width: 2, backgroundColor: Colors.borderLight, marginVertical: 2 },
+  content: { flex: 1, paddingBottom: 14 },
+  status: { fontSize: 14, fontFamily: 'Nunito_700Bold', color: Colors.text },
+  meta: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary, marginTop: 1 },
+  note: { fontSize: 13, fontFamily: 'Nunito_400Regular', color: Colors.text, marginTop: 4 },
+});
@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import { useI18n } from '@/lib/i18n';
+import type { RestorationTally } from '@/lib/api';
+
+interface RestorationVotesProps {
+  tally: RestorationTally;
+}
+
+export default function RestorationVotes({ tally }: RestorationVotesProps) {
+  const { t } = useI18n();
+  const total = tally.restored + tally.stillOut;
+  const backShare = total > 0 ? tally.restored / total : 0;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{t.restorationVotes}</Text>
+      <View style={styles.counts}>
+        <View style={styles.count}>
+          <Ionicons name="checkmark-circle" size={18} color={Colors.success} />
+          <Text style={styles.countValue}>{tally.restored}</Text>
+          <Text style={styles.countLabel}>{t.votesBack}</Text>
+          {tally.myVote === 'restored' && <Text style={styles.mine}>{t.yourVote}</Text>}
+        </View>
+        <View style={styles.count}>
+          <Ionicons name="close-circle" size={18} color={Colors.accent} />
+          <Text style={styles.countValue}>{tally.stillOut}</Text>
+          <Text style={styles.countLabel}>{t.votesStillOut}</Text>
+          {tally.myVote === 'still_out' && <Text style={styles.mine}>{t.yourVote}</Text>}
+        </View>
+      </View>
+      <View style={styles.bar}>
+        <View style={[styles.barBack, { width: `${Math.round(backShare * 100)}%` }]} />
+      </View>
+      <Text style={styles.hint}>{tally.threshold} {t.votesNeeded}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.cardBg, borderRadius: 20, padding: 16, marginBottom: 16,
+    shadowColor: Colors.shadow, shadowOffset: { width: 0, height: 4 }, shadowOpacity: 1, shadowRadius: 12, elevation: 3,
+  },
+  title: { fontSize: 11, fontFamily: 'Nunito_600SemiBold', color: Colors.textTertiary, textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 10 },
+  counts: { flexDirection: 'row', gap: 12, marginBottom: 12 },
+  count: { flex: 1, flexDirection: 'row', alignItems: 'center', gap: 6, flexWrap: 'wrap' },
+  countValue: { fontSize: 18, fontFamily: 'Nunito_800ExtraBold', color: Colors.text },
+  countLabel: { fontSize: 13, fontFamily: 'Nunito_600SemiBold', color: Colors.textSecondary },
+  mine: { fontSize: 11, fontFamily: 'Nunito_700Bold', color: Colors.accent },
+  bar: { height: 6, borderRadius: 3, overflow: 'hidden', backgroundColor: Colors.borderLight },
+  barBack: { height: '100%', backgroundColor: Colors.success },
+  hint: { fontSize: 12, fontFamily: 'Nunito_400Regular', color: Colors.textSecondary, marginTop: 8 },
+});
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import Svg, { Circle, G, Rect, Text as SvgText } from 'react-native-svg';
+import Svg, { Circle, G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
 import Colors from '@/constants/colors';
 
 interface PieData {
@@ -15,6 +15,18 @@ interface BarData {
   color: string;
 }
 
+interface LineSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface StackedRow {
+  label: string;
+  sublabel?: string;
+  segments: { value: number; color: string }[];
+}
+
 export function PieChart({ data, size = 180 }: { data: PieData[]; size?: number }) {
   const total = data.reduce((sum, d) => sum + d.value, 0);
   if (total === 0) return null;
@@ -108,6 +120,147 @@ export function BarChart({ data, height = 200 }: { data: BarData[]; height?: num
   );
 }
 
+// One line with a light area under it per series, all sharing `labels` on the
+// x axis. Indexes flagged in `highlight` get a shaded band behind the lines.
+export function LineChart({ series, labels, highlight = [], width = 300, height = 180 }: {
+  series: LineSeries[];
+  labels: string[];
+  highlight?: boolean[];
+  width?: number;
+  height?: number;
+}) {
+  const count = labels.length;
+  if (count === 0) return null;
+
+  const left = 26;
+  const right = 8;
+  const top = 12;
+  const plotW = width - left - right;
+  const plotH = height - top - 24;
+  const bottom = top + plotH;
+  const maxValue = Math.max(...series.flatMap(s => s.values), 1);
+  const step = count > 1 ? plotW / (count - 1) : 0;
+  const x = (i: number) => count > 1 ? left + i * step : left + plotW / 2;
+  const y = (value: number) => bottom - (value / maxValue) * plotH;
+  const bandW = Math.max(step, 4);
+  const ticks = count > 2 ? [0, Math.floor((count - 1) / 2), count - 1] : [0, count - 1];
+
+  return (
+    <View style={styles.lineContainer}>
+      <Svg width={width} height={height}>
+        <Line x1={left} y1={top} x2={width - right} y2={top} stroke={Colors.borderLight} strokeWidth={1} />
+        <Line x1={left} y1={bottom} x2={width - right} y2={bottom} stroke={Colors.border} strokeWidth={1} />
+        <SvgText x={left - 6} y={top + 4} textAnchor="end" fontSize={9} fill={Colors.textTertiary}>{maxValue}</SvgText>
+        <SvgText x={left - 6} y={bottom} textAnchor="end" fontSize={9} fill={Colors.textTertiary}>0</SvgText>
+        {highlight.map((on, i) => on ? (
+          <Rect key={i} x={x(i) - bandW / 2} y={top} width={bandW} height={plotH} fill={Colors.accent} opacity={0.15} />
+        ) : null)}
+        {series.map((s, k) => {
+          const line = 'M' + s.values.map((v, i) => `${x(i)},${y(v)}`).join(' L');
+          const area = `${line} L${x(count - 1)},${bottom} L${x(0)},${bottom} Z`;
+          return (
+            <G key={k}>
+              <Path d={area} fill={s.color} opacity={0.12} />
+              <Path d={line} fill="none" stroke={s.color} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" />
+            </G>
+          );
+        })}
+        {ticks.map((i, k) => (
+          <SvgText
+            key={k}
+            x={x(i)}
+            y={height - 6}
+            textAnchor={i === 0 ? 'start' : i === count - 1 ? 'end' : 'middle'}
+            fontSize={9}
+            fill={Colors.textSecondary}
+          >
+            {labels[i]}
+          </SvgText>
+        ))}
+      </Svg>
+    </View>
+  );
+}
+
+// A grid of `cells[row][column]` values between 0 and 1, drawn as the opacity of `color`.
+export function Heatmap({ cells, rowLabels, columnLabels, color = Colors.accent, width = 300 }: {
+  cells: number[][];
+  rowLabels: string[];
+  // Shown under every column that has one; leave the others empty.
+  columnLabels: string[];
+  color?: string;
+  width?: number;
+}) {
+  const columns = cells[0]?.length || 0;
+  if (columns === 0) return null;
+
+  const labelW = 30;
+  const gap = 1;
+  const cellW = (width - labelW) / columns;
+  const cellH = Math.max(Math.min(cellW * 1.6, 22), 12);
+  const height = cells.length * cellH + 16;
+
+  return (
+    <View style={styles.lineContainer}>
+      <Svg width={width} height={height}>
+        {cells.map((row, r) => (
+          <G key={r}>
+            <SvgText x={labelW - 6} y={r * cellH + cellH / 2 + 3} textAnchor="end" fontSize={9} fill={Colors.textSecondary}>
+              {rowLabels[r]}
+            </SvgText>
+            {row.map((value, c) => (
+              <Rect
+                key={c}
+                x={labelW + c * cellW}
+                y={r * cellH}
+                width={cellW - gap}
+                height={cellH - gap}
+                rx={2}
+                fill={value > 0 ? color : Colors.borderLight}
+                opacity={value > 0 ? 0.15 + 0.85 * Math.min(value, 1) : 1}
+              />
+            ))}
+          </G>
+        ))}
+        {columnLabels.map((label, c) => label ? (
+          <SvgText key={c} x={labelW + c * cellW} y={height - 3} fontSize={9} fill={Colors.textTertiary}>
+            {label}
+          </SvgText>
+        ) : null)}
+      </Svg>
+    </View>
+  );
+}
+
+export function StackedBarList({ rows, unit = '' }: { rows: StackedRow[]; unit?: string }) {
+  const totals = rows.map(r => r.segments.reduce((sum, s) => sum + s.value, 0));
+  const maxTotal = Math.max(...totals, 1);
+
+  return (
+    <View style={styles.stackedList}>
+      {rows.map((row, i) => (
+        <View key={i} style={styles.stackedRow}>
+          <View style={styles.stackedHeader}>
+            <Text style={styles.stackedLabel} numberOfLines={1}>
+              {row.label}
+              {row.sublabel ? <Text style={styles.stackedSublabel}>  {row.sublabel}</Text> : null}
+            </Text>
+            <Text style={styles.stackedValue}>{Math.round(totals[i])}{unit}</Text>
+          </View>
+          <View style={styles.stackedTrack}>
+            {row.segments.filter(s => s.value > 0).map((segment, j) => (
+              <View
+                key={j}
+                style={{ width: `${(segment.value / maxTotal) * 100}%`, backgroundColor: segment.color }}
+              />
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   pieContainer: {
     alignItems: 'center',
@@ -151,4 +304,41 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     overflow: 'hidden',
   },
+  lineContainer: {
+    alignItems: 'center',
+  },
+  stackedList: {
+    gap: 12,
+  },
+  stackedRow: {
+    gap: 4,
+  },
+  stackedHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  stackedLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Nunito_600SemiBold',
+    color: Colors.text,
+  },
+  stackedSublabel: {
+    fontSize: 11,
+    fontFamily: 'Nunito_400Regular',
+    color: Colors.textTertiary,
+  },
+  stackedValue: {
+    fontSize: 13,
+    fontFamily: 'Nunito_700Bold',
+    color: Colors.text,
+  },
+  stackedTrack: {
+    flexDirection: 'row',
+    height: 10,
+    borderRadius: 5,
+    overflow: 'hidden',
+    backgroundColor: Colors.borderLight,
+  },
 });
@@ -0,0 +1,513 @@
+import { Platform } from 'react-native';
+import { apiRequest, apiUpload, getApiUrl } from '@/lib/query-client';
+import type { IncidentData, OutageData } from '@/lib/appwrite';
+
+export interface NewOutagePayload {
+  type: string;
+  latitude: number;
+  longitude: number;
+  quartier?: string;
+  ville?: string;
+  region?: string;
+  // From uploadPhoto.
+  photoId?: string | null;
+  userId?: string;
+}
+
+export interface NewIncidentPayload {
+  incidentType: string;
+  latitude: number;
+  longitude: number;
+  quartier?: string;
+  ville?: string;
+  region?: string;
+  photoId?: string | null;
+  commentaire?: string;
+  userId?: string;
+}
+
+export interface ReportedOutage extends OutageData {
+  clustered: boolean;
+}
+
+export interface OutageHistoryEntry {
+  id: string;
+  outageId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actorId: string;
+  actorRole: 'user' | 'device' | 'admin' | 'system';
+  note: string;
+  createdAt: string;
+}
+
+export type RestorationVote = 'restored' | 'still_out';
+
+export interface RestorationTally {
+  restored: number;
+  stillOut: number;
+  threshold: number;
+  myVote: RestorationVote | null;
+}
+
+export interface VotedOutage extends OutageData {
+  votes: RestorationTally;
+}
+
+export interface DurationSummary {
+  outages: number;
+  restored: number;
+  ongoing: number;
+  mttrHours: number | null;
+  medianHours: number | null;
+  p90Hours: number | null;
+  hoursWithout: Record<string, number>;
+}
+
+export interface AreaDurations extends DurationSummary {
+  area: string;
+  parent: string | null;
+}
+
+export interface DurationStats {
+  from: string;
+  to: string;
+  overall: DurationSummary;
+  distribution: { bucket: string; count: number; byType: Record<string, number> }[];
+  byRegion: AreaDurations[];
+  byVille: AreaDurations[];
+  byQuartier: AreaDurations[];
+}
+
+// Over the reports created within the period asked for, or all time.
+export interface OutageStats {
+  total: number;
+  active: number;
+  restored: number;
+  byType: Record<string, number>;
+  byRegion: Record<string, number>;
+}
+
+export interface IncidentStats {
+  total: number;
+  active: number;
+  resolved: number;
+  byType: Record<string, number>;
+  byRegion: Record<string, number>;
+}
+
+export interface ActiveArea {
+  area: string;
+  parent: string | null;
+  activeByType: Record<string, number>;
+  incidents: number;
+}
+
+// Open outages and unresolved incidents per area, over the whole database.
+export interface ActiveAreas {
+  at: string;
+  byRegion: ActiveArea[];
+  byVille: ActiveArea[];
+}
+
+export interface StatPoint {
+  day: string;
+  reported: number;
+  closed: number;
+  byType: Record<string, number>;
+}
+
+export interface StatSeries {
+  entity: 'outage' | 'incident';
+  from: string;
+  to: string;
+  type?: string;
+  region?: string;
+  points: StatPoint[];
+}
+
+export interface OutageHeatmap {
+  from: string;
+  to: string;
+  region?: string;
+  ville?: string;
+  type?: string;
+  outages: number;
+  // cells[day][hour], Monday first, in Cameroon time: share (0-1) of that
+  // hour of the week during which an outage was active.
+  cells: number[][];
+}
+
+export interface RiskScore {
+  ville: string;
+  quartier: string;
+  type: string;
+  // Chance of at least one new outage of that type within the horizon (0-1).
+  probability: number;
+  level: 'low' | 'medium' | 'high';
+  history: number;
+}
+
+export interface LocalForecast {
+  at: string;
+  horizonHours: number;
+  trainingWeeks: number;
+  ville: string;
+  quartier: string;
+  scores: RiskScore[];
+}
+
+export interface RegionSnapshot {
+  region: string;
+  generatedAt: string;
+  outages: OutageData[];
+  incidents: IncidentData[];
+}
+
+export interface ListQuery {
+  type?: string;
+  region?: string;
+  hours?: number;
+  // [minLon, minLat, maxLon, maxLat]
+  bbox?: [number, number, number, number];
+  near?: { latitude: number; longitude: number };
+  radiusKm?: number;
+  sort?: 'newest' | 'distance';
+  // Opaque, from the previous page's nextCursor.
+  cursor?: string;
+  limit?: number;
+}
+
+// Set on list results when the query had `near`.
+export type Located<T> = T & { distanceKm?: number };
+
+// nextCursor is null on the last page.
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface AdminUser {
+  id: string;
+  phone: string;
+  displayName: string;
+  isAdmin: boolean;
+}
+
+// One uploaded photo or video as moderation left it; originalUrl (before any
+// blurring) is only ever given to admins.
+export interface ReviewItem {
+  id: string;
+  mediaId: string;
+  kind: MediaKind;
+  status: ModerationStatus;
+  faces: number;
+  plates: number;
+  nsfwScore: number | null;
+  // 'nsfw', 'video' or 'unchecked:<detector>'.
+  reasons: string[];
+  createdAt: string;
+  reviewedAt: string | null;
+  originalUrl: string | null;
+  thumbnailUrl: string;
+  videoUrl: string | null;
+}
+
+export interface SavedPlace {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusM: number;
+  // Empty means every outage type.
+  types: string[];
+  quietStart: string | null;
+  quietEnd: string | null;
+  timezone: string;
+  createdAt: string;
+}
+
+export type SavedPlacePayload = Partial<Omit<SavedPlace, 'id' | 'createdAt'>>;
+
+export interface ConfirmedToday {
+  day: string;
+  outages: string[];
+  incidents: string[];
+}
+
+function listQueryString(query: ListQuery): string {
+  const params = new URLSearchParams();
+  if (query.type) params.set('type', query.type);
+  if (query.region) params.set('region', query.region);
+  if (query.hours) params.set('hours', String(query.hours));
+  if (query.bbox) params.set('bbox', query.bbox.join(','));
+  if (query.near) params.set('near', `${query.near.latitude},${query.near.longitude}`);
+  if (query.radiusKm) params.set('radiusKm', String(query.radiusKm));
+  if (query.sort) params.set('sort', query.sort);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+// Spatial filters run on the server, over every outage rather than the newest page.
+export async function fetchOutages(query: ListQuery = {}): Promise<Page<Located<OutageData>>> {
+  const res = await apiRequest('GET', `/api/outages${listQueryString(query)}`);
+  return res.json();
+}
+
+export async function fetchIncidents(query: ListQuery = {}): Promise<Page<Located<IncidentData>>> {
+  const res = await apiRequest('GET', `/api/incidents${listQueryString(query)}`);
+  return res.json();
+}
+
+// Reports go through the server so that nearby duplicates are merged into one outage.
+export interface UploadedPhoto {
+  id: string;
+  photoUri: string;
+  photoThumbUri: string;
+}
+
+export type MediaKind = 'photo' | 'video';
+export type MediaTarget = 'outage' | 'incident';
+
+// A picked photo or video, before upload.
+export interface LocalMedia {
+  uri: string;
+  kind: MediaKind;
+  thumbnailUri?: string | null;
+  durationSec?: number | null;
+}
+
+// held: hidden behind a blur (a video is not playable) until an admin checks it.
+export type ModerationStatus = 'clean' | 'blurred' | 'held' | 'approved' | 'rejected';
+
+export interface MediaAttachment {
+  id: string;
+  targetType: MediaTarget;
+  targetId: string;
+  kind: MediaKind;
+  url: string | null;
+  thumbnailUrl: string;
+  moderation: ModerationStatus;
+  bytes: number;
+  durationSec: number | null;
+  createdAt: string;
+}
+
+async function appendFile(form: FormData, field: string, localUri: string, name: string, type: string) {
+  if (Platform.OS === 'web') {
+    const blob = await (await globalThis.fetch(localUri)).blob();
+    form.append(field, blob, name);
+  } else {
+    form.append(field, { uri: localUri, name, type } as any);
+  }
+}
+
+// The server resizes the photo and strips its metadata (GPS position included).
+export async function uploadPhoto(localUri: string): Promise<UploadedPhoto> {
+  const form = new FormData();
+  await appendFile(form, 'photo', localUri, 'photo.jpg', 'image/jpeg');
+  const res = await apiUpload('/api/photos', form);
+  return res.json();
+}
+
+function toMediaAttachment(media: MediaAttachment): MediaAttachment {
+  return { ...media, url: resolvePhotoUri(media.url), thumbnailUrl: resolvePhotoUri(media.thumbnailUrl)! };
+}
+
+// Oldest first, the report's own photo included.
+export async function fetchMedia(targetType: MediaTarget, targetId: string): Promise<MediaAttachment[]> {
+  const res = await apiRequest('GET', `/api/${targetType}s/${targetId}/media`);
+  return ((await res.json()) as MediaAttachment[]).map(toMediaAttachment);
+}
+
+// Anyone may add evidence to a report; full reports fail with code 409.
+export async function uploadMedia(targetType: MediaTarget, targetId: string, media: LocalMedia): Promise<MediaAttachment> {
+  const form = new FormData();
+  if (media.kind === 'video') {
+    const mov = /\.mov$/i.test(media.uri);
+    await appendFile(form, 'file', media.uri, mov ? 'video.mov' : 'video.mp4', mov ? 'video/quicktime' : 'video/mp4');
+    if (media.thumbnailUri) await appendFile(form, 'thumbnail', media.thumbnailUri, 'thumbnail.jpg', 'image/jpeg');
+  } else {
+    await appendFile(form, 'file', media.uri, 'photo.jpg', 'image/jpeg');
+  }
+  const res = await apiUpload(`/api/${targetType}s/${targetId}/media`, form);
+  return toMediaAttachment(await res.json());
+}
+
+// Photo URLs come back signed and relative to the API server.
+export function resolvePhotoUri(uri: string | null | undefined): string | null {
+  if (!uri) return null;
+  return uri.startsWith('/') ? new URL(uri, getApiUrl()).toString() : uri;
+}
+
+export async function reportOutage(data: NewOutagePayload): Promise<ReportedOutage> {
+  const res = await apiRequest('POST', '/api/outages', data);
+  return res.json();
+}
+
+// The server allows one confirmation per user (or device) and day; repeats fail with code 409.
+export async function confirmOutage(id: string): Promise<OutageData> {
+  const res = await apiRequest('POST', `/api/outages/${id}/confirm`);
+  return res.json();
+}
+
+// Incident writes go through the server too, so they reach the live feed.
+export async function createIncident(data: NewIncidentPayload): Promise<IncidentData> {
+  const res = await apiRequest('POST', '/api/incidents', data);
+  return res.json();
+}
+
+export async function resolveIncident(id: string): Promise<IncidentData> {
+  const res = await apiRequest('POST', `/api/incidents/${id}/resolve`);
+  return res.json();
+}
+
+export async function confirmIncident(id: string): Promise<IncidentData> {
+  const res = await apiRequest('POST', `/api/incidents/${id}/confirm`);
+  return res.json();
+}
+
+export async function fetchConfirmedToday(): Promise<ConfirmedToday> {
+  const res = await apiRequest('GET', '/api/confirmations/today');
+  return res.json();
+}
+
+// The outage only closes once enough voters agree (or the reporter or an admin
+// votes); the response carries the resulting status and the updated tally.
+export async function voteRestoration(id: string, vote: RestorationVote): Promise<VotedOutage> {
+  const res = await apiRequest('POST', `/api/outages/${id}/votes`, { vote });
+  return res.json();
+}
+
+export async function fetchRestorationVotes(id: string): Promise<RestorationTally> {
+  const res = await apiRequest('GET', `/api/outages/${id}/votes`);
+  return res.json();
+}
+
+export async function fetchPlaces(): Promise<SavedPlace[]> {
+  const res = await apiRequest('GET', '/api/places');
+  return res.json();
+}
+
+export async function createPlace(data: SavedPlacePayload): Promise<SavedPlace> {
+  const res = await apiRequest('POST', '/api/places', data);
+  return res.json();
+}
+
+export async function updatePlace(id: string, data: SavedPlacePayload): Promise<SavedPlace> {
+  const res = await apiRequest('PUT', `/api/places/${id}`, data);
+  return res.json();
+}
+
+export async function deletePlace(id: string): Promise<void> {
+  await apiRequest('DELETE', `/api/places/${id}`);
+}
+
+// Alerts for saved places are pushed to every token registered for the user.
+export async function registerPushToken(token: string, platform: string): Promise<void> {
+  await apiRequest('PUT', '/api/push-token', { token, platform });
+}
+
+export async function unregisterPushToken(token: string): Promise<void> {
+  await apiRequest('DELETE', '/api/push-token', { token });
+}
+
+// `from` and `to` are UTC days (YYYY-MM-DD); all time without `from`.
+export async function fetchOutageStats(params: { from?: string; to?: string; region?: string } = {}): Promise<OutageStats> {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => !!v) as [string, string][]).toString();
+  const res = await apiRequest('GET', `/api/stats${query ? `?${query}` : ''}`);
+  return res.json();
+}
+
+export async function fetchIncidentStats(params: { from?: string; to?: string; region?: string } = {}): Promise<IncidentStats> {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => !!v) as [string, string][]).toString();
+  const res = await apiRequest('GET', `/api/incidents/stats${query ? `?${query}` : ''}`);
+  return res.json();
+}
+
+export async function fetchActiveAreas(): Promise<ActiveAreas> {
+  const res = await apiRequest('GET', '/api/stats/active-areas');
+  return res.json();
+}
+
+export async function fetchDurationStats(params: { from?: string; type?: string; region?: string } = {}): Promise<DurationStats> {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => !!v) as [string, string][]).toString();
+  const res = await apiRequest('GET', `/api/stats/durations${query ? `?${query}` : ''}`);
+  return res.json();
+}
+
+// `from` and `to` are UTC days (YYYY-MM-DD); the server fills in days without reports.
+export async function fetchStatSeries(params: { entity?: 'outage' | 'incident'; from?: string; to?: string; type?: string; region?: string } = {}): Promise<StatSeries> {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => !!v) as [string, string][]).toString();
+  const res = await apiRequest('GET', `/api/stats/timeseries${query ? `?${query}` : ''}`);
+  return res.json();
+}
+
+export async function fetchOutageHeatmap(params: { from?: string; region?: string; ville?: string; type?: string } = {}): Promise<OutageHeatmap> {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => !!v) as [string, string][]).toString();
+  const res = await apiRequest('GET', `/api/stats/heatmap${query ? `?${query}` : ''}`);
+  return res.json();
+}
+
+// Rejects with a 404 when no report names a quartier near the location.
+export async function fetchForecast(latitude: number, longitude: number): Promise<LocalForecast> {
+  const res = await apiRequest('GET', `/api/forecast?near=${latitude},${longitude}`);
+  return res.json();
+}
+
+// Open outages and incidents of a region plus those closed in the last week,
+// saved with the offline map bundle.
+export async function fetchRegionSnapshot(region: string): Promise<RegionSnapshot> {
+  const res = await apiRequest('GET', `/api/offline/snapshot?region=${encodeURIComponent(region)}`);
+  return res.json();
+}
+
+export async function fetchUsers(cursor?: string): Promise<Page<AdminUser>> {
+  const res = await apiRequest('GET', `/api/admin/users${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`);
+  return res.json();
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  await apiRequest('DELETE', `/api/admin/users/${id}`);
+}
+
+export async function setUserAdmin(id: string, isAdmin: boolean): Promise<AdminUser> {
+  const res = await apiRequest('POST', `/api/admin/users/${id}/admin`, { isAdmin });
+  return res.json();
+}
+
+export async function fetchOutageHistory(id: string): Promise<OutageHistoryEntry[]> {
+  const res = await apiRequest('GET', `/api/outages/${id}/history`);
+  return res.json();
+}
+
+export async function deleteOutage(id: string): Promise<void> {
+  await apiRequest('DELETE', `/api/admin/outages/${id}`);
+}
+
+export async function setOutageStatus(id: string, status: string, note?: string): Promise<OutageData> {
+  const res = await apiRequest('POST', `/api/admin/outages/${id}/status`, { status, note });
+  return res.json();
+}
+
+function toReviewItem(item: ReviewItem): ReviewItem {
+  return {
+    ...item,
+    originalUrl: resolvePhotoUri(item.originalUrl),
+    thumbnailUrl: resolvePhotoUri(item.thumbnailUrl)!,
+    videoUrl: resolvePhotoUri(item.videoUrl),
+  };
+}
+
+// Oldest first: held media by default, or what was published blurred.
+export async function fetchReviewQueue(status: 'held' | 'blurred' = 'held'): Promise<ReviewItem[]> {
+  const res = await apiRequest('GET', `/api/admin/moderation?status=${status}`);
+  return ((await res.json()) as ReviewItem[]).map(toReviewItem);
+}
+
+export async function reviewMedia(mediaId: string, decision: 'approve' | 'reject'): Promise<ReviewItem> {
+  const res = await apiRequest('POST', `/api/admin/moderation/${mediaId}`, { decision });
+  return toReviewItem(await res.json());
+}
@@ -21,6 +21,7 @@ export interface UserProfile {
   phone: string;
   displayName: string;
   isAdmin: boolean;
+  token?: string;
 }
 
 export interface OutageData {
@@ -33,10 +34,14 @@ export interface OutageData {
   region: string;
   confirmations: number;
   photoUri: string | null;
+  photoThumbUri?: string | null;
   estRetablie: boolean;
   dateRetablissement: string | null;
   createdAt: string;
   userId?: string;
+  status?: string;
+  reportCount?: number;
+  lastReportAt?: string;
 }
 
 function docToOutage(doc: any): OutageData {
@@ -54,6 +59,9 @@ function docToOutage(doc: any): OutageData {
     dateRetablissement: doc.dateRetablissement || null,
     createdAt: doc.createdAt || doc.$createdAt,
     userId: doc.userId || '',
+    status: doc.status || (doc.estRetablie ? 'restored' : 'reported'),
+    reportCount: doc.reportCount ?? 1,
+    lastReportAt: doc.lastReportAt || doc.createdAt || doc.$createdAt,
   };
 }
 
@@ -78,9 +86,26 @@ export async function registerUser(phone: string, password: string, displayName?
     phone: data.phone,
     displayName: data.displayName || '',
     isAdmin: data.isAdmin ?? false,
+    token: data.token,
   };
 }
 
+async function fetchApiToken(phone: string, password: string): Promise<string | undefined> {
+  try {
+    const { getApiUrl } = require('@/lib/query-client');
+    const res = await globalThis.fetch(`${getApiUrl()}api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ phone, password }),
+    });
+    if (!res.ok) return undefined;
+    const data = await res.json();
+    return data.token;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function loginUser(phone: string, password: string): Promise<UserProfile> {
   const email = phoneToEmail(phone);
 
@@ -99,6 +124,7 @@ export async function loginUser(phone: string, password: string): Promise<UserPr
   }
 
   if (sessionCreated) {
+    const token = await fetchApiToken(phone, password);
     const profile = await databases.listDocuments(DB_ID, USERS_COLLECTION, [
       Query.equal('phone', phone),
       Query.limit(1),
@@ -110,6 +136,7 @@ export async function loginUser(phone: string, password: string): Promise<UserPr
         phone: doc.phone,
         displayName: doc.displayName || '',
         isAdmin: doc.isAdmin ?? false,
+        token,
       };
     }
     const authUser = await account.get();
@@ -118,6 +145,7 @@ export async function loginUser(phone: string, password: string): Promise<UserPr
       phone,
       displayName: authUser.name || '',
       isAdmin: false,
+      token,
     };
   }
 
@@ -137,6 +165,7 @@ export async function loginUser(phone: string, password: string): Promise<UserPr
     phone: data.phone,
     displayName: data.displayName || '',
     isAdmin: data.isAdmin ?? false,
+    token: data.token,
   };
 }
 
@@ -188,21 +217,6 @@ export async function getUserProfile(userId: string): Promise<UserProfile | null
   }
 }
 
-export async function listOutages(filters?: { type?: string; region?: string; ville?: string; hours?: string }): Promise<OutageData[]> {
-  const queries: string[] = [Query.orderDesc('createdAt'), Query.limit(200)];
-
-  if (filters?.type) queries.push(Query.equal('type', filters.type));
-  if (filters?.region) queries.push(Query.equal('region', filters.region));
-  if (filters?.ville) queries.push(Query.equal('ville', filters.ville));
-  if (filters?.hours) {
-    const cutoff = new Date(Date.now() - parseInt(filters.hours) * 3600000).toISOString();
-    queries.push(Query.greaterThan('createdAt', cutoff));
-  }
-
-  const result = await databases.listDocuments(DB_ID, OUTAGES_COLLECTION, queries);
-  return result.documents.map(docToOutage);
-}
-
 export async function createOutage(data: {
   type: string;
   latitude: number;
@@ -234,99 +248,6 @@ export async function createOutage(data: {
   return docToOutage(doc);
 }
 
-export async function confirmOutageDoc(id: string): Promise<OutageData> {
-  const doc = await databases.getDocument(DB_ID, OUTAGES_COLLECTION, id);
-  const updated = await databases.updateDocument(DB_ID, OUTAGES_COLLECTION, id, {
-    confirmations: (doc.confirmations ?? 1) + 1,
-  });
-  return docToOutage(updated);
-}
-
-export async function restoreOutageDoc(id: string): Promise<OutageData> {
-  const updated = await databases.updateDocument(DB_ID, OUTAGES_COLLECTION, id, {
-    estRetablie: true,
-    dateRetablissement: new Date().toISOString(),
-  });
-  return docToOutage(updated);
-}
-
-export async function deleteOutageDoc(id: string): Promise<void> {
-  await databases.deleteDocument(DB_ID, OUTAGES_COLLECTION, id);
-}
-
-export async function updateOutageDoc(id: string, data: Record<string, any>): Promise<OutageData> {
-  const updated = await databases.updateDocument(DB_ID, OUTAGES_COLLECTION, id, data);
-  return docToOutage(updated);
-}
-
-export async function getOutageStats() {
-  const allDocs: any[] = [];
-  let offset = 0;
-  const batchSize = 100;
-
-  while (true) {
-    const result = await databases.listDocuments(DB_ID, OUTAGES_COLLECTION, [
-      Query.limit(batchSize),
-      Query.offset(offset),
-    ]);
-    allDocs.push(...result.documents);
-    if (result.documents.length < batchSize) break;
-    offset += batchSize;
-  }
-
-  const total = allDocs.length;
-  const active = allDocs.filter(o => !o.estRetablie).length;
-  const restored = allDocs.filter(o => o.estRetablie).length;
-  const byType = {
-    water: allDocs.filter(o => o.type === 'water').length,
-    electricity: allDocs.filter(o => o.type === 'electricity').length,
-    internet: allDocs.filter(o => o.type === 'internet').length,
-  };
-  const byRegion: Record<string, number> = {};
-  allDocs.forEach(o => {
-    const r = o.region || 'N/A';
-    byRegion[r] = (byRegion[r] || 0) + 1;
-  });
-
-  return { total, active, restored, byType, byRegion, outages: allDocs.map(docToOutage) };
-}
-
-export async function listAllUsers(): Promise<UserProfile[]> {
-  const allUsers: any[] = [];
-  let offset = 0;
-  const batchSize = 100;
-  while (true) {
-    const result = await databases.listDocuments(DB_ID, USERS_COLLECTION, [
-      Query.limit(batchSize),
-      Query.offset(offset),
-      Query.orderDesc('$createdAt'),
-    ]);
-    allUsers.push(...result.documents);
-    if (result.documents.length < batchSize) break;
-    offset += batchSize;
-  }
-  return allUsers.map(u => ({
-    id: u.$id,
-    phone: u.phone,
-    displayName: u.displayName || '',
-    isAdmin: u.isAdmin ?? false,
-  }));
-}
-
-export async function deleteUserDoc(id: string): Promise<void> {
-  await databases.deleteDocument(DB_ID, USERS_COLLECTION, id);
-}
-
-export async function setUserAdminStatus(id: string, isAdmin: boolean): Promise<UserProfile> {
-  const doc = await databases.updateDocument(DB_ID, USERS_COLLECTION, id, { isAdmin });
-  return {
-    id: doc.$id,
-    phone: doc.phone,
-    displayName: doc.displayName || '',
-    isAdmin: doc.isAdmin ?? false,
-  };
-}
-
 const INCIDENTS_COLLECTION = 'incidents';
 
 export interface IncidentData {
@@ -339,6 +260,7 @@ export interface IncidentData {
   region: string;
   confirmations: number;
   photoUri: string | null;
+  photoThumbUri?: string | null;
   commentaire: string;
   estResolue: boolean;
   dateResolution: string | null;
@@ -346,121 +268,7 @@ export interface IncidentData {
   userId?: string;
 }
 
-function docToIncident(doc: any): IncidentData {
-  return {
-    id: doc.$id,
-    incidentType: doc.incidentType,
-    latitude: doc.latitude,
-    longitude: doc.longitude,
-    quartier: doc.quartier || 'N/A',
-    ville: doc.ville || 'N/A',
-    region: doc.region || 'N/A',
-    confirmations: doc.confirmations ?? 1,
-    photoUri: doc.photoUri || null,
-    commentaire: doc.commentaire || '',
-    estResolue: doc.estResolue ?? false,
-    dateResolution: doc.dateResolution || null,
-    createdAt: doc.createdAt || doc.$createdAt,
-    userId: doc.userId || '',
-  };
-}
-
-export async function listIncidents(filters?: { type?: string; region?: string; hours?: string }): Promise<IncidentData[]> {
-  const queries: string[] = [Query.orderDesc('createdAt'), Query.limit(200)];
-
-  if (filters?.type) queries.push(Query.equal('incidentType', filters.type));
-  if (filters?.region) queries.push(Query.equal('region', filters.region));
-  if (filters?.hours) {
-    const cutoff = new Date(Date.now() - parseInt(filters.hours) * 3600000).toISOString();
-    queries.push(Query.greaterThan('createdAt', cutoff));
-  }
-
-  const result = await databases.listDocuments(DB_ID, INCIDENTS_COLLECTION, queries);
-  return result.documents.map(docToIncident);
-}
-
-export async function createIncident(data: {
-  incidentType: string;
-  latitude: number;
-  longitude: number;
-  quartier?: string;
-  ville?: string;
-  region?: string;
-  photoUri?: string | null;
-  commentaire?: string;
-  userId?: string;
-}): Promise<IncidentData> {
-  const doc = await databases.createDocument(DB_ID, INCIDENTS_COLLECTION, ID.unique(), {
-    incidentType: data.incidentType,
-    latitude: data.latitude,
-    longitude: data.longitude,
-    quartier: data.quartier || 'N/A',
-    ville: data.ville || 'N/A',
-    region: data.region || 'N/A',
-    confirmations: 1,
-    photoUri: data.photoUri || null,
-    commentaire: data.commentaire || '',
-    estResolue: false,
-    dateResolution: null,
-    createdAt: new Date().toISOString(),
-    userId: data.userId || '',
-  }, [
-    Permission.read(Role.users()),
-    Permission.update(Role.users()),
-    Permission.delete(Role.users()),
-  ]);
-  return docToIncident(doc);
-}
-
-export async function confirmIncidentDoc(id: string): Promise<IncidentData> {
-  const doc = await databases.getDocument(DB_ID, INCIDENTS_COLLECTION, id);
-  const updated = await databases.updateDocument(DB_ID, INCIDENTS_COLLECTION, id, {
-    confirmations: (doc.confirmations ?? 1) + 1,
-  });
-  return docToIncident(updated);
-}
-
-export async function resolveIncidentDoc(id: string): Promise<IncidentData> {
-  const updated = await databases.updateDocument(DB_ID, INCIDENTS_COLLECTION, id, {
-    estResolue: true,
-    dateResolution: new Date().toISOString(),
-  });
-  return docToIncident(updated);
-}
-
 export async function deleteIncidentDoc(id: string): Promise<void> {
   await databases.deleteDocument(DB_ID, INCIDENTS_COLLECTION, id);
 }
 
-export async function getIncidentStats() {
-  const allDocs: any[] = [];
-  let offset = 0;
-  const batchSize = 100;
-
-  while (true) {
-    const result = await databases.listDocuments(DB_ID, INCIDENTS_COLLECTION, [
-      Query.limit(batchSize),
-      Query.offset(offset),
-    ]);
-    allDocs.push(...result.documents);
-    if (result.documents.length < batchSize) break;
-    offset += batchSize;
-  }
-
-  const total = allDocs.length;
-  const active = allDocs.filter(o => !o.estResolue).length;
-  const resolved = allDocs.filter(o => o.estResolue).length;
-  const byType = {
-    broken_pipe: allDocs.filter(o => o.incidentType === 'broken_pipe').length,
-    fallen_pole: allDocs.filter(o => o.incidentType === 'fallen_pole').length,
-    cable_on_ground: allDocs.filter(o => o.incidentType === 'cable_on_ground').length,
-    other: allDocs.filter(o => o.incidentType === 'other').length,
-  };
-  const byRegion: Record<string, number> = {};
-  allDocs.forEach(o => {
-    const r = o.region || 'N/A';
-    byRegion[r] = (byRegion[r] || 0) + 1;
-  });
-
-  return { total, active, resolved, byType, byRegion, incidents: allDocs.map(docToIncident) };
-}
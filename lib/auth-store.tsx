@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
 import {
   registerUser as appwriteRegister,
   loginUser as appwriteLogin,
@@ -7,14 +8,21 @@ import {
   getCurrentSession,
   type UserProfile,
 } from '@/lib/appwrite';
+import { setAuthToken, setDeviceId } from '@/lib/query-client';
+import { registerPushToken, unregisterPushToken } from '@/lib/api';
+import { getPushToken } from '@/lib/notifications';
+import { Platform } from 'react-native';
 
 const AUTH_KEY = 'auth_user';
+const DEVICE_ID_KEY = 'device_id';
+const PUSH_TOKEN_KEY = 'push_token';
 
 export interface User {
   id: string;
   phone: string;
   displayName: string;
   isAdmin: boolean;
+  token?: string;
 }
 
 interface AuthContextValue {
@@ -36,13 +44,35 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loadUser();
   }, []);
 
+  // Saved-place alerts need the server to know this install's push token.
+  useEffect(() => {
+    if (!user?.token) return;
+    (async () => {
+      const pushToken = await getPushToken();
+      if (!pushToken) return;
+      await registerPushToken(pushToken, Platform.OS);
+      await AsyncStorage.setItem(PUSH_TOKEN_KEY, pushToken);
+    })().catch(e => console.log('Push token registration failed:', e));
+  }, [user?.token]);
+
+  const loadDeviceId = async () => {
+    let id = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = Crypto.randomUUID();
+      await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    setDeviceId(id);
+  };
+
   const loadUser = async () => {
     try {
+      await loadDeviceId();
       const data = await AsyncStorage.getItem(AUTH_KEY);
       let cachedUser: User | null = null;
       if (data) {
         cachedUser = JSON.parse(data);
         setUser(cachedUser);
+        setAuthToken(cachedUser?.token ?? null);
       }
 
       const session = await getCurrentSession();
@@ -52,6 +82,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           phone: session.phone,
           displayName: session.displayName,
           isAdmin: session.isAdmin,
+          token: cachedUser?.id === session.id ? cachedUser.token : undefined,
         };
         setUser(u);
         await AsyncStorage.setItem(AUTH_KEY, JSON.stringify(u));
@@ -67,6 +98,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const saveUser = async (u: User) => {
     setUser(u);
+    setAuthToken(u.token ?? null);
     await AsyncStorage.setItem(AUTH_KEY, JSON.stringify(u));
   };
 
@@ -78,6 +110,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         phone: profile.phone,
         displayName: profile.displayName,
         isAdmin: profile.isAdmin,
+        token: profile.token,
       };
       await saveUser(u);
       return { success: true };
@@ -95,6 +128,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         phone: profile.phone,
         displayName: profile.displayName,
         isAdmin: profile.isAdmin,
+        token: profile.token,
       };
       await saveUser(u);
       return { success: true };
@@ -105,8 +139,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const logout = useCallback(async () => {
+    const pushToken = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (pushToken) {
+      await unregisterPushToken(pushToken).catch(() => {});
+      await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+    }
     await appwriteLogout();
     setUser(null);
+    setAuthToken(null);
     await AsyncStorage.removeItem(AUTH_KEY);
   }, []);
 
@@ -0,0 +1,166 @@
+import regionShapes from '@/assets/data/cameroon-regions.json';
+import villeShapes from '@/assets/data/cameroon-villes.json';
+import Colors from '@/constants/colors';
+import type { ActiveArea, ActiveAreas, DurationStats } from '@/lib/api';
+
+// Simplified outlines, fine for shading at country zoom but not for telling
+// which side of a border a report falls on: that comes from the report itself.
+// Ville shapes are rough circles around the main towns.
+
+export type AreaLevel = 'region' | 'ville';
+export type ChoroplethMetric = 'active' | 'hours';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapArea {
+  level: AreaLevel;
+  name: string;
+  // The enclosing region, for villes.
+  region: string | null;
+  rings: LatLng[][];
+  center: LatLng;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface AreaSummary {
+  active: number;
+  activeByType: Record<string, number>;
+  incidents: number;
+  // Hours during the duration-stats period with at least one outage, all types summed.
+  hours: number;
+}
+
+interface ShapeCollection {
+  features: { properties: { name: string; region?: string }; geometry: { coordinates: number[][][] } }[];
+}
+
+// latitudeDelta above which the map shows regions, then villes, then markers.
+const REGION_ZOOM = 2.5;
+const VILLE_ZOOM = 0.5;
+
+function toArea(level: AreaLevel, feature: ShapeCollection['features'][number]): MapArea {
+  const rings = feature.geometry.coordinates.map(ring => ring.map(([longitude, latitude]) => ({ latitude, longitude })));
+  const points = rings[0];
+  const lats = points.map(p => p.latitude);
+  const lons = points.map(p => p.longitude);
+  return {
+    level,
+    name: feature.properties.name,
+    region: feature.properties.region ?? null,
+    rings,
+    center: {
+      latitude: (Math.min(...lats) + Math.max(...lats)) / 2,
+      longitude: (Math.min(...lons) + Math.max(...lons)) / 2,
+    },
+    latitudeDelta: (Math.max(...lats) - Math.min(...lats)) * 1.2,
+    longitudeDelta: (Math.max(...lons) - Math.min(...lons)) * 1.2,
+  };
+}
+
+export const regionAreas: MapArea[] = (regionShapes as ShapeCollection).features.map(f => toArea('region', f));
+export const villeAreas: MapArea[] = (villeShapes as ShapeCollection).features.map(f => toArea('ville', f));
+
+// Reports spell places as the geocoder returned them ("Yaounde", "YAOUNDÉ").
+export function areaKey(name: string | null | undefined): string {
+  return (name || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+export function levelForZoom(latitudeDelta: number): AreaLevel | null {
+  if (latitudeDelta > REGION_ZOOM) return 'region';
+  if (latitudeDelta > VILLE_ZOOM) return 'ville';
+  return null;
+}
+
+export function emptySummary(): AreaSummary {
+  return { active: 0, activeByType: { water: 0, electricity: 0, internet: 0 }, incidents: 0, hours: 0 };
+}
+
+// The server's active counts worked out from the reports at hand instead, for
+// when it cannot be reached (offline region bundles).
+export function activeAreasOf(
+  outages: { type: string; region: string; ville: string; estRetablie: boolean }[],
+  incidents: { region: string; ville: string; estResolue: boolean }[],
+): ActiveAreas {
+  const by = (level: AreaLevel) => {
+    const groups = new Map<string, ActiveArea>();
+    const get = (r: { region: string; ville: string }) => {
+      const area = r[level] || 'N/A';
+      const parent = level === 'ville' ? r.region : null;
+      const key = `${parent ?? ''}/${area}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { area, parent, activeByType: {}, incidents: 0 };
+        groups.set(key, group);
+      }
+      return group;
+    };
+    for (const o of outages) {
+      if (o.estRetablie) continue;
+      const group = get(o);
+      group.activeByType[o.type] = (group.activeByType[o.type] || 0) + 1;
+    }
+    for (const i of incidents) {
+      if (!i.estResolue) get(i).incidents++;
+    }
+    return Array.from(groups.values());
+  };
+  return { at: new Date().toISOString(), byRegion: by('region'), byVille: by('ville') };
+}
+
+// Per area key, for the given level. Active counts come from the server's
+// count over every report, outage-hours from the duration stats, which
+// already merge overlapping outages within an area.
+export function summarizeAreas(
+  level: AreaLevel,
+  active: ActiveAreas | null,
+  durations: DurationStats | null,
+  type: string | null,
+): Map<string, AreaSummary> {
+  const summaries = new Map<string, AreaSummary>();
+  const get = (name: string) => {
+    const key = areaKey(name);
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = emptySummary();
+      summaries.set(key, summary);
+    }
+    return summary;
+  };
+
+  for (const area of (level === 'region' ? active?.byRegion : active?.byVille) || []) {
+    const summary = get(area.area);
+    for (const [t, count] of Object.entries(area.activeByType)) {
+      if (type && t !== type) continue;
+      summary.active += count;
+      summary.activeByType[t] = (summary.activeByType[t] || 0) + count;
+    }
+    summary.incidents += area.incidents;
+  }
+  for (const area of (level === 'region' ? durations?.byRegion : durations?.byVille) || []) {
+    const hours = Object.entries(area.hoursWithout)
+      .filter(([t]) => !type || t === type)
+      .reduce((sum, [, h]) => sum + h, 0);
+    get(area.area).hours += hours;
+  }
+  return summaries;
+}
+
+export function metricOf(summary: AreaSummary | undefined, metric: ChoroplethMetric): number {
+  if (!summary) return 0;
+  return metric === 'active' ? summary.active : Math.round(summary.hours);
+}
+
+const SHADE_STEPS = ['00', '26', '4D', '80', 'B3'];
+
+// Five steps from transparent to a strong accent, relative to the busiest area.
+export function shadeFor(value: number, max: number): string {
+  if (value <= 0 || max <= 0) return Colors.accent + SHADE_STEPS[0];
+  const step = Math.min(SHADE_STEPS.length - 1, 1 + Math.floor((value / max) * (SHADE_STEPS.length - 1) - 1e-9));
+  return Colors.accent + SHADE_STEPS[step];
+}
+
+export const SHADE_LEGEND = SHADE_STEPS.slice(1).map(alpha => Colors.accent + alpha);
@@ -0,0 +1,127 @@
+import { getApiUrl } from '@/lib/query-client';
+import type { IncidentData, OutageData } from '@/lib/appwrite';
+
+export type FeedAction = 'created' | 'confirmed' | 'restored' | 'updated' | 'deleted';
+
+export type FeedEvent =
+  | { entity: 'outage'; action: FeedAction; id: string; region: string; latitude: number; longitude: number; record?: OutageData; at: string }
+  | { entity: 'incident'; action: FeedAction; id: string; region: string; latitude: number; longitude: number; record?: IncidentData; at: string };
+
+interface FeedListener {
+  onEvent: (event: FeedEvent) => void;
+  // Called after the connection came back, so listeners can catch up on what they missed.
+  onReconnect?: () => void;
+}
+
+// minLon, minLat, maxLon, maxLat, as the server's bbox filter takes it.
+export type FeedArea = [number, number, number, number];
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+// Wide enough for the home screen's 20 km and the map around it.
+const FEED_RADIUS_KM = 100;
+
+const listeners = new Set<FeedListener>();
+let socket: WebSocket | null = null;
+let retryMs = MIN_RETRY_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let hasConnected = false;
+let area: FeedArea | null = null;
+
+function feedUrl(): string {
+  const url = new URL('api/feed', getApiUrl());
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (area) url.searchParams.set('bbox', area.join(','));
+  return url.href;
+}
+
+function sendArea(ws: WebSocket) {
+  ws.send(JSON.stringify({ type: 'subscribe', bbox: area ? area.join(',') : undefined }));
+}
+
+export function areaAround(latitude: number, longitude: number, radiusKm = FEED_RADIUS_KM): FeedArea {
+  const dLat = radiusKm / 111;
+  const dLon = radiusKm / (111 * Math.cos(latitude * Math.PI / 180));
+  return [longitude - dLon, latitude - dLat, longitude + dLon, latitude + dLat];
+}
+
+// Narrows the stream to events inside `next`, so a device is not sent every
+// report in the country. Null (the default, e.g. without location permission) means everywhere.
+export function setFeedArea(next: FeedArea | null) {
+  area = next;
+  if (socket?.readyState === WebSocket.OPEN) sendArea(socket);
+}
+
+function connect() {
+  if (socket || listeners.size === 0) return;
+  let ws: WebSocket;
+  try {
+    ws = new WebSocket(feedUrl());
+  } catch (e) {
+    console.log('Live feed unavailable:', e);
+    return;
+  }
+  socket = ws;
+
+  ws.onmessage = (message) => {
+    let data: any;
+    try {
+      data = JSON.parse(String(message.data));
+    } catch {
+      return;
+    }
+    if (data?.type === 'ready') {
+      retryMs = MIN_RETRY_MS;
+      // The area may have changed while the socket was connecting.
+      if (area) sendArea(ws);
+      if (hasConnected) listeners.forEach(l => l.onReconnect?.());
+      hasConnected = true;
+    } else if (data?.type === 'event') {
+      listeners.forEach(l => l.onEvent(data.event));
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket === ws) socket = null;
+    if (listeners.size === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, retryMs);
+    retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+  };
+}
+
+function disconnect() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const ws = socket;
+  socket = null;
+  hasConnected = false;
+  ws?.close();
+}
+
+// One socket is shared by every subscriber and kept open while at least one
+// is listening. Returns the unsubscribe function, so it fits a useEffect cleanup.
+export function subscribeFeed(listener: FeedListener): () => void {
+  listeners.add(listener);
+  connect();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) disconnect();
+  };
+}
+
+// Applies one pushed change to a store's list: `incoming` null means deleted.
+export function mergeFeedItem<T extends { id: string }>(items: T[], id: string, incoming: T | null): T[] {
+  if (!incoming) return items.some(o => o.id === id) ? items.filter(o => o.id !== id) : items;
+  if (!items.some(o => o.id === id)) return [incoming, ...items];
+  return items.map(o => o.id === id ? { ...o, ...incoming } : o);
+}
+
+// Merges a fetched page into a store's list: known items are replaced, new ones appended.
+export function mergePage<T extends { id: string }>(items: T[], page: T[]): T[] {
+  const byId = new Map(page.map(o => [o.id, o]));
+  const known = new Set(items.map(o => o.id));
+  return [...items.map(o => byId.get(o.id) ?? o), ...page.filter(o => !known.has(o.id))];
+}
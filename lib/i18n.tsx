@@ -20,14 +20,27 @@ const translations = {
     selectType: 'Type de coupure',
     location: 'Localisation',
     detecting: 'Détection en cours...',
-    addPhoto: 'Photo (optionnel)',
+    addPhoto: 'Photos et vidéos (optionnel)',
     takePhoto: 'Caméra',
     chooseGallery: 'Galerie',
+    mediaHint: 'Jusqu\'à %n photos ou vidéos (%s s max.)',
+    media: 'Photos et vidéos',
+    noMedia: 'Aucune photo ni vidéo pour l\'instant.',
+    addEvidence: 'Ajouter',
+    videoRejected: 'Vidéo ignorée : %s s et 25 Mo au maximum.',
+    mediaFull: 'Ce signalement a déjà %n photos ou vidéos.',
+    evidenceQueued: 'Ajout enregistré, il sera envoyé à la reconnexion.',
+    evidenceRefused: 'Le serveur a refusé ce fichier.',
+    mediaLoadError: 'Impossible de charger les médias.',
+    underReview: 'En vérification',
+    underReviewHint: 'Ce média est masqué en attendant la vérification d\'un administrateur.',
     submit: 'Envoyer',
     cancel: 'Annuler',
     success: 'Signalement envoyé !',
     reportSaved: 'Votre coupure a été enregistrée.',
     reportSavedOffline: 'Sauvegardé localement.',
+    reportMerged: 'Cette coupure était déjà signalée à proximité : votre signalement la confirme.',
+    reportCount: 'Signalements regroupés',
     confirm: 'Confirmer cette coupure',
     confirmations: 'confirmations',
     confirmation: 'confirmation',
@@ -43,6 +56,36 @@ const translations = {
     noOutagesYet: 'Rien à signaler pour le moment',
     outagesByType: 'Répartition par type',
     outagesByRegion: 'Coupures par région',
+    restorationTimes: 'Durée des coupures',
+    mttr: 'Délai moyen',
+    median: 'Médiane',
+    p90: '90 % sous',
+    durationDistribution: 'Répartition des durées',
+    hoursWithoutService: 'Heures sans service',
+    mttrByRegion: 'Délai moyen de rétablissement par région',
+    noDurations: 'Aucune coupure rétablie sur la période',
+    hoursShort: 'h',
+    dailyTrend: 'Coupures par jour',
+    trendDays: '%s j',
+    noTrend: 'Aucune coupure sur la période',
+    anomalyDays: 'Pics inhabituels : %s',
+    anomalyHint: 'Jours nettement au-dessus de la moyenne de la période',
+    outageHeatmap: 'Quand surviennent les coupures',
+    heatmapHint: 'Part des heures avec une coupure en cours sur les 12 dernières semaines (heure du Cameroun)',
+    heatmapPeak: 'Créneau le plus touché : %s',
+    weekdaysShort: ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'],
+    durationBuckets: {
+      under_1h: '< 1 h',
+      '1_6h': '1-6 h',
+      '6_24h': '6-24 h',
+      '1_3d': '1-3 j',
+      over_3d: '> 3 j',
+    },
+    areaLevels: {
+      region: 'Région',
+      ville: 'Ville',
+      quartier: 'Quartier',
+    },
     period: 'Période',
     week: 'Semaine',
     month: 'Mois',
@@ -67,6 +110,10 @@ const translations = {
     restored: 'Rétabli',
     markRestored: 'Marquer comme rétabli',
     activeOutages: 'actives',
+    mapActiveMetric: 'Coupures actives',
+    mapHoursMetric: 'Heures de coupure (7 j)',
+    areaHoursWithout: '%s h de coupure cumulées sur les %d derniers jours',
+    zoomIn: 'Zoomer',
     active: 'Actives',
     today: 'Aujourd\'hui',
     yesterday: 'Hier',
@@ -90,6 +137,8 @@ const translations = {
     syncing: 'Synchronisation...',
     synced: 'Synchronisé',
     syncSuccess: 'Synchronisation réussie',
+    pendingSync: '%s action(s) en attente de synchronisation',
+    pendingSyncDetail: '%o coupure(s), %i incident(s)',
     configure: 'Configurer',
     outagesCount: 'coupures',
     people: 'personnes',
@@ -113,6 +162,17 @@ const translations = {
     adminPanel: 'Panneau admin',
     manageUsers: 'Utilisateurs',
     manageOutages: 'Coupures',
+    reviewMedia: 'Photos',
+    reviewHeld: 'En attente',
+    reviewBlurred: 'Floutées',
+    approveMedia: 'Publier',
+    rejectMedia: 'Retirer',
+    watchVideo: 'Voir la vidéo',
+    noPendingMedia: 'Aucun média à vérifier',
+    facesPlates: '%f visage(s), %p plaque(s)',
+    reasonNsfw: 'Contenu inapproprié',
+    reasonVideo: 'Vidéo',
+    reasonUnchecked: 'Non analysé',
     totalUsers: 'utilisateurs',
     deleteUser: 'Supprimer',
     confirmDelete: 'Confirmer la suppression ?',
@@ -141,6 +201,9 @@ const translations = {
     incidentSaved: 'Votre incident a été enregistré.',
     tipOfDay: 'Astuce du jour',
     myNeighborhood: 'Mon quartier aujourd\'hui',
+    riskToday: 'Risque de coupure (24 h)',
+    riskLevels: { low: 'Faible', medium: 'Moyen', high: 'Élevé' },
+    riskHint: 'Estimé d\'après les coupures des %s dernières semaines aux mêmes heures et jours',
     noNearbyEvents: 'Aucun événement récent à proximité',
     newOutage: 'Nouvelle coupure',
     newIncident: 'Nouvel incident',
@@ -156,6 +219,58 @@ const translations = {
     yesStillActive: 'Oui, toujours',
     noRestored: 'Non, rétablie',
     allEvents: 'Tous',
+    statusHistory: 'Suivi de la coupure',
+    historyEmpty: 'Aucun changement enregistré',
+    restorationVotes: 'Retour du service',
+    votesBack: 'Rétabli',
+    votesStillOut: 'Toujours coupé',
+    votesNeeded: 'votes concordants d\'utilisateurs connectés pour clôturer',
+    markStillOut: 'Toujours coupé chez moi',
+    yourVote: 'Votre vote',
+    alerts: 'Alertes',
+    myPlaces: 'Mes lieux',
+    myPlacesHint: 'Notifications pour les coupures proches',
+    placesEmpty: 'Aucun lieu enregistré. Ajoutez votre position actuelle pour être alerté des coupures autour.',
+    placeName: 'Nom du lieu (Maison, Bureau...)',
+    addPlaceHere: 'Ajouter ma position',
+    radius: 'Rayon',
+    alertTypes: 'Types de coupure',
+    quietHours: 'Heures calmes',
+    quietOff: 'Désactivées',
+    quietFrom: 'De',
+    quietTo: 'à',
+    deletePlace: 'Supprimer ce lieu',
+    confirmDeletePlace: 'Ne plus recevoir d\'alertes pour ce lieu ?',
+    placeSaveFailed: 'Impossible d\'enregistrer le lieu',
+    offlineMaps: 'Cartes hors ligne',
+    offlineMapsHint: 'Téléchargez une région pour consulter la carte et les dernières coupures sans connexion',
+    offlineDataOnly: 'Sans fond de carte : seules les coupures et incidents sont enregistrés',
+    offlineUnavailable: 'Les cartes hors ligne ne sont disponibles que dans l\'application mobile',
+    offlineNotDownloaded: 'Non téléchargée',
+    offlineTilesEstimate: 'environ %s tuiles',
+    offlineUpdated: 'Mise à jour le %s',
+    offlineDownloadFailed: 'Téléchargement impossible',
+    offlineStorageUsed: 'Espace utilisé : %s',
+    offlineDeleteAll: 'Tout supprimer',
+    confirmDeleteOffline: 'Supprimer les données hors ligne de cette région ?',
+    deleteOffline: 'Supprimer',
+    offlineDataAsOf: 'Hors ligne · données du %s',
+    megabytes: 'Mo',
+    statuses: {
+      reported: 'Signalée',
+      confirmed: 'Confirmée',
+      restoration_claimed: 'Rétablissement signalé',
+      restored: 'Rétablie',
+      verified: 'Vérifiée',
+      reopened: 'Rouverte',
+      rejected: 'Rejetée',
+    },
+    actors: {
+      user: 'Utilisateur',
+      device: 'Anonyme',
+      admin: 'Administrateur',
+      system: 'Système',
+    },
     regions: {
       adamaoua: 'Adamaoua',
       centre: 'Centre',
@@ -184,14 +299,27 @@ const translations = {
     selectType: 'Outage type',
     location: 'Location',
     detecting: 'Detecting location...',
-    addPhoto: 'Photo (optional)',
+    addPhoto: 'Photos & videos (optional)',
     takePhoto: 'Camera',
     chooseGallery: 'Gallery',
+    mediaHint: 'Up to %n photos or videos (%s s max.)',
+    media: 'Photos & videos',
+    noMedia: 'No photos or videos yet.',
+    addEvidence: 'Add',
+    videoRejected: 'Video skipped: %s s and 25 MB at most.',
+    mediaFull: 'This report already has %n photos or videos.',
+    evidenceQueued: 'Saved, it will be sent once you are back online.',
+    evidenceRefused: 'The server refused this file.',
+    mediaLoadError: 'Could not load the media.',
+    underReview: 'Under review',
+    underReviewHint: 'This media is hidden until an administrator has checked it.',
     submit: 'Submit',
     cancel: 'Cancel',
     success: 'Report submitted!',
     reportSaved: 'Your outage has been recorded.',
     reportSavedOffline: 'Saved locally.',
+    reportMerged: 'This outage was already reported nearby: your report confirms it.',
+    reportCount: 'Grouped reports',
     confirm: 'Confirm this outage',
     confirmations: 'confirmations',
     confirmation: 'confirmation',
@@ -207,6 +335,36 @@ const translations = {
     noOutagesYet: 'Nothing to report yet',
     outagesByType: 'By type',
     outagesByRegion: 'By region',
+    restorationTimes: 'Outage durations',
+    mttr: 'Average',
+    median: 'Median',
+    p90: '90% under',
+    durationDistribution: 'Duration breakdown',
+    hoursWithoutService: 'Hours without service',
+    mttrByRegion: 'Mean time to restore by region',
+    noDurations: 'No restored outages in this period',
+    hoursShort: 'h',
+    dailyTrend: 'Outages per day',
+    trendDays: '%s d',
+    noTrend: 'No outages in this period',
+    anomalyDays: 'Unusual spikes: %s',
+    anomalyHint: 'Days well above the average for the period',
+    outageHeatmap: 'When outages happen',
+    heatmapHint: 'Share of hours with an ongoing outage over the last 12 weeks (Cameroon time)',
+    heatmapPeak: 'Most affected slot: %s',
+    weekdaysShort: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+    durationBuckets: {
+      under_1h: '< 1 h',
+      '1_6h': '1-6 h',
+      '6_24h': '6-24 h',
+      '1_3d': '1-3 d',
+      over_3d: '> 3 d',
+    },
+    areaLevels: {
+      region: 'Region',
+      ville: 'City',
+      quartier: 'Neighborhood',
+    },
     period: 'Period',
     week: 'Week',
     month: 'Month',
@@ -231,6 +389,10 @@ const translations = {
     restored: 'Restored',
     markRestored: 'Mark as restored',
     activeOutages: 'active',
+    mapActiveMetric: 'Active outages',
+    mapHoursMetric: 'Outage hours (7 d)',
+    areaHoursWithout: '%s outage hours over the last %d days',
+    zoomIn: 'Zoom in',
     active: 'Active',
     today: 'Today',
     yesterday: 'Yesterday',
@@ -254,6 +416,8 @@ const translations = {
     syncing: 'Syncing...',
     synced: 'Synced',
     syncSuccess: 'Sync successful',
+    pendingSync: '%s action(s) waiting to sync',
+    pendingSyncDetail: '%o outage(s), %i incident(s)',
     configure: 'Configure',
     outagesCount: 'outages',
     people: 'people',
@@ -277,6 +441,17 @@ const translations = {
     adminPanel: 'Admin panel',
     manageUsers: 'Users',
     manageOutages: 'Outages',
+    reviewMedia: 'Photos',
+    reviewHeld: 'Waiting',
+    reviewBlurred: 'Blurred',
+    approveMedia: 'Publish',
+    rejectMedia: 'Remove',
+    watchVideo: 'Watch video',
+    noPendingMedia: 'No media to review',
+    facesPlates: '%f face(s), %p plate(s)',
+    reasonNsfw: 'Inappropriate content',
+    reasonVideo: 'Video',
+    reasonUnchecked: 'Not scanned',
     totalUsers: 'users',
     deleteUser: 'Delete',
     confirmDelete: 'Confirm deletion?',
@@ -305,6 +480,9 @@ const translations = {
     incidentSaved: 'Your incident has been recorded.',
     tipOfDay: 'Tip of the day',
     myNeighborhood: 'My neighborhood today',
+    riskToday: 'Outage risk (24 h)',
+    riskLevels: { low: 'Low', medium: 'Medium', high: 'High' },
+    riskHint: 'Estimated from outages at the same hours and weekdays over the last %s weeks',
     noNearbyEvents: 'No recent events nearby',
     newOutage: 'New outage',
     newIncident: 'New incident',
@@ -320,6 +498,58 @@ const translations = {
     yesStillActive: 'Yes, still active',
     noRestored: 'No, restored',
     allEvents: 'All',
+    statusHistory: 'Outage timeline',
+    historyEmpty: 'No changes recorded',
+    restorationVotes: 'Service back?',
+    votesBack: 'Back',
+    votesStillOut: 'Still out',
+    votesNeeded: 'matching votes from signed-in users to close',
+    markStillOut: 'Still out for me',
+    yourVote: 'Your vote',
+    alerts: 'Alerts',
+    myPlaces: 'My places',
+    myPlacesHint: 'Notifications for nearby outages',
+    placesEmpty: 'No saved places yet. Add your current position to get alerts about outages around it.',
+    placeName: 'Place name (Home, Office...)',
+    addPlaceHere: 'Add my position',
+    radius: 'Radius',
+    alertTypes: 'Outage types',
+    quietHours: 'Quiet hours',
+    quietOff: 'Off',
+    quietFrom: 'From',
+    quietTo: 'to',
+    deletePlace: 'Delete this place',
+    confirmDeletePlace: 'Stop receiving alerts for this place?',
+    placeSaveFailed: 'Could not save the place',
+    offlineMaps: 'Offline maps',
+    offlineMapsHint: 'Download a region to browse the map and the latest outages without a connection',
+    offlineDataOnly: 'No base map: only outages and incidents are saved',
+    offlineUnavailable: 'Offline maps are only available in the mobile app',
+    offlineNotDownloaded: 'Not downloaded',
+    offlineTilesEstimate: 'about %s tiles',
+    offlineUpdated: 'Updated %s',
+    offlineDownloadFailed: 'Download failed',
+    offlineStorageUsed: 'Storage used: %s',
+    offlineDeleteAll: 'Delete all',
+    confirmDeleteOffline: 'Delete the offline data for this region?',
+    deleteOffline: 'Delete',
+    offlineDataAsOf: 'Offline · data as of %s',
+    megabytes: 'MB',
+    statuses: {
+      reported: 'Reported',
+      confirmed: 'Confirmed',
+      restoration_claimed: 'Restoration claimed',
+      restored: 'Restored',
+      verified: 'Verified',
+      reopened: 'Reopened',
+      rejected: 'Rejected',
+    },
+    actors: {
+      user: 'User',
+      device: 'Anonymous',
+      admin: 'Administrator',
+      system: 'System',
+    },
     regions: {
       adamaoua: 'Adamaoua',
       centre: 'Centre',
@@ -1,13 +1,20 @@
-import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '@/lib/auth-store';
+import { useOutbox } from '@/lib/outbox-store';
 import {
-  listIncidents as appwriteListIncidents,
-  createIncident as appwriteCreateIncident,
-  confirmIncidentDoc,
-  resolveIncidentDoc,
-  type IncidentData,
-} from '@/lib/appwrite';
+  confirmIncident as apiConfirmIncident,
+  createIncident as apiCreateIncident,
+  resolveIncident as apiResolveIncident,
+  fetchConfirmedToday,
+  fetchIncidents,
+  resolvePhotoUri,
+  uploadPhoto,
+  type LocalMedia,
+} from '@/lib/api';
+import { attachOrQueue } from '@/lib/media';
+import { mergeFeedItem, mergePage, subscribeFeed } from '@/lib/feed';
+import type { IncidentData } from '@/lib/appwrite';
 
 export type IncidentType = 'broken_pipe' | 'fallen_pole' | 'cable_on_ground' | 'other';
 
@@ -22,6 +29,7 @@ export interface Incident {
   date: string;
   confirmations: number;
   photoUri: string | null;
+  photoThumbUri?: string | null;
   commentaire: string;
   synced: boolean;
   estResolue: boolean;
@@ -33,7 +41,8 @@ const INCIDENT_CONFIRMATIONS_KEY = 'incident_confirmations';
 
 interface IncidentContextValue {
   incidents: Incident[];
-  addIncident: (incident: Omit<Incident, 'id' | 'confirmations' | 'synced' | 'estResolue' | 'dateResolution'>) => Promise<void>;
+  // extraMedia: photos and videos attached once the report exists (or queued with it).
+  addIncident: (incident: Omit<Incident, 'id' | 'confirmations' | 'synced' | 'estResolue' | 'dateResolution'>, extraMedia?: LocalMedia[]) => Promise<void>;
   confirmIncident: (id: string) => Promise<boolean>;
   canConfirmIncident: (id: string) => boolean;
   markResolved: (id: string) => Promise<void>;
@@ -41,6 +50,9 @@ interface IncidentContextValue {
   getIncidentsByRegion: (region?: string) => Incident[];
   getRecentIncidents: (hours?: number) => Incident[];
   getNearbyIncidents: (lat: number, lon: number, radiusKm?: number) => Incident[];
+  loadNearbyIncidents: (lat: number, lon: number, radiusKm?: number) => Promise<void>;
+  loadMoreIncidents: () => Promise<void>;
+  hasMoreIncidents: boolean;
   isLoading: boolean;
   refreshIncidents: () => Promise<void>;
 }
@@ -58,7 +70,7 @@ function getDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number):
   return R * c;
 }
 
-function remoteToLocal(s: IncidentData): Incident {
+export function remoteToLocal(s: IncidentData): Incident {
   return {
     id: s.id,
     incidentType: s.incidentType as IncidentType,
@@ -69,7 +81,8 @@ function remoteToLocal(s: IncidentData): Incident {
     region: s.region || 'N/A',
     date: s.createdAt || new Date().toISOString(),
     confirmations: s.confirmations || 1,
-    photoUri: s.photoUri || null,
+    photoUri: resolvePhotoUri(s.photoUri),
+    photoThumbUri: resolvePhotoUri(s.photoThumbUri),
     commentaire: s.commentaire || '',
     synced: true,
     estResolue: s.estResolue || false,
@@ -82,11 +95,53 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [confirmedIds, setConfirmedIds] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  // Cursor of the next older page, null once the end is reached.
+  const cursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const { enqueue, onSynced } = useOutbox();
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => onSynced((event) => {
+    if (event.kind !== 'createIncident' && event.kind !== 'confirmIncident' && event.kind !== 'resolveIncident') return;
+    const { localId, record } = event;
+    setIncidents(prev => {
+      const next = prev.map(o => {
+        if (o.id !== localId) return o;
+        if (event.kind === 'createIncident') return { ...o, id: record.id, synced: true };
+        if (event.kind === 'confirmIncident') return { ...o, confirmations: Math.max(o.confirmations, record.confirmations) };
+        return { ...o, estResolue: true, dateResolution: o.dateResolution || record.dateResolution };
+      });
+      AsyncStorage.setItem(INCIDENTS_KEY, JSON.stringify(next));
+      return next;
+    });
+    if (event.kind === 'createIncident') {
+      setConfirmedIds(prev => {
+        if (!(localId in prev)) return prev;
+        const { [localId]: day, ...rest } = prev;
+        const next = { ...rest, [record.id]: day };
+        AsyncStorage.setItem(INCIDENT_CONFIRMATIONS_KEY, JSON.stringify(next));
+        return next;
+      });
+    }
+  }), [onSynced]);
+
+  const refreshRef = useRef<() => Promise<void>>(async () => { });
+  useEffect(() => subscribeFeed({
+    onEvent: (event) => {
+      if (event.entity !== 'incident') return;
+      setIncidents(prev => {
+        const next = mergeFeedItem(prev, event.id, event.record ? remoteToLocal(event.record) : null);
+        if (next !== prev) AsyncStorage.setItem(INCIDENTS_KEY, JSON.stringify(next));
+        return next;
+      });
+    },
+    onReconnect: () => { refreshRef.current(); },
+  }), []);
+
   const loadData = async () => {
     try {
       const [incidentsData, confirmData] = await Promise.all([
@@ -99,7 +154,8 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
         setIncidents(localIncidents);
       }
       if (confirmData) setConfirmedIds(JSON.parse(confirmData));
-      await fetchFromAppwrite(localIncidents);
+      await fetchFirstPage(localIncidents);
+      await syncConfirmedToday();
     } catch (e) {
       console.error('Error loading incident data:', e);
     } finally {
@@ -107,26 +163,57 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const fetchFromAppwrite = async (currentIncidents?: Incident[]) => {
+  const syncConfirmedToday = async () => {
     try {
-      const serverIncidents = await appwriteListIncidents();
-      const mapped: Incident[] = serverIncidents.map(remoteToLocal);
-      const local = currentIncidents || incidents;
-      const localIds = new Set(local.map(o => o.id));
-      const updatedLocal = local.map(o => {
-        const serverVersion = mapped.find(s => s.id === o.id);
-        if (serverVersion) return { ...serverVersion, synced: true };
-        return o;
+      const { incidents: ids } = await fetchConfirmedToday();
+      if (ids.length === 0) return;
+      const today = new Date().toDateString();
+      setConfirmedIds(prev => {
+        const next = { ...prev, ...Object.fromEntries(ids.map(id => [id, today])) };
+        AsyncStorage.setItem(INCIDENT_CONFIRMATIONS_KEY, JSON.stringify(next));
+        return next;
       });
-      const newFromServer = mapped.filter(o => !localIds.has(o.id));
-      const merged = [...updatedLocal, ...newFromServer];
+    } catch (e) {
+      console.log('Incident confirmation sync skipped (offline mode)');
+    }
+  };
+
+  // Only the newest page is fetched up front; loadMoreIncidents walks back from there.
+  const fetchFirstPage = async (currentIncidents?: Incident[]) => {
+    try {
+      const page = await fetchIncidents();
+      const merged = mergePage(currentIncidents || incidents, page.items.map(remoteToLocal));
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
       setIncidents(merged);
       await AsyncStorage.setItem(INCIDENTS_KEY, JSON.stringify(merged));
     } catch (e) {
-      console.log('Appwrite incident fetch skipped (offline mode)');
+      console.log('Incident fetch skipped (offline mode)');
     }
   };
 
+  const loadMoreIncidents = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    try {
+      const page = await fetchIncidents({ cursor });
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+      setIncidents(prev => {
+        const next = mergePage(prev, page.items.map(remoteToLocal));
+        AsyncStorage.setItem(INCIDENTS_KEY, JSON.stringify(next));
+        return next;
+      });
+    } catch {
+      console.log('Next page skipped (offline mode)');
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, []);
+
+  refreshRef.current = () => fetchFirstPage();
+
   const saveIncidents = async (newIncidents: Incident[]) => {
     setIncidents(newIncidents);
     await AsyncStorage.setItem(INCIDENTS_KEY, JSON.stringify(newIncidents));
@@ -137,20 +224,22 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(INCIDENT_CONFIRMATIONS_KEY, JSON.stringify(newConfirms));
   };
 
-  const addIncident = useCallback(async (incident: Omit<Incident, 'id' | 'confirmations' | 'synced' | 'estResolue' | 'dateResolution'>) => {
+  const addIncident = useCallback(async (incident: Omit<Incident, 'id' | 'confirmations' | 'synced' | 'estResolue' | 'dateResolution'>, extraMedia: LocalMedia[] = []) => {
     let newIncident: Incident;
+    const payload = {
+      incidentType: incident.incidentType,
+      latitude: incident.latitude,
+      longitude: incident.longitude,
+      quartier: incident.quartier,
+      ville: incident.ville,
+      region: incident.region,
+      commentaire: incident.commentaire,
+      userId: user?.id || '',
+    };
+    let photoId: string | null = null;
     try {
-      const created = await appwriteCreateIncident({
-        incidentType: incident.incidentType,
-        latitude: incident.latitude,
-        longitude: incident.longitude,
-        quartier: incident.quartier,
-        ville: incident.ville,
-        region: incident.region,
-        photoUri: incident.photoUri,
-        commentaire: incident.commentaire,
-        userId: user?.id || '',
-      });
+      if (incident.photoUri) photoId = (await uploadPhoto(incident.photoUri)).id;
+      const created = await apiCreateIncident({ ...payload, photoId });
       newIncident = remoteToLocal(created);
     } catch (e) {
       const tempId = Date.now().toString() + Math.random().toString(36).substr(2, 9);
@@ -162,10 +251,13 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
         estResolue: false,
         dateResolution: null,
       };
+      // A photo that did not make it up goes in the outbox too, ahead of the report.
+      await enqueue({ kind: 'createIncident', tempId, payload: { ...payload, photoId }, photoUri: photoId ? null : incident.photoUri });
     }
     const updated = [newIncident, ...incidents];
     await saveIncidents(updated);
-  }, [incidents, user]);
+    await attachOrQueue('incident', newIncident.id, extraMedia, enqueue, newIncident.synced);
+  }, [incidents, user, enqueue]);
 
   const canConfirmIncident = useCallback((id: string): boolean => {
     const today = new Date().toDateString();
@@ -179,22 +271,38 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
       o.id === id ? { ...o, confirmations: o.confirmations + 1 } : o
     );
     const newConfirms = { ...confirmedIds, [id]: today };
-    try { await confirmIncidentDoc(id); } catch {}
+    const isSynced = incidents.find(o => o.id === id)?.synced ?? true;
+    try {
+      if (!isSynced) throw new Error('Incident not synced yet');
+      await apiConfirmIncident(id);
+    } catch (e: any) {
+      if (e?.code === 409) {
+        await saveConfirmations(newConfirms);
+        return false;
+      }
+      await enqueue({ kind: 'confirmIncident', targetId: id });
+    }
     await saveIncidents(updated);
     await saveConfirmations(newConfirms);
     return true;
-  }, [incidents, confirmedIds, canConfirmIncident]);
+  }, [incidents, confirmedIds, canConfirmIncident, enqueue]);
 
   const markResolved = useCallback(async (id: string) => {
     const updated = incidents.map(o =>
       o.id === id ? { ...o, estResolue: true, dateResolution: new Date().toISOString() } : o
     );
-    try { await resolveIncidentDoc(id); } catch {}
+    const isSynced = incidents.find(o => o.id === id)?.synced ?? true;
+    try {
+      if (!isSynced) throw new Error('Incident not synced yet');
+      await apiResolveIncident(id);
+    } catch {
+      await enqueue({ kind: 'resolveIncident', targetId: id });
+    }
     await saveIncidents(updated);
-  }, [incidents]);
+  }, [incidents, enqueue]);
 
   const refreshIncidents = useCallback(async () => {
-    await fetchFromAppwrite();
+    await fetchFirstPage();
   }, [incidents]);
 
   const getIncidentsByType = useCallback((type?: IncidentType) => {
@@ -221,6 +329,21 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
     });
   }, [incidents]);
 
+  // The local list only holds the latest page plus what the feed pushed; this pulls
+  // in everything the server has around the point before getNearbyIncidents filters it.
+  const loadNearbyIncidents = useCallback(async (lat: number, lon: number, radiusKm: number = 20) => {
+    try {
+      const nearby = await fetchIncidents({ near: { latitude: lat, longitude: lon }, radiusKm, hours: 24, limit: 200 });
+      setIncidents(prev => {
+        const next = nearby.items.reduce((acc, s) => mergeFeedItem(acc, s.id, remoteToLocal(s)), prev);
+        if (next !== prev) AsyncStorage.setItem(INCIDENTS_KEY, JSON.stringify(next));
+        return next;
+      });
+    } catch {
+      console.log('Nearby fetch skipped (offline mode)');
+    }
+  }, []);
+
   const value = useMemo(() => ({
     incidents,
     addIncident,
@@ -231,9 +354,12 @@ export function IncidentProvider({ children }: { children: ReactNode }) {
     getIncidentsByRegion,
     getRecentIncidents,
     getNearbyIncidents,
+    loadNearbyIncidents,
+    loadMoreIncidents,
+    hasMoreIncidents: hasMore,
     isLoading,
     refreshIncidents,
-  }), [incidents, addIncident, confirmIncident, canConfirmIncident, markResolved, getIncidentsByType, getIncidentsByRegion, getRecentIncidents, getNearbyIncidents, isLoading, refreshIncidents]);
+  }), [incidents, addIncident, confirmIncident, canConfirmIncident, markResolved, getIncidentsByType, getIncidentsByRegion, getRecentIncidents, getNearbyIncidents, loadNearbyIncidents, loadMoreIncidents, hasMore, isLoading, refreshIncidents]);
 
   return (
     <IncidentContext.Provider value={value}>
@@ -0,0 +1,175 @@
+// Grid clustering for map markers. Points are bucketed into square cells
+// whose size follows the zoom level, so clusters do not move while panning
+// and a pass costs O(n); neighbouring buckets whose centres fall close
+// together are then merged, so a pair straddling a cell edge still groups.
+
+export interface ClusterPoint<T> {
+  latitude: number;
+  longitude: number;
+  // What the dominant colour is picked from (an outage or incident type).
+  kind: string;
+  item: T;
+}
+
+export interface MapCluster<T> {
+  id: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+  dominant: string;
+  items: T[];
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+export interface ViewRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// Roughly how many cells span the width of the map.
+const CELLS_ACROSS = 7;
+// Past this zoom (street level) every point gets its own marker.
+const MAX_CLUSTER_ZOOM = 16;
+
+export function zoomOf(longitudeDelta: number): number {
+  return Math.max(0, Math.round(Math.log2(360 / Math.max(longitudeDelta, 1e-6))));
+}
+
+interface Bucket<T> {
+  cx: number;
+  cy: number;
+  latSum: number;
+  lonSum: number;
+  kinds: Map<string, number>;
+  cluster: MapCluster<T>;
+}
+
+function addPoint<T>(bucket: Bucket<T>, point: ClusterPoint<T>) {
+  const c = bucket.cluster;
+  c.items.push(point.item);
+  c.count++;
+  bucket.latSum += point.latitude;
+  bucket.lonSum += point.longitude;
+  bucket.kinds.set(point.kind, (bucket.kinds.get(point.kind) || 0) + 1);
+  c.minLatitude = Math.min(c.minLatitude, point.latitude);
+  c.maxLatitude = Math.max(c.maxLatitude, point.latitude);
+  c.minLongitude = Math.min(c.minLongitude, point.longitude);
+  c.maxLongitude = Math.max(c.maxLongitude, point.longitude);
+}
+
+function absorb<T>(into: Bucket<T>, other: Bucket<T>) {
+  const a = into.cluster;
+  const b = other.cluster;
+  a.items.push(...b.items);
+  a.count += b.count;
+  into.latSum += other.latSum;
+  into.lonSum += other.lonSum;
+  other.kinds.forEach((n, kind) => into.kinds.set(kind, (into.kinds.get(kind) || 0) + n));
+  a.minLatitude = Math.min(a.minLatitude, b.minLatitude);
+  a.maxLatitude = Math.max(a.maxLatitude, b.maxLatitude);
+  a.minLongitude = Math.min(a.minLongitude, b.minLongitude);
+  a.maxLongitude = Math.max(a.maxLongitude, b.maxLongitude);
+}
+
+function dominantKind(kinds: Map<string, number>): string {
+  let best = '';
+  let bestCount = -1;
+  kinds.forEach((n, kind) => {
+    if (n > bestCount) {
+      best = kind;
+      bestCount = n;
+    }
+  });
+  return best;
+}
+
+// Clusters of one point are returned as well; callers draw them as plain markers.
+export function clusterPoints<T>(points: ClusterPoint<T>[], zoom: number): MapCluster<T>[] {
+  const cell = zoom >= MAX_CLUSTER_ZOOM ? 0 : 360 / Math.pow(2, zoom) / CELLS_ACROSS;
+  const buckets = new Map<string, Bucket<T>>();
+
+  points.forEach((point, i) => {
+    const cx = cell ? Math.floor(point.longitude / cell) : i;
+    const cy = cell ? Math.floor(point.latitude / cell) : 0;
+    const key = `${cx}:${cy}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        cx,
+        cy,
+        latSum: 0,
+        lonSum: 0,
+        kinds: new Map(),
+        cluster: {
+          id: `${zoom}:${key}`,
+          latitude: 0,
+          longitude: 0,
+          count: 0,
+          dominant: '',
+          items: [],
+          minLatitude: Infinity,
+          maxLatitude: -Infinity,
+          minLongitude: Infinity,
+          maxLongitude: -Infinity,
+        },
+      };
+      buckets.set(key, bucket);
+    }
+    addPoint(bucket, point);
+  });
+
+  if (cell) {
+    // Biggest first, so small buckets fold into their large neighbours.
+    const ordered = Array.from(buckets.values()).sort((a, b) => b.cluster.count - a.cluster.count);
+    const merged = new Set<Bucket<T>>();
+    const mergeDistance = cell / 2;
+    for (const bucket of ordered) {
+      if (merged.has(bucket)) continue;
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          if (!dx && !dy) continue;
+          const neighbour = buckets.get(`${bucket.cx + dx}:${bucket.cy + dy}`);
+          if (!neighbour || merged.has(neighbour)) continue;
+          const dLat = bucket.latSum / bucket.cluster.count - neighbour.latSum / neighbour.cluster.count;
+          const dLon = bucket.lonSum / bucket.cluster.count - neighbour.lonSum / neighbour.cluster.count;
+          if (Math.hypot(dLat, dLon) > mergeDistance) continue;
+          absorb(bucket, neighbour);
+          merged.add(neighbour);
+        }
+      }
+    }
+    merged.forEach(b => buckets.delete(`${b.cx}:${b.cy}`));
+  }
+
+  return Array.from(buckets.values()).map(({ cluster, latSum, lonSum, kinds }) => ({
+    ...cluster,
+    latitude: latSum / cluster.count,
+    longitude: lonSum / cluster.count,
+    dominant: dominantKind(kinds),
+  }));
+}
+
+// Keeps what is on screen, plus a margin so markers do not pop in at the edges.
+export function inView(region: ViewRegion, latitude: number, longitude: number, margin = 0.25): boolean {
+  const halfLat = region.latitudeDelta * (0.5 + margin);
+  const halfLon = region.longitudeDelta * (0.5 + margin);
+  return Math.abs(latitude - region.latitude) <= halfLat && Math.abs(longitude - region.longitude) <= halfLon;
+}
+
+// The region to animate to when a cluster is tapped: its points' bounds, and
+// always at least one zoom step closer so the cluster splits up.
+export function zoomRegionFor(cluster: MapCluster<unknown>, current: ViewRegion): ViewRegion {
+  const latitudeDelta = Math.max((cluster.maxLatitude - cluster.minLatitude) * 1.6, 0.002);
+  const longitudeDelta = Math.max((cluster.maxLongitude - cluster.minLongitude) * 1.6, 0.002);
+  return {
+    latitude: (cluster.minLatitude + cluster.maxLatitude) / 2,
+    longitude: (cluster.minLongitude + cluster.maxLongitude) / 2,
+    latitudeDelta: Math.min(latitudeDelta, current.latitudeDelta / 2),
+    longitudeDelta: Math.min(longitudeDelta, current.longitudeDelta / 2),
+  };
+}
@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from 'react';
+import Colors from '@/constants/colors';
+import { fetchActiveAreas, fetchDurationStats, type ActiveAreas, type DurationStats } from '@/lib/api';
+import {
+  activeAreasOf,
+  areaKey,
+  levelForZoom,
+  metricOf,
+  regionAreas,
+  summarizeAreas,
+  villeAreas,
+  type AreaSummary,
+  type ChoroplethMetric,
+  type MapArea,
+} from '@/lib/choropleth';
+import { clusterPoints, inView, zoomOf, type ClusterPoint, type ViewRegion } from '@/lib/map-clusters';
+import type { Outage, OutageType } from '@/lib/outage-store';
+import type { Incident, IncidentType } from '@/lib/incident-store';
+
+// What the native and web maps share: the props the Map tab passes in, and
+// which areas, clusters and summaries to draw for the current view.
+
+export type CategoryFilter = 'outages' | 'incidents' | 'all';
+
+export type MapItem = { kind: 'outage'; data: Outage } | { kind: 'incident'; data: Incident };
+
+export interface MapViewProps {
+  outages: Outage[];
+  incidents: Incident[];
+  // Everything loaded, not only what is near the user. The area shading counts
+  // on the server and only falls back to these when it cannot be reached;
+  // changes to them refresh the counts.
+  allOutages: Outage[];
+  allIncidents: Incident[];
+  category: CategoryFilter;
+  setCategory: (c: CategoryFilter) => void;
+  filterType: OutageType | null;
+  setFilterType: (t: OutageType | null) => void;
+  userLocation: { latitude: number; longitude: number } | null;
+  waterCount: number;
+  elecCount: number;
+  netCount: number;
+  // Set when the data comes from downloaded region bundles rather than the server.
+  offlineAsOf: string | null;
+  offlineTiles: string[];
+}
+
+export const typeColors: Record<OutageType, string> = {
+  water: Colors.water,
+  electricity: Colors.electricity,
+  internet: Colors.internet,
+};
+
+export const incidentTypeColors: Record<IncidentType, string> = {
+  broken_pipe: Colors.water,
+  fallen_pole: Colors.electricity,
+  cable_on_ground: Colors.internet,
+  other: Colors.accent,
+};
+
+export const incidentTypeTranslationKeys: Record<IncidentType, string> = {
+  broken_pipe: 'brokenPipe',
+  fallen_pole: 'fallenPole',
+  cable_on_ground: 'cableOnGround',
+  other: 'otherIncident',
+};
+
+export const HOURS_PERIOD_DAYS = 7;
+const knownVilles = new Set(villeAreas.map(a => areaKey(a.name)));
+
+export function kindColor(kind: string): string {
+  return typeColors[kind as OutageType] ?? incidentTypeColors[kind as IncidentType] ?? Colors.accent;
+}
+
+// Close around the user when located, else the whole country.
+export function initialRegion(userLocation: MapViewProps['userLocation']): ViewRegion {
+  return {
+    latitude: userLocation?.latitude || 5.9536,
+    longitude: userLocation?.longitude || 10.1464,
+    latitudeDelta: userLocation ? 0.15 : 6,
+    longitudeDelta: userLocation ? 0.15 : 6,
+  };
+}
+
+export function useMapLayers(props: MapViewProps, viewRegion: ViewRegion) {
+  const { outages, incidents, allOutages, allIncidents, category, filterType } = props;
+  const [metric, setMetric] = useState<ChoroplethMetric>('active');
+  const [durations, setDurations] = useState<DurationStats | null>(null);
+  const [active, setActive] = useState<ActiveAreas | null>(null);
+  const [selectedArea, setSelectedArea] = useState<MapArea | null>(null);
+  const level = levelForZoom(viewRegion.latitudeDelta);
+  const zoom = zoomOf(viewRegion.longitudeDelta);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = new Date(Date.now() - HOURS_PERIOD_DAYS * 86400000).toISOString();
+    fetchDurationStats({ from })
+      .then(data => { if (!cancelled) setDurations(data); })
+      .catch(() => { if (!cancelled) setDurations(null); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchActiveAreas()
+      .then(data => { if (!cancelled) setActive(data); })
+      .catch(() => { if (!cancelled) setActive(activeAreasOf(allOutages, allIncidents)); });
+    return () => { cancelled = true; };
+  }, [allOutages, allIncidents]);
+
+  const areas = level === 'region' ? regionAreas : level === 'ville' ? villeAreas : [];
+  const summaries = useMemo(
+    () => summarizeAreas(level ?? 'region', active, durations, filterType),
+    [level, active, durations, filterType],
+  );
+  const maxValue = Math.max(0, ...areas.map(a => metricOf(summaries.get(areaKey(a.name)), metric)));
+  const selectedSummary: AreaSummary | undefined = selectedArea
+    ? summarizeAreas(selectedArea.level, active, durations, filterType).get(areaKey(selectedArea.name))
+    : undefined;
+
+  const showOutages = category === 'outages' || category === 'all';
+  const showIncidents = category === 'incidents' || category === 'all';
+
+  // Markers stay on at ville zoom for places outside the mapped towns.
+  const points = useMemo(() => {
+    const showMarker = (ville: string) => level === null || (level === 'ville' && !knownVilles.has(areaKey(ville)));
+    const list: ClusterPoint<MapItem>[] = [];
+    if (showOutages) {
+      outages.filter(o => showMarker(o.ville)).forEach(o => list.push({
+        latitude: o.latitude, longitude: o.longitude, kind: o.type, item: { kind: 'outage', data: o },
+      }));
+    }
+    if (showIncidents) {
+      incidents.filter(i => showMarker(i.ville)).forEach(i => list.push({
+        latitude: i.latitude, longitude: i.longitude, kind: i.incidentType, item: { kind: 'incident', data: i },
+      }));
+    }
+    return list;
+  }, [outages, incidents, showOutages, showIncidents, level]);
+
+  // Recomputed per zoom level only; panning just changes which clusters are drawn.
+  const clusters = useMemo(() => clusterPoints(points, zoom), [points, zoom]);
+  const visibleClusters = clusters.filter(c => inView(viewRegion, c.latitude, c.longitude));
+
+  return {
+    level,
+    areas,
+    summaries,
+    metric,
+    setMetric,
+    maxValue,
+    selectedArea,
+    setSelectedArea,
+    selectedSummary,
+    visibleClusters,
+  };
+}
+
+export type MapLayers = ReturnType<typeof useMapLayers>;
@@ -0,0 +1,103 @@
+import { Platform } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { uploadMedia, type LocalMedia, type MediaTarget } from '@/lib/api';
+import { isPermanentFailure, type OutboxAction } from '@/lib/outbox-store';
+
+// Mirrors of the server's limits (server/media.ts, server/photos.ts), so the
+// picker can refuse what the upload would.
+export const MAX_MEDIA_PER_REPORT = 12;
+export const MAX_VIDEO_SECONDS = 30;
+const MAX_VIDEO_BYTES = 25 * 1024 * 1024;
+
+export interface PickedMedia {
+  items: LocalMedia[];
+  // Videos left out for being too long or too large.
+  rejected: number;
+}
+
+async function thumbnailOf(uri: string): Promise<string | null> {
+  if (Platform.OS === 'web') return null;
+  try {
+    return (await VideoThumbnails.getThumbnailAsync(uri, { time: 0, quality: 0.7 })).uri;
+  } catch {
+    return null;
+  }
+}
+
+async function toLocalMedia(asset: ImagePicker.ImagePickerAsset): Promise<LocalMedia | null> {
+  if (asset.type !== 'video') return { uri: asset.uri, kind: 'photo' };
+  const durationSec = asset.duration != null ? asset.duration / 1000 : null;
+  if ((durationSec ?? 0) > MAX_VIDEO_SECONDS + 1 || (asset.fileSize ?? 0) > MAX_VIDEO_BYTES) return null;
+  return { uri: asset.uri, kind: 'video', thumbnailUri: await thumbnailOf(asset.uri), durationSec };
+}
+
+// Up to `limit` photos or short videos, from the camera or the library.
+export async function pickMedia(useCamera: boolean, limit: number): Promise<PickedMedia> {
+  if (limit <= 0) return { items: [], rejected: 0 };
+  let result: ImagePicker.ImagePickerResult;
+  if (useCamera) {
+    const perm = await ImagePicker.requestCameraPermissionsAsync();
+    if (!perm.granted) return { items: [], rejected: 0 };
+    result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ['images', 'videos'],
+      quality: 0.7,
+      videoMaxDuration: MAX_VIDEO_SECONDS,
+    });
+  } else {
+    result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images', 'videos'],
+      allowsMultipleSelection: limit > 1,
+      selectionLimit: limit,
+      quality: 0.7,
+      videoMaxDuration: MAX_VIDEO_SECONDS,
+    });
+  }
+  if (result.canceled) return { items: [], rejected: 0 };
+  const picked = await Promise.all(result.assets.slice(0, limit).map(toLocalMedia));
+  const items = picked.filter((m): m is LocalMedia => m !== null);
+  return { items, rejected: picked.length - items.length };
+}
+
+// The first photo goes with the report itself; everything else is attached after.
+export function splitCover(media: LocalMedia[]): { cover: string | null; extra: LocalMedia[] } {
+  const index = media.findIndex(m => m.kind === 'photo');
+  if (index < 0) return { cover: null, extra: media };
+  return { cover: media[index].uri, extra: media.filter((_, i) => i !== index) };
+}
+
+export interface AttachResult {
+  queued: number;
+  // Refused by the server: unreadable, too large, or the report is full.
+  failed: number;
+}
+
+// Uploads each item now when the report exists on the server, and queues the
+// rest (or everything, for a report still in the outbox) for the next flush.
+export async function attachOrQueue(
+  targetType: MediaTarget,
+  targetId: string,
+  media: LocalMedia[],
+  enqueue: (action: OutboxAction) => Promise<void>,
+  synced: boolean,
+): Promise<AttachResult> {
+  const result: AttachResult = { queued: 0, failed: 0 };
+  for (const item of media) {
+    if (synced) {
+      try {
+        await uploadMedia(targetType, targetId, item);
+        continue;
+      } catch (e) {
+        if (isPermanentFailure(e)) {
+          console.log('Media refused:', e);
+          result.failed++;
+          continue;
+        }
+      }
+    }
+    const tempId = Date.now().toString() + Math.random().toString(36).slice(2, 9);
+    await enqueue({ kind: 'addMedia', tempId, targetType, targetId, media: item });
+    result.queued++;
+  }
+  return result;
+}
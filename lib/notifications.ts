@@ -1,4 +1,5 @@
 import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 
 Notifications.setNotificationHandler({
@@ -22,6 +23,22 @@ export async function requestNotificationPermissions(): Promise<boolean> {
   return finalStatus === 'granted';
 }
 
+// Returns the Expo push token of this install, or null on web, in Expo Go
+// without a project id, or when the user declined notifications.
+export async function getPushToken(): Promise<string | null> {
+  try {
+    const hasPermission = await requestNotificationPermissions();
+    if (!hasPermission) return null;
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    if (!projectId) return null;
+    const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+    return data;
+  } catch (e) {
+    console.error('Failed to get push token:', e);
+    return null;
+  }
+}
+
 export async function scheduleRestorationReminder(
   outageId: string,
   type: string,
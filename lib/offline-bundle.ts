@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { fetchRegionSnapshot, type RegionSnapshot } from '@/lib/api';
+import { areaKey, regionAreas } from '@/lib/choropleth';
+import { remoteToLocal as outageFromRemote, type Outage } from '@/lib/outage-store';
+import { remoteToLocal as incidentFromRemote, type Incident } from '@/lib/incident-store';
+
+// One bundle per region, under <documents>/offline/<region>/: the map tiles
+// covering the region's outline and snapshot.json, the region's outages and
+// incidents as of the download. Tiles come from EXPO_PUBLIC_OFFLINE_TILE_URL
+// ({z}/{x}/{y} template); without it, bundles hold the snapshot only, since
+// the public OpenStreetMap servers forbid bulk downloads.
+
+const BUNDLES_KEY = 'offline_bundles';
+const TILE_URL = process.env.EXPO_PUBLIC_OFFLINE_TILE_URL || '';
+const MIN_TILE_ZOOM = 6;
+const MAX_TILE_ZOOM = 12;
+const PARALLEL_DOWNLOADS = 4;
+// Snapshots older than this are fetched again the next time the map is online.
+const SNAPSHOT_REFRESH_HOURS = 6;
+
+export const offlineBundlesSupported = Platform.OS !== 'web';
+export const offlineTilesAvailable = !!TILE_URL;
+
+export interface OfflineBundle {
+  region: string;
+  downloadedAt: string;
+  snapshotAt: string;
+  tiles: number;
+  bytes: number;
+}
+
+export interface OfflineSnapshot {
+  outages: Outage[];
+  incidents: Incident[];
+  // Oldest snapshot among the bundles, null when there is none.
+  asOf: string | null;
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+}
+
+interface Tile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+function bundleDir(region: string): Directory {
+  return new Directory(Paths.document, 'offline', areaKey(region).replace(/[^a-z0-9]+/g, '-'));
+}
+
+async function readManifest(): Promise<Record<string, OfflineBundle>> {
+  const stored = await AsyncStorage.getItem(BUNDLES_KEY);
+  return stored ? JSON.parse(stored) : {};
+}
+
+async function writeManifest(manifest: Record<string, OfflineBundle>) {
+  await AsyncStorage.setItem(BUNDLES_KEY, JSON.stringify(manifest));
+  notify();
+}
+
+function tileX(longitude: number, zoom: number): number {
+  return Math.floor(((longitude + 180) / 360) * Math.pow(2, zoom));
+}
+
+function tileY(latitude: number, zoom: number): number {
+  const rad = (latitude * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * Math.pow(2, zoom));
+}
+
+// Every tile of the region's bounding box, from country to neighbourhood zoom.
+function regionTiles(region: string): Tile[] {
+  const area = regionAreas.find(a => areaKey(a.name) === areaKey(region));
+  if (!area || !TILE_URL) return [];
+  const points = area.rings.flat();
+  const minLat = Math.min(...points.map(p => p.latitude));
+  const maxLat = Math.max(...points.map(p => p.latitude));
+  const minLon = Math.min(...points.map(p => p.longitude));
+  const maxLon = Math.max(...points.map(p => p.longitude));
+  const tiles: Tile[] = [];
+  for (let z = MIN_TILE_ZOOM; z <= MAX_TILE_ZOOM; z++) {
+    for (let x = tileX(minLon, z); x <= tileX(maxLon, z); x++) {
+      for (let y = tileY(maxLat, z); y <= tileY(minLat, z); y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+export function estimateTileCount(region: string): number {
+  return regionTiles(region).length;
+}
+
+async function saveSnapshot(region: string): Promise<RegionSnapshot> {
+  const snapshot = await fetchRegionSnapshot(region);
+  const dir = bundleDir(region);
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  new File(dir, 'snapshot.json').write(JSON.stringify(snapshot));
+  return snapshot;
+}
+
+// Tiles already on disk are kept, so running it again resumes an interrupted
+// download. Rejects if the snapshot cannot be fetched; missing tiles are not fatal.
+export async function downloadBundle(region: string, onProgress?: (progress: DownloadProgress) => void): Promise<OfflineBundle> {
+  const snapshot = await saveSnapshot(region);
+  const tilesDir = new Directory(bundleDir(region), 'tiles');
+  const tiles = regionTiles(region);
+  let done = 0;
+  let saved = 0;
+  onProgress?.({ done, total: tiles.length });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < tiles.length) {
+      const { z, x, y } = tiles[next++];
+      const dir = new Directory(tilesDir, String(z), String(x));
+      const file = new File(dir, `${y}.png`);
+      try {
+        if (!file.exists) {
+          if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+          const url = TILE_URL.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+          await File.downloadFileAsync(url, file, { idempotent: true });
+        }
+        saved++;
+      } catch (e) {
+        console.log(`Offline tile ${z}/${x}/${y} skipped:`, e);
+      }
+      onProgress?.({ done: ++done, total: tiles.length });
+    }
+  };
+  await Promise.all(Array.from({ length: PARALLEL_DOWNLOADS }, worker));
+
+  const bundle: OfflineBundle = {
+    region,
+    downloadedAt: new Date().toISOString(),
+    snapshotAt: snapshot.generatedAt,
+    tiles: saved,
+    bytes: bundleDir(region).size ?? 0,
+  };
+  await writeManifest({ ...(await readManifest()), [region]: bundle });
+  return bundle;
+}
+
+export async function deleteBundle(region: string): Promise<void> {
+  const dir = bundleDir(region);
+  if (dir.exists) dir.delete();
+  const { [region]: _removed, ...rest } = await readManifest();
+  await writeManifest(rest);
+}
+
+export async function deleteAllBundles(): Promise<void> {
+  const root = new Directory(Paths.document, 'offline');
+  if (root.exists) root.delete();
+  await writeManifest({});
+}
+
+// Called while online: keeps the outage snapshots of downloaded regions recent
+// without fetching their tiles again. Failures leave the old snapshot in place.
+export async function refreshStaleSnapshots(): Promise<void> {
+  if (!offlineBundlesSupported) return;
+  const manifest = await readManifest();
+  const cutoff = Date.now() - SNAPSHOT_REFRESH_HOURS * 3600000;
+  const stale = Object.values(manifest).filter(b => Date.parse(b.snapshotAt) < cutoff);
+  let refreshed = 0;
+  for (const bundle of stale) {
+    try {
+      const snapshot = await saveSnapshot(bundle.region);
+      manifest[bundle.region] = { ...bundle, snapshotAt: snapshot.generatedAt, bytes: bundleDir(bundle.region).size ?? bundle.bytes };
+      refreshed++;
+    } catch {
+      console.log('Offline snapshot refresh skipped (offline mode)');
+    }
+  }
+  if (refreshed > 0) await writeManifest(manifest);
+}
+
+export async function loadOfflineSnapshot(): Promise<OfflineSnapshot> {
+  const result: OfflineSnapshot = { outages: [], incidents: [], asOf: null };
+  if (!offlineBundlesSupported) return result;
+  for (const bundle of Object.values(await readManifest())) {
+    const file = new File(bundleDir(bundle.region), 'snapshot.json');
+    if (!file.exists) continue;
+    try {
+      const snapshot: RegionSnapshot = JSON.parse(await file.text());
+      result.outages.push(...snapshot.outages.map(outageFromRemote));
+      result.incidents.push(...snapshot.incidents.map(incidentFromRemote));
+      if (!result.asOf || snapshot.generatedAt < result.asOf) result.asOf = snapshot.generatedAt;
+    } catch (e) {
+      console.error('Error reading offline snapshot:', e);
+    }
+  }
+  return result;
+}
+
+// What the server last sent wins over the snapshot copy of the same record.
+export function withSnapshot<T extends { id: string }>(items: T[], snapshotItems: T[]): T[] {
+  const known = new Set(items.map(i => i.id));
+  return [...items, ...snapshotItems.filter(i => !known.has(i.id))];
+}
+
+// LocalTile path templates of the bundles that have tiles.
+export function offlineTilePaths(bundles: OfflineBundle[]): string[] {
+  return bundles
+    .filter(b => b.tiles > 0)
+    .map(b => new Directory(bundleDir(b.region), 'tiles').uri.replace(/^file:\/\//, '').replace(/\/?$/, '/') + '{z}/{x}/{y}.png');
+}
+
+export function useOfflineBundles(): OfflineBundle[] {
+  const [bundles, setBundles] = useState<OfflineBundle[]>([]);
+  useEffect(() => {
+    if (!offlineBundlesSupported) return;
+    let cancelled = false;
+    const load = () => {
+      readManifest()
+        .then(manifest => { if (!cancelled) setBundles(Object.values(manifest)); })
+        .catch(e => console.error('Error loading offline bundles:', e));
+    };
+    load();
+    listeners.add(load);
+    return () => {
+      cancelled = true;
+      listeners.delete(load);
+    };
+  }, []);
+  return bundles;
+}
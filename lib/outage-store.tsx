@@ -1,13 +1,22 @@
-import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '@/lib/auth-store';
+import { useOutbox } from '@/lib/outbox-store';
 import {
-  listOutages as appwriteListOutages,
-  createOutage as appwriteCreateOutage,
-  confirmOutageDoc,
-  restoreOutageDoc,
-  type OutageData,
-} from '@/lib/appwrite';
+  confirmOutage as apiConfirmOutage,
+  fetchConfirmedToday,
+  fetchOutages,
+  reportOutage,
+  resolvePhotoUri,
+  uploadPhoto,
+  voteRestoration,
+  type RestorationTally,
+  type RestorationVote,
+  type LocalMedia,
+} from '@/lib/api';
+import { attachOrQueue } from '@/lib/media';
+import { mergeFeedItem, mergePage, subscribeFeed } from '@/lib/feed';
+import type { OutageData } from '@/lib/appwrite';
 
 export type OutageType = 'water' | 'electricity' | 'internet';
 
@@ -22,9 +31,12 @@ export interface Outage {
   date: string;
   confirmations: number;
   photoUri: string | null;
+  photoThumbUri?: string | null;
   synced: boolean;
   estRetablie: boolean;
   dateRetablissement: string | null;
+  status?: string;
+  reportCount?: number;
 }
 
 const OUTAGES_KEY = 'outages_data';
@@ -37,16 +49,23 @@ const CAMEROON_REGIONS = [
 
 interface OutageContextValue {
   outages: Outage[];
-  addOutage: (outage: Omit<Outage, 'id' | 'confirmations' | 'synced' | 'estRetablie' | 'dateRetablissement'>) => Promise<void>;
+  // extraMedia: photos and videos attached once the report exists (or queued with it).
+  addOutage: (outage: Omit<Outage, 'id' | 'confirmations' | 'synced' | 'estRetablie' | 'dateRetablissement'>, extraMedia?: LocalMedia[]) => Promise<{ clustered: boolean }>;
   confirmOutage: (id: string) => Promise<boolean>;
   canConfirm: (id: string) => boolean;
-  markRestored: (id: string) => Promise<void>;
+  markRestored: (id: string) => Promise<RestorationTally | null>;
+  markStillOut: (id: string) => Promise<RestorationTally | null>;
   removeOutage: (id: string) => void;
   getOutagesByType: (type?: OutageType) => Outage[];
   getOutagesByRegion: (region?: string) => Outage[];
   getRecentOutages: (hours?: number) => Outage[];
   getNearbyOutages: (lat: number, lon: number, radiusKm?: number) => Outage[];
+  loadNearbyOutages: (lat: number, lon: number, radiusKm?: number) => Promise<void>;
+  loadMoreOutages: () => Promise<void>;
+  hasMoreOutages: boolean;
   isLoading: boolean;
+  // True while the last attempt to reach the server failed.
+  isOffline: boolean;
   regions: string[];
   refreshOutages: () => Promise<void>;
 }
@@ -64,7 +83,7 @@ function getDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number):
   return R * c;
 }
 
-function remoteToLocal(s: OutageData): Outage {
+export function remoteToLocal(s: OutageData): Outage {
   return {
     id: s.id,
     type: s.type as OutageType,
@@ -75,23 +94,78 @@ function remoteToLocal(s: OutageData): Outage {
     region: s.region || 'N/A',
     date: s.createdAt || new Date().toISOString(),
     confirmations: s.confirmations || 1,
-    photoUri: s.photoUri || null,
+    photoUri: resolvePhotoUri(s.photoUri),
+    photoThumbUri: resolvePhotoUri(s.photoThumbUri),
     synced: true,
     estRetablie: s.estRetablie || false,
     dateRetablissement: s.dateRetablissement || null,
+    status: s.status,
+    reportCount: s.reportCount ?? 1,
   };
 }
 
+function withStatus(o: Outage, s: OutageData): Outage {
+  return { ...o, status: s.status, estRetablie: s.estRetablie || false, dateRetablissement: s.dateRetablissement || null };
+}
+
 export function OutageProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [outages, setOutages] = useState<Outage[]>([]);
   const [confirmedIds, setConfirmedIds] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [isOffline, setIsOffline] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Cursor of the next older page, null once the end is reached.
+  const cursorRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  const { enqueue, onSynced } = useOutbox();
 
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => onSynced((event) => {
+    if (event.kind !== 'createOutage' && event.kind !== 'confirmOutage'
+      && event.kind !== 'restoreOutage' && event.kind !== 'stillOutOutage') return;
+    const { localId, record } = event;
+    setOutages(prev => {
+      // The queued report was merged server-side into an outage we already have.
+      const merged = event.kind === 'createOutage' && record.id !== localId && prev.some(o => o.id === record.id);
+      const next = (merged ? prev.filter(o => o.id !== localId) : prev).map(o => {
+        if (merged) return o.id === record.id ? remoteToLocal(record) : o;
+        if (o.id !== localId) return o;
+        if (event.kind === 'createOutage') return { ...o, id: record.id, synced: true, reportCount: record.reportCount };
+        if (event.kind === 'confirmOutage') return { ...o, confirmations: Math.max(o.confirmations, record.confirmations) };
+        return withStatus(o, record);
+      });
+      AsyncStorage.setItem(OUTAGES_KEY, JSON.stringify(next));
+      return next;
+    });
+    if (event.kind === 'createOutage') {
+      setConfirmedIds(prev => {
+        if (!(localId in prev)) return prev;
+        const { [localId]: day, ...rest } = prev;
+        const next = { ...rest, [record.id]: day };
+        AsyncStorage.setItem(CONFIRMATIONS_KEY, JSON.stringify(next));
+        return next;
+      });
+    }
+  }), [onSynced]);
+
+  // Reports and status changes from everyone else, pushed as they happen.
+  const refreshRef = useRef<() => Promise<void>>(async () => { });
+  useEffect(() => subscribeFeed({
+    onEvent: (event) => {
+      if (event.entity !== 'outage') return;
+      setOutages(prev => {
+        const next = mergeFeedItem(prev, event.id, event.record ? remoteToLocal(event.record) : null);
+        if (next !== prev) AsyncStorage.setItem(OUTAGES_KEY, JSON.stringify(next));
+        return next;
+      });
+    },
+    onReconnect: () => { refreshRef.current(); },
+  }), []);
+
   const loadData = async () => {
     try {
       const [outagesData, confirmData] = await Promise.all([
@@ -105,7 +179,8 @@ export function OutageProvider({ children }: { children: ReactNode }) {
       }
       if (confirmData) setConfirmedIds(JSON.parse(confirmData));
 
-      await fetchFromAppwrite(localOutages);
+      await fetchFirstPage(localOutages);
+      await syncConfirmedToday();
     } catch (e) {
       console.error('Error loading outage data:', e);
     } finally {
@@ -113,26 +188,60 @@ export function OutageProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const fetchFromAppwrite = async (currentOutages?: Outage[]) => {
+  // Only the newest page is fetched up front; loadMoreOutages walks back from there.
+  const fetchFirstPage = async (currentOutages?: Outage[]) => {
     try {
-      const serverOutages = await appwriteListOutages();
-      const mapped: Outage[] = serverOutages.map(remoteToLocal);
-      const local = currentOutages || outages;
-      const localIds = new Set(local.map(o => o.id));
-      const updatedLocal = local.map(o => {
-        const serverVersion = mapped.find(s => s.id === o.id);
-        if (serverVersion) return { ...serverVersion, synced: true };
-        return o;
-      });
-      const newFromServer = mapped.filter(o => !localIds.has(o.id));
-      const merged = [...updatedLocal, ...newFromServer];
+      const page = await fetchOutages();
+      const merged = mergePage(currentOutages || outages, page.items.map(remoteToLocal));
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
       setOutages(merged);
+      setIsOffline(false);
       await AsyncStorage.setItem(OUTAGES_KEY, JSON.stringify(merged));
     } catch (e) {
-      console.log('Appwrite fetch skipped (offline mode)');
+      setIsOffline(true);
+      console.log('Outage fetch skipped (offline mode)');
+    }
+  };
+
+  const loadMoreOutages = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    try {
+      const page = await fetchOutages({ cursor });
+      cursorRef.current = page.nextCursor;
+      setHasMore(page.nextCursor !== null);
+      setOutages(prev => {
+        const next = mergePage(prev, page.items.map(remoteToLocal));
+        AsyncStorage.setItem(OUTAGES_KEY, JSON.stringify(next));
+        return next;
+      });
+    } catch {
+      console.log('Next page skipped (offline mode)');
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, []);
+
+  // The server is the source of truth for today's confirmations (e.g. after a reinstall).
+  const syncConfirmedToday = async () => {
+    try {
+      const { outages: ids } = await fetchConfirmedToday();
+      if (ids.length === 0) return;
+      const today = new Date().toDateString();
+      setConfirmedIds(prev => {
+        const next = { ...prev, ...Object.fromEntries(ids.map(id => [id, today])) };
+        AsyncStorage.setItem(CONFIRMATIONS_KEY, JSON.stringify(next));
+        return next;
+      });
+    } catch (e) {
+      console.log('Confirmation sync skipped (offline mode)');
     }
   };
 
+  refreshRef.current = () => fetchFirstPage();
+
   const saveOutages = async (newOutages: Outage[]) => {
     setOutages(newOutages);
     await AsyncStorage.setItem(OUTAGES_KEY, JSON.stringify(newOutages));
@@ -143,21 +252,25 @@ export function OutageProvider({ children }: { children: ReactNode }) {
     await AsyncStorage.setItem(CONFIRMATIONS_KEY, JSON.stringify(newConfirms));
   };
 
-  const addOutage = useCallback(async (outage: Omit<Outage, 'id' | 'confirmations' | 'synced' | 'estRetablie' | 'dateRetablissement'>) => {
+  const addOutage = useCallback(async (outage: Omit<Outage, 'id' | 'confirmations' | 'synced' | 'estRetablie' | 'dateRetablissement'>, extraMedia: LocalMedia[] = []) => {
     let newOutage: Outage;
-
+    let clustered = false;
+    const payload = {
+      type: outage.type,
+      latitude: outage.latitude,
+      longitude: outage.longitude,
+      quartier: outage.quartier,
+      ville: outage.ville,
+      region: outage.region,
+      userId: user?.id || '',
+    };
+
+    let photoId: string | null = null;
     try {
-      const created = await appwriteCreateOutage({
-        type: outage.type,
-        latitude: outage.latitude,
-        longitude: outage.longitude,
-        quartier: outage.quartier,
-        ville: outage.ville,
-        region: outage.region,
-        photoUri: outage.photoUri,
-        userId: user?.id || '',
-      });
+      if (outage.photoUri) photoId = (await uploadPhoto(outage.photoUri)).id;
+      const created = await reportOutage({ ...payload, photoId });
       newOutage = remoteToLocal(created);
+      clustered = created.clustered;
     } catch (e) {
       const tempId = Date.now().toString() + Math.random().toString(36).substr(2, 9);
       newOutage = {
@@ -168,12 +281,20 @@ export function OutageProvider({ children }: { children: ReactNode }) {
         estRetablie: false,
         dateRetablissement: null,
       };
+      // A photo that did not make it up goes in the outbox too, ahead of the report.
+      await enqueue({ kind: 'createOutage', tempId, payload: { ...payload, photoId }, photoUri: photoId ? null : outage.photoUri });
       console.log('Created locally (offline)');
     }
 
-    const updated = [newOutage, ...outages];
+    const updated = [newOutage, ...outages.filter(o => o.id !== newOutage.id)];
     await saveOutages(updated);
-  }, [outages, user]);
+    await attachOrQueue('outage', newOutage.id, extraMedia, enqueue, newOutage.synced);
+    if (clustered) {
+      // Joining an existing outage counts as this user's confirmation for today.
+      await saveConfirmations({ ...confirmedIds, [newOutage.id]: new Date().toDateString() });
+    }
+    return { clustered };
+  }, [outages, confirmedIds, user, enqueue]);
 
   const canConfirm = useCallback((id: string): boolean => {
     const today = new Date().toDateString();
@@ -188,38 +309,56 @@ export function OutageProvider({ children }: { children: ReactNode }) {
       o.id === id ? { ...o, confirmations: o.confirmations + 1 } : o
     );
     const newConfirms = { ...confirmedIds, [id]: today };
+    const isSynced = outages.find(o => o.id === id)?.synced ?? true;
 
     try {
-      await confirmOutageDoc(id);
-    } catch (e) {
+      if (!isSynced) throw new Error('Outage not synced yet');
+      await apiConfirmOutage(id);
+    } catch (e: any) {
+      if (e?.code === 409) {
+        await saveConfirmations(newConfirms);
+        return false;
+      }
+      await enqueue({ kind: 'confirmOutage', targetId: id });
       console.log('Confirmed locally (offline)');
     }
 
     await saveOutages(updated);
     await saveConfirmations(newConfirms);
     return true;
-  }, [outages, confirmedIds, canConfirm]);
+  }, [outages, confirmedIds, canConfirm, enqueue]);
 
-  const markRestored = useCallback(async (id: string) => {
-    const updated = outages.map(o =>
-      o.id === id ? { ...o, estRetablie: true, dateRetablissement: new Date().toISOString() } : o
-    );
+  // Restoration is decided by the server's vote tally, so nothing changes
+  // locally until it answers; offline votes wait in the outbox.
+  const voteOnRestoration = useCallback(async (id: string, vote: RestorationVote): Promise<RestorationTally | null> => {
+    const isSynced = outages.find(o => o.id === id)?.synced ?? true;
 
     try {
-      await restoreOutageDoc(id);
-    } catch (e) {
-      console.log('Restored locally (offline)');
+      if (!isSynced) throw new Error('Outage not synced yet');
+      const { votes, ...record } = await voteRestoration(id, vote);
+      await saveOutages(outages.map(o => o.id === id ? withStatus(o, record) : o));
+      return votes;
+    } catch (e: any) {
+      if (e?.code === 409) {
+        // The outage was rejected in the meantime: take the server's word.
+        await fetchFirstPage();
+        return null;
+      }
+      await enqueue({ kind: vote === 'restored' ? 'restoreOutage' : 'stillOutOutage', targetId: id });
+      console.log('Restoration vote queued (offline)');
+      return null;
     }
+  }, [outages, enqueue]);
 
-    await saveOutages(updated);
-  }, [outages]);
+  const markRestored = useCallback((id: string) => voteOnRestoration(id, 'restored'), [voteOnRestoration]);
+  const markStillOut = useCallback((id: string) => voteOnRestoration(id, 'still_out'), [voteOnRestoration]);
 
   const removeOutage = useCallback((id: string) => {
     setOutages(prev => prev.filter(o => o.id !== id));
   }, []);
 
   const refreshOutages = useCallback(async () => {
-    await fetchFromAppwrite();
+    await fetchFirstPage();
   }, [outages]);
 
   const getOutagesByType = useCallback((type?: OutageType) => {
@@ -246,21 +385,41 @@ export function OutageProvider({ children }: { children: ReactNode }) {
     });
   }, [outages]);
 
+  // The local list only holds the latest page plus what the feed pushed; this pulls
+  // in everything the server has around the point before getNearbyOutages filters it.
+  const loadNearbyOutages = useCallback(async (lat: number, lon: number, radiusKm: number = 20) => {
+    try {
+      const nearby = await fetchOutages({ near: { latitude: lat, longitude: lon }, radiusKm, hours: 24, limit: 200 });
+      setOutages(prev => {
+        const next = nearby.items.reduce((acc, s) => mergeFeedItem(acc, s.id, remoteToLocal(s)), prev);
+        if (next !== prev) AsyncStorage.setItem(OUTAGES_KEY, JSON.stringify(next));
+        return next;
+      });
+    } catch {
+      console.log('Nearby fetch skipped (offline mode)');
+    }
+  }, []);
+
   const value = useMemo(() => ({
     outages,
     addOutage,
     confirmOutage,
     canConfirm,
     markRestored,
+    markStillOut,
     removeOutage,
     getOutagesByType,
     getOutagesByRegion,
     getRecentOutages,
     getNearbyOutages,
+    loadNearbyOutages,
+    loadMoreOutages,
+    hasMoreOutages: hasMore,
     isLoading,
+    isOffline,
     regions: CAMEROON_REGIONS,
     refreshOutages,
-  }), [outages, addOutage, confirmOutage, canConfirm, markRestored, removeOutage, getOutagesByType, getOutagesByRegion, getRecentOutages, getNearbyOutages, isLoading, refreshOutages]);
+  }), [outages, addOutage, confirmOutage, canConfirm, markRestored, markStillOut, removeOutage, getOutagesByType, getOutagesByRegion, getRecentOutages, getNearbyOutages, loadNearbyOutages, loadMoreOutages, hasMore, isLoading, isOffline, refreshOutages]);
 
   return (
     <OutageContext.Provider value={value}>
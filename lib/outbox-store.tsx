@@ -0,0 +1,298 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, ReactNode } from 'react';
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import {
+  confirmIncident,
+  confirmOutage,
+  createIncident,
+  reportOutage,
+  resolveIncident,
+  uploadMedia,
+  uploadPhoto,
+  voteRestoration,
+  type LocalMedia,
+  type MediaAttachment,
+  type MediaTarget,
+  type NewIncidentPayload,
+  type NewOutagePayload,
+} from '@/lib/api';
+import type { OutageData, IncidentData } from '@/lib/appwrite';
+
+const OUTBOX_KEY = 'sync_outbox';
+const RETRY_INTERVAL_MS = 30000;
+
+// photoUri on a create is a local photo still to upload; it is sent first and
+// its id goes in the payload. addMedia's tempId only keys the entry: its
+// targetId is the report, remapped once a queued report is created.
+export type OutboxAction =
+  | { kind: 'createOutage'; tempId: string; payload: NewOutagePayload; photoUri?: string | null }
+  | { kind: 'confirmOutage'; targetId: string }
+  | { kind: 'restoreOutage'; targetId: string }
+  | { kind: 'stillOutOutage'; targetId: string }
+  | { kind: 'createIncident'; tempId: string; payload: NewIncidentPayload; photoUri?: string | null }
+  | { kind: 'confirmIncident'; targetId: string }
+  | { kind: 'resolveIncident'; targetId: string }
+  | { kind: 'addMedia'; tempId: string; targetType: MediaTarget; targetId: string; media: LocalMedia };
+
+export interface OutboxEntry {
+  id: string;
+  action: OutboxAction;
+  queuedAt: string;
+  attempts: number;
+}
+
+export type SyncedEvent =
+  | { kind: 'createOutage' | 'confirmOutage' | 'restoreOutage' | 'stillOutOutage'; localId: string; record: OutageData }
+  | { kind: 'createIncident' | 'confirmIncident' | 'resolveIncident'; localId: string; record: IncidentData }
+  | { kind: 'addMedia'; localId: string; record: MediaAttachment };
+
+type SyncedListener = (event: SyncedEvent) => void;
+
+interface OutboxContextValue {
+  entries: OutboxEntry[];
+  pendingOutages: number;
+  pendingIncidents: number;
+  isFlushing: boolean;
+  enqueue: (action: OutboxAction) => Promise<void>;
+  flush: () => Promise<void>;
+  onSynced: (listener: SyncedListener) => () => void;
+}
+
+const OutboxContext = createContext<OutboxContextValue | null>(null);
+
+const OUTAGE_KINDS = new Set<OutboxAction['kind']>(['createOutage', 'confirmOutage', 'restoreOutage', 'stillOutOutage']);
+
+function isOutageAction(action: OutboxAction): boolean {
+  return OUTAGE_KINDS.has(action.kind) || (action.kind === 'addMedia' && action.targetType === 'outage');
+}
+
+function localIdOf(action: OutboxAction): string {
+  return 'tempId' in action ? action.tempId : action.targetId;
+}
+
+async function replay(action: OutboxAction): Promise<SyncedEvent> {
+  const localId = localIdOf(action);
+  switch (action.kind) {
+    case 'createOutage':
+      return { kind: action.kind, localId, record: await reportOutage(action.payload) };
+    case 'confirmOutage':
+      return { kind: action.kind, localId, record: await confirmOutage(action.targetId) };
+    case 'restoreOutage':
+      return { kind: action.kind, localId, record: await voteRestoration(action.targetId, 'restored') };
+    case 'stillOutOutage':
+      return { kind: action.kind, localId, record: await voteRestoration(action.targetId, 'still_out') };
+    case 'createIncident':
+      return { kind: action.kind, localId, record: await createIncident(action.payload) };
+    case 'confirmIncident':
+      return { kind: action.kind, localId, record: await confirmIncident(action.targetId) };
+    case 'resolveIncident':
+      return { kind: action.kind, localId, record: await resolveIncident(action.targetId) };
+    case 'addMedia':
+      if (!(await photoReadable(action.media.uri))) throw { code: 404, message: 'Queued media is gone' };
+      return { kind: action.kind, localId, record: await uploadMedia(action.targetType, action.targetId, action.media) };
+  }
+}
+
+// Queued photos and videos are copied out of the picker's cache, which the
+// system may clear before the device is back online.
+function keepPhoto(uri: string): string {
+  if (Platform.OS === 'web') return uri;
+  try {
+    const dir = new Directory(Paths.document, 'outbox-photos');
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+    const ext = uri.match(/\.\w+$/)?.[0] ?? '.jpg';
+    const copy = new File(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}${ext}`);
+    new File(uri).copy(copy);
+    return copy.uri;
+  } catch (e) {
+    console.error('Error keeping queued photo:', e);
+    return uri;
+  }
+}
+
+function forgetPhoto(uri: string | null | undefined) {
+  if (!uri || Platform.OS === 'web' || !uri.includes('/outbox-photos/')) return;
+  const file = new File(uri);
+  if (file.exists) file.delete();
+}
+
+async function photoReadable(uri: string): Promise<boolean> {
+  if (Platform.OS !== 'web') return new File(uri).exists;
+  try {
+    return (await globalThis.fetch(uri)).ok;
+  } catch {
+    return false;
+  }
+}
+
+function withPhotoKept(action: OutboxAction): OutboxAction {
+  if ((action.kind === 'createOutage' || action.kind === 'createIncident') && action.photoUri) {
+    return { ...action, photoUri: keepPhoto(action.photoUri) };
+  }
+  if (action.kind === 'addMedia') {
+    const { uri, thumbnailUri } = action.media;
+    return { ...action, media: { ...action.media, uri: keepPhoto(uri), thumbnailUri: thumbnailUri && keepPhoto(thumbnailUri) } };
+  }
+  return action;
+}
+
+// Once an entry leaves the queue, sent or dropped.
+function forgetFiles(action: OutboxAction) {
+  if (action.kind === 'addMedia') {
+    forgetPhoto(action.media.uri);
+    forgetPhoto(action.media.thumbnailUri);
+  } else if (action.kind === 'createOutage' || action.kind === 'createIncident') {
+    forgetPhoto(action.photoUri);
+  }
+}
+
+// A photo that is gone or that the server cannot read is left out rather than
+// holding the report back; other failures are retried with the entry.
+async function uploadQueuedPhoto(action: OutboxAction): Promise<OutboxAction> {
+  if ((action.kind !== 'createOutage' && action.kind !== 'createIncident') || !action.photoUri) return action;
+  let photoId: string | null = null;
+  if (await photoReadable(action.photoUri)) {
+    try {
+      photoId = (await uploadPhoto(action.photoUri)).id;
+    } catch (e) {
+      if (!isPermanentFailure(e)) throw e;
+      console.log('Dropping unreadable outbox photo:', e);
+    }
+  }
+  forgetPhoto(action.photoUri);
+  return action.kind === 'createOutage'
+    ? { ...action, photoUri: null, payload: { ...action.payload, photoId } }
+    : { ...action, photoUri: null, payload: { ...action.payload, photoId } };
+}
+
+// The server answered and will keep refusing (bad payload, document gone,
+// file too large): retrying would block everything queued behind the entry.
+export function isPermanentFailure(e: any): boolean {
+  return e?.code === 400 || e?.code === 404 || e?.code === 409 || e?.code === 413;
+}
+
+function remapTarget(entry: OutboxEntry, tempId: string, serverId: string): OutboxEntry {
+  if ('targetId' in entry.action && entry.action.targetId === tempId) {
+    return { ...entry, action: { ...entry.action, targetId: serverId } };
+  }
+  return entry;
+}
+
+export function OutboxProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+  const listenersRef = useRef(new Set<SyncedListener>());
+
+  const updateEntries = useCallback(async (fn: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+    entriesRef.current = fn(entriesRef.current);
+    setEntries(entriesRef.current);
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entriesRef.current));
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || entriesRef.current.length === 0) return;
+    flushingRef.current = true;
+    setIsFlushing(true);
+    try {
+      while (entriesRef.current.length > 0) {
+        const entry = entriesRef.current[0];
+        let event: SyncedEvent;
+        try {
+          const action = await uploadQueuedPhoto(entry.action);
+          if (action !== entry.action) {
+            await updateEntries(prev => prev.map(x => x.id === entry.id ? { ...x, action } : x));
+          }
+          event = await replay(action);
+        } catch (e) {
+          if (isPermanentFailure(e)) {
+            console.log('Dropping outbox entry:', entry.action.kind, e);
+            forgetFiles(entry.action);
+            await updateEntries(prev => prev.filter(x => x.id !== entry.id));
+            continue;
+          }
+          await updateEntries(prev => prev.map(x => x.id === entry.id ? { ...x, attempts: x.attempts + 1 } : x));
+          break;
+        }
+
+        forgetFiles(entry.action);
+        const serverId = event.record.id;
+        await updateEntries(prev => {
+          const rest = prev.filter(x => x.id !== entry.id);
+          return event.localId === serverId ? rest : rest.map(x => remapTarget(x, event.localId, serverId));
+        });
+        listenersRef.current.forEach(listener => listener(event));
+      }
+    } finally {
+      flushingRef.current = false;
+      setIsFlushing(false);
+    }
+  }, [updateEntries]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(OUTBOX_KEY).then((stored) => {
+      if (stored) {
+        entriesRef.current = JSON.parse(stored);
+        setEntries(entriesRef.current);
+      }
+      flush();
+    });
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flush();
+    });
+    return () => subscription.remove();
+  }, [flush]);
+
+  const hasPending = entries.length > 0;
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(flush, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasPending, flush]);
+
+  const enqueue = useCallback(async (action: OutboxAction) => {
+    const entry: OutboxEntry = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      action: withPhotoKept(action),
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    await updateEntries(prev => [...prev, entry]);
+  }, [updateEntries]);
+
+  const onSynced = useCallback((listener: SyncedListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const pendingOutages = useMemo(() => entries.filter(e => isOutageAction(e.action)).length, [entries]);
+
+  const value = useMemo(() => ({
+    entries,
+    pendingOutages,
+    pendingIncidents: entries.length - pendingOutages,
+    isFlushing,
+    enqueue,
+    flush,
+    onSynced,
+  }), [entries, pendingOutages, isFlushing, enqueue, flush, onSynced]);
+
+  return (
+    <OutboxContext.Provider value={value}>
+      {children}
+    </OutboxContext.Provider>
+  );
+}
+
+export function useOutbox() {
+  const context = useContext(OutboxContext);
+  if (!context) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+}
@@ -17,10 +17,34 @@ export function getApiUrl(): string {
   return url.href;
 }
 
+let authToken: string | null = null;
+let deviceId: string | null = null;
+
+/**
+ * Sets the bearer token sent with every API request (null to clear it)
+ */
+export function setAuthToken(token: string | null) {
+  authToken = token;
+}
+
+/**
+ * Sets the per-install id the server uses to limit anonymous confirmations
+ */
+export function setDeviceId(id: string) {
+  deviceId = id;
+}
+
+function authHeaders(): Record<string, string> {
+  return {
+    ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    ...(deviceId ? { 'X-Device-Id': deviceId } : {}),
+  };
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw Object.assign(new Error(`${res.status}: ${text}`), { code: res.status });
   }
 }
 
@@ -34,7 +58,10 @@ export async function apiRequest(
 
   const res = await fetch(url.toString(), {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...authHeaders(),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -43,6 +70,23 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * Posts multipart form data. Uses the global fetch, which knows React
+ * Native's {uri, name, type} file parts.
+ */
+export async function apiUpload(route: string, form: FormData): Promise<Response> {
+  const url = new URL(route, getApiUrl());
+  const res = await globalThis.fetch(url.toString(), {
+    method: "POST",
+    headers: authHeaders(),
+    body: form,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -53,6 +97,7 @@ export const getQueryFn: <T>(options: {
     const url = new URL(queryKey.join("/") as string, baseUrl);
 
     const res = await fetch(url.toString(), {
+      headers: authHeaders(),
       credentials: "include",
     });
 
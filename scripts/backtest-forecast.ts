@@ -0,0 +1,25 @@
+import { backtestForecast } from '../server/forecast';
+
+// Replays the quartier outage forecast over past days and prints how well it
+// did, next to a flat per-quartier rate. Lower Brier and log loss are better;
+// in a well calibrated forecast each bucket's observed rate is close to its
+// predicted one. Usage:
+//   npx tsx scripts/backtest-forecast.ts [days]     (default 28)
+
+async function run() {
+  const days = process.argv[2] ? Number(process.argv[2]) : undefined;
+  const report = await backtestForecast(days);
+  console.log(`Backtest ${report.from} → ${report.to}: ${report.predictions} prediction(s), ${report.trainingWeeks} training weeks, ${report.horizonHours} h horizon`);
+  console.log(`Observed rate ${report.observedRate}, mean predicted ${report.meanPredicted}`);
+  console.log(`Brier ${report.brier} (flat baseline ${report.baselineBrier}), log loss ${report.logLoss}`);
+  console.log('Calibration:');
+  report.calibration.forEach(b => {
+    console.log(`  ${b.bucket.padEnd(8)} n=${String(b.count).padStart(5)}  predicted ${b.predicted.toFixed(3)}  observed ${b.observed.toFixed(3)}`);
+  });
+  process.exit(0);
+}
+
+run().catch(e => {
+  console.error('Backtest failed:', e);
+  process.exit(1);
+});
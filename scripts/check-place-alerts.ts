@@ -0,0 +1,72 @@
+// Runs place matching against the in-memory storage and the stand-in push
+// sender, without any server or network. Usage:
+//   npx tsx scripts/check-place-alerts.ts
+process.env.STORAGE_BACKEND = 'memory';
+process.env.PUSH_SENDER = 'memory';
+
+async function run() {
+  const { storage } = await import('../server/storage');
+  const { pushSender, MemoryPushSender } = await import('../server/push');
+  const { createPlace, alertNearbyPlaces } = await import('../server/places');
+  if (!(pushSender instanceof MemoryPushSender)) throw new Error('PUSH_SENDER=memory was not picked up');
+
+  const failures: string[] = [];
+  const expect = (label: string, ok: boolean) => {
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}`);
+    if (!ok) failures.push(label);
+  };
+  const sentTo = (token: string) => pushSender.sent.filter(m => m.to === token).length;
+
+  // Yaoundé centre, and a second user 30 km away.
+  const home = await createPlace('alice', { name: 'Maison', latitude: 3.848, longitude: 11.502, radiusM: 2000 });
+  await createPlace('bob', { name: 'Bureau', latitude: 3.6, longitude: 11.5, types: ['water'] });
+  const night = await createPlace('carol', {
+    name: 'Nuit', latitude: 3.849, longitude: 11.503, quietStart: '00:00', quietEnd: '23:59', timezone: 'UTC',
+  });
+  await storage.savePushToken('alice', 'ExponentPushToken[alice]', 'ios');
+  await storage.savePushToken('bob', 'ExponentPushToken[bob]', 'android');
+  await storage.savePushToken('carol', 'ExponentPushToken[carol]', 'android');
+
+  const outage = await storage.createOutage({ type: 'electricity', latitude: 3.85, longitude: 11.51, ville: 'Yaoundé' });
+  await alertNearbyPlaces(outage);
+  expect('place within radius is alerted', sentTo('ExponentPushToken[alice]') === 1);
+  expect('place out of radius is not alerted', sentTo('ExponentPushToken[bob]') === 0);
+  expect('place in quiet hours is not alerted', sentTo('ExponentPushToken[carol]') === 0);
+
+  await alertNearbyPlaces(outage);
+  expect('same outage is only alerted once per place', sentTo('ExponentPushToken[alice]') === 1);
+
+  await storage.updatePlace(home.id, 'alice', { types: ['water'] });
+  const other = await storage.createOutage({ type: 'internet', latitude: 3.848, longitude: 11.502 });
+  await alertNearbyPlaces(other);
+  expect('types filter is respected', sentTo('ExponentPushToken[alice]') === 1);
+
+  const own = await storage.createOutage({ type: 'water', latitude: 3.848, longitude: 11.502, userId: 'alice' });
+  await alertNearbyPlaces(own, 'alice');
+  expect('reporter is not alerted about their own report', sentTo('ExponentPushToken[alice]') === 1);
+
+  await storage.updatePlace(night.id, 'carol', { quietStart: null, quietEnd: null });
+  await alertNearbyPlaces(outage);
+  expect('quiet place is alerted once quiet hours are over', sentTo('ExponentPushToken[carol]') === 1);
+
+  // A send that fails leaves the place free for the next report on the outage.
+  const water = await storage.createOutage({ type: 'water', latitude: 3.849, longitude: 11.503 });
+  const send = pushSender.send.bind(pushSender);
+  pushSender.send = async () => { throw new Error('push service down'); };
+  await alertNearbyPlaces(water).catch(() => {});
+  pushSender.send = send;
+  expect('failed send is not counted as alerted', sentTo('ExponentPushToken[alice]') === 1);
+  await alertNearbyPlaces(water);
+  expect('place is alerted after a failed send', sentTo('ExponentPushToken[alice]') === 2);
+
+  if (failures.length > 0) {
+    console.error(`${failures.length} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All place alert checks passed.');
+}
+
+run().catch(e => {
+  console.error('Check failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// Fires parallel confirmations at a running API server and checks that none
+// of the increments is lost. Usage:
+//   API_URL=http://localhost:5000 CONFIRMS=200 npx tsx scripts/load-test-confirmations.ts
+// Set ADMIN_TOKEN to delete the generated outage and incident afterwards.
+
+const API_URL = (process.env.API_URL || 'http://localhost:5000').replace(/\/$/, '');
+const CONFIRMS = parseInt(process.env.CONFIRMS || '200');
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const RUN_ID = Date.now().toString(36);
+
+async function call(method: string, path: string, deviceId: string, body?: unknown) {
+  const res = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      'X-Device-Id': deviceId,
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...(ADMIN_TOKEN ? { Authorization: `Bearer ${ADMIN_TOKEN}` } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: res.status, data: res.status === 204 ? null : await res.json() };
+}
+
+// Somewhere in Cameroon, random enough that clustering never merges into a real outage.
+function randomSpot() {
+  return { latitude: 3 + Math.random() * 8, longitude: 9 + Math.random() * 6 };
+}
+
+async function hammer(kind: 'outages' | 'incidents', body: Record<string, unknown>): Promise<boolean> {
+  const reporter = `loadtest-${RUN_ID}-reporter`;
+  const created = await call('POST', `/api/${kind}`, reporter, body);
+  if (created.status >= 300) throw new Error(`create ${kind} failed: ${created.status} ${JSON.stringify(created.data)}`);
+  const { id, confirmations: initial } = created.data;
+
+  const started = Date.now();
+  const results = await Promise.all(
+    Array.from({ length: CONFIRMS }, (_, i) =>
+      call('POST', `/api/${kind}/${id}/confirm`, `loadtest-${RUN_ID}-${i}`)),
+  );
+  const elapsed = Date.now() - started;
+  const accepted = results.filter(r => r.status === 200).length;
+  const failed = results.filter(r => r.status !== 200);
+
+  const { data: final } = await call('GET', `/api/${kind}/${id}`, reporter);
+  const expected = initial + accepted;
+  console.log(`${kind}: ${accepted}/${CONFIRMS} confirms accepted in ${elapsed}ms, count ${final.confirmations} (expected ${expected})`);
+  failed.slice(0, 5).forEach(r => console.log(`  rejected ${r.status}: ${JSON.stringify(r.data)}`));
+
+  if (ADMIN_TOKEN) await call('DELETE', `/api/admin/${kind}/${id}`, reporter);
+  return final.confirmations === expected;
+}
+
+async function run() {
+  console.log(`Load testing ${API_URL} with ${CONFIRMS} parallel confirmations...`);
+  const outagesOk = await hammer('outages', { type: 'water', ...randomSpot() });
+  const incidentsOk = await hammer('incidents', { incidentType: 'other', ...randomSpot() });
+
+  if (!outagesOk || !incidentsOk) {
+    console.error('Lost increments detected!');
+    process.exit(1);
+  }
+  console.log('No lost increments.');
+}
+
+run().catch(e => {
+  console.error('Load test failed:', e);
+  process.exit(1);
+});
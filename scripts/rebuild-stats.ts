@@ -0,0 +1,19 @@
+import { rebuildStatCounters } from '../server/aggregates';
+
+// Recounts every outage and incident into the stat counters, replacing what
+// is there. Run it once after setting up the counters, and again whenever they
+// may have drifted (a failed counter update is logged, not retried). Changes
+// made while it runs can be lost, so prefer a quiet moment.
+//   Appwrite:  npx tsx scripts/setup-stats.ts && npx tsx scripts/rebuild-stats.ts
+//   Postgres:  npm run db:push && STORAGE_BACKEND=postgres npx tsx scripts/rebuild-stats.ts
+
+async function run() {
+  const { outages, incidents, counters } = await rebuildStatCounters();
+  console.log(`Counted ${outages} outage(s) and ${incidents} incident(s) into ${counters} counter(s).`);
+  process.exit(0);
+}
+
+run().catch(e => {
+  console.error('Rebuild failed:', e);
+  process.exit(1);
+});
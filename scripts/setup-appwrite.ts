@@ -1,4 +1,4 @@
-import { Client, Databases, ID } from 'node-appwrite';
+import { Client, Databases, ID, IndexType } from 'node-appwrite';
 
 const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
 const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
@@ -94,6 +94,30 @@ async function setup() {
     databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'createdAt', true),
     'createdAt (datetime)');
 
+  await createAttrSafe(databases, () =>
+    databases.createStringAttribute(DB_ID, COLLECTION_ID, 'status', 24, false, 'reported'),
+    'status (string)');
+
+  await createAttrSafe(databases, () =>
+    databases.createIntegerAttribute(DB_ID, COLLECTION_ID, 'reportCount', false, undefined, undefined, 1),
+    'reportCount (integer)');
+
+  await createAttrSafe(databases, () =>
+    databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'lastReportAt', false),
+    'lastReportAt (datetime)');
+
+  await createAttrSafe(databases, () =>
+    databases.createFloatAttribute(DB_ID, COLLECTION_ID, 'centroidLatitude', false),
+    'centroidLatitude (float)');
+
+  await createAttrSafe(databases, () =>
+    databases.createFloatAttribute(DB_ID, COLLECTION_ID, 'centroidLongitude', false),
+    'centroidLongitude (float)');
+
+  await createAttrSafe(databases, () =>
+    databases.createStringAttribute(DB_ID, COLLECTION_ID, 'geohash', 12, false, ''),
+    'geohash (string)');
+
   await sleep(3000);
   console.log('Creating indexes...');
 
@@ -107,6 +131,9 @@ async function setup() {
     await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_createdAt', 'key', ['createdAt'], ['desc']);
     console.log('  + idx_createdAt');
     await sleep(2000);
+    await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_geohash', IndexType.Key, ['geohash']);
+    console.log('  + idx_geohash');
+    await sleep(2000);
   } catch (e: any) {
     console.log('Index note:', e.message);
   }
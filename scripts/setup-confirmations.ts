@@ -0,0 +1,64 @@
+import { Client, Databases, IndexType } from 'node-appwrite';
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+const COLLECTION_ID = 'confirmations';
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  try {
+    await databases.deleteCollection(DB_ID, COLLECTION_ID);
+    console.log('Old confirmations collection deleted.');
+    await sleep(2000);
+  } catch {
+    console.log('No existing confirmations collection.');
+  }
+
+  // Server-only collection: no document permissions, the API key bypasses them.
+  console.log('Creating collection "confirmations"...');
+  await databases.createCollection(DB_ID, COLLECTION_ID, 'Confirmations', [], false, true);
+  await sleep(1000);
+
+  console.log('Creating attributes...');
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'voterId', 80, true);
+  console.log('  + voterId');
+  await sleep(2000);
+
+  await databases.createEnumAttribute(DB_ID, COLLECTION_ID, 'targetType', ['outage', 'incident'], true);
+  console.log('  + targetType');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'targetId', 36, true);
+  console.log('  + targetId');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'day', 10, true);
+  console.log('  + day');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'createdAt', true);
+  console.log('  + createdAt');
+  await sleep(3000);
+
+  console.log('Creating indexes...');
+  await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_voter_day', IndexType.Key, ['voterId', 'targetType', 'day']);
+  console.log('  + idx_voter_day');
+
+  console.log('\nConfirmations collection setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
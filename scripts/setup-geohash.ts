@@ -0,0 +1,95 @@
+import { Client, Databases, IndexType, Query } from 'node-appwrite';
+import { encodeGeohash } from '../server/geo';
+
+// Adds the geohash used by the bbox/near queries (and by place alerts) to
+// existing outages, incidents and saved places, and fills it in for documents
+// created before it existed.
+//   Appwrite:  npx tsx scripts/setup-geohash.ts
+//   Postgres:  npm run db:push && STORAGE_BACKEND=postgres npx tsx scripts/setup-geohash.ts
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+const COLLECTIONS = ['outages', 'incidents', 'places'];
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function ignoreExisting(fn: () => Promise<unknown>, name: string) {
+  try {
+    await fn();
+    console.log(`  + ${name}`);
+  } catch (e: any) {
+    if (e.code !== 409) throw e;
+    console.log(`  ~ ${name} (already exists)`);
+  }
+}
+
+async function setupAppwrite() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  for (const collectionId of COLLECTIONS) {
+    console.log(`Collection "${collectionId}":`);
+    await ignoreExisting(() =>
+      databases.createStringAttribute(DB_ID, collectionId, 'geohash', 12, false, ''),
+      'geohash');
+    await sleep(3000);
+    await ignoreExisting(() =>
+      databases.createIndex(DB_ID, collectionId, 'idx_geohash', IndexType.Key, ['geohash']),
+      'idx_geohash');
+    await sleep(2000);
+
+    let updated = 0;
+    for (;;) {
+      // Updated documents drop out of the query, so the first page is always the next one.
+      const { documents } = await databases.listDocuments(DB_ID, collectionId, [
+        Query.equal('geohash', ''),
+        Query.limit(100),
+      ]);
+      if (documents.length === 0) break;
+      for (const doc of documents) {
+        await databases.updateDocument(DB_ID, collectionId, doc.$id, {
+          geohash: encodeGeohash(doc.latitude, doc.longitude),
+        });
+        updated++;
+      }
+    }
+    console.log(`  ${updated} document(s) backfilled`);
+  }
+}
+
+async function backfillPostgres() {
+  const { eq } = await import('drizzle-orm');
+  const { db } = await import('../server/db');
+  const { outages, incidents, savedPlaces } = await import('../shared/schema');
+  const names = new Map<unknown, string>([[outages, 'outages'], [incidents, 'incidents'], [savedPlaces, 'saved_places']]);
+
+  for (const table of [outages, incidents, savedPlaces]) {
+    const rows = await db.select({ id: table.id, latitude: table.latitude, longitude: table.longitude })
+      .from(table).where(eq(table.geohash, ''));
+    for (const row of rows) {
+      await db.update(table).set({ geohash: encodeGeohash(row.latitude, row.longitude) }).where(eq(table.id, row.id));
+    }
+    console.log(`${names.get(table)}: ${rows.length} row(s) backfilled`);
+  }
+}
+
+async function setup() {
+  if (process.env.STORAGE_BACKEND === 'postgres') {
+    await backfillPostgres();
+  } else {
+    await setupAppwrite();
+  }
+  console.log('\nGeohash setup complete!');
+  process.exit(0);
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
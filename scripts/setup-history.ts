@@ -0,0 +1,72 @@
+import { Client, Databases, IndexType } from 'node-appwrite';
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+const COLLECTION_ID = 'outage_history';
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  try {
+    await databases.deleteCollection(DB_ID, COLLECTION_ID);
+    console.log('Old history collection deleted.');
+    await sleep(2000);
+  } catch {
+    console.log('No existing history collection.');
+  }
+
+  // Server-only collection: no document permissions, the API key bypasses them.
+  console.log('Creating collection "outage_history"...');
+  await databases.createCollection(DB_ID, COLLECTION_ID, 'Outage history', [], false, true);
+  await sleep(1000);
+
+  console.log('Creating attributes...');
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'outageId', 36, true);
+  console.log('  + outageId');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'fromStatus', 24, false);
+  console.log('  + fromStatus');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'toStatus', 24, true);
+  console.log('  + toStatus');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'actorId', 80, true);
+  console.log('  + actorId');
+  await sleep(2000);
+
+  await databases.createEnumAttribute(DB_ID, COLLECTION_ID, 'actorRole', ['user', 'device', 'admin', 'system'], true);
+  console.log('  + actorRole');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'note', 500, false, '');
+  console.log('  + note');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'createdAt', true);
+  console.log('  + createdAt');
+  await sleep(3000);
+
+  console.log('Creating indexes...');
+  await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_outage', IndexType.Key, ['outageId', 'createdAt']);
+  console.log('  + idx_outage');
+
+  console.log('\nOutage history collection setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+import { Client, Databases, IndexType } from 'node-appwrite';
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+const COLLECTION_ID = 'moderation';
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  try {
+    await databases.deleteCollection(DB_ID, COLLECTION_ID);
+    console.log(`Old "${COLLECTION_ID}" collection deleted.`);
+    await sleep(2000);
+  } catch {
+    console.log(`No existing "${COLLECTION_ID}" collection.`);
+  }
+
+  // Server-only collection keyed by media id: no document permissions, the API
+  // key bypasses them.
+  console.log(`Creating collection "${COLLECTION_ID}"...`);
+  await databases.createCollection(DB_ID, COLLECTION_ID, 'Photo moderation', [], false, true);
+  await sleep(1000);
+  console.log('Creating attributes...');
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'kind', 10, true);
+  console.log('  + kind');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'status', 10, true);
+  console.log('  + status');
+  await sleep(2000);
+
+  await databases.createIntegerAttribute(DB_ID, COLLECTION_ID, 'faces', true);
+  console.log('  + faces');
+  await sleep(2000);
+
+  await databases.createIntegerAttribute(DB_ID, COLLECTION_ID, 'plates', true);
+  console.log('  + plates');
+  await sleep(2000);
+
+  await databases.createFloatAttribute(DB_ID, COLLECTION_ID, 'nsfwScore', false);
+  console.log('  + nsfwScore');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'reasons', 20, false, undefined, true);
+  console.log('  + reasons[]');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'createdAt', true);
+  console.log('  + createdAt');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'reviewedAt', false);
+  console.log('  + reviewedAt');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'reviewerId', 80, false);
+  console.log('  + reviewerId');
+  await sleep(3000);
+
+  await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_status', IndexType.Key, ['status', 'createdAt']);
+  console.log('  + idx_status');
+
+  console.log('\nModeration collection setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
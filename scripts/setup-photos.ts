@@ -0,0 +1,34 @@
+import { Client, Storage } from 'node-appwrite';
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const BUCKET_ID = process.env.APPWRITE_PHOTO_BUCKET || 'photos';
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const storage = new Storage(client);
+
+  // No permissions: only the API key reads the files, the app gets signed
+  // URLs from the server. Photos are shrunk to a few hundred KB; videos are
+  // kept as uploaded, up to 25 MB.
+  const maxSize = 25 * 1024 * 1024;
+  const extensions = ['jpg', 'mp4'];
+  try {
+    await storage.getBucket(BUCKET_ID);
+    console.log(`Updating bucket "${BUCKET_ID}"...`);
+    await storage.updateBucket(BUCKET_ID, 'Report photos', [], false, true, maxSize, extensions);
+  } catch {
+    console.log(`Creating bucket "${BUCKET_ID}"...`);
+    await storage.createBucket(BUCKET_ID, 'Report photos', [], false, true, maxSize, extensions);
+  }
+
+  console.log('\nPhotos bucket setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+import { Client, Databases, IndexType } from 'node-appwrite';
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function recreate(databases: Databases, id: string, name: string) {
+  try {
+    await databases.deleteCollection(DB_ID, id);
+    console.log(`Old "${id}" collection deleted.`);
+    await sleep(2000);
+  } catch {
+    console.log(`No existing "${id}" collection.`);
+  }
+  // Server-only collections: no document permissions, the API key bypasses them.
+  console.log(`Creating collection "${id}"...`);
+  await databases.createCollection(DB_ID, id, name, [], false, true);
+  await sleep(1000);
+}
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  await recreate(databases, 'places', 'Saved places');
+  console.log('Creating attributes...');
+
+  await databases.createStringAttribute(DB_ID, 'places', 'userId', 36, true);
+  console.log('  + userId');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'places', 'name', 60, true);
+  console.log('  + name');
+  await sleep(2000);
+
+  await databases.createFloatAttribute(DB_ID, 'places', 'latitude', true);
+  console.log('  + latitude');
+  await sleep(2000);
+
+  await databases.createFloatAttribute(DB_ID, 'places', 'longitude', true);
+  console.log('  + longitude');
+  await sleep(2000);
+
+  await databases.createIntegerAttribute(DB_ID, 'places', 'radiusM', false, 100, 20000, 1000);
+  console.log('  + radiusM');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'places', 'types', 16, false, undefined, true);
+  console.log('  + types[]');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'places', 'quietStart', 5, false);
+  console.log('  + quietStart');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'places', 'quietEnd', 5, false);
+  console.log('  + quietEnd');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'places', 'timezone', 64, false, 'Africa/Douala');
+  console.log('  + timezone');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, 'places', 'createdAt', true);
+  console.log('  + createdAt');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'places', 'geohash', 12, false, '');
+  console.log('  + geohash');
+  await sleep(3000);
+
+  await databases.createIndex(DB_ID, 'places', 'idx_user', IndexType.Key, ['userId']);
+  console.log('  + idx_user');
+
+  await databases.createIndex(DB_ID, 'places', 'idx_geohash', IndexType.Key, ['geohash']);
+  console.log('  + idx_geohash');
+
+  await recreate(databases, 'place_alerts', 'Place alerts');
+
+  await databases.createStringAttribute(DB_ID, 'place_alerts', 'placeId', 36, true);
+  console.log('  + placeId');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'place_alerts', 'outageId', 36, true);
+  console.log('  + outageId');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, 'place_alerts', 'createdAt', true);
+  console.log('  + createdAt');
+
+  await recreate(databases, 'push_tokens', 'Push tokens');
+
+  await databases.createStringAttribute(DB_ID, 'push_tokens', 'token', 255, true);
+  console.log('  + token');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'push_tokens', 'userId', 36, true);
+  console.log('  + userId');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, 'push_tokens', 'platform', 10, false, '');
+  console.log('  + platform');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, 'push_tokens', 'updatedAt', true);
+  console.log('  + updatedAt');
+  await sleep(3000);
+
+  await databases.createIndex(DB_ID, 'push_tokens', 'idx_user', IndexType.Key, ['userId']);
+  console.log('  + idx_user');
+
+  console.log('\nPlaces, place alerts and push tokens collections setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+import { Client, Databases, IndexType } from 'node-appwrite';
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+const COLLECTION_ID = 'restoration_votes';
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  try {
+    await databases.deleteCollection(DB_ID, COLLECTION_ID);
+    console.log('Old restoration votes collection deleted.');
+    await sleep(2000);
+  } catch {
+    console.log('No existing restoration votes collection.');
+  }
+
+  // Server-only collection: no document permissions, the API key bypasses them.
+  console.log('Creating collection "restoration_votes"...');
+  await databases.createCollection(DB_ID, COLLECTION_ID, 'Restoration votes', [], false, true);
+  await sleep(1000);
+
+  console.log('Creating attributes...');
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'outageId', 36, true);
+  console.log('  + outageId');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'voterId', 80, true);
+  console.log('  + voterId');
+  await sleep(2000);
+
+  await databases.createEnumAttribute(DB_ID, COLLECTION_ID, 'vote', ['restored', 'still_out'], true);
+  console.log('  + vote');
+  await sleep(2000);
+
+  await databases.createDatetimeAttribute(DB_ID, COLLECTION_ID, 'createdAt', true);
+  console.log('  + createdAt');
+  await sleep(3000);
+
+  console.log('Creating indexes...');
+  await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_outage', IndexType.Key, ['outageId']);
+  console.log('  + idx_outage');
+
+  console.log('\nRestoration votes collection setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
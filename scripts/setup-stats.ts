@@ -0,0 +1,68 @@
+import { Client, Databases, IndexType } from 'node-appwrite';
+
+// Creates the stat_counters collection behind /api/stats and /api/stats/timeseries.
+// Fill it afterwards with: npx tsx scripts/rebuild-stats.ts
+
+const ENDPOINT = process.env.APPWRITE_ENDPOINT!;
+const PROJECT_ID = process.env.APPWRITE_PROJECT_ID!;
+const API_KEY = process.env.APPWRITE_API_KEY!;
+const DB_ID = '6994aa87003b4207080f';
+const COLLECTION_ID = 'stat_counters';
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function setup() {
+  console.log('Connecting to Appwrite...');
+  const client = new Client();
+  client.setEndpoint(ENDPOINT).setProject(PROJECT_ID).setKey(API_KEY);
+  const databases = new Databases(client);
+
+  try {
+    await databases.deleteCollection(DB_ID, COLLECTION_ID);
+    console.log(`Old "${COLLECTION_ID}" collection deleted.`);
+    await sleep(2000);
+  } catch {
+    console.log(`No existing "${COLLECTION_ID}" collection.`);
+  }
+  // Server-only collection: no document permissions, the API key bypasses them.
+  console.log(`Creating collection "${COLLECTION_ID}"...`);
+  await databases.createCollection(DB_ID, COLLECTION_ID, 'Stat counters', [], false, true);
+  await sleep(1000);
+
+  console.log('Creating attributes...');
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'entity', 10, true);
+  console.log('  + entity');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'day', 10, true);
+  console.log('  + day');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'region', 100, true);
+  console.log('  + region');
+  await sleep(2000);
+
+  await databases.createStringAttribute(DB_ID, COLLECTION_ID, 'type', 20, true);
+  console.log('  + type');
+  await sleep(2000);
+
+  await databases.createIntegerAttribute(DB_ID, COLLECTION_ID, 'reported', false, undefined, undefined, 0);
+  console.log('  + reported');
+  await sleep(2000);
+
+  await databases.createIntegerAttribute(DB_ID, COLLECTION_ID, 'closed', false, undefined, undefined, 0);
+  console.log('  + closed');
+  await sleep(3000);
+
+  await databases.createIndex(DB_ID, COLLECTION_ID, 'idx_entity_day', IndexType.Key, ['entity', 'day']);
+  console.log('  + idx_entity_day');
+
+  console.log('\nStat counters collection setup complete!');
+}
+
+setup().catch(e => {
+  console.error('Setup failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+import { storage } from "./storage";
+import { forEachPage } from "./pagination";
+import {
+  ALL_TIME,
+  INCIDENT_TYPES,
+  OUTAGE_TYPES,
+  statCounterKey,
+  type IncidentRecord,
+  type IncidentStats,
+  type OutageRecord,
+  type OutageStats,
+  type StatCounter,
+  type StatEntity,
+  type StatPoint,
+} from "./records";
+
+const DAY_MS = 86400000;
+const DEFAULT_SERIES_DAYS = 30;
+const MAX_SERIES_DAYS = 366;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// What one outage or incident adds to the counters.
+interface Contribution {
+  entity: StatEntity;
+  day: string;
+  region: string;
+  type: string;
+  closed: boolean;
+}
+
+export interface StatSeriesQuery {
+  entity: StatEntity;
+  from: string;
+  to: string;
+  type?: string;
+  region?: string;
+}
+
+export interface StatSeries extends StatSeriesQuery {
+  points: StatPoint[];
+}
+
+export interface StatsQuery {
+  // Only the records created on these days, both included; all time without.
+  days?: { from: string; to: string };
+  region?: string;
+}
+
+function outageContribution(outage: OutageRecord): Contribution {
+  return {
+    entity: "outage",
+    day: outage.createdAt.slice(0, 10),
+    region: outage.region || "N/A",
+    type: outage.type,
+    closed: outage.estRetablie,
+  };
+}
+
+function incidentContribution(incident: IncidentRecord): Contribution {
+  return {
+    entity: "incident",
+    day: incident.createdAt.slice(0, 10),
+    region: incident.region || "N/A",
+    type: incident.incidentType,
+    closed: incident.estResolue,
+  };
+}
+
+// A record counts once in its creation day and once in the all-time counters.
+function countersOf(c: Contribution, sign: 1 | -1): StatCounter[] {
+  return [c.day, ALL_TIME].map(day => ({
+    entity: c.entity,
+    day,
+    region: c.region,
+    type: c.type,
+    reported: sign,
+    closed: c.closed ? sign : 0,
+  }));
+}
+
+function addCounter(into: Map<string, StatCounter>, counter: StatCounter) {
+  const key = statCounterKey(counter);
+  const existing = into.get(key);
+  if (existing) {
+    existing.reported += counter.reported;
+    existing.closed += counter.closed;
+  } else {
+    into.set(key, { ...counter });
+  }
+}
+
+// Sums the counters sharing a key and drops those that cancel out.
+function mergeCounters(counters: StatCounter[]): StatCounter[] {
+  const merged = new Map<string, StatCounter>();
+  counters.forEach(c => addCounter(merged, c));
+  return Array.from(merged.values()).filter(c => c.reported !== 0 || c.closed !== 0);
+}
+
+async function track(before: Contribution | null, after: Contribution | null) {
+  const deltas = mergeCounters([
+    ...(before ? countersOf(before, -1) : []),
+    ...(after ? countersOf(after, 1) : []),
+  ]);
+  if (deltas.length === 0) return;
+  try {
+    await storage.applyStatDeltas(deltas);
+  } catch (e) {
+    // The change itself went through; scripts/rebuild-stats.ts repairs the counters.
+    console.error("Stat counters update failed:", e);
+  }
+}
+
+// Called with the record before and after every change: null before for a
+// creation, null after for a deletion. Never throws.
+export function trackOutage(before: OutageRecord | null, after: OutageRecord | null): Promise<void> {
+  return track(before && outageContribution(before), after && outageContribution(after));
+}
+
+export function trackIncident(before: IncidentRecord | null, after: IncidentRecord | null): Promise<void> {
+  return track(before && incidentContribution(before), after && incidentContribution(after));
+}
+
+// Recounts every outage and incident and swaps the result in for the current counters.
+export async function rebuildStatCounters(): Promise<{ outages: number; incidents: number; counters: number }> {
+  const counts = new Map<string, StatCounter>();
+  const add = (c: Contribution) => countersOf(c, 1).forEach(counter => addCounter(counts, counter));
+
+  let outages = 0;
+  let incidents = 0;
+  await forEachPage(page => storage.listOutages({}, page), items => {
+    items.forEach(o => add(outageContribution(o)));
+    outages += items.length;
+  });
+  await forEachPage(page => storage.listIncidents({}, page), items => {
+    items.forEach(i => add(incidentContribution(i)));
+    incidents += items.length;
+  });
+  await storage.replaceStatCounters(Array.from(counts.values()));
+  return { outages, incidents, counters: counts.size };
+}
+
+async function summarize(entity: StatEntity, types: readonly string[], query: StatsQuery) {
+  const counters = await storage.listStatCounters(entity, query.days);
+  const byType: Record<string, number> = Object.fromEntries(types.map(t => [t, 0]));
+  const byRegion: Record<string, number> = {};
+  let total = 0;
+  let closed = 0;
+  for (const c of counters) {
+    if (query.region && c.region !== query.region) continue;
+    total += c.reported;
+    closed += c.closed;
+    if (c.type in byType) byType[c.type] += c.reported;
+    byRegion[c.region] = (byRegion[c.region] || 0) + c.reported;
+  }
+  for (const region of Object.keys(byRegion)) {
+    if (byRegion[region] === 0) delete byRegion[region];
+  }
+  return { total, active: total - closed, closed, byType, byRegion };
+}
+
+// Reads the all-time counters, or the daily ones of a bounded range, so the
+// cost does not grow with the data.
+export async function getOutageStats(query: StatsQuery = {}): Promise<OutageStats> {
+  const { total, active, closed, byType, byRegion } = await summarize("outage", OUTAGE_TYPES, query);
+  return { total, active, restored: closed, byType, byRegion };
+}
+
+export async function getIncidentStats(query: StatsQuery = {}): Promise<IncidentStats> {
+  const { total, active, closed, byType, byRegion } = await summarize("incident", INCIDENT_TYPES, query);
+  return { total, active, resolved: closed, byType, byRegion };
+}
+
+function invalidSeries(message: string) {
+  return { code: 400, message };
+}
+
+function toDay(value: string, name: string): string {
+  if (DAY_PATTERN.test(value) && !isNaN(Date.parse(value))) return value;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw invalidSeries(`${name} must be a date`);
+  return date.toISOString().slice(0, 10);
+}
+
+// `to` defaults to today and `from` to DEFAULT_SERIES_DAYS days before it.
+export function parseSeriesQuery(query: Record<string, unknown>): StatSeriesQuery {
+  const entity = query.entity ?? "outage";
+  if (entity !== "outage" && entity !== "incident") throw invalidSeries("entity must be outage or incident");
+  const to = typeof query.to === "string" && query.to ? toDay(query.to, "to") : new Date().toISOString().slice(0, 10);
+  const from = typeof query.from === "string" && query.from
+    ? toDay(query.from, "from")
+    : new Date(Date.parse(to) - (DEFAULT_SERIES_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+  if (from > to) throw invalidSeries("from must not be after to");
+  if ((Date.parse(to) - Date.parse(from)) / DAY_MS >= MAX_SERIES_DAYS) {
+    throw invalidSeries(`at most ${MAX_SERIES_DAYS} days`);
+  }
+  return {
+    entity,
+    from,
+    to,
+    type: typeof query.type === "string" && query.type ? query.type : undefined,
+    region: typeof query.region === "string" && query.region ? query.region : undefined,
+  };
+}
+
+// Without `from` the all-time counters are read; `to` defaults to today.
+export function parseStatsQuery(query: Record<string, unknown>): StatsQuery {
+  const region = typeof query.region === "string" && query.region ? query.region : undefined;
+  if (typeof query.from !== "string" || !query.from) return { region };
+  const from = toDay(query.from, "from");
+  const to = typeof query.to === "string" && query.to ? toDay(query.to, "to") : new Date().toISOString().slice(0, 10);
+  if (from > to) throw invalidSeries("from must not be after to");
+  if ((Date.parse(to) - Date.parse(from)) / DAY_MS >= MAX_SERIES_DAYS) {
+    throw invalidSeries(`at most ${MAX_SERIES_DAYS} days`);
+  }
+  return { days: { from, to }, region };
+}
+
+// One point per day of the range, days without reports included.
+export async function getStatSeries(query: StatSeriesQuery): Promise<StatSeries> {
+  const counters = await storage.listStatCounters(query.entity, { from: query.from, to: query.to });
+  const types = query.entity === "outage" ? OUTAGE_TYPES : INCIDENT_TYPES;
+  const byDay = new Map<string, StatPoint>();
+  for (let t = Date.parse(query.from); t <= Date.parse(query.to); t += DAY_MS) {
+    const day = new Date(t).toISOString().slice(0, 10);
+    byDay.set(day, { day, reported: 0, closed: 0, byType: Object.fromEntries(types.map(type => [type, 0])) });
+  }
+  for (const c of counters) {
+    if (query.type && c.type !== query.type) continue;
+    if (query.region && c.region !== query.region) continue;
+    const point = byDay.get(c.day);
+    if (!point) continue;
+    point.reported += c.reported;
+    point.closed += c.closed;
+    point.byType[c.type] = (point.byType[c.type] || 0) + c.reported;
+  }
+  return { ...query, points: Array.from(byDay.values()) };
+}
@@ -0,0 +1,306 @@
+import { storage } from "./storage";
+import { OUTAGE_TYPES, type IncidentRecord, type OutageRecord } from "./records";
+
+const HOUR_MS = 3600000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+const DEFAULT_HEATMAP_WEEKS = 12;
+const MAX_HEATMAP_WEEKS = 53;
+const DEFAULT_PERIOD_DAYS = 30;
+// An outage nobody marked as restored stops counting after this long, so a
+// forgotten report does not read as months without service.
+const MAX_OPEN_MS = (Number(process.env.MAX_OPEN_OUTAGE_HOURS) || 7 * 24) * HOUR_MS;
+// Cameroon stays on West Africa Time (UTC+1) all year, so a fixed offset is enough.
+const LOCAL_OFFSET_MS = HOUR_MS;
+
+const DURATION_BUCKETS = [
+  { key: "under_1h", maxHours: 1 },
+  { key: "1_6h", maxHours: 6 },
+  { key: "6_24h", maxHours: 24 },
+  { key: "1_3d", maxHours: 72 },
+  { key: "over_3d", maxHours: Infinity },
+];
+
+type AreaLevel = "region" | "ville" | "quartier";
+
+export interface DurationPeriod {
+  from: string;
+  to: string;
+}
+
+export interface DurationSummary {
+  outages: number;
+  restored: number;
+  ongoing: number;
+  // Over outages restored within the period, in hours; null without any.
+  mttrHours: number | null;
+  medianHours: number | null;
+  p90Hours: number | null;
+  // Hours within the period during which the area had at least one open
+  // outage of that type; overlapping outages are only counted once.
+  hoursWithout: Record<string, number>;
+}
+
+export interface AreaDurations extends DurationSummary {
+  area: string;
+  // The enclosing area, so that same-named villes or quartiers stay apart.
+  parent: string | null;
+}
+
+export interface DurationStats extends DurationPeriod {
+  overall: DurationSummary;
+  distribution: { bucket: string; count: number; byType: Record<string, number> }[];
+  byRegion: AreaDurations[];
+  byVille: AreaDurations[];
+  byQuartier: AreaDurations[];
+}
+
+export interface HeatmapFilters {
+  region?: string;
+  ville?: string;
+  type?: string;
+}
+
+export interface OutageHeatmap extends DurationPeriod, HeatmapFilters {
+  outages: number;
+  // cells[day][hour] in local time, day 0 being Monday: the share (0-1) of
+  // that hour of the week, over the period, during which an outage was active.
+  cells: number[][];
+}
+
+export interface ActiveArea {
+  area: string;
+  // The enclosing region, for villes.
+  parent: string | null;
+  activeByType: Record<string, number>;
+  incidents: number;
+}
+
+export interface ActiveAreas {
+  at: string;
+  byRegion: ActiveArea[];
+  byVille: ActiveArea[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+function invalidPeriod(message: string) {
+  return { code: 400, message };
+}
+
+// `to` defaults to now and `from` to DEFAULT_PERIOD_DAYS days before it.
+export function parsePeriod(from?: string, to?: string): DurationPeriod {
+  const end = to ? new Date(to) : new Date();
+  const start = from ? new Date(from) : new Date(end.getTime() - DEFAULT_PERIOD_DAYS * 24 * HOUR_MS);
+  if (isNaN(end.getTime()) || isNaN(start.getTime())) throw invalidPeriod("from/to must be ISO dates");
+  if (start >= end) throw invalidPeriod("from must be before to");
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+function round1(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return round1(sorted[Math.max(index, 0)]);
+}
+
+// Full duration of outages restored within the period, in hours.
+function restoredDurations(outages: OutageRecord[], period: DurationPeriod): number[] {
+  return outages
+    .filter(o => o.dateRetablissement && o.dateRetablissement >= period.from && o.dateRetablissement < period.to)
+    .map(o => (Date.parse(o.dateRetablissement!) - Date.parse(o.createdAt)) / HOUR_MS)
+    .filter(h => h >= 0);
+}
+
+// The part of the outage that falls inside the period. Open outages run until
+// now, but no longer than MAX_OPEN_MS after they were reported.
+function clippedInterval(o: OutageRecord, period: DurationPeriod, now: number): Interval | null {
+  const reported = Date.parse(o.createdAt);
+  const restored = o.dateRetablissement ? Date.parse(o.dateRetablissement) : Math.min(now, reported + MAX_OPEN_MS);
+  const start = Math.max(reported, Date.parse(period.from));
+  const end = Math.min(restored, Date.parse(period.to));
+  return end > start ? { start, end } : null;
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const current = merged[merged.length - 1];
+    if (current && interval.start <= current.end) {
+      current.end = Math.max(current.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+function unionHours(intervals: Interval[]): number {
+  const total = mergeIntervals(intervals).reduce((sum, i) => sum + i.end - i.start, 0);
+  return round1(total / HOUR_MS);
+}
+
+function summarize(outages: OutageRecord[], period: DurationPeriod, now: number): DurationSummary {
+  const durations = restoredDurations(outages, period).sort((a, b) => a - b);
+  const hoursWithout: Record<string, number> = {};
+  for (const type of OUTAGE_TYPES) {
+    const intervals = outages
+      .filter(o => o.type === type)
+      .map(o => clippedInterval(o, period, now))
+      .filter((i): i is Interval => i !== null);
+    hoursWithout[type] = unionHours(intervals);
+  }
+  const ongoing = outages.filter(o => !o.estRetablie).length;
+  return {
+    outages: outages.length,
+    restored: durations.length,
+    ongoing,
+    mttrHours: durations.length ? round1(durations.reduce((sum, h) => sum + h, 0) / durations.length) : null,
+    medianHours: percentile(durations, 0.5),
+    p90Hours: percentile(durations, 0.9),
+    hoursWithout,
+  };
+}
+
+function totalHours(summary: DurationSummary): number {
+  return Object.values(summary.hoursWithout).reduce((sum, h) => sum + h, 0);
+}
+
+function groupBy(
+  outages: OutageRecord[],
+  period: DurationPeriod,
+  now: number,
+  level: AreaLevel,
+): AreaDurations[] {
+  const parentOf = (o: OutageRecord) => (level === "quartier" ? o.ville : level === "ville" ? o.region : null);
+  const groups = new Map<string, { area: string; parent: string | null; items: OutageRecord[] }>();
+  for (const o of outages) {
+    const area = o[level] || "N/A";
+    const parent = parentOf(o);
+    const key = `${parent ?? ""}/${area}`;
+    const group = groups.get(key) ?? { area, parent, items: [] };
+    group.items.push(o);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .map(g => ({ area: g.area, parent: g.parent, ...summarize(g.items, period, now) }))
+    .sort((a, b) => totalHours(b) - totalHours(a));
+}
+
+export async function getDurationStats(
+  period: DurationPeriod,
+  filters: { type?: string; region?: string } = {},
+): Promise<DurationStats> {
+  const now = Date.now();
+  const outages = (await storage.listOutagesInPeriod(period.from, period.to))
+    .filter(o => o.status !== "rejected")
+    .filter(o => !filters.type || o.type === filters.type)
+    .filter(o => !filters.region || o.region === filters.region);
+
+  const distribution = DURATION_BUCKETS.map(b => ({
+    bucket: b.key,
+    count: 0,
+    byType: Object.fromEntries(OUTAGE_TYPES.map(t => [t, 0])) as Record<string, number>,
+  }));
+  for (const o of outages) {
+    const [hours] = restoredDurations([o], period);
+    if (hours === undefined) continue;
+    const bucket = distribution[DURATION_BUCKETS.findIndex(b => hours < b.maxHours)];
+    bucket.count++;
+    if (o.type in bucket.byType) bucket.byType[o.type]++;
+  }
+
+  return {
+    ...period,
+    overall: summarize(outages, period, now),
+    distribution,
+    byRegion: groupBy(outages, period, now, "region"),
+    byVille: groupBy(outages, period, now, "ville"),
+    byQuartier: groupBy(outages, period, now, "quartier"),
+  };
+}
+
+// `to` defaults to now and `from` to DEFAULT_HEATMAP_WEEKS weeks before it.
+export function parseHeatmapPeriod(from?: string, to?: string): DurationPeriod {
+  const { to: end } = parsePeriod(undefined, to);
+  const period = parsePeriod(from ?? new Date(Date.parse(end) - DEFAULT_HEATMAP_WEEKS * WEEK_MS).toISOString(), end);
+  if (Date.parse(period.to) - Date.parse(period.from) > MAX_HEATMAP_WEEKS * WEEK_MS) {
+    throw invalidPeriod(`at most ${MAX_HEATMAP_WEEKS} weeks`);
+  }
+  return period;
+}
+
+// 0 is Monday 00:00-01:00 local time.
+export function hourOfWeek(t: number): number {
+  const local = new Date(t + LOCAL_OFFSET_MS);
+  return ((local.getUTCDay() + 6) % 7) * 24 + local.getUTCHours();
+}
+
+// Adds the milliseconds of the interval to the hour-of-week slots it crosses.
+function spreadOverWeek(into: number[], interval: Interval) {
+  for (let t = interval.start; t < interval.end;) {
+    const next = Math.min(interval.end, (Math.floor(t / HOUR_MS) + 1) * HOUR_MS);
+    into[hourOfWeek(t)] += next - t;
+    t = next;
+  }
+}
+
+export async function getOutageHeatmap(period: DurationPeriod, filters: HeatmapFilters = {}): Promise<OutageHeatmap> {
+  const now = Date.now();
+  const outages = (await storage.listOutagesInPeriod(period.from, period.to))
+    .filter(o => o.status !== "rejected")
+    .filter(o => !filters.type || o.type === filters.type)
+    .filter(o => !filters.region || o.region === filters.region)
+    .filter(o => !filters.ville || o.ville === filters.ville);
+
+  const observed = new Array(7 * 24).fill(0);
+  const active = new Array(7 * 24).fill(0);
+  spreadOverWeek(observed, { start: Date.parse(period.from), end: Math.min(Date.parse(period.to), now) });
+  // clippedInterval caps open outages, so a stale report does not fill every slot.
+  mergeIntervals(outages
+    .map(o => clippedInterval(o, period, now))
+    .filter((i): i is Interval => i !== null))
+    .forEach(i => spreadOverWeek(active, i));
+
+  const cells = Array.from({ length: 7 }, (_, day) => Array.from({ length: 24 }, (_, hour) => {
+    const slot = day * 24 + hour;
+    return observed[slot] ? Math.round((active[slot] / observed[slot]) * 100) / 100 : 0;
+  }));
+  return { ...period, ...filters, outages: outages.length, cells };
+}
+
+function activeBy(outages: OutageRecord[], incidents: IncidentRecord[], level: "region" | "ville"): ActiveArea[] {
+  const groups = new Map<string, ActiveArea>();
+  const get = (r: { region: string; ville: string }) => {
+    const area = r[level] || "N/A";
+    const parent = level === "ville" ? r.region : null;
+    const key = `${parent ?? ""}/${area}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { area, parent, activeByType: Object.fromEntries(OUTAGE_TYPES.map(t => [t, 0])), incidents: 0 };
+      groups.set(key, group);
+    }
+    return group;
+  };
+  for (const o of outages) {
+    const group = get(o);
+    group.activeByType[o.type] = (group.activeByType[o.type] || 0) + 1;
+  }
+  for (const i of incidents) get(i).incidents++;
+  return Array.from(groups.values());
+}
+
+// Open outages per type and unresolved incidents, per region and per ville,
+// read from the database rather than from one page of reports.
+export async function getActiveAreas(): Promise<ActiveAreas> {
+  const at = new Date().toISOString();
+  const [outages, incidents] = await Promise.all([storage.listOutagesInPeriod(at, at), storage.listOpenIncidents()]);
+  const open = outages.filter(o => !o.estRetablie && o.status !== "rejected");
+  return { at, byRegion: activeBy(open, incidents, "region"), byVille: activeBy(open, incidents, "ville") };
+}
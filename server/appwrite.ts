@@ -1,17 +1,66 @@
-import { Client, Databases, ID, Query, Users } from 'node-appwrite';
+import { createHash } from 'crypto';
+import { Account, Client, Databases, ID, Permission, Query, Role, Users } from 'node-appwrite';
+import type { IStorage } from './storage';
+import { encodeGeohash, geohashCover, inBBox, matchesSpatial, searchBox, sortSpatial, type BBox } from './geo';
+import { byNewestKey, keyCursor, pageFromList, pageFromRows, type PageRequest } from './pagination';
+import {
+  ALL_TIME,
+  hoursCutoff,
+  initialStatus,
+  nextCentroid,
+  notFound,
+  statusConflict,
+  statusPatch,
+  type ConfirmationTarget,
+  type ConfirmationVote,
+  type IncidentRecord,
+  type IncidentUpdate,
+  type ListFilters,
+  type MediaAttachment,
+  type ModerationRecord,
+  type ModerationStatus,
+  type NewIncident,
+  type NewMediaAttachment,
+  type NewModerationRecord,
+  type NewOutage,
+  type NewOutageHistory,
+  type OutageHistoryEntry,
+  type OutageRecord,
+  type OutageStatus,
+  type OutageUpdate,
+  type Page,
+  type NewSavedPlace,
+  type PushToken,
+  type ReportLocation,
+  type RestorationVote,
+  type SavedPlace,
+  type SavedPlaceUpdate,
+  type StatCounter,
+  type StatEntity,
+  type UserProfile,
+} from './records';
 
 const DB_ID = '6994aa87003b4207080f';
 const COLLECTION_ID = 'outages';
 const USERS_COLLECTION = 'users';
-
-const client = new Client();
-client
-  .setEndpoint(process.env.APPWRITE_ENDPOINT!)
-  .setProject(process.env.APPWRITE_PROJECT_ID!)
-  .setKey(process.env.APPWRITE_API_KEY!);
-
-const databases = new Databases(client);
-const usersApi = new Users(client);
+const INCIDENTS_COLLECTION = 'incidents';
+const CONFIRMATIONS_COLLECTION = 'confirmations';
+const HISTORY_COLLECTION = 'outage_history';
+const RESTORATION_VOTES_COLLECTION = 'restoration_votes';
+const PLACES_COLLECTION = 'places';
+const PLACE_ALERTS_COLLECTION = 'place_alerts';
+const PUSH_TOKENS_COLLECTION = 'push_tokens';
+const STAT_COUNTERS_COLLECTION = 'stat_counters';
+const MEDIA_COLLECTION = 'media';
+// Documents are keyed by media id.
+const MODERATION_COLLECTION = 'moderation';
+
+// Same permissions the mobile client grants on the documents it creates itself.
+const REPORT_PERMISSIONS = [
+  Permission.read(Role.users()),
+  Permission.update(Role.users()),
+  Permission.delete(Role.users()),
+];
 
 export interface OutageDoc {
   $id: string;
@@ -28,7 +77,7 @@ export interface OutageDoc {
   createdAt: string;
 }
 
-function docToOutage(doc: any) {
+function docToOutage(doc: any): OutageRecord {
   return {
     id: doc.$id,
     type: doc.type,
@@ -42,345 +91,663 @@ function docToOutage(doc: any) {
     estRetablie: doc.estRetablie ?? false,
     dateRetablissement: doc.dateRetablissement || null,
     createdAt: doc.createdAt || doc.$createdAt,
+    userId: doc.userId || '',
+    status: initialStatus(doc),
+    reportCount: doc.reportCount ?? 1,
+    lastReportAt: doc.lastReportAt || doc.createdAt || doc.$createdAt,
+    centroidLatitude: doc.centroidLatitude ?? doc.latitude,
+    centroidLongitude: doc.centroidLongitude ?? doc.longitude,
   };
 }
 
-export async function listOutages(filters?: { type?: string; region?: string; hours?: string }) {
-  const queries: string[] = [Query.orderDesc('createdAt'), Query.limit(200)];
+function docToHistory(doc: any): OutageHistoryEntry {
+  return {
+    id: doc.$id,
+    outageId: doc.outageId,
+    fromStatus: doc.fromStatus || null,
+    toStatus: doc.toStatus,
+    actorId: doc.actorId,
+    actorRole: doc.actorRole,
+    note: doc.note || '',
+    createdAt: doc.createdAt || doc.$createdAt,
+  };
+}
 
-  if (filters?.type) queries.push(Query.equal('type', filters.type));
-  if (filters?.region) queries.push(Query.equal('region', filters.region));
-  if (filters?.hours) {
-    const cutoff = new Date(Date.now() - parseInt(filters.hours) * 3600000).toISOString();
-    queries.push(Query.greaterThan('createdAt', cutoff));
-  }
+function docToIncident(doc: any): IncidentRecord {
+  return {
+    id: doc.$id,
+    incidentType: doc.incidentType,
+    latitude: doc.latitude,
+    longitude: doc.longitude,
+    quartier: doc.quartier || 'N/A',
+    ville: doc.ville || 'N/A',
+    region: doc.region || 'N/A',
+    confirmations: doc.confirmations ?? 1,
+    photoUri: doc.photoUri || null,
+    commentaire: doc.commentaire || '',
+    estResolue: doc.estResolue ?? false,
+    dateResolution: doc.dateResolution || null,
+    createdAt: doc.createdAt || doc.$createdAt,
+    userId: doc.userId || '',
+  };
+}
+
+function docToPlace(doc: any): SavedPlace {
+  return {
+    id: doc.$id,
+    userId: doc.userId,
+    name: doc.name,
+    latitude: doc.latitude,
+    longitude: doc.longitude,
+    radiusM: doc.radiusM,
+    types: doc.types || [],
+    quietStart: doc.quietStart || null,
+    quietEnd: doc.quietEnd || null,
+    timezone: doc.timezone || 'Africa/Douala',
+    createdAt: doc.createdAt || doc.$createdAt,
+  };
+}
 
-  const result = await databases.listDocuments(DB_ID, COLLECTION_ID, queries);
-  return result.documents.map(docToOutage);
+function docToMedia(doc: any): MediaAttachment {
+  return {
+    id: doc.$id,
+    targetType: doc.targetType,
+    targetId: doc.targetId,
+    kind: doc.kind,
+    mediaId: doc.mediaId,
+    bytes: doc.bytes,
+    durationSec: doc.durationSec ?? null,
+    uploaderId: doc.uploaderId,
+    createdAt: doc.createdAt || doc.$createdAt,
+  };
 }
 
-export async function getOutage(id: string) {
-  const doc = await databases.getDocument(DB_ID, COLLECTION_ID, id);
-  return docToOutage(doc);
+function docToModeration(doc: any): ModerationRecord {
+  return {
+    id: doc.$id,
+    mediaId: doc.$id,
+    kind: doc.kind,
+    status: doc.status,
+    faces: doc.faces ?? 0,
+    plates: doc.plates ?? 0,
+    nsfwScore: doc.nsfwScore ?? null,
+    reasons: doc.reasons || [],
+    createdAt: doc.createdAt || doc.$createdAt,
+    reviewedAt: doc.reviewedAt ?? null,
+    reviewerId: doc.reviewerId ?? null,
+  };
 }
 
-export async function createOutage(data: {
-  type: string;
-  latitude: number;
-  longitude: number;
-  quartier?: string;
-  ville?: string;
-  region?: string;
-  photoUri?: string | null;
-  userId?: string;
-}) {
-  const doc = await databases.createDocument(DB_ID, COLLECTION_ID, ID.unique(), {
-    type: data.type,
-    latitude: data.latitude,
-    longitude: data.longitude,
-    quartier: data.quartier || 'N/A',
-    ville: data.ville || 'N/A',
-    region: data.region || 'N/A',
-    confirmations: 1,
-    photoUri: data.photoUri || null,
-    estRetablie: false,
-    dateRetablissement: null,
-    createdAt: new Date().toISOString(),
-    userId: data.userId || '',
-  });
-  return docToOutage(doc);
+function docToStatCounter(doc: any): StatCounter {
+  return {
+    entity: doc.entity,
+    day: doc.day,
+    region: doc.region,
+    type: doc.type,
+    reported: doc.reported,
+    closed: doc.closed,
+  };
 }
 
-export async function batchCreateOutages(items: any[]) {
-  let created = 0;
-  for (const item of items) {
-    try {
-      const docId = item.id && item.id.length <= 36 ? item.id : ID.unique();
-      await databases.createDocument(DB_ID, COLLECTION_ID, docId, {
-        type: item.type,
-        latitude: item.latitude,
-        longitude: item.longitude,
-        quartier: item.quartier || 'N/A',
-        ville: item.ville || 'N/A',
-        region: item.region || 'N/A',
-        confirmations: item.confirmations || 1,
-        photoUri: item.photoUri || null,
-        estRetablie: item.estRetablie || false,
-        dateRetablissement: item.dateRetablissement || null,
-        createdAt: item.date || item.createdAt || new Date().toISOString(),
-      });
-      created++;
-    } catch {
-    }
-  }
-  return created;
+function docToUser(doc: any): UserProfile {
+  return { id: doc.$id, phone: doc.phone, displayName: doc.displayName || '', isAdmin: doc.isAdmin ?? false };
 }
 
-export async function confirmOutage(id: string) {
-  const doc = await databases.getDocument(DB_ID, COLLECTION_ID, id);
-  const updated = await databases.updateDocument(DB_ID, COLLECTION_ID, id, {
-    confirmations: (doc.confirmations ?? 1) + 1,
-  });
-  return docToOutage(updated);
+// Deterministic document id, so Appwrite's own 409 enforces one document per key.
+function keyDocId(...parts: string[]): string {
+  return createHash('sha256').update(parts.join(':')).digest('hex').slice(0, 36);
 }
 
-export async function restoreOutage(id: string) {
-  const updated = await databases.updateDocument(DB_ID, COLLECTION_ID, id, {
-    estRetablie: true,
-    dateRetablissement: new Date().toISOString(),
-  });
-  return docToOutage(updated);
+function geohashQuery(box: BBox): string {
+  const prefixes = geohashCover(box).map(prefix => Query.startsWith('geohash', prefix));
+  return prefixes.length === 1 ? prefixes[0] : Query.or(prefixes);
 }
 
-export async function getStats() {
-  const allDocs: any[] = [];
-  let offset = 0;
-  const batchSize = 100;
+export class AppwriteStorage implements IStorage {
+  private databases: Databases;
+  private usersApi: Users;
+
+  constructor() {
+    const client = new Client();
+    client
+      .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+      .setProject(process.env.APPWRITE_PROJECT_ID!)
+      .setKey(process.env.APPWRITE_API_KEY!);
 
-  while (true) {
-    const result = await databases.listDocuments(DB_ID, COLLECTION_ID, [
-      Query.limit(batchSize),
-      Query.offset(offset),
+    this.databases = new Databases(client);
+    this.usersApi = new Users(client);
+  }
+
+  private async listAll(collectionId: string, extraQueries: string[] = []) {
+    const allDocs: any[] = [];
+    const batchSize = 100;
+    let lastId: string | null = null;
+
+    while (true) {
+      const result: { documents: any[] } = await this.databases.listDocuments(DB_ID, collectionId, [
+        Query.limit(batchSize),
+        ...(lastId ? [Query.cursorAfter(lastId)] : []),
+        ...extraQueries,
+      ]);
+      allDocs.push(...result.documents);
+      if (result.documents.length < batchSize) break;
+      lastId = result.documents[result.documents.length - 1].$id;
+    }
+    return allDocs;
+  }
+
+  // Reads one page newest first, plus one document to tell whether more follow.
+  // Appwrite's own cursor is a document id; if that document has been deleted
+  // since, the page restarts from its timestamp instead.
+  private async listPage(collectionId: string, queries: string[], page: PageRequest, dateAttribute = 'createdAt') {
+    const base = [...queries, Query.orderDesc(dateAttribute), Query.orderDesc('$id'), Query.limit(page.limit + 1)];
+    const cursor = keyCursor(page);
+    if (!cursor) return (await this.databases.listDocuments(DB_ID, collectionId, base)).documents;
+    try {
+      return (await this.databases.listDocuments(DB_ID, collectionId, [...base, Query.cursorAfter(cursor.id)])).documents;
+    } catch (e: any) {
+      if (e.type !== 'general_cursor_not_found' && e.code !== 404) throw e;
+      return (await this.databases.listDocuments(DB_ID, collectionId, [...base, Query.lessThan(dateAttribute, cursor.at)])).documents;
+    }
+  }
+
+  async listOutages(filters: ListFilters, page: PageRequest): Promise<Page<OutageRecord>> {
+    const queries: string[] = [];
+
+    if (filters.type) queries.push(Query.equal('type', filters.type));
+    if (filters.region) queries.push(Query.equal('region', filters.region));
+    if (filters.hours) queries.push(Query.greaterThan('createdAt', hoursCutoff(filters.hours)));
+    if (filters.reportedSince) queries.push(Query.greaterThanEqual('lastReportAt', filters.reportedSince));
+
+    const box = searchBox(filters);
+    if (!box) return pageFromRows((await this.listPage(COLLECTION_ID, queries, page)).map(docToOutage), page);
+    // Everything in the covering cells is read, so paging applies after the exact filter.
+    const docs = await this.listAll(COLLECTION_ID, [...queries, geohashQuery(box)]);
+    const matching = docs.map(docToOutage)
+      .filter(o => matchesSpatial(filters, o.latitude, o.longitude))
+      .sort(byNewestKey);
+    return pageFromList(sortSpatial(matching, filters), page, filters.sort === 'distance' && !!filters.near);
+  }
+
+  async getOutage(id: string): Promise<OutageRecord> {
+    const doc = await this.databases.getDocument(DB_ID, COLLECTION_ID, id);
+    return docToOutage(doc);
+  }
+
+  async createOutage(data: NewOutage): Promise<OutageRecord> {
+    const now = new Date().toISOString();
+    const doc = await this.databases.createDocument(DB_ID, COLLECTION_ID, ID.unique(), {
+      type: data.type,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      quartier: data.quartier || 'N/A',
+      ville: data.ville || 'N/A',
+      region: data.region || 'N/A',
+      confirmations: 1,
+      photoUri: data.photoUri || null,
+      estRetablie: false,
+      dateRetablissement: null,
+      createdAt: now,
+      userId: data.userId || '',
+      status: 'reported',
+      reportCount: 1,
+      lastReportAt: now,
+      centroidLatitude: data.latitude,
+      centroidLongitude: data.longitude,
+      geohash: encodeGeohash(data.latitude, data.longitude),
+    }, REPORT_PERMISSIONS);
+    return docToOutage(doc);
+  }
+
+  async confirmOutage(id: string): Promise<OutageRecord> {
+    const updated = await this.databases.incrementDocumentAttribute(DB_ID, COLLECTION_ID, id, 'confirmations', 1);
+    return docToOutage(updated);
+  }
+
+  // Both counters go through Appwrite's atomic increment. The centroid is derived
+  // from the count we were handed, so concurrent reports can only skew it slightly.
+  async addOutageReport(id: string, report: ReportLocation): Promise<OutageRecord> {
+    const counted = docToOutage(await this.databases.incrementDocumentAttribute(DB_ID, COLLECTION_ID, id, 'reportCount', 1));
+    await this.databases.incrementDocumentAttribute(DB_ID, COLLECTION_ID, id, 'confirmations', 1);
+    const centroid = nextCentroid({ ...counted, reportCount: counted.reportCount - 1 }, report);
+    const updated = await this.databases.updateDocument(DB_ID, COLLECTION_ID, id, {
+      lastReportAt: new Date().toISOString(),
+      centroidLatitude: centroid.latitude,
+      centroidLongitude: centroid.longitude,
+    });
+    return docToOutage(updated);
+  }
+
+  // Appwrite has no conditional update, so this is check-then-write: it catches
+  // stale callers but two truly simultaneous transitions can still both land.
+  async setOutageStatus(id: string, from: OutageStatus, to: OutageStatus): Promise<OutageRecord> {
+    const current = docToOutage(await this.databases.getDocument(DB_ID, COLLECTION_ID, id));
+    if (current.status !== from) throw statusConflict();
+    const updated = await this.databases.updateDocument(DB_ID, COLLECTION_ID, id, { status: to, ...statusPatch(to) });
+    return docToOutage(updated);
+  }
+
+  async updateOutage(id: string, data: OutageUpdate): Promise<OutageRecord> {
+    const updated = await this.databases.updateDocument(DB_ID, COLLECTION_ID, id, data);
+    return docToOutage(updated);
+  }
+
+  async deleteOutage(id: string): Promise<void> {
+    await this.databases.deleteDocument(DB_ID, COLLECTION_ID, id);
+  }
+
+  async getUserOutages(userId: string, page: PageRequest): Promise<Page<OutageRecord>> {
+    const docs = await this.listPage(COLLECTION_ID, [Query.equal('userId', userId)], page);
+    return pageFromRows(docs.map(docToOutage), page);
+  }
+
+  async listOutagesInPeriod(from: string, to: string): Promise<OutageRecord[]> {
+    const docs = await this.listAll(COLLECTION_ID, [
+      Query.lessThan('createdAt', to),
+      Query.or([Query.equal('estRetablie', false), Query.greaterThanEqual('dateRetablissement', from)]),
     ]);
-    allDocs.push(...result.documents);
-    if (result.documents.length < batchSize) break;
-    offset += batchSize;
-  }
-
-  const total = allDocs.length;
-  const active = allDocs.filter(o => !o.estRetablie).length;
-  const restored = allDocs.filter(o => o.estRetablie).length;
-  const byType = {
-    water: allDocs.filter(o => o.type === 'water').length,
-    electricity: allDocs.filter(o => o.type === 'electricity').length,
-    internet: allDocs.filter(o => o.type === 'internet').length,
-  };
-  const byRegion: Record<string, number> = {};
-  allDocs.forEach(o => {
-    const r = o.region || 'N/A';
-    byRegion[r] = (byRegion[r] || 0) + 1;
-  });
+    return docs.map(docToOutage);
+  }
 
-  return { total, active, restored, byType, byRegion };
-}
+  async addOutageHistory(entry: NewOutageHistory): Promise<OutageHistoryEntry> {
+    const doc = await this.databases.createDocument(DB_ID, HISTORY_COLLECTION, ID.unique(), {
+      ...entry,
+      createdAt: new Date().toISOString(),
+    });
+    return docToHistory(doc);
+  }
 
-export async function deleteOutage(id: string) {
-  await databases.deleteDocument(DB_ID, COLLECTION_ID, id);
-}
+  async getOutageHistory(outageId: string): Promise<OutageHistoryEntry[]> {
+    const docs = await this.listAll(HISTORY_COLLECTION, [
+      Query.equal('outageId', outageId),
+      Query.orderAsc('createdAt'),
+    ]);
+    return docs.map(docToHistory);
+  }
 
-export async function updateOutage(id: string, data: Partial<{ type: string; quartier: string; ville: string; region: string; estRetablie: boolean; dateRetablissement: string | null }>) {
-  const updated = await databases.updateDocument(DB_ID, COLLECTION_ID, id, data);
-  return docToOutage(updated);
-}
+  async castRestorationVote(vote: Omit<RestorationVote, 'createdAt'>): Promise<void> {
+    const docId = keyDocId(vote.outageId, vote.voterId);
+    const data = { ...vote, createdAt: new Date().toISOString() };
+    try {
+      await this.databases.createDocument(DB_ID, RESTORATION_VOTES_COLLECTION, docId, data);
+    } catch (e: any) {
+      if (e.code !== 409) throw e;
+      await this.databases.updateDocument(DB_ID, RESTORATION_VOTES_COLLECTION, docId, data);
+    }
+  }
+
+  async listRestorationVotes(outageId: string): Promise<RestorationVote[]> {
+    const docs = await this.listAll(RESTORATION_VOTES_COLLECTION, [Query.equal('outageId', outageId)]);
+    return docs.map(d => ({ outageId: d.outageId, voterId: d.voterId, vote: d.vote, createdAt: d.createdAt }));
+  }
+
+  async clearRestorationVotes(outageId: string): Promise<void> {
+    const docs = await this.listAll(RESTORATION_VOTES_COLLECTION, [Query.equal('outageId', outageId)]);
+    for (const doc of docs) {
+      await this.databases.deleteDocument(DB_ID, RESTORATION_VOTES_COLLECTION, doc.$id);
+    }
+  }
+
+  async listIncidents(filters: ListFilters, page: PageRequest): Promise<Page<IncidentRecord>> {
+    const queries: string[] = [];
+
+    if (filters.type) queries.push(Query.equal('incidentType', filters.type));
+    if (filters.region) queries.push(Query.equal('region', filters.region));
+    if (filters.hours) queries.push(Query.greaterThan('createdAt', hoursCutoff(filters.hours)));
+
+    const box = searchBox(filters);
+    if (!box) return pageFromRows((await this.listPage(INCIDENTS_COLLECTION, queries, page)).map(docToIncident), page);
+    // Everything in the covering cells is read, so paging applies after the exact filter.
+    const docs = await this.listAll(INCIDENTS_COLLECTION, [...queries, geohashQuery(box)]);
+    const matching = docs.map(docToIncident)
+      .filter(o => matchesSpatial(filters, o.latitude, o.longitude))
+      .sort(byNewestKey);
+    return pageFromList(sortSpatial(matching, filters), page, filters.sort === 'distance' && !!filters.near);
+  }
+
+  async listOpenIncidents(): Promise<IncidentRecord[]> {
+    const docs = await this.listAll(INCIDENTS_COLLECTION, [Query.equal('estResolue', false)]);
+    return docs.map(docToIncident);
+  }
+
+  async getIncident(id: string): Promise<IncidentRecord> {
+    const doc = await this.databases.getDocument(DB_ID, INCIDENTS_COLLECTION, id);
+    return docToIncident(doc);
+  }
+
+  async createIncident(data: NewIncident): Promise<IncidentRecord> {
+    const doc = await this.databases.createDocument(DB_ID, INCIDENTS_COLLECTION, ID.unique(), {
+      incidentType: data.incidentType,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      quartier: data.quartier || 'N/A',
+      ville: data.ville || 'N/A',
+      region: data.region || 'N/A',
+      confirmations: 1,
+      photoUri: data.photoUri || null,
+      commentaire: data.commentaire || '',
+      estResolue: false,
+      dateResolution: null,
+      createdAt: new Date().toISOString(),
+      userId: data.userId || '',
+      geohash: encodeGeohash(data.latitude, data.longitude),
+    }, REPORT_PERMISSIONS);
+    return docToIncident(doc);
+  }
+
+  async confirmIncident(id: string): Promise<IncidentRecord> {
+    const updated = await this.databases.incrementDocumentAttribute(DB_ID, INCIDENTS_COLLECTION, id, 'confirmations', 1);
+    return docToIncident(updated);
+  }
+
+  async resolveIncident(id: string): Promise<IncidentRecord> {
+    const updated = await this.databases.updateDocument(DB_ID, INCIDENTS_COLLECTION, id, {
+      estResolue: true,
+      dateResolution: new Date().toISOString(),
+    });
+    return docToIncident(updated);
+  }
 
-export async function listAllUsers() {
-  const allUsers: any[] = [];
-  let offset = 0;
-  const batchSize = 100;
-  while (true) {
-    const result = await databases.listDocuments(DB_ID, USERS_COLLECTION, [
-      Query.limit(batchSize),
-      Query.offset(offset),
-      Query.orderDesc('$createdAt'),
+  async updateIncident(id: string, data: IncidentUpdate): Promise<IncidentRecord> {
+    const updated = await this.databases.updateDocument(DB_ID, INCIDENTS_COLLECTION, id, data);
+    return docToIncident(updated);
+  }
+
+  async deleteIncident(id: string): Promise<void> {
+    await this.databases.deleteDocument(DB_ID, INCIDENTS_COLLECTION, id);
+  }
+
+  async recordConfirmation(vote: ConfirmationVote): Promise<boolean> {
+    try {
+      await this.databases.createDocument(DB_ID, CONFIRMATIONS_COLLECTION, keyDocId(vote.voterId, vote.targetType, vote.targetId, vote.day), {
+        ...vote,
+        createdAt: new Date().toISOString(),
+      });
+      return true;
+    } catch (e: any) {
+      if (e.code === 409) return false;
+      throw e;
+    }
+  }
+
+  async listConfirmedTargets(voterId: string, targetType: ConfirmationTarget, day: string): Promise<string[]> {
+    const docs = await this.listAll(CONFIRMATIONS_COLLECTION, [
+      Query.equal('voterId', voterId),
+      Query.equal('targetType', targetType),
+      Query.equal('day', day),
     ]);
-    allUsers.push(...result.documents);
-    if (result.documents.length < batchSize) break;
-    offset += batchSize;
-  }
-  return allUsers.map(u => ({
-    id: u.$id,
-    phone: u.phone,
-    displayName: u.displayName || '',
-    isAdmin: u.isAdmin ?? false,
-    createdAt: u.createdAt || u.$createdAt,
-  }));
-}
+    return docs.map(d => d.targetId);
+  }
 
-export async function deleteUser(id: string) {
-  await databases.deleteDocument(DB_ID, USERS_COLLECTION, id);
-}
+  async listMedia(targetType: ConfirmationTarget, targetId: string): Promise<MediaAttachment[]> {
+    const docs = await this.listAll(MEDIA_COLLECTION, [
+      Query.equal('targetType', targetType),
+      Query.equal('targetId', targetId),
+    ]);
+    return docs.map(docToMedia).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
 
-export async function setUserAdmin(id: string, isAdmin: boolean) {
-  const doc = await databases.updateDocument(DB_ID, USERS_COLLECTION, id, { isAdmin });
-  return { id: doc.$id, phone: doc.phone, displayName: doc.displayName || '', isAdmin: doc.isAdmin ?? false };
-}
+  async addMedia(data: NewMediaAttachment): Promise<MediaAttachment> {
+    const doc = await this.databases.createDocument(DB_ID, MEDIA_COLLECTION, ID.unique(), {
+      ...data,
+      createdAt: new Date().toISOString(),
+    });
+    return docToMedia(doc);
+  }
 
-export async function registerUser(phone: string, password: string, displayName?: string) {
-  const existing = await databases.listDocuments(DB_ID, USERS_COLLECTION, [
-    Query.equal('phone', phone),
-    Query.limit(1),
-  ]);
-  if (existing.documents.length > 0) {
-    throw { code: 409, message: 'Ce numéro est déjà utilisé' };
+  async deleteMedia(id: string): Promise<void> {
+    await this.databases.deleteDocument(DB_ID, MEDIA_COLLECTION, id);
   }
 
-  const email = `${phone}@coupurealert.app`;
-  const authUser = await usersApi.create(ID.unique(), email, undefined, password, displayName || phone);
-  await usersApi.updateEmailVerification(authUser.$id, true);
+  async addModeration({ mediaId, ...data }: NewModerationRecord): Promise<ModerationRecord> {
+    const doc = await this.databases.createDocument(DB_ID, MODERATION_COLLECTION, mediaId, {
+      ...data,
+      createdAt: new Date().toISOString(),
+    });
+    return docToModeration(doc);
+  }
 
-  const doc = await databases.createDocument(DB_ID, USERS_COLLECTION, authUser.$id, {
-    phone,
-    displayName: displayName || '',
-    createdAt: new Date().toISOString(),
-    isAdmin: false,
-  });
+  async getModeration(mediaId: string): Promise<ModerationRecord> {
+    return docToModeration(await this.databases.getDocument(DB_ID, MODERATION_COLLECTION, mediaId));
+  }
 
-  return { id: doc.$id, phone: doc.phone, displayName: doc.displayName || '', isAdmin: false };
-}
+  async listModeration(status: ModerationStatus, limit: number): Promise<ModerationRecord[]> {
+    const result = await this.databases.listDocuments(DB_ID, MODERATION_COLLECTION, [
+      Query.equal('status', status),
+      Query.orderAsc('createdAt'),
+      Query.limit(limit),
+    ]);
+    return result.documents.map(docToModeration);
+  }
 
-export async function loginUser(phone: string, password: string) {
-  const email = `${phone}@coupurealert.app`;
+  async reviewModeration(mediaId: string, status: ModerationStatus, reviewerId: string): Promise<ModerationRecord> {
+    const doc = await this.databases.updateDocument(DB_ID, MODERATION_COLLECTION, mediaId, {
+      status,
+      reviewerId,
+      reviewedAt: new Date().toISOString(),
+    });
+    return docToModeration(doc);
+  }
 
-  try {
-    const userList = await usersApi.list([Query.equal('email', email), Query.limit(1)]);
-    if (userList.total === 0) {
-      throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+  async deleteModeration(mediaId: string): Promise<void> {
+    try {
+      await this.databases.deleteDocument(DB_ID, MODERATION_COLLECTION, mediaId);
+    } catch (e: any) {
+      if (e.code !== 404) throw e;
     }
-  } catch (e: any) {
-    if (e?.code === 401) throw e;
-    throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
   }
 
-  const result = await databases.listDocuments(DB_ID, USERS_COLLECTION, [
-    Query.equal('phone', phone),
-    Query.limit(1),
-  ]);
+  // Appwrite only increments one attribute of an existing document at a time.
+  private async bumpStatCounter(docId: string, delta: StatCounter) {
+    for (const attribute of ['reported', 'closed'] as const) {
+      const value = delta[attribute];
+      if (value > 0) await this.databases.incrementDocumentAttribute(DB_ID, STAT_COUNTERS_COLLECTION, docId, attribute, value);
+      if (value < 0) await this.databases.decrementDocumentAttribute(DB_ID, STAT_COUNTERS_COLLECTION, docId, attribute, -value);
+    }
+  }
 
-  if (result.documents.length === 0) {
-    throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+  async applyStatDeltas(deltas: StatCounter[]): Promise<void> {
+    for (const delta of deltas) {
+      const docId = keyDocId(delta.entity, delta.day, delta.region, delta.type);
+      try {
+        await this.bumpStatCounter(docId, delta);
+      } catch (e: any) {
+        if (e.code !== 404) throw e;
+        try {
+          await this.databases.createDocument(DB_ID, STAT_COUNTERS_COLLECTION, docId, { ...delta });
+        } catch (e: any) {
+          // Another request created it in the meantime.
+          if (e.code !== 409) throw e;
+          await this.bumpStatCounter(docId, delta);
+        }
+      }
+    }
   }
 
-  const user = result.documents[0];
-  return { id: user.$id, phone: user.phone, displayName: user.displayName || '', isAdmin: user.isAdmin ?? false };
-}
+  async listStatCounters(entity: StatEntity, days?: { from: string; to: string }): Promise<StatCounter[]> {
+    const docs = await this.listAll(STAT_COUNTERS_COLLECTION, [
+      Query.equal('entity', entity),
+      days ? Query.between('day', days.from, days.to) : Query.equal('day', ALL_TIME),
+    ]);
+    return docs.map(docToStatCounter);
+  }
 
-export async function getUserById(id: string) {
-  const doc = await databases.getDocument(DB_ID, USERS_COLLECTION, id);
-  return { id: doc.$id, phone: doc.phone, displayName: doc.displayName || '', isAdmin: doc.isAdmin ?? false };
-}
+  async replaceStatCounters(counters: StatCounter[]): Promise<void> {
+    const existing = await this.listAll(STAT_COUNTERS_COLLECTION);
+    for (const doc of existing) {
+      await this.databases.deleteDocument(DB_ID, STAT_COUNTERS_COLLECTION, doc.$id);
+    }
+    for (const counter of counters) {
+      await this.databases.createDocument(DB_ID, STAT_COUNTERS_COLLECTION,
+        keyDocId(counter.entity, counter.day, counter.region, counter.type), { ...counter });
+    }
+  }
 
-export async function getUserOutages(userId: string) {
-  const result = await databases.listDocuments(DB_ID, COLLECTION_ID, [
-    Query.equal('userId', userId),
-    Query.orderDesc('createdAt'),
-    Query.limit(100),
-  ]);
-  return result.documents.map(docToOutage);
-}
+  private async getOwnPlaceDoc(id: string, userId: string) {
+    const doc = await this.databases.getDocument(DB_ID, PLACES_COLLECTION, id);
+    if (doc.userId !== userId) throw notFound();
+    return doc;
+  }
 
-const INCIDENTS_COLLECTION = 'incidents';
+  async listPlaces(userId: string): Promise<SavedPlace[]> {
+    const docs = await this.listAll(PLACES_COLLECTION, [Query.equal('userId', userId)]);
+    return docs.map(docToPlace);
+  }
 
-function docToIncident(doc: any) {
-  return {
-    id: doc.$id,
-    incidentType: doc.incidentType,
-    latitude: doc.latitude,
-    longitude: doc.longitude,
-    quartier: doc.quartier || 'N/A',
-    ville: doc.ville || 'N/A',
-    region: doc.region || 'N/A',
-    confirmations: doc.confirmations ?? 1,
-    photoUri: doc.photoUri || null,
-    commentaire: doc.commentaire || '',
-    estResolue: doc.estResolue ?? false,
-    dateResolution: doc.dateResolution || null,
-    createdAt: doc.createdAt || doc.$createdAt,
-    userId: doc.userId || '',
-  };
-}
+  async listPlacesIn(box: BBox): Promise<SavedPlace[]> {
+    const docs = await this.listAll(PLACES_COLLECTION, [geohashQuery(box)]);
+    return docs.map(docToPlace).filter(p => inBBox(p.latitude, p.longitude, box));
+  }
 
-export async function listIncidents(filters?: { type?: string; region?: string; hours?: string }) {
-  const queries: string[] = [Query.orderDesc('createdAt'), Query.limit(200)];
+  async createPlace(data: NewSavedPlace): Promise<SavedPlace> {
+    const doc = await this.databases.createDocument(DB_ID, PLACES_COLLECTION, ID.unique(), {
+      ...data,
+      createdAt: new Date().toISOString(),
+      geohash: encodeGeohash(data.latitude, data.longitude),
+    });
+    return docToPlace(doc);
+  }
 
-  if (filters?.type) queries.push(Query.equal('incidentType', filters.type));
-  if (filters?.region) queries.push(Query.equal('region', filters.region));
-  if (filters?.hours) {
-    const cutoff = new Date(Date.now() - parseInt(filters.hours) * 3600000).toISOString();
-    queries.push(Query.greaterThan('createdAt', cutoff));
+  async updatePlace(id: string, userId: string, data: SavedPlaceUpdate): Promise<SavedPlace> {
+    const current = await this.getOwnPlaceDoc(id, userId);
+    const moved = data.latitude !== undefined || data.longitude !== undefined;
+    const doc = await this.databases.updateDocument(DB_ID, PLACES_COLLECTION, id, {
+      ...data,
+      ...(moved ? { geohash: encodeGeohash(data.latitude ?? current.latitude, data.longitude ?? current.longitude) } : {}),
+    });
+    return docToPlace(doc);
   }
 
-  const result = await databases.listDocuments(DB_ID, INCIDENTS_COLLECTION, queries);
-  return result.documents.map(docToIncident);
-}
+  async deletePlace(id: string, userId: string): Promise<void> {
+    await this.getOwnPlaceDoc(id, userId);
+    await this.databases.deleteDocument(DB_ID, PLACES_COLLECTION, id);
+  }
 
-export async function createServerIncident(data: {
-  incidentType: string;
-  latitude: number;
-  longitude: number;
-  quartier?: string;
-  ville?: string;
-  region?: string;
-  photoUri?: string | null;
-  commentaire?: string;
-  userId?: string;
-}) {
-  const doc = await databases.createDocument(DB_ID, INCIDENTS_COLLECTION, ID.unique(), {
-    incidentType: data.incidentType,
-    latitude: data.latitude,
-    longitude: data.longitude,
-    quartier: data.quartier || 'N/A',
-    ville: data.ville || 'N/A',
-    region: data.region || 'N/A',
-    confirmations: 1,
-    photoUri: data.photoUri || null,
-    commentaire: data.commentaire || '',
-    estResolue: false,
-    dateResolution: null,
-    createdAt: new Date().toISOString(),
-    userId: data.userId || '',
-  });
-  return docToIncident(doc);
-}
+  async markPlaceAlerted(placeId: string, outageId: string): Promise<boolean> {
+    try {
+      await this.databases.createDocument(DB_ID, PLACE_ALERTS_COLLECTION, keyDocId(placeId, outageId), {
+        placeId,
+        outageId,
+        createdAt: new Date().toISOString(),
+      });
+      return true;
+    } catch (e: any) {
+      if (e.code === 409) return false;
+      throw e;
+    }
+  }
 
-export async function confirmServerIncident(id: string) {
-  const doc = await databases.getDocument(DB_ID, INCIDENTS_COLLECTION, id);
-  const updated = await databases.updateDocument(DB_ID, INCIDENTS_COLLECTION, id, {
-    confirmations: (doc.confirmations ?? 1) + 1,
-  });
-  return docToIncident(updated);
-}
+  async unmarkPlaceAlerted(placeId: string, outageId: string): Promise<void> {
+    try {
+      await this.databases.deleteDocument(DB_ID, PLACE_ALERTS_COLLECTION, keyDocId(placeId, outageId));
+    } catch (e: any) {
+      if (e.code !== 404) throw e;
+    }
+  }
 
-export async function resolveServerIncident(id: string) {
-  const updated = await databases.updateDocument(DB_ID, INCIDENTS_COLLECTION, id, {
-    estResolue: true,
-    dateResolution: new Date().toISOString(),
-  });
-  return docToIncident(updated);
-}
+  async savePushToken(userId: string, token: string, platform: string): Promise<void> {
+    const docId = keyDocId(token);
+    const data = { token, userId, platform, updatedAt: new Date().toISOString() };
+    try {
+      await this.databases.createDocument(DB_ID, PUSH_TOKENS_COLLECTION, docId, data);
+    } catch (e: any) {
+      if (e.code !== 409) throw e;
+      await this.databases.updateDocument(DB_ID, PUSH_TOKENS_COLLECTION, docId, data);
+    }
+  }
 
-export async function deleteServerIncident(id: string) {
-  await databases.deleteDocument(DB_ID, INCIDENTS_COLLECTION, id);
-}
+  async deletePushToken(token: string): Promise<void> {
+    try {
+      await this.databases.deleteDocument(DB_ID, PUSH_TOKENS_COLLECTION, keyDocId(token));
+    } catch (e: any) {
+      if (e.code !== 404) throw e;
+    }
+  }
 
-export async function getIncidentStats() {
-  const allDocs: any[] = [];
-  let offset = 0;
-  const batchSize = 100;
+  async listPushTokens(userIds: string[]): Promise<PushToken[]> {
+    if (userIds.length === 0) return [];
+    const docs = await this.listAll(PUSH_TOKENS_COLLECTION, [Query.equal('userId', userIds)]);
+    return docs.map(d => ({ token: d.token, userId: d.userId, platform: d.platform || '', updatedAt: d.updatedAt }));
+  }
 
-  while (true) {
-    const result = await databases.listDocuments(DB_ID, INCIDENTS_COLLECTION, [
-      Query.limit(batchSize),
-      Query.offset(offset),
+  async registerUser(phone: string, password: string, displayName?: string): Promise<UserProfile> {
+    const existing = await this.databases.listDocuments(DB_ID, USERS_COLLECTION, [
+      Query.equal('phone', phone),
+      Query.limit(1),
     ]);
-    allDocs.push(...result.documents);
-    if (result.documents.length < batchSize) break;
-    offset += batchSize;
-  }
-
-  const total = allDocs.length;
-  const active = allDocs.filter(o => !o.estResolue).length;
-  const resolved = allDocs.filter(o => o.estResolue).length;
-  const byType = {
-    broken_pipe: allDocs.filter(o => o.incidentType === 'broken_pipe').length,
-    fallen_pole: allDocs.filter(o => o.incidentType === 'fallen_pole').length,
-    cable_on_ground: allDocs.filter(o => o.incidentType === 'cable_on_ground').length,
-    other: allDocs.filter(o => o.incidentType === 'other').length,
-  };
-  const byRegion: Record<string, number> = {};
-  allDocs.forEach(o => {
-    const r = o.region || 'N/A';
-    byRegion[r] = (byRegion[r] || 0) + 1;
-  });
+    if (existing.documents.length > 0) {
+      throw { code: 409, message: 'Ce numéro est déjà utilisé' };
+    }
+
+    const email = `${phone}@coupurealert.app`;
+    const authUser = await this.usersApi.create(ID.unique(), email, undefined, password, displayName || phone);
+    await this.usersApi.updateEmailVerification(authUser.$id, true);
 
-  return { total, active, resolved, byType, byRegion };
+    const doc = await this.databases.createDocument(DB_ID, USERS_COLLECTION, authUser.$id, {
+      phone,
+      displayName: displayName || '',
+      createdAt: new Date().toISOString(),
+      isAdmin: false,
+    });
+
+    return docToUser(doc);
+  }
+
+  async loginUser(phone: string, password: string): Promise<UserProfile> {
+    const email = `${phone}@coupurealert.app`;
+
+    try {
+      const userList = await this.usersApi.list([Query.equal('email', email), Query.limit(1)]);
+      if (userList.total === 0) {
+        throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+      }
+    } catch (e: any) {
+      if (e?.code === 401) throw e;
+      throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+    }
+
+    // A key-less client is needed here: sessions cannot be created with an API key.
+    const sessionClient = new Client()
+      .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+      .setProject(process.env.APPWRITE_PROJECT_ID!);
+    try {
+      const session = await new Account(sessionClient).createEmailPasswordSession(email, password);
+      await this.usersApi.deleteSession(session.userId, session.$id).catch(() => {});
+    } catch {
+      throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+    }
+
+    const result = await this.databases.listDocuments(DB_ID, USERS_COLLECTION, [
+      Query.equal('phone', phone),
+      Query.limit(1),
+    ]);
+
+    if (result.documents.length === 0) {
+      throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+    }
+
+    return docToUser(result.documents[0]);
+  }
+
+  async getUserById(id: string): Promise<UserProfile> {
+    const doc = await this.databases.getDocument(DB_ID, USERS_COLLECTION, id);
+    return docToUser(doc);
+  }
+
+  async listUsers(page: PageRequest): Promise<Page<UserProfile>> {
+    const docs = await this.listPage(USERS_COLLECTION, [], page, '$createdAt');
+    return pageFromRows(docs.map(u => ({
+      ...docToUser(u),
+      createdAt: u.createdAt || u.$createdAt,
+    })), page);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.databases.deleteDocument(DB_ID, USERS_COLLECTION, id);
+  }
+
+  async setUserAdmin(id: string, isAdmin: boolean): Promise<UserProfile> {
+    const doc = await this.databases.updateDocument(DB_ID, USERS_COLLECTION, id, { isAdmin });
+    return docToUser(doc);
+  }
 }
@@ -0,0 +1,118 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { storage } from "./storage";
+import type { UserProfile } from "./records";
+
+const TOKEN_TTL_MS = 7 * 24 * 3600000;
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// Without SESSION_SECRET tokens only survive until the next restart.
+const SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+export type AuthUser = UserProfile;
+
+interface TokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      voterId?: string;
+    }
+  }
+}
+
+export function sign(data: string): string {
+  return createHmac("sha256", SECRET).update(data).digest("base64url");
+}
+
+export function checkSignature(data: string, signature: string): boolean {
+  const expected = Buffer.from(sign(data));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export function issueToken(userId: string): string {
+  const now = Date.now();
+  const payload: TokenPayload = { sub: userId, iat: now, exp: now + TOKEN_TTL_MS };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+export function verifyToken(token: string): string | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature || !checkSignature(body, signature)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf-8")) as TokenPayload;
+    if (!payload.sub || payload.exp < Date.now()) return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+function readBearer(req: Request): string | null {
+  const header = req.header("authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice(7).trim() || null;
+}
+
+// Signed-in users confirm as themselves; anonymous clients fall back to the
+// X-Device-Id they generated on first launch. Never rejects the request.
+export function identifyVoter(req: Request, _res: Response, next: NextFunction) {
+  const token = readBearer(req);
+  const userId = token ? verifyToken(token) : null;
+  const deviceId = req.header("x-device-id");
+  if (userId) {
+    req.voterId = `user:${userId}`;
+  } else if (deviceId && DEVICE_ID_PATTERN.test(deviceId)) {
+    req.voterId = `device:${deviceId}`;
+  }
+  next();
+}
+
+// Loads req.user when a valid token is present, so routes open to anonymous
+// voters can still tell admins and reporters apart. Never rejects the request.
+export async function attachUser(req: Request, _res: Response, next: NextFunction) {
+  const token = readBearer(req);
+  const userId = token ? verifyToken(token) : null;
+  if (userId) {
+    try {
+      req.user = await storage.getUserById(userId);
+    } catch (e: any) {
+      if (e?.code !== 404) console.error("attachUser error:", e);
+    }
+  }
+  next();
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = readBearer(req);
+  const userId = token ? verifyToken(token) : null;
+  if (!userId) {
+    return res.status(401).json({ error: "Authentification requise" });
+  }
+
+  try {
+    req.user = await storage.getUserById(userId);
+    next();
+  } catch (e: any) {
+    if (e?.code === 404) return res.status(401).json({ error: "Authentification requise" });
+    console.error("requireAuth error:", e);
+    res.status(500).json({ error: "Erreur" });
+  }
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  requireAuth(req, res, () => {
+    if (!req.user?.isAdmin) {
+      return res.status(403).json({ error: "Accès réservé aux administrateurs" });
+    }
+    next();
+  });
+}
@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { getDistanceKm } from "./geo";
+import { MAX_PAGE_SIZE, firstPage } from "./pagination";
+import { recordVote } from "./confirmations";
+import { trackOutage } from "./aggregates";
+import { isOpen, markConfirmed, recordReported, voterActor } from "./lifecycle";
+import { withPhotoUrls } from "./photos";
+import type { NewOutage, OutageRecord } from "./records";
+
+// A new report joins an open outage of the same type whose centroid is within
+// CLUSTER_RADIUS_KM and which was last reported less than CLUSTER_WINDOW_HOURS ago.
+const CLUSTER_RADIUS_KM = parseFloat(process.env.CLUSTER_RADIUS_KM || "1");
+const CLUSTER_WINDOW_HOURS = parseFloat(process.env.CLUSTER_WINDOW_HOURS || "6");
+
+export interface OutageEvent extends OutageRecord {
+  firstReportAt: string;
+  centroid: { latitude: number; longitude: number };
+  photoThumbUri: string | null;
+}
+
+export function toOutageEvent(outage: OutageRecord): OutageEvent {
+  return withPhotoUrls({
+    ...outage,
+    firstReportAt: outage.createdAt,
+    centroid: { latitude: outage.centroidLatitude, longitude: outage.centroidLongitude },
+  });
+}
+
+export async function findOpenCluster(report: Pick<NewOutage, "type" | "latitude" | "longitude">): Promise<OutageRecord | null> {
+  const windowStart = new Date(Date.now() - CLUSTER_WINDOW_HOURS * 3600000).toISOString();
+  // Searched around the new report rather than among the newest outages only.
+  // Outages are indexed by their first report, and the centroid can drift from
+  // it by up to the cluster radius, hence the doubled search radius. The window
+  // is part of the query so older outages in the same cells are never read.
+  const { items: candidates } = await storage.listOutages({
+    type: report.type,
+    reportedSince: windowStart,
+    near: { latitude: report.latitude, longitude: report.longitude, radiusKm: CLUSTER_RADIUS_KM * 2 },
+  }, firstPage(MAX_PAGE_SIZE));
+
+  let best: OutageRecord | null = null;
+  let bestDistance = Infinity;
+  for (const outage of candidates) {
+    if (!isOpen(outage.status)) continue;
+    const distance = getDistanceKm(report.latitude, report.longitude, outage.centroidLatitude, outage.centroidLongitude);
+    if (distance <= CLUSTER_RADIUS_KM && distance < bestDistance) {
+      best = outage;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// The reporter's vote is recorded too: a second report of the same outage by the
+// same voter on the same day is returned unchanged instead of being counted again.
+export async function reportOutage(data: NewOutage, voterId?: string): Promise<{ event: OutageEvent; clustered: boolean }> {
+  const cluster = await findOpenCluster(data);
+  if (cluster) {
+    if (voterId && !(await recordVote(voterId, "outage", cluster.id))) {
+      return { event: toOutageEvent(cluster), clustered: true };
+    }
+    const updated = await storage.addOutageReport(cluster.id, { latitude: data.latitude, longitude: data.longitude });
+    const confirmed = await markConfirmed(updated, voterActor(voterId));
+    return { event: toOutageEvent(confirmed), clustered: true };
+  }
+  const created = await storage.createOutage(data);
+  await trackOutage(null, created);
+  await recordReported(created, voterActor(voterId));
+  if (voterId) await recordVote(voterId, "outage", created.id);
+  return { event: toOutageEvent(created), clustered: false };
+}
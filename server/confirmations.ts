@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import { isOpen, markConfirmed, voterActor } from "./lifecycle";
+import { confirmationDay, type ConfirmationTarget, type IncidentRecord, type OutageRecord } from "./records";
+
+export function alreadyConfirmed() {
+  return { code: 409, message: "Déjà confirmé aujourd'hui" };
+}
+
+export function outageClosed() {
+  return { code: 409, message: "Cette coupure est clôturée" };
+}
+
+export function recordVote(voterId: string, targetType: ConfirmationTarget, targetId: string): Promise<boolean> {
+  return storage.recordConfirmation({ voterId, targetType, targetId, day: confirmationDay() });
+}
+
+// The target is looked up first so that unknown ids never leave a vote behind.
+export async function confirmOutageOnce(voterId: string, id: string): Promise<OutageRecord> {
+  const outage = await storage.getOutage(id);
+  if (!isOpen(outage.status)) throw outageClosed();
+  if (!(await recordVote(voterId, "outage", id))) throw alreadyConfirmed();
+  const updated = await storage.confirmOutage(id);
+  return markConfirmed(updated, voterActor(voterId));
+}
+
+export async function confirmIncidentOnce(voterId: string, id: string): Promise<IncidentRecord> {
+  await storage.getIncident(id);
+  if (!(await recordVote(voterId, "incident", id))) throw alreadyConfirmed();
+  return storage.confirmIncident(id);
+}
+
+export async function confirmedToday(voterId: string | undefined, targetType: ConfirmationTarget): Promise<Set<string>> {
+  if (!voterId) return new Set();
+  return new Set(await storage.listConfirmedTargets(voterId, targetType, confirmationDay()));
+}
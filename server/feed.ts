@@ -0,0 +1,113 @@
+import type { Server, IncomingMessage } from "node:http";
+import { WebSocketServer, WebSocket } from "ws";
+import { inBBox, parseBBox, type BBox } from "./geo";
+
+export const FEED_PATH = "/api/feed";
+const HEARTBEAT_MS = 30000;
+
+export type FeedEntity = "outage" | "incident";
+export type FeedAction = "created" | "confirmed" | "restored" | "updated" | "deleted";
+
+export interface FeedEvent {
+  entity: FeedEntity;
+  action: FeedAction;
+  id: string;
+  region: string;
+  latitude: number;
+  longitude: number;
+  // Full record after the change; omitted for deletions.
+  record?: unknown;
+  at: string;
+}
+
+interface FeedFilter {
+  region?: string;
+  bbox?: BBox;
+}
+
+interface Subscriber {
+  socket: WebSocket;
+  filter: FeedFilter;
+  alive: boolean;
+}
+
+const subscribers = new Set<Subscriber>();
+
+function parseFilter(input: { region?: unknown; bbox?: unknown }): FeedFilter {
+  return {
+    region: typeof input.region === "string" && input.region ? input.region : undefined,
+    bbox: input.bbox ? parseBBox(input.bbox) : undefined,
+  };
+}
+
+function matches(filter: FeedFilter, event: FeedEvent): boolean {
+  if (filter.region && event.region !== filter.region) return false;
+  return !filter.bbox || inBBox(event.latitude, event.longitude, filter.bbox);
+}
+
+export function publishFeed(
+  entity: FeedEntity,
+  action: FeedAction,
+  item: { id: string; region: string; latitude: number; longitude: number },
+  record?: unknown,
+) {
+  const event: FeedEvent = {
+    entity,
+    action,
+    id: item.id,
+    region: item.region,
+    latitude: item.latitude,
+    longitude: item.longitude,
+    record: action === "deleted" ? undefined : record ?? item,
+    at: new Date().toISOString(),
+  };
+  const payload = JSON.stringify({ type: "event", event });
+  for (const sub of subscribers) {
+    if (sub.socket.readyState === WebSocket.OPEN && matches(sub.filter, event)) sub.socket.send(payload);
+  }
+}
+
+// Clients connect to ws(s)://host/api/feed?region=…&bbox=minLon,minLat,maxLon,maxLat
+// and may narrow or widen the filter later by sending {"type":"subscribe", region, bbox}.
+export function attachFeed(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== FEED_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => {
+      const sub: Subscriber = {
+        socket: ws,
+        filter: parseFilter({ region: url.searchParams.get("region"), bbox: url.searchParams.get("bbox") }),
+        alive: true,
+      };
+      subscribers.add(sub);
+
+      ws.on("pong", () => { sub.alive = true; });
+      ws.on("message", data => {
+        try {
+          const message = JSON.parse(data.toString());
+          if (message?.type === "subscribe") sub.filter = parseFilter(message);
+        } catch {
+          // Ignore anything that is not a subscribe message.
+        }
+      });
+      ws.on("close", () => { subscribers.delete(sub); });
+      ws.send(JSON.stringify({ type: "ready" }));
+    });
+  });
+
+  // Drops connections that went away without a close frame (mobile networks).
+  const heartbeat = setInterval(() => {
+    for (const sub of subscribers) {
+      if (!sub.alive) {
+        sub.socket.terminate();
+        subscribers.delete(sub);
+        continue;
+      }
+      sub.alive = false;
+      sub.socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
@@ -0,0 +1,248 @@
+import { storage } from "./storage";
+import { hourOfWeek } from "./analytics";
+import { firstPage } from "./pagination";
+import type { OutageRecord } from "./records";
+
+const HOUR_MS = 3600000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+const HORIZON_HOURS = 24;
+const TRAINING_WEEKS = 8;
+// How much the hour-of-week rate counts against the plain hour-of-day rate,
+// which is averaged over the seven days and so steadier for quiet quartiers.
+const WEEKDAY_WEIGHT = 0.5;
+const LOCATE_RADIUS_KM = 3;
+const LOCATE_CANDIDATES = 20;
+const MAX_BACKTEST_DAYS = 90;
+
+export const FORECAST_TYPES = ["water", "electricity"];
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskScore {
+  ville: string;
+  quartier: string;
+  type: string;
+  // Chance of at least one new outage of that type within the horizon (0-1).
+  probability: number;
+  level: RiskLevel;
+  // Outages of that type that started in the quartier during the training window.
+  history: number;
+}
+
+export interface Forecast {
+  at: string;
+  horizonHours: number;
+  trainingWeeks: number;
+  scores: RiskScore[];
+}
+
+export interface LocalForecast extends Forecast {
+  ville: string;
+  quartier: string;
+}
+
+export interface BacktestReport {
+  from: string;
+  to: string;
+  days: number;
+  trainingWeeks: number;
+  horizonHours: number;
+  // One per day, quartier and type known from the training window.
+  predictions: number;
+  observedRate: number;
+  meanPredicted: number;
+  brier: number;
+  // Same score for a flat per-quartier daily rate, without hour or weekday.
+  baselineBrier: number;
+  logLoss: number;
+  calibration: { bucket: string; count: number; predicted: number; observed: number }[];
+}
+
+interface Profile {
+  ville: string;
+  quartier: string;
+  type: string;
+  byWeekHour: number[];
+  byHour: number[];
+  total: number;
+}
+
+const CALIBRATION_BUCKETS = [0.1, 0.2, 0.4, 0.6, 1];
+
+function levelOf(probability: number): RiskLevel {
+  if (probability >= 0.5) return "high";
+  if (probability >= 0.2) return "medium";
+  return "low";
+}
+
+function knownArea(value: string | undefined): value is string {
+  return !!value && value !== "N/A";
+}
+
+function profileKey(ville: string, quartier: string, type: string): string {
+  return `${ville}/${quartier}/${type}`;
+}
+
+// Counts, per quartier and type, the outages started in each local hour over [from, to).
+function buildProfiles(outages: OutageRecord[], from: number, to: number): Map<string, Profile> {
+  const profiles = new Map<string, Profile>();
+  for (const o of outages) {
+    const start = Date.parse(o.createdAt);
+    if (start < from || start >= to || o.status === "rejected") continue;
+    if (!FORECAST_TYPES.includes(o.type) || !knownArea(o.ville) || !knownArea(o.quartier)) continue;
+    const key = profileKey(o.ville, o.quartier, o.type);
+    let profile = profiles.get(key);
+    if (!profile) {
+      profile = {
+        ville: o.ville,
+        quartier: o.quartier,
+        type: o.type,
+        byWeekHour: new Array(7 * 24).fill(0),
+        byHour: new Array(24).fill(0),
+        total: 0,
+      };
+      profiles.set(key, profile);
+    }
+    const slot = hourOfWeek(start);
+    profile.byWeekHour[slot]++;
+    profile.byHour[slot % 24]++;
+    profile.total++;
+  }
+  return profiles;
+}
+
+// Each hour of the horizon gets the share of past weeks in which an outage
+// started then; the forecast is the chance that at least one of them does.
+function predict(profile: Profile, weeks: number, at: number): number {
+  let none = 1;
+  for (let h = 0; h < HORIZON_HOURS; h++) {
+    const slot = hourOfWeek(at + h * HOUR_MS);
+    const rate = WEEKDAY_WEIGHT * profile.byWeekHour[slot] / weeks
+      + (1 - WEEKDAY_WEIGHT) * profile.byHour[slot % 24] / (7 * weeks);
+    none *= 1 - Math.min(rate, 1);
+  }
+  return 1 - none;
+}
+
+function baseline(profile: Profile, weeks: number): number {
+  return 1 - Math.exp(-(profile.total / (7 * weeks)) * (HORIZON_HOURS / 24));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function scoreOf(profile: Profile, at: number): RiskScore {
+  const probability = round2(predict(profile, TRAINING_WEEKS, at));
+  return {
+    ville: profile.ville,
+    quartier: profile.quartier,
+    type: profile.type,
+    probability,
+    level: levelOf(probability),
+    history: profile.total,
+  };
+}
+
+async function trainingOutages(from: number, to: number): Promise<OutageRecord[]> {
+  return storage.listOutagesInPeriod(new Date(from).toISOString(), new Date(to).toISOString());
+}
+
+// Scores for the next HORIZON_HOURS, riskiest first. Quartiers without any
+// outage in the training window are left out.
+export async function forecastQuartiers(
+  at = new Date(),
+  filters: { ville?: string; quartier?: string; type?: string } = {},
+): Promise<Forecast> {
+  const now = at.getTime();
+  const outages = await trainingOutages(now - TRAINING_WEEKS * WEEK_MS, now);
+  const scores = Array.from(buildProfiles(outages, now - TRAINING_WEEKS * WEEK_MS, now).values())
+    .filter(p => !filters.ville || p.ville === filters.ville)
+    .filter(p => !filters.quartier || p.quartier === filters.quartier)
+    .filter(p => !filters.type || p.type === filters.type)
+    .map(p => scoreOf(p, now))
+    .sort((a, b) => b.probability - a.probability);
+  return { at: at.toISOString(), horizonHours: HORIZON_HOURS, trainingWeeks: TRAINING_WEEKS, scores };
+}
+
+// The quartier of the nearest report that names one.
+async function locateQuartier(latitude: number, longitude: number): Promise<{ ville: string; quartier: string } | null> {
+  const { items } = await storage.listOutages({
+    near: { latitude, longitude, radiusKm: LOCATE_RADIUS_KM },
+    sort: "distance",
+  }, firstPage(LOCATE_CANDIDATES));
+  const nearest = items.find(o => knownArea(o.ville) && knownArea(o.quartier));
+  return nearest ? { ville: nearest.ville, quartier: nearest.quartier } : null;
+}
+
+// Every forecast type is listed, at zero when the quartier has no history for it.
+export async function forecastNear(latitude: number, longitude: number, at = new Date()): Promise<LocalForecast> {
+  const area = await locateQuartier(latitude, longitude);
+  if (!area) throw { code: 404, message: "Aucun quartier connu à proximité" };
+  const forecast = await forecastQuartiers(at, area);
+  const scores = FORECAST_TYPES.map(type => forecast.scores.find(s => s.type === type) ?? {
+    ...area, type, probability: 0, level: "low" as RiskLevel, history: 0,
+  });
+  return { ...forecast, ...area, scores };
+}
+
+// Replays the forecast once a day over the last `days` days, each time trained
+// only on the weeks before, and scores it against the outages that followed.
+// Quartiers seen for the first time on the day being predicted are not counted.
+export async function backtestForecast(days = 28, until = new Date()): Promise<BacktestReport> {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_BACKTEST_DAYS) {
+    throw { code: 400, message: `days must be between 1 and ${MAX_BACKTEST_DAYS}` };
+  }
+  const end = until.getTime();
+  const start = end - days * 24 * HOUR_MS;
+  const outages = await trainingOutages(start - TRAINING_WEEKS * WEEK_MS, end);
+
+  const calibration = CALIBRATION_BUCKETS.map(() => ({ count: 0, predicted: 0, observed: 0 }));
+  let predictions = 0;
+  let observedTotal = 0;
+  let predictedTotal = 0;
+  let brier = 0;
+  let baselineBrier = 0;
+  let logLoss = 0;
+
+  for (let at = start; at < end; at += HORIZON_HOURS * HOUR_MS) {
+    const profiles = buildProfiles(outages, at - TRAINING_WEEKS * WEEK_MS, at);
+    const happened = new Set(Array.from(buildProfiles(outages, at, at + HORIZON_HOURS * HOUR_MS).keys()));
+    for (const [key, profile] of profiles) {
+      const p = predict(profile, TRAINING_WEEKS, at);
+      const y = happened.has(key) ? 1 : 0;
+      const clipped = Math.min(Math.max(p, 1e-6), 1 - 1e-6);
+      predictions++;
+      observedTotal += y;
+      predictedTotal += p;
+      brier += (p - y) ** 2;
+      baselineBrier += (baseline(profile, TRAINING_WEEKS) - y) ** 2;
+      logLoss -= y * Math.log(clipped) + (1 - y) * Math.log(1 - clipped);
+      const bucket = calibration[CALIBRATION_BUCKETS.findIndex(max => p < max || max === 1)];
+      bucket.count++;
+      bucket.predicted += p;
+      bucket.observed += y;
+    }
+  }
+
+  const mean = (sum: number, count: number) => (count ? Math.round((sum / count) * 1000) / 1000 : 0);
+  return {
+    from: new Date(start).toISOString(),
+    to: new Date(end).toISOString(),
+    days,
+    trainingWeeks: TRAINING_WEEKS,
+    horizonHours: HORIZON_HOURS,
+    predictions,
+    observedRate: mean(observedTotal, predictions),
+    meanPredicted: mean(predictedTotal, predictions),
+    brier: mean(brier, predictions),
+    baselineBrier: mean(baselineBrier, predictions),
+    logLoss: mean(logLoss, predictions),
+    calibration: calibration.map((b, i) => ({
+      bucket: `${i === 0 ? 0 : CALIBRATION_BUCKETS[i - 1]}-${CALIBRATION_BUCKETS[i]}`,
+      count: b.count,
+      predicted: mean(b.predicted, b.count),
+      observed: mean(b.observed, b.count),
+    })),
+  };
+}
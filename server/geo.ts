@@ -0,0 +1,165 @@
+export function getDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// [minLon, minLat, maxLon, maxLat], like GeoJSON bounding boxes.
+export type BBox = [number, number, number, number];
+
+export interface NearPoint {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+export interface SpatialFilter {
+  bbox?: BBox;
+  near?: NearPoint;
+  // "distance" needs `near`; the default is newest first.
+  sort?: "newest" | "distance";
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+// ~150 m cells: fine enough to narrow any search, short enough to index cheaply.
+export const GEOHASH_PRECISION = 7;
+// A search area is covered by at most this many geohash prefixes.
+const MAX_COVER_CELLS = 16;
+const KM_PER_DEGREE = 111.32;
+const MAX_RADIUS_KM = 1000;
+
+export function encodeGeohash(latitude: number, longitude: number, precision = GEOHASH_PRECISION): string {
+  let latMin = -90, latMax = 90, lonMin = -180, lonMax = 180;
+  let hash = "";
+  let bits = 0, value = 0, evenBit = true;
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      value = value * 2 + (longitude >= mid ? 1 : 0);
+      if (longitude >= mid) lonMin = mid; else lonMax = mid;
+    } else {
+      const mid = (latMin + latMax) / 2;
+      value = value * 2 + (latitude >= mid ? 1 : 0);
+      if (latitude >= mid) latMin = mid; else latMax = mid;
+    }
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+}
+
+function cellSize(precision: number): { width: number; height: number } {
+  const lonBits = Math.ceil((precision * 5) / 2);
+  const latBits = Math.floor((precision * 5) / 2);
+  return { width: 360 / 2 ** lonBits, height: 180 / 2 ** latBits };
+}
+
+// The geohash prefixes whose cells together cover the box, at the finest
+// precision that keeps their number under MAX_COVER_CELLS.
+export function geohashCover(bbox: BBox): string[] {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  for (let precision = GEOHASH_PRECISION; precision >= 1; precision--) {
+    const { width, height } = cellSize(precision);
+    const x0 = Math.floor((minLon + 180) / width), x1 = Math.floor((Math.min(maxLon, 179.9999999) + 180) / width);
+    const y0 = Math.floor((minLat + 90) / height), y1 = Math.floor((Math.min(maxLat, 89.9999999) + 90) / height);
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_COVER_CELLS && precision > 1) continue;
+    const cells = new Set<string>();
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        cells.add(encodeGeohash(-90 + (y + 0.5) * height, -180 + (x + 0.5) * width, precision));
+      }
+    }
+    return [...cells];
+  }
+  return [];
+}
+
+export function bboxAround(latitude: number, longitude: number, radiusKm: number): BBox {
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const dLon = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+  return [
+    Math.max(longitude - dLon, -180), Math.max(latitude - dLat, -90),
+    Math.min(longitude + dLon, 180), Math.min(latitude + dLat, 90),
+  ];
+}
+
+export function inBBox(latitude: number, longitude: number, bbox: BBox): boolean {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  return longitude >= minLon && longitude <= maxLon && latitude >= minLat && latitude <= maxLat;
+}
+
+export function parseBBox(value: unknown): BBox | undefined {
+  const parts = (Array.isArray(value) ? value : String(value ?? "").split(",")).map(Number);
+  if (parts.length !== 4 || parts.some(isNaN)) return undefined;
+  return parts as BBox;
+}
+
+// The box a backend has to scan: the requested bbox, narrowed to the radius
+// around `near` when both are given. Null when the filter is not spatial.
+export function searchBox(filter: SpatialFilter): BBox | null {
+  const around = filter.near ? bboxAround(filter.near.latitude, filter.near.longitude, filter.near.radiusKm) : null;
+  if (!filter.bbox) return around;
+  if (!around) return filter.bbox;
+  return [
+    Math.max(filter.bbox[0], around[0]), Math.max(filter.bbox[1], around[1]),
+    Math.min(filter.bbox[2], around[2]), Math.min(filter.bbox[3], around[3]),
+  ];
+}
+
+export function matchesSpatial(filter: SpatialFilter, latitude: number, longitude: number): boolean {
+  if (filter.bbox && !inBBox(latitude, longitude, filter.bbox)) return false;
+  if (filter.near && getDistanceKm(filter.near.latitude, filter.near.longitude, latitude, longitude) > filter.near.radiusKm) {
+    return false;
+  }
+  return true;
+}
+
+// Applied by backends that cannot sort by distance themselves.
+export function sortSpatial<T extends { latitude: number; longitude: number }>(items: T[], filter: SpatialFilter): T[] {
+  if (filter.sort !== "distance" || !filter.near) return items;
+  const { latitude, longitude } = filter.near;
+  return items
+    .map(item => ({ item, distance: getDistanceKm(latitude, longitude, item.latitude, item.longitude) }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ item }) => item);
+}
+
+function invalidQuery(message: string) {
+  return { code: 400, message };
+}
+
+// Reads ?bbox=minLon,minLat,maxLon,maxLat, ?near=lat,lon&radiusKm= and ?sort=.
+export function parseSpatialQuery(query: Record<string, unknown>): SpatialFilter {
+  const filter: SpatialFilter = {};
+  if (query.bbox !== undefined) {
+    const bbox = parseBBox(query.bbox);
+    if (!bbox || bbox[0] > bbox[2] || bbox[1] > bbox[3]) throw invalidQuery("bbox must be minLon,minLat,maxLon,maxLat");
+    filter.bbox = bbox;
+  }
+  if (query.near !== undefined) {
+    const [latitude, longitude] = String(query.near).split(",").map(Number);
+    if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw invalidQuery("near must be lat,lon");
+    }
+    const radiusKm = query.radiusKm === undefined ? 20 : Number(query.radiusKm);
+    if (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      throw invalidQuery(`radiusKm must be between 0 and ${MAX_RADIUS_KM}`);
+    }
+    filter.near = { latitude, longitude, radiusKm };
+  }
+  if (query.sort !== undefined) {
+    if (query.sort !== "newest" && query.sort !== "distance") throw invalidQuery("sort must be newest or distance");
+    if (query.sort === "distance" && !filter.near) throw invalidQuery("sort=distance needs near");
+    filter.sort = query.sort;
+  }
+  return filter;
+}
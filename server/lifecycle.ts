@@ -0,0 +1,93 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { trackOutage } from "./aggregates";
+import type { ActorRole, OutageRecord, OutageStatus } from "./records";
+
+export interface Actor {
+  id: string;
+  role: ActorRole;
+}
+
+export const ANONYMOUS_ACTOR: Actor = { id: "anonymous", role: "device" };
+
+const TRANSITIONS: Record<OutageStatus, OutageStatus[]> = {
+  reported: ["confirmed", "restoration_claimed", "restored", "rejected"],
+  confirmed: ["restoration_claimed", "restored", "rejected"],
+  restoration_claimed: ["restored", "reopened", "rejected"],
+  restored: ["verified", "reopened"],
+  verified: ["reopened"],
+  reopened: ["confirmed", "restoration_claimed", "restored", "rejected"],
+  rejected: ["reopened"],
+};
+
+const CLOSED: OutageStatus[] = ["restored", "verified", "rejected"];
+
+export function isOpen(status: OutageStatus): boolean {
+  return !CLOSED.includes(status);
+}
+
+export function canTransition(from: OutageStatus, to: OutageStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+function forbiddenTransition(from: OutageStatus, to: OutageStatus) {
+  return { code: 409, message: `Transition ${from} → ${to} interdite` };
+}
+
+export function voterActor(voterId: string | undefined): Actor {
+  if (!voterId) return ANONYMOUS_ACTOR;
+  return { id: voterId, role: voterId.startsWith("user:") ? "user" : "device" };
+}
+
+// req.user is only set behind requireAuth/requireAdmin; elsewhere the voter id is all we have.
+export function actorOf(req: Request): Actor | null {
+  if (req.user) return { id: `user:${req.user.id}`, role: req.user.isAdmin ? "admin" : "user" };
+  return req.voterId ? voterActor(req.voterId) : null;
+}
+
+export async function recordReported(outage: OutageRecord, actor: Actor): Promise<void> {
+  await storage.addOutageHistory({
+    outageId: outage.id,
+    fromStatus: null,
+    toStatus: outage.status,
+    actorId: actor.id,
+    actorRole: actor.role,
+    note: "",
+  });
+}
+
+export async function transitionOutage(id: string, to: OutageStatus, actor: Actor, note = ""): Promise<OutageRecord> {
+  const outage = await storage.getOutage(id);
+  if (!canTransition(outage.status, to)) throw forbiddenTransition(outage.status, to);
+  const updated = await storage.setOutageStatus(id, outage.status, to);
+  await trackOutage(outage, updated);
+  await storage.addOutageHistory({
+    outageId: id,
+    fromStatus: outage.status,
+    toStatus: to,
+    actorId: actor.id,
+    actorRole: actor.role,
+    note,
+  });
+  // A reopened outage starts a fresh round of restoration votes.
+  if (to === "reopened") await storage.clearRestorationVotes(id);
+  return updated;
+}
+
+// For side effects of other actions: losing a race to a concurrent transition
+// is fine, the caller just gets the outage as it now stands.
+export async function tryTransition(id: string, to: OutageStatus, actor: Actor, note = ""): Promise<OutageRecord> {
+  try {
+    return await transitionOutage(id, to, actor, note);
+  } catch (e: any) {
+    if (e.code === 409) return storage.getOutage(id);
+    throw e;
+  }
+}
+
+// The first confirmation (or duplicate report) of a fresh or reopened outage
+// moves it to "confirmed"; later ones only bump the counter.
+export async function markConfirmed(outage: OutageRecord, actor: Actor): Promise<OutageRecord> {
+  if (outage.status !== "reported" && outage.status !== "reopened") return outage;
+  return tryTransition(outage.id, "confirmed", actor);
+}
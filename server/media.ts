@@ -0,0 +1,163 @@
+import { storage } from "./storage";
+import {
+  MAX_PHOTO_BYTES,
+  deletePhoto,
+  publishReviewed,
+  readPhoto,
+  savePhoto,
+  saveVideo,
+  signedPhotoUrl,
+  withdrawMedia,
+  type SavedMedia,
+} from "./photos";
+import { isMp4 } from "./mp4";
+import type { ConfirmationTarget, MediaAttachment, MediaKind, ModerationRecord, ModerationStatus } from "./records";
+
+// Counting the photo sent with the report.
+export const MAX_MEDIA_PER_REPORT = 12;
+
+// The uploader stays server-side: a device id is all it takes to vote as that device.
+export interface MediaView extends Omit<MediaAttachment, "uploaderId"> {
+  // Null for a video still waiting for review.
+  url: string | null;
+  thumbnailUrl: string;
+  moderation: ModerationStatus;
+}
+
+// A moderation record as admins see it, with the original.
+export interface ReviewItem extends ModerationRecord {
+  originalUrl: string | null;
+  thumbnailUrl: string;
+  videoUrl: string | null;
+}
+
+export type ReviewDecision = "approve" | "reject";
+
+interface UploadedFile {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+
+// Media from before moderation has no record and counts as clean.
+async function moderationOf(mediaId: string): Promise<ModerationStatus> {
+  try {
+    return (await storage.getModeration(mediaId)).status;
+  } catch (e: any) {
+    if (e.code === 404) return "clean";
+    throw e;
+  }
+}
+
+export function toMediaView({ uploaderId: _uploaderId, ...media }: MediaAttachment, moderation: ModerationStatus): MediaView {
+  const playable = media.kind === "photo" || moderation === "approved" || moderation === "clean";
+  return {
+    ...media,
+    url: playable ? signedPhotoUrl(media.mediaId, media.kind === "video" ? "video" : "full") : null,
+    thumbnailUrl: signedPhotoUrl(media.mediaId, "thumb"),
+    moderation,
+  };
+}
+
+// Saves the upload and records what moderation made of it.
+export async function saveModerated(kind: MediaKind, file: Buffer, thumbnail?: Buffer): Promise<SavedMedia> {
+  const saved = kind === "video" ? await saveVideo(file, thumbnail) : await savePhoto(file);
+  await storage.addModeration({ mediaId: saved.id, kind, ...saved.moderation });
+  return saved;
+}
+
+// Throws 404 for an unknown report.
+async function ensureTarget(targetType: ConfirmationTarget, targetId: string): Promise<void> {
+  if (targetType === "outage") await storage.getOutage(targetId);
+  else await storage.getIncident(targetId);
+}
+
+// Rejected media is left out.
+export async function listMediaViews(targetType: ConfirmationTarget, targetId: string): Promise<MediaView[]> {
+  await ensureTarget(targetType, targetId);
+  const media = await storage.listMedia(targetType, targetId);
+  const statuses = await Promise.all(media.map(m => moderationOf(m.mediaId)));
+  return media
+    .map((m, i) => toMediaView(m, statuses[i]))
+    .filter(view => view.moderation !== "rejected");
+}
+
+export async function attachMedia(
+  targetType: ConfirmationTarget,
+  targetId: string,
+  uploaderId: string,
+  file: UploadedFile,
+  thumbnail?: UploadedFile,
+): Promise<MediaView> {
+  await ensureTarget(targetType, targetId);
+  const existing = await storage.listMedia(targetType, targetId);
+  if (existing.length >= MAX_MEDIA_PER_REPORT) {
+    throw { code: 409, message: `${MAX_MEDIA_PER_REPORT} médias au maximum par signalement` };
+  }
+  const kind: MediaKind = file.mimetype.startsWith("video/") || isMp4(file.buffer) ? "video" : "photo";
+  if (kind === "photo" && file.size > MAX_PHOTO_BYTES) throw { code: 413, message: "Photo trop volumineuse" };
+
+  const saved = await saveModerated(kind, file.buffer, thumbnail?.buffer);
+  const media = await storage.addMedia({
+    targetType,
+    targetId,
+    kind,
+    mediaId: saved.id,
+    bytes: saved.bytes,
+    durationSec: saved.durationSec,
+    uploaderId,
+  });
+  return toMediaView(media, saved.moderation.status);
+}
+
+// The photo uploaded with the report itself, so the gallery lists it too.
+export async function attachReportPhoto(
+  targetType: ConfirmationTarget,
+  targetId: string,
+  photoId: string,
+  uploaderId: string,
+): Promise<void> {
+  const data = await readPhoto(photoId, "full");
+  await storage.addMedia({ targetType, targetId, kind: "photo", mediaId: photoId, bytes: data.length, durationSec: null, uploaderId });
+}
+
+// Attachments and their files; `photoUri` covers reports from before attachments.
+export async function deleteReportMedia(targetType: ConfirmationTarget, targetId: string, photoUri: string | null): Promise<void> {
+  for (const media of await storage.listMedia(targetType, targetId)) {
+    await storage.deleteMedia(media.id);
+    await storage.deleteModeration(media.mediaId);
+    await deletePhoto(media.mediaId);
+  }
+  if (photoUri) await storage.deleteModeration(photoUri);
+  await deletePhoto(photoUri);
+}
+
+function toReviewItem(record: ModerationRecord): ReviewItem {
+  const gone = record.status === "rejected";
+  // Clean photos were published untouched, so there is no separate original.
+  const original = record.status === "clean" && record.kind === "photo" ? "full" : "original";
+  return {
+    ...record,
+    originalUrl: gone ? null : signedPhotoUrl(record.mediaId, original),
+    thumbnailUrl: signedPhotoUrl(record.mediaId, "thumb"),
+    videoUrl: record.kind === "video" && !gone ? signedPhotoUrl(record.mediaId, "video") : null,
+  };
+}
+
+export async function listReviewQueue(status: ModerationStatus, limit: number): Promise<ReviewItem[]> {
+  return (await storage.listModeration(status, limit)).map(toReviewItem);
+}
+
+// Approving publishes held media (faces and plates still blurred); rejecting
+// takes any media down, blurred or already approved included.
+export async function reviewMedia(mediaId: string, decision: ReviewDecision, reviewerId: string): Promise<ReviewItem> {
+  const record = await storage.getModeration(mediaId);
+  if (decision === "approve") {
+    if (record.status !== "held") throw { code: 409, message: "Ce média n'attend plus de vérification" };
+    await publishReviewed(mediaId, record.kind);
+  } else {
+    if (record.status === "rejected") throw { code: 409, message: "Ce média est déjà retiré" };
+    await withdrawMedia(mediaId);
+  }
+  return toReviewItem(await storage.reviewModeration(mediaId, decision === "approve" ? "approved" : "rejected", reviewerId));
+}
@@ -0,0 +1,239 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import { InferenceSession, Tensor } from "onnxruntime-node";
+
+// Local detectors for report photos: faces and licence plates get blurred,
+// inappropriate content waits for an admin. The models are ONNX files in
+// MODERATION_MODEL_DIR, run on the server's CPU with no outside service:
+//  - face.onnx: UltraFace (version-RFB-320): outputs scores [1, N, 2] and
+//    boxes [1, N, 4] as corners in 0-1.
+//  - plate.onnx: a YOLOv8 detector: output [1, 4 + classes, N] with centre,
+//    size (in input pixels) and class scores.
+//  - nsfw.onnx: an image classifier giving either [safe, unsafe] or the five
+//    classes drawings, hentai, neutral, porn, sexy.
+// A model that is missing or fails leaves its check undone, and the photo is
+// held rather than published unchecked.
+
+export type Detector = "face" | "plate" | "nsfw";
+
+export interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ScanResult {
+  faces: Region[];
+  plates: Region[];
+  // Chance (0-1) of inappropriate content; null when not checked.
+  nsfwScore: number | null;
+  unchecked: Detector[];
+}
+
+export interface Moderator {
+  scan(image: Buffer): Promise<ScanResult>;
+}
+
+export type ModerationOutcome = "clean" | "blurred" | "held";
+
+const FACE_SCORE = 0.7;
+const PLATE_SCORE = 0.4;
+const OVERLAP = 0.4;
+const NSFW_THRESHOLD = Number(process.env.MODERATION_NSFW_THRESHOLD) || 0.7;
+
+interface Scored extends Region {
+  score: number;
+}
+
+function overlap(a: Region, b: Region): number {
+  const w = Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+  const h = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+  if (w <= 0 || h <= 0) return 0;
+  const inter = w * h;
+  return inter / (a.width * a.height + b.width * b.height - inter);
+}
+
+// Non-maximum suppression: the best box of each overlapping group.
+function strongest(boxes: Scored[]): Region[] {
+  const kept: Scored[] = [];
+  for (const box of [...boxes].sort((a, b) => b.score - a.score)) {
+    if (kept.every(k => overlap(k, box) < OVERLAP)) kept.push(box);
+  }
+  return kept.map(({ score: _score, ...region }) => region);
+}
+
+// Resized to the model's input, NCHW or NHWC as the model declares.
+async function inputOf(
+  session: InferenceSession,
+  image: Buffer,
+  fallback: [number, number],
+  normalize: (value: number) => number,
+): Promise<{ feeds: Record<string, Tensor>; width: number; height: number }> {
+  const meta = session.inputMetadata[0];
+  const shape = meta.isTensor ? meta.shape : [];
+  const nchw = shape[1] === 3 || shape[3] !== 3;
+  const dims = nchw ? [shape[2], shape[3]] : [shape[1], shape[2]];
+  const height = typeof dims[0] === "number" && dims[0] > 0 ? dims[0] : fallback[1];
+  const width = typeof dims[1] === "number" && dims[1] > 0 ? dims[1] : fallback[0];
+
+  const pixels = await sharp(image).resize(width, height, { fit: "fill" }).removeAlpha().raw().toBuffer();
+  const area = width * height;
+  const data = new Float32Array(area * 3);
+  for (let i = 0; i < area; i++) {
+    for (let c = 0; c < 3; c++) {
+      data[nchw ? c * area + i : i * 3 + c] = normalize(pixels[i * 3 + c]);
+    }
+  }
+  const tensor = new Tensor("float32", data, nchw ? [1, 3, height, width] : [1, height, width, 3]);
+  return { feeds: { [session.inputNames[0]]: tensor }, width, height };
+}
+
+async function detectFaces(session: InferenceSession, image: Buffer, width: number, height: number): Promise<Region[]> {
+  const { feeds } = await inputOf(session, image, [320, 240], v => (v - 127) / 128);
+  const out = await session.run(feeds);
+  const scores = out[session.outputNames[0]].data as Float32Array;
+  const boxes = out[session.outputNames[1]].data as Float32Array;
+  const found: Scored[] = [];
+  for (let i = 0; i < scores.length / 2; i++) {
+    const score = scores[i * 2 + 1];
+    if (score < FACE_SCORE) continue;
+    const [x1, y1, x2, y2] = boxes.subarray(i * 4, i * 4 + 4);
+    found.push({ score, left: x1 * width, top: y1 * height, width: (x2 - x1) * width, height: (y2 - y1) * height });
+  }
+  return strongest(found);
+}
+
+async function detectPlates(session: InferenceSession, image: Buffer, width: number, height: number): Promise<Region[]> {
+  const input = await inputOf(session, image, [640, 640], v => v / 255);
+  const out = (await session.run(input.feeds))[session.outputNames[0]];
+  const [, rows, n] = out.dims;
+  const data = out.data as Float32Array;
+  const sx = width / input.width;
+  const sy = height / input.height;
+  const found: Scored[] = [];
+  for (let i = 0; i < n; i++) {
+    let score = 0;
+    for (let c = 4; c < rows; c++) score = Math.max(score, data[c * n + i]);
+    if (score < PLATE_SCORE) continue;
+    const w = data[2 * n + i];
+    const h = data[3 * n + i];
+    found.push({ score, left: (data[i] - w / 2) * sx, top: (data[n + i] - h / 2) * sy, width: w * sx, height: h * sy });
+  }
+  return strongest(found);
+}
+
+async function nsfwScoreOf(session: InferenceSession, image: Buffer): Promise<number> {
+  const { feeds } = await inputOf(session, image, [224, 224], v => v / 255);
+  const probs = (await session.run(feeds))[session.outputNames[0]].data as Float32Array;
+  return probs.length === 2 ? probs[1] : probs[1] + probs[3];
+}
+
+export class OnnxModerator implements Moderator {
+  private sessions = new Map<Detector, Promise<InferenceSession | null>>();
+
+  constructor(private dir = process.env.MODERATION_MODEL_DIR || path.resolve("models", "moderation")) {}
+
+  // Loaded on first use and kept; a missing model is only noticed again after a restart.
+  private session(detector: Detector): Promise<InferenceSession | null> {
+    let session = this.sessions.get(detector);
+    if (!session) {
+      const file = path.join(this.dir, `${detector}.onnx`);
+      if (existsSync(file)) {
+        session = InferenceSession.create(file).catch((e) => {
+          console.error(`Moderation model ${file} failed to load:`, e);
+          return null;
+        });
+      } else {
+        console.warn(`Moderation model ${file} is missing; photos will wait for review`);
+        session = Promise.resolve(null);
+      }
+      this.sessions.set(detector, session);
+    }
+    return session;
+  }
+
+  async scan(image: Buffer): Promise<ScanResult> {
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    const result: ScanResult = { faces: [], plates: [], nsfwScore: null, unchecked: [] };
+    // One after the other: they share the CPU anyway.
+    for (const detector of ["face", "plate", "nsfw"] as const) {
+      const session = await this.session(detector);
+      if (!session) {
+        result.unchecked.push(detector);
+        continue;
+      }
+      try {
+        if (detector === "face") result.faces = await detectFaces(session, image, width, height);
+        else if (detector === "plate") result.plates = await detectPlates(session, image, width, height);
+        else result.nsfwScore = await nsfwScoreOf(session, image);
+      } catch (e) {
+        console.error(`Moderation ${detector} check failed:`, e);
+        result.unchecked.push(detector);
+      }
+    }
+    return result;
+  }
+}
+
+// For development without the models: finds nothing and holds nothing.
+export class NoopModerator implements Moderator {
+  async scan(): Promise<ScanResult> {
+    return { faces: [], plates: [], nsfwScore: null, unchecked: [] };
+  }
+}
+
+export type ModeratorBackend = "onnx" | "none";
+
+export function createModerator(backend: ModeratorBackend = (process.env.MODERATION_BACKEND as ModeratorBackend) || "onnx"): Moderator {
+  switch (backend) {
+    case "onnx":
+      return new OnnxModerator();
+    case "none":
+      return new NoopModerator();
+    default:
+      throw new Error(`Unknown MODERATION_BACKEND: ${backend}`);
+  }
+}
+
+export const moderator = createModerator();
+
+export function holdReasons(scan: ScanResult): string[] {
+  const reasons = scan.unchecked.map(detector => `unchecked:${detector}`);
+  if (scan.nsfwScore !== null && scan.nsfwScore >= NSFW_THRESHOLD) reasons.unshift("nsfw");
+  return reasons;
+}
+
+export function outcomeOf(scan: ScanResult): ModerationOutcome {
+  if (holdReasons(scan).length > 0) return "held";
+  return scan.faces.length > 0 || scan.plates.length > 0 ? "blurred" : "clean";
+}
+
+// Each region, grown a little to cover hair and plate frames, blurred past recognition.
+export async function blurRegions(image: Buffer, regions: Region[]): Promise<Buffer> {
+  if (regions.length === 0) return image;
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const patches = await Promise.all(regions.map(async (r) => {
+    const padX = r.width * 0.15;
+    const padY = r.height * 0.15;
+    const left = Math.max(0, Math.floor(r.left - padX));
+    const top = Math.max(0, Math.floor(r.top - padY));
+    const w = Math.min(width - left, Math.ceil(r.width + 2 * padX));
+    const h = Math.min(height - top, Math.ceil(r.height + 2 * padY));
+    if (w < 1 || h < 1) return null;
+    const input = await sharp(image).extract({ left, top, width: w, height: h }).blur(Math.max(8, Math.max(w, h) / 5)).toBuffer();
+    return { input, left, top };
+  }));
+  return sharp(image)
+    .composite(patches.filter((p): p is NonNullable<typeof p> => p !== null))
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
+
+// What the public sees of a held photo until an admin decides: shapes and colours only.
+export async function veil(image: Buffer): Promise<Buffer> {
+  const { width = 1, height = 1 } = await sharp(image).metadata();
+  const tiny = await sharp(image).resize(12, 12, { fit: "inside" }).toBuffer();
+  return sharp(tiny).resize(width, height, { fit: "fill" }).blur(3).jpeg({ quality: 70 }).toBuffer();
+}
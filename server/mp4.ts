@@ -0,0 +1,83 @@
+// Just enough of the ISO base media format (MP4, and QuickTime's MOV) to read
+// a video's duration and blank its metadata without re-encoding it.
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+function* boxesIn(data: Buffer, start: number, end: number): Generator<Box> {
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = data.readUInt32BE(pos);
+    const type = data.toString("latin1", pos + 4, pos + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      if (pos + 16 > end) return;
+      size = Number(data.readBigUInt64BE(pos + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < headerSize || pos + size > end) return;
+    yield { type, start: pos, headerSize, end: pos + size };
+    pos += size;
+  }
+}
+
+function childOf(data: Buffer, parent: Box, type: string): Box | null {
+  for (const box of boxesIn(data, parent.start + parent.headerSize, parent.end)) {
+    if (box.type === type) return box;
+  }
+  return null;
+}
+
+function moovOf(data: Buffer): Box | null {
+  for (const box of boxesIn(data, 0, data.length)) {
+    if (box.type === "moov") return box;
+  }
+  return null;
+}
+
+export function isMp4(data: Buffer): boolean {
+  return data.length >= 12 && data.toString("latin1", 4, 8) === "ftyp";
+}
+
+export function mp4ContentType(data: Buffer): string {
+  return isMp4(data) && data.toString("latin1", 8, 12) === "qt  " ? "video/quicktime" : "video/mp4";
+}
+
+// From the movie header; null when the file has none or it is cut short.
+export function mp4DurationSec(data: Buffer): number | null {
+  if (!isMp4(data)) return null;
+  const moov = moovOf(data);
+  const mvhd = moov && childOf(data, moov, "mvhd");
+  if (!mvhd) return null;
+  const p = mvhd.start + mvhd.headerSize;
+  const version = data[p];
+  if (p + (version === 1 ? 32 : 20) > mvhd.end) return null;
+  const timescale = data.readUInt32BE(p + (version === 1 ? 20 : 12));
+  const duration = version === 1 ? Number(data.readBigUInt64BE(p + 24)) : data.readUInt32BE(p + 16);
+  return timescale > 0 ? duration / timescale : null;
+}
+
+// The recording position sits in user data (udta, ©xyz) or in Apple's
+// metadata keys (meta). Those boxes become `free` boxes of the same size with
+// their content zeroed, so the sample offsets elsewhere in the file stay valid.
+export function blankMp4Metadata(data: Buffer): void {
+  const moov = moovOf(data);
+  if (!moov) return;
+  const blank = (box: Box) => {
+    data.write("free", box.start + 4, "latin1");
+    data.fill(0, box.start + box.headerSize, box.end);
+  };
+  for (const box of boxesIn(data, moov.start + moov.headerSize, moov.end)) {
+    if (box.type === "udta" || box.type === "meta") blank(box);
+    if (box.type !== "trak") continue;
+    for (const child of boxesIn(data, box.start + box.headerSize, box.end)) {
+      if (child.type === "udta" || child.type === "meta") blank(child);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { storage } from "./storage";
+import { forEachPage } from "./pagination";
+import { toOutageEvent, type OutageEvent } from "./clustering";
+import { withPhotoUrls } from "./photos";
+import type { IncidentRecord } from "./records";
+
+// Restored outages and resolved incidents stay in a snapshot this long, so an
+// offline map still shows what happened over the last few days.
+const SNAPSHOT_DAYS = 7;
+
+export interface RegionSnapshot {
+  region: string;
+  generatedAt: string;
+  outages: OutageEvent[];
+  incidents: IncidentRecord[];
+}
+
+// Everything still open in the region, plus what closed within SNAPSHOT_DAYS.
+export async function getRegionSnapshot(region: string): Promise<RegionSnapshot> {
+  if (!region) throw { code: 400, message: "region required" };
+  const now = new Date();
+  const since = new Date(now.getTime() - SNAPSHOT_DAYS * 86400000).toISOString();
+
+  const outages = (await storage.listOutagesInPeriod(since, now.toISOString()))
+    .filter(o => o.region === region)
+    .map(toOutageEvent);
+
+  const incidents: IncidentRecord[] = [];
+  await forEachPage(page => storage.listIncidents({ region }, page), items => {
+    incidents.push(...items.filter(i => !i.estResolue || (i.dateResolution ?? i.createdAt) >= since).map(withPhotoUrls));
+  });
+
+  return { region, generatedAt: now.toISOString(), outages, incidents };
+}
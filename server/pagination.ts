@@ -0,0 +1,115 @@
+import type { Page } from "./records";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Where the previous page stopped: the last item's (createdAt, id) for lists in
+// creation order, so inserts and deletes never shift a page, and a plain offset
+// for distance-sorted results.
+export type Cursor = { at: string; id: string } | { offset: number };
+export type KeyCursor = Extract<Cursor, { at: string }>;
+
+export interface PageRequest {
+  cursor?: Cursor;
+  limit: number;
+}
+
+interface Keyed {
+  id: string;
+  createdAt?: string;
+}
+
+function invalidPage(message: string) {
+  return { code: 400, message };
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor {
+  let cursor: any;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw invalidPage("invalid cursor");
+  }
+  if (typeof cursor?.at === "string" && typeof cursor?.id === "string") return { at: cursor.at, id: cursor.id };
+  if (Number.isInteger(cursor?.offset) && cursor.offset >= 0) return { offset: cursor.offset };
+  throw invalidPage("invalid cursor");
+}
+
+export function firstPage(limit = DEFAULT_PAGE_SIZE): PageRequest {
+  return { limit };
+}
+
+// Reads ?cursor= and ?limit= (1 to MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE when absent).
+export function parsePageQuery(query: Record<string, unknown>): PageRequest {
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw invalidPage(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  const cursor = typeof query.cursor === "string" && query.cursor ? decodeCursor(query.cursor) : undefined;
+  return { cursor, limit };
+}
+
+export function keyCursorOf(item: Keyed): KeyCursor {
+  return { at: item.createdAt ?? "", id: item.id };
+}
+
+export function keyCursor(page: PageRequest): KeyCursor | undefined {
+  return page.cursor && "at" in page.cursor ? page.cursor : undefined;
+}
+
+export function offsetOf(page: PageRequest): number {
+  return page.cursor && "offset" in page.cursor ? page.cursor.offset : 0;
+}
+
+// Newest first: createdAt descending, then id descending.
+export function byNewestKey(a: Keyed, b: Keyed): number {
+  return (b.createdAt ?? "").localeCompare(a.createdAt ?? "") || b.id.localeCompare(a.id);
+}
+
+function isAfter(item: Keyed, cursor: KeyCursor): boolean {
+  const at = item.createdAt ?? "";
+  return at < cursor.at || (at === cursor.at && item.id < cursor.id);
+}
+
+// For backends that fetched up to `limit + 1` items past the cursor: the extra
+// one only tells whether another page exists.
+export function pageFromRows<T extends Keyed>(rows: T[], page: PageRequest, byOffset = false): Page<T> {
+  const items = rows.slice(0, page.limit);
+  if (rows.length <= page.limit) return { items, nextCursor: null };
+  const next: Cursor = byOffset ? { offset: offsetOf(page) + page.limit } : keyCursorOf(items[items.length - 1]);
+  return { items, nextCursor: encodeCursor(next) };
+}
+
+// Pages a fully filtered list that is already in page order.
+export function pageFromList<T extends Keyed>(sorted: T[], page: PageRequest, byOffset = false): Page<T> {
+  if (byOffset) {
+    const start = offsetOf(page);
+    return pageFromRows(sorted.slice(start, start + page.limit + 1), page, true);
+  }
+  const cursor = keyCursor(page);
+  const start = cursor ? sorted.findIndex(item => isAfter(item, cursor)) : 0;
+  if (start < 0) return { items: [], nextCursor: null };
+  return pageFromRows(sorted.slice(start, start + page.limit + 1), page);
+}
+
+export function mapPage<T, U>(page: Page<T>, fn: (item: T) => U): Page<U> {
+  return { items: page.items.map(fn), nextCursor: page.nextCursor };
+}
+
+// Walks a list method page by page, for jobs that have to see every item.
+export async function forEachPage<T>(
+  list: (page: PageRequest) => Promise<Page<T>>,
+  visit: (items: T[]) => void | Promise<void>,
+): Promise<void> {
+  let page = firstPage(MAX_PAGE_SIZE);
+  for (;;) {
+    const result = await list(page);
+    await visit(result.items);
+    if (!result.nextCursor) return;
+    page = { cursor: decodeCursor(result.nextCursor), limit: page.limit };
+  }
+}
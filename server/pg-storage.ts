@@ -0,0 +1,589 @@
+import { and, asc, between, desc, eq, gt, gte, inArray, like, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import bcrypt from "bcryptjs";
+import { db } from "./db";
+import {
+  confirmations,
+  incidents,
+  mediaAttachments,
+  outageHistory,
+  outages,
+  photoModeration,
+  placeAlerts,
+  pushTokens,
+  restorationVotes,
+  savedPlaces,
+  statCounters,
+  users,
+  type Incident,
+  type MediaAttachmentRow,
+  type Outage,
+  type OutageHistory,
+  type PhotoModerationRow,
+  type SavedPlaceRow,
+  type User,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { encodeGeohash, geohashCover, searchBox, type BBox, type NearPoint } from "./geo";
+import { keyCursor, offsetOf, pageFromRows, type PageRequest } from "./pagination";
+import {
+  ALL_TIME,
+  hoursCutoff,
+  notFound,
+  statusConflict,
+  statusPatch,
+  type ConfirmationTarget,
+  type ConfirmationVote,
+  type IncidentRecord,
+  type IncidentUpdate,
+  type ListFilters,
+  type MediaAttachment,
+  type MediaKind,
+  type ModerationRecord,
+  type ModerationStatus,
+  type NewIncident,
+  type NewMediaAttachment,
+  type NewModerationRecord,
+  type NewOutage,
+  type NewOutageHistory,
+  type OutageHistoryEntry,
+  type OutageRecord,
+  type OutageStatus,
+  type OutageUpdate,
+  type Page,
+  type NewSavedPlace,
+  type PushToken,
+  type ReportLocation,
+  type RestorationVote,
+  type RestorationVoteValue,
+  type SavedPlace,
+  type SavedPlaceUpdate,
+  type StatCounter,
+  type StatEntity,
+  type UserProfile,
+} from "./records";
+
+function rowToOutage({ geohash: _geohash, ...row }: Outage): OutageRecord {
+  return {
+    ...row,
+    dateRetablissement: row.dateRetablissement?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    status: row.status as OutageStatus,
+    lastReportAt: row.lastReportAt.toISOString(),
+  };
+}
+
+function rowToHistory(row: OutageHistory): OutageHistoryEntry {
+  return {
+    ...row,
+    fromStatus: row.fromStatus as OutageStatus | null,
+    toStatus: row.toStatus as OutageStatus,
+    actorRole: row.actorRole as OutageHistoryEntry['actorRole'],
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function rowToPlace({ geohash: _geohash, ...row }: SavedPlaceRow): SavedPlace {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+function rowToMedia(row: MediaAttachmentRow): MediaAttachment {
+  return {
+    ...row,
+    targetType: row.targetType as ConfirmationTarget,
+    kind: row.kind as MediaKind,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function rowToModeration(row: PhotoModerationRow): ModerationRecord {
+  return {
+    ...row,
+    kind: row.kind as MediaKind,
+    status: row.status as ModerationStatus,
+    createdAt: row.createdAt.toISOString(),
+    reviewedAt: row.reviewedAt?.toISOString() ?? null,
+  };
+}
+
+function rowToIncident({ geohash: _geohash, ...row }: Incident): IncidentRecord {
+  return {
+    ...row,
+    dateResolution: row.dateResolution?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function rowToUser(row: User): UserProfile {
+  return {
+    id: row.id,
+    phone: row.phone,
+    displayName: row.displayName,
+    isAdmin: row.isAdmin,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+type LocatedTable = typeof outages | typeof incidents;
+
+// The geohash prefixes narrow the scan through the index; the exact box check
+// drops what the cells cover beyond it.
+function boxConditions(table: LocatedTable | typeof savedPlaces, box: BBox): SQL[] {
+  return [
+    or(...geohashCover(box).map(prefix => like(table.geohash, `${prefix}%`)))!,
+    between(table.latitude, box[1], box[3]),
+    between(table.longitude, box[0], box[2]),
+  ];
+}
+
+function distanceKm(table: LocatedTable, near: NearPoint): SQL<number> {
+  return sql<number>`6371 * 2 * asin(sqrt(
+    power(sin(radians(${table.latitude} - ${near.latitude}) / 2), 2)
+    + cos(radians(${near.latitude})) * cos(radians(${table.latitude}))
+    * power(sin(radians(${table.longitude} - ${near.longitude}) / 2), 2)))`;
+}
+
+function spatialConditions(table: LocatedTable, filters: ListFilters): SQL[] {
+  const conditions: SQL[] = [];
+  const box = searchBox(filters);
+  if (box) conditions.push(...boxConditions(table, box));
+  if (filters.near) conditions.push(lte(distanceKm(table, filters.near), filters.near.radiusKm));
+  return conditions;
+}
+
+// Newest first with a (createdAt, id) keyset, or nearest first with an offset.
+// Timestamps are compared at millisecond precision, the precision cursors carry.
+function pageOrder(table: LocatedTable | typeof users, page: PageRequest, distance?: SQL<number>) {
+  if (distance) return { where: [], orderBy: [asc(distance)], offset: offsetOf(page), byOffset: true };
+  const cursor = keyCursor(page);
+  const createdMs = sql`date_trunc('milliseconds', ${table.createdAt})`;
+  const where = cursor
+    ? [sql`(${createdMs} < ${cursor.at}::timestamp or (${createdMs} = ${cursor.at}::timestamp and ${table.id} < ${cursor.id}))`]
+    : [];
+  return { where, orderBy: [desc(createdMs), desc(table.id)], offset: 0, byOffset: false };
+}
+
+function first<T>(rows: T[]): T {
+  if (rows.length === 0) throw notFound();
+  return rows[0];
+}
+
+const STAT_INSERT_BATCH = 500;
+
+export class DatabaseStorage implements IStorage {
+  async listOutages(filters: ListFilters, page: PageRequest): Promise<Page<OutageRecord>> {
+    const conditions: SQL[] = [];
+    if (filters.type) conditions.push(eq(outages.type, filters.type));
+    if (filters.region) conditions.push(eq(outages.region, filters.region));
+    if (filters.hours) conditions.push(gt(outages.createdAt, new Date(hoursCutoff(filters.hours))));
+    if (filters.reportedSince) conditions.push(gte(outages.lastReportAt, new Date(filters.reportedSince)));
+    const nearest = filters.sort === "distance" && filters.near ? distanceKm(outages, filters.near) : undefined;
+    const order = pageOrder(outages, page, nearest);
+
+    const rows = await db.select().from(outages)
+      .where(and(...conditions, ...spatialConditions(outages, filters), ...order.where))
+      .orderBy(...order.orderBy)
+      .limit(page.limit + 1)
+      .offset(order.offset);
+    return pageFromRows(rows.map(rowToOutage), page, order.byOffset);
+  }
+
+  async getOutage(id: string): Promise<OutageRecord> {
+    const rows = await db.select().from(outages).where(eq(outages.id, id));
+    return rowToOutage(first(rows));
+  }
+
+  async createOutage(data: NewOutage): Promise<OutageRecord> {
+    const [row] = await db.insert(outages).values({
+      type: data.type,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      quartier: data.quartier || 'N/A',
+      ville: data.ville || 'N/A',
+      region: data.region || 'N/A',
+      photoUri: data.photoUri || null,
+      userId: data.userId || '',
+      centroidLatitude: data.latitude,
+      centroidLongitude: data.longitude,
+      geohash: encodeGeohash(data.latitude, data.longitude),
+    }).returning();
+    return rowToOutage(row);
+  }
+
+  async confirmOutage(id: string): Promise<OutageRecord> {
+    const rows = await db.update(outages)
+      .set({ confirmations: sql`${outages.confirmations} + 1` })
+      .where(eq(outages.id, id))
+      .returning();
+    return rowToOutage(first(rows));
+  }
+
+  async addOutageReport(id: string, report: ReportLocation): Promise<OutageRecord> {
+    const n = outages.reportCount;
+    const rows = await db.update(outages)
+      .set({
+        confirmations: sql`${outages.confirmations} + 1`,
+        reportCount: sql`${n} + 1`,
+        lastReportAt: new Date(),
+        centroidLatitude: sql`(${outages.centroidLatitude} * ${n} + ${report.latitude}) / (${n} + 1)`,
+        centroidLongitude: sql`(${outages.centroidLongitude} * ${n} + ${report.longitude}) / (${n} + 1)`,
+      })
+      .where(eq(outages.id, id))
+      .returning();
+    return rowToOutage(first(rows));
+  }
+
+  async setOutageStatus(id: string, from: OutageStatus, to: OutageStatus): Promise<OutageRecord> {
+    const { dateRetablissement, ...patch } = statusPatch(to);
+    const rows = await db.update(outages)
+      .set({
+        status: to,
+        ...patch,
+        ...(dateRetablissement !== undefined
+          ? { dateRetablissement: dateRetablissement ? new Date(dateRetablissement) : null }
+          : {}),
+      })
+      .where(and(eq(outages.id, id), eq(outages.status, from)))
+      .returning();
+    if (rows.length === 0) {
+      await this.getOutage(id);
+      throw statusConflict();
+    }
+    return rowToOutage(rows[0]);
+  }
+
+  async updateOutage(id: string, data: OutageUpdate): Promise<OutageRecord> {
+    const rows = await db.update(outages)
+      .set(data)
+      .where(eq(outages.id, id))
+      .returning();
+    return rowToOutage(first(rows));
+  }
+
+  async deleteOutage(id: string): Promise<void> {
+    first(await db.delete(outages).where(eq(outages.id, id)).returning({ id: outages.id }));
+  }
+
+  async getUserOutages(userId: string, page: PageRequest): Promise<Page<OutageRecord>> {
+    const order = pageOrder(outages, page);
+    const rows = await db.select().from(outages)
+      .where(and(eq(outages.userId, userId), ...order.where))
+      .orderBy(...order.orderBy)
+      .limit(page.limit + 1);
+    return pageFromRows(rows.map(rowToOutage), page);
+  }
+
+  async listOutagesInPeriod(from: string, to: string): Promise<OutageRecord[]> {
+    const rows = await db.select().from(outages).where(and(
+      lt(outages.createdAt, new Date(to)),
+      or(eq(outages.estRetablie, false), gte(outages.dateRetablissement, new Date(from))),
+    ));
+    return rows.map(rowToOutage);
+  }
+
+  async addOutageHistory(entry: NewOutageHistory): Promise<OutageHistoryEntry> {
+    const [row] = await db.insert(outageHistory).values(entry).returning();
+    return rowToHistory(row);
+  }
+
+  async getOutageHistory(outageId: string): Promise<OutageHistoryEntry[]> {
+    const rows = await db.select().from(outageHistory)
+      .where(eq(outageHistory.outageId, outageId))
+      .orderBy(outageHistory.createdAt);
+    return rows.map(rowToHistory);
+  }
+
+  async castRestorationVote(vote: Omit<RestorationVote, 'createdAt'>): Promise<void> {
+    await db.insert(restorationVotes).values(vote)
+      .onConflictDoUpdate({
+        target: [restorationVotes.outageId, restorationVotes.voterId],
+        set: { vote: vote.vote, createdAt: new Date() },
+      });
+  }
+
+  async listRestorationVotes(outageId: string): Promise<RestorationVote[]> {
+    const rows = await db.select().from(restorationVotes).where(eq(restorationVotes.outageId, outageId));
+    return rows.map(r => ({
+      outageId: r.outageId,
+      voterId: r.voterId,
+      vote: r.vote as RestorationVoteValue,
+      createdAt: r.createdAt.toISOString(),
+    }));
+  }
+
+  async clearRestorationVotes(outageId: string): Promise<void> {
+    await db.delete(restorationVotes).where(eq(restorationVotes.outageId, outageId));
+  }
+
+  async listIncidents(filters: ListFilters, page: PageRequest): Promise<Page<IncidentRecord>> {
+    const conditions: SQL[] = [];
+    if (filters.type) conditions.push(eq(incidents.incidentType, filters.type));
+    if (filters.region) conditions.push(eq(incidents.region, filters.region));
+    if (filters.hours) conditions.push(gt(incidents.createdAt, new Date(hoursCutoff(filters.hours))));
+    const nearest = filters.sort === "distance" && filters.near ? distanceKm(incidents, filters.near) : undefined;
+    const order = pageOrder(incidents, page, nearest);
+
+    const rows = await db.select().from(incidents)
+      .where(and(...conditions, ...spatialConditions(incidents, filters), ...order.where))
+      .orderBy(...order.orderBy)
+      .limit(page.limit + 1)
+      .offset(order.offset);
+    return pageFromRows(rows.map(rowToIncident), page, order.byOffset);
+  }
+
+  async listOpenIncidents(): Promise<IncidentRecord[]> {
+    const rows = await db.select().from(incidents).where(eq(incidents.estResolue, false));
+    return rows.map(rowToIncident);
+  }
+
+  async getIncident(id: string): Promise<IncidentRecord> {
+    const rows = await db.select().from(incidents).where(eq(incidents.id, id));
+    return rowToIncident(first(rows));
+  }
+
+  async createIncident(data: NewIncident): Promise<IncidentRecord> {
+    const [row] = await db.insert(incidents).values({
+      incidentType: data.incidentType,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      quartier: data.quartier || 'N/A',
+      ville: data.ville || 'N/A',
+      region: data.region || 'N/A',
+      photoUri: data.photoUri || null,
+      commentaire: data.commentaire || '',
+      userId: data.userId || '',
+      geohash: encodeGeohash(data.latitude, data.longitude),
+    }).returning();
+    return rowToIncident(row);
+  }
+
+  async confirmIncident(id: string): Promise<IncidentRecord> {
+    const rows = await db.update(incidents)
+      .set({ confirmations: sql`${incidents.confirmations} + 1` })
+      .where(eq(incidents.id, id))
+      .returning();
+    return rowToIncident(first(rows));
+  }
+
+  async resolveIncident(id: string): Promise<IncidentRecord> {
+    const rows = await db.update(incidents)
+      .set({ estResolue: true, dateResolution: new Date() })
+      .where(eq(incidents.id, id))
+      .returning();
+    return rowToIncident(first(rows));
+  }
+
+  async updateIncident(id: string, data: IncidentUpdate): Promise<IncidentRecord> {
+    const { dateResolution, ...rest } = data;
+    const rows = await db.update(incidents)
+      .set({
+        ...rest,
+        ...(dateResolution !== undefined
+          ? { dateResolution: dateResolution ? new Date(dateResolution) : null }
+          : {}),
+      })
+      .where(eq(incidents.id, id))
+      .returning();
+    return rowToIncident(first(rows));
+  }
+
+  async deleteIncident(id: string): Promise<void> {
+    first(await db.delete(incidents).where(eq(incidents.id, id)).returning({ id: incidents.id }));
+  }
+
+  async recordConfirmation(vote: ConfirmationVote): Promise<boolean> {
+    const rows = await db.insert(confirmations).values(vote)
+      .onConflictDoNothing()
+      .returning({ id: confirmations.id });
+    return rows.length > 0;
+  }
+
+  async listConfirmedTargets(voterId: string, targetType: ConfirmationTarget, day: string): Promise<string[]> {
+    const rows = await db.select({ targetId: confirmations.targetId }).from(confirmations)
+      .where(and(
+        eq(confirmations.voterId, voterId),
+        eq(confirmations.targetType, targetType),
+        eq(confirmations.day, day),
+      ));
+    return rows.map(r => r.targetId);
+  }
+
+  async listMedia(targetType: ConfirmationTarget, targetId: string): Promise<MediaAttachment[]> {
+    const rows = await db.select().from(mediaAttachments)
+      .where(and(eq(mediaAttachments.targetType, targetType), eq(mediaAttachments.targetId, targetId)))
+      .orderBy(asc(mediaAttachments.createdAt));
+    return rows.map(rowToMedia);
+  }
+
+  async addMedia(data: NewMediaAttachment): Promise<MediaAttachment> {
+    const [row] = await db.insert(mediaAttachments).values(data).returning();
+    return rowToMedia(row);
+  }
+
+  async deleteMedia(id: string): Promise<void> {
+    const rows = await db.delete(mediaAttachments).where(eq(mediaAttachments.id, id)).returning({ id: mediaAttachments.id });
+    first(rows);
+  }
+
+  async addModeration(data: NewModerationRecord): Promise<ModerationRecord> {
+    const [row] = await db.insert(photoModeration).values(data).returning();
+    return rowToModeration(row);
+  }
+
+  async getModeration(mediaId: string): Promise<ModerationRecord> {
+    const rows = await db.select().from(photoModeration).where(eq(photoModeration.mediaId, mediaId));
+    return rowToModeration(first(rows));
+  }
+
+  async listModeration(status: ModerationStatus, limit: number): Promise<ModerationRecord[]> {
+    const rows = await db.select().from(photoModeration)
+      .where(eq(photoModeration.status, status))
+      .orderBy(asc(photoModeration.createdAt))
+      .limit(limit);
+    return rows.map(rowToModeration);
+  }
+
+  async reviewModeration(mediaId: string, status: ModerationStatus, reviewerId: string): Promise<ModerationRecord> {
+    const rows = await db.update(photoModeration)
+      .set({ status, reviewerId, reviewedAt: new Date() })
+      .where(eq(photoModeration.mediaId, mediaId))
+      .returning();
+    return rowToModeration(first(rows));
+  }
+
+  async deleteModeration(mediaId: string): Promise<void> {
+    await db.delete(photoModeration).where(eq(photoModeration.mediaId, mediaId));
+  }
+
+  async applyStatDeltas(deltas: StatCounter[]): Promise<void> {
+    if (deltas.length === 0) return;
+    await db.insert(statCounters).values(deltas).onConflictDoUpdate({
+      target: [statCounters.entity, statCounters.day, statCounters.region, statCounters.type],
+      set: {
+        reported: sql`${statCounters.reported} + excluded.reported`,
+        closed: sql`${statCounters.closed} + excluded.closed`,
+      },
+    });
+  }
+
+  async listStatCounters(entity: StatEntity, days?: { from: string; to: string }): Promise<StatCounter[]> {
+    const rows = await db.select().from(statCounters).where(and(
+      eq(statCounters.entity, entity),
+      days ? between(statCounters.day, days.from, days.to) : eq(statCounters.day, ALL_TIME),
+    ));
+    return rows.map(r => ({ ...r, entity: r.entity as StatEntity }));
+  }
+
+  async replaceStatCounters(counters: StatCounter[]): Promise<void> {
+    await db.transaction(async tx => {
+      await tx.delete(statCounters);
+      for (let i = 0; i < counters.length; i += STAT_INSERT_BATCH) {
+        await tx.insert(statCounters).values(counters.slice(i, i + STAT_INSERT_BATCH));
+      }
+    });
+  }
+
+  async listPlaces(userId: string): Promise<SavedPlace[]> {
+    const rows = await db.select().from(savedPlaces).where(eq(savedPlaces.userId, userId)).orderBy(savedPlaces.createdAt);
+    return rows.map(rowToPlace);
+  }
+
+  async listPlacesIn(box: BBox): Promise<SavedPlace[]> {
+    const rows = await db.select().from(savedPlaces).where(and(...boxConditions(savedPlaces, box)));
+    return rows.map(rowToPlace);
+  }
+
+  async createPlace(data: NewSavedPlace): Promise<SavedPlace> {
+    const [row] = await db.insert(savedPlaces)
+      .values({ ...data, geohash: encodeGeohash(data.latitude, data.longitude) })
+      .returning();
+    return rowToPlace(row);
+  }
+
+  async updatePlace(id: string, userId: string, data: SavedPlaceUpdate): Promise<SavedPlace> {
+    const own = and(eq(savedPlaces.id, id), eq(savedPlaces.userId, userId));
+    const patch: Partial<SavedPlaceRow> = { ...data };
+    if (data.latitude !== undefined || data.longitude !== undefined) {
+      const current = first(await db.select().from(savedPlaces).where(own));
+      patch.geohash = encodeGeohash(data.latitude ?? current.latitude, data.longitude ?? current.longitude);
+    }
+    const rows = await db.update(savedPlaces).set(patch).where(own).returning();
+    return rowToPlace(first(rows));
+  }
+
+  async deletePlace(id: string, userId: string): Promise<void> {
+    const rows = await db.delete(savedPlaces)
+      .where(and(eq(savedPlaces.id, id), eq(savedPlaces.userId, userId)))
+      .returning({ id: savedPlaces.id });
+    first(rows);
+  }
+
+  async markPlaceAlerted(placeId: string, outageId: string): Promise<boolean> {
+    const rows = await db.insert(placeAlerts).values({ placeId, outageId })
+      .onConflictDoNothing()
+      .returning({ id: placeAlerts.id });
+    return rows.length > 0;
+  }
+
+  async unmarkPlaceAlerted(placeId: string, outageId: string): Promise<void> {
+    await db.delete(placeAlerts).where(and(eq(placeAlerts.placeId, placeId), eq(placeAlerts.outageId, outageId)));
+  }
+
+  async savePushToken(userId: string, token: string, platform: string): Promise<void> {
+    await db.insert(pushTokens).values({ token, userId, platform })
+      .onConflictDoUpdate({ target: pushTokens.token, set: { userId, platform, updatedAt: new Date() } });
+  }
+
+  async deletePushToken(token: string): Promise<void> {
+    await db.delete(pushTokens).where(eq(pushTokens.token, token));
+  }
+
+  async listPushTokens(userIds: string[]): Promise<PushToken[]> {
+    if (userIds.length === 0) return [];
+    const rows = await db.select().from(pushTokens).where(inArray(pushTokens.userId, userIds));
+    return rows.map(r => ({ ...r, updatedAt: r.updatedAt.toISOString() }));
+  }
+
+  async registerUser(phone: string, password: string, displayName?: string): Promise<UserProfile> {
+    const existing = await db.select({ id: users.id }).from(users).where(eq(users.phone, phone));
+    if (existing.length > 0) {
+      throw { code: 409, message: 'Ce numéro est déjà utilisé' };
+    }
+    const [row] = await db.insert(users).values({
+      phone,
+      passwordHash: await bcrypt.hash(password, 10),
+      displayName: displayName || '',
+    }).returning();
+    return rowToUser(row);
+  }
+
+  async loginUser(phone: string, password: string): Promise<UserProfile> {
+    const [row] = await db.select().from(users).where(eq(users.phone, phone));
+    if (!row || !(await bcrypt.compare(password, row.passwordHash))) {
+      throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+    }
+    return rowToUser(row);
+  }
+
+  async getUserById(id: string): Promise<UserProfile> {
+    const rows = await db.select().from(users).where(eq(users.id, id));
+    return rowToUser(first(rows));
+  }
+
+  async listUsers(page: PageRequest): Promise<Page<UserProfile>> {
+    const order = pageOrder(users, page);
+    const rows = await db.select().from(users)
+      .where(and(...order.where))
+      .orderBy(...order.orderBy)
+      .limit(page.limit + 1);
+    return pageFromRows(rows.map(rowToUser), page);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    first(await db.delete(users).where(eq(users.id, id)).returning({ id: users.id }));
+  }
+
+  async setUserAdmin(id: string, isAdmin: boolean): Promise<UserProfile> {
+    const rows = await db.update(users).set({ isAdmin }).where(eq(users.id, id)).returning();
+    return rowToUser(first(rows));
+  }
+}
@@ -0,0 +1,296 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import multer from "multer";
+import sharp, { type Sharp } from "sharp";
+import { Client, Storage } from "node-appwrite";
+import { InputFile } from "node-appwrite/file";
+import { checkSignature, sign } from "./auth";
+import { blankMp4Metadata, isMp4, mp4DurationSec } from "./mp4";
+import { blurRegions, holdReasons, moderator, outcomeOf, veil, type ModerationOutcome } from "./moderation";
+
+// Report photos are stored twice: a full image no wider or taller than
+// FULL_SIZE and a THUMB_SIZE square thumbnail, both re-encoded as JPEG. The
+// re-encoding drops every bit of metadata, EXIF GPS position included.
+// Videos are kept as uploaded (MP4 or MOV, with their metadata boxes blanked)
+// next to a thumbnail from the app. Records keep the media id; clients get
+// time-limited signed URLs.
+// Moderation (moderation.ts) decides what the public variants show: faces and
+// plates blurred, or the whole photo veiled while it waits for an admin. The
+// untouched image, when it differs, is kept as the "original" variant, whose
+// signed URLs only go to admins. A video is never blurred, so it always waits
+// for review and gets no public URL until then.
+
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 25 * 1024 * 1024;
+export const MAX_VIDEO_SECONDS = 30;
+const FULL_SIZE = 1600;
+const THUMB_SIZE = 320;
+const URL_TTL_MS = (Number(process.env.PHOTO_URL_TTL_HOURS) || 168) * 3600000;
+// 24 hex characters, so "<id>_thumb" still fits Appwrite's 36-character file ids.
+const PHOTO_ID_PATTERN = /^[a-f0-9]{24}$/;
+
+export type PhotoVariant = "full" | "thumb" | "video" | "original";
+
+export interface MediaModeration {
+  status: ModerationOutcome;
+  faces: number;
+  plates: number;
+  nsfwScore: number | null;
+  reasons: string[];
+}
+
+export interface SavedMedia {
+  id: string;
+  bytes: number;
+  durationSec: number | null;
+  moderation: MediaModeration;
+}
+
+export interface PhotoStore {
+  // Replaces whatever the key held.
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export class DiskPhotoStore implements PhotoStore {
+  constructor(private dir = process.env.PHOTO_DIR || path.resolve("uploads", "photos")) {}
+
+  private fileOf(key: string): string {
+    return path.join(this.dir, key.endsWith("_video") ? `${key}.mp4` : `${key}.jpg`);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.fileOf(key), data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.fileOf(key));
+    } catch (e: any) {
+      if (e.code === "ENOENT") throw { code: 404, message: "Photo introuvable" };
+      throw e;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.fileOf(key), { force: true });
+  }
+}
+
+// Files in a bucket without permissions: only the API key reads them, the
+// app goes through the signed URLs.
+export class AppwritePhotoStore implements PhotoStore {
+  private storage: Storage;
+
+  constructor(private bucketId = process.env.APPWRITE_PHOTO_BUCKET || "photos") {
+    const client = new Client()
+      .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+      .setProject(process.env.APPWRITE_PROJECT_ID!)
+      .setKey(process.env.APPWRITE_API_KEY!);
+    this.storage = new Storage(client);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const name = key.endsWith("_video") ? `${key}.mp4` : `${key}.jpg`;
+    try {
+      await this.storage.createFile(this.bucketId, key, InputFile.fromBuffer(data, name));
+    } catch (e: any) {
+      if (e.code !== 409) throw e;
+      // Files cannot be overwritten in place.
+      await this.storage.deleteFile(this.bucketId, key);
+      await this.storage.createFile(this.bucketId, key, InputFile.fromBuffer(data, name));
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return Buffer.from(await this.storage.getFileDownload(this.bucketId, key));
+    } catch (e: any) {
+      if (e.code === 404) throw { code: 404, message: "Photo introuvable" };
+      throw e;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await this.storage.deleteFile(this.bucketId, key);
+    } catch (e: any) {
+      if (e.code !== 404) throw e;
+    }
+  }
+}
+
+export type PhotoBackend = "appwrite" | "disk";
+
+export function createPhotoStore(
+  backend: PhotoBackend = (process.env.PHOTO_STORAGE as PhotoBackend)
+    || ((process.env.STORAGE_BACKEND || "appwrite") === "appwrite" ? "appwrite" : "disk"),
+): PhotoStore {
+  switch (backend) {
+    case "appwrite":
+      return new AppwritePhotoStore();
+    case "disk":
+      return new DiskPhotoStore();
+    default:
+      throw new Error(`Unknown PHOTO_STORAGE: ${backend}`);
+  }
+}
+
+export const photoStore = createPhotoStore();
+
+// Multipart parser for the upload route: one "photo" field, kept in memory.
+export const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_BYTES, files: 1 },
+}).single("photo");
+
+// For attachments: a photo or video in "file", plus the video's thumbnail.
+export const mediaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_VIDEO_BYTES, files: 2 },
+}).fields([{ name: "file", maxCount: 1 }, { name: "thumbnail", maxCount: 1 }]);
+
+function keyOf(id: string, variant: PhotoVariant): string {
+  return variant === "full" ? id : `${id}_${variant}`;
+}
+
+function newMediaId(): string {
+  return randomBytes(12).toString("hex");
+}
+
+async function thumbnailOf(image: Sharp): Promise<Buffer> {
+  return image.resize(THUMB_SIZE, THUMB_SIZE, { fit: "cover" }).jpeg({ quality: 70 }).toBuffer();
+}
+
+export function isPhotoId(value: unknown): value is string {
+  return typeof value === "string" && PHOTO_ID_PATTERN.test(value);
+}
+
+export function parseVariant(value: unknown): PhotoVariant {
+  return value === "thumb" || value === "video" || value === "original" ? value : "full";
+}
+
+export async function savePhoto(data: Buffer): Promise<SavedMedia> {
+  const image = sharp(data, { failOn: "error" });
+  try {
+    await image.metadata();
+  } catch {
+    throw { code: 400, message: "Image illisible" };
+  }
+  // rotate() applies the EXIF orientation before the metadata is dropped.
+  const original = await image.rotate()
+    .resize(FULL_SIZE, FULL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  const scan = await moderator.scan(original);
+  const status = outcomeOf(scan);
+  const full = status === "held" ? await veil(original)
+    : status === "blurred" ? await blurRegions(original, [...scan.faces, ...scan.plates])
+    : original;
+
+  const id = newMediaId();
+  if (full !== original) await photoStore.put(keyOf(id, "original"), original);
+  await photoStore.put(keyOf(id, "full"), full);
+  await photoStore.put(keyOf(id, "thumb"), await thumbnailOf(sharp(full)));
+  return {
+    id,
+    bytes: full.length,
+    durationSec: null,
+    moderation: { status, faces: scan.faces.length, plates: scan.plates.length, nsfwScore: scan.nsfwScore, reasons: holdReasons(scan) },
+  };
+}
+
+// Without a thumbnail from the app (the web cannot make one), a plain tile stands in.
+export async function saveVideo(data: Buffer, thumbnail?: Buffer): Promise<SavedMedia> {
+  const durationSec = mp4DurationSec(data);
+  if (!isMp4(data) || durationSec === null) throw { code: 400, message: "Vidéo illisible (MP4 ou MOV attendu)" };
+  if (durationSec > MAX_VIDEO_SECONDS + 1) {
+    throw { code: 400, message: `Vidéo trop longue (${MAX_VIDEO_SECONDS} s maximum)` };
+  }
+  let frame: Buffer;
+  try {
+    frame = await (thumbnail
+      ? sharp(thumbnail, { failOn: "error" }).rotate().resize(FULL_SIZE, FULL_SIZE, { fit: "inside", withoutEnlargement: true })
+      : sharp({ create: { width: THUMB_SIZE, height: THUMB_SIZE, channels: 3, background: "#1B2838" } })
+    ).jpeg({ quality: 80 }).toBuffer();
+  } catch {
+    throw { code: 400, message: "Miniature illisible" };
+  }
+  blankMp4Metadata(data);
+  // The frame only tells the admin what to expect; the video is held regardless.
+  const scan = await moderator.scan(frame);
+
+  const id = newMediaId();
+  await photoStore.put(keyOf(id, "video"), data);
+  await photoStore.put(keyOf(id, "original"), frame);
+  await photoStore.put(keyOf(id, "thumb"), await thumbnailOf(sharp(await veil(frame))));
+  return {
+    id,
+    bytes: data.length,
+    durationSec: Math.round(durationSec * 10) / 10,
+    moderation: { status: "held", faces: scan.faces.length, plates: scan.plates.length, nsfwScore: scan.nsfwScore, reasons: ["video", ...holdReasons(scan)] },
+  };
+}
+
+// After an admin approves held media: the public variants are rebuilt from the
+// original with faces and plates blurred. For a video only the thumbnail
+// changes; its URL is given out from then on.
+export async function publishReviewed(id: string, kind: "photo" | "video"): Promise<void> {
+  const original = await photoStore.get(keyOf(id, "original"));
+  const scan = await moderator.scan(original);
+  const published = await blurRegions(original, [...scan.faces, ...scan.plates]);
+  if (kind === "photo") await photoStore.put(keyOf(id, "full"), published);
+  await photoStore.put(keyOf(id, "thumb"), await thumbnailOf(sharp(published)));
+}
+
+// After an admin rejects it: reports keep pointing at the media, so its
+// public variants become a plain tile and everything else goes.
+export async function withdrawMedia(id: string): Promise<void> {
+  const tile = await sharp({ create: { width: THUMB_SIZE, height: THUMB_SIZE, channels: 3, background: "#1B2838" } }).jpeg().toBuffer();
+  await photoStore.put(keyOf(id, "full"), tile);
+  await photoStore.put(keyOf(id, "thumb"), tile);
+  await photoStore.remove(keyOf(id, "video"));
+  await photoStore.remove(keyOf(id, "original"));
+}
+
+export async function readPhoto(id: string, variant: PhotoVariant): Promise<Buffer> {
+  if (!isPhotoId(id)) throw { code: 404, message: "Photo introuvable" };
+  return photoStore.get(keyOf(id, variant));
+}
+
+export async function deletePhoto(id: string | null | undefined): Promise<void> {
+  if (!isPhotoId(id)) return;
+  await Promise.all((["full", "thumb", "video", "original"] as const).map(variant => photoStore.remove(keyOf(id, variant))));
+}
+
+// Expiry rounded up to the day, so a photo keeps the same URL (and the app's
+// image cache keeps working) for a day at a time.
+export function signedPhotoUrl(id: string, variant: PhotoVariant, now = Date.now()): string {
+  const expires = Math.ceil((now + URL_TTL_MS) / 86400000) * 86400000;
+  const sig = sign(`${id}:${variant}:${expires}`);
+  return `/api/photos/${id}?variant=${variant}&expires=${expires}&sig=${sig}`;
+}
+
+export function checkPhotoUrl(id: string, variant: PhotoVariant, expires: unknown, sig: unknown): boolean {
+  const until = Number(expires);
+  if (!Number.isFinite(until) || until < Date.now() || typeof sig !== "string") return false;
+  return checkSignature(`${id}:${variant}:${until}`, sig);
+}
+
+// Records store the photo id; responses carry signed URLs instead. Reports
+// from before the upload pipeline hold the reporter's device-local URI, which
+// nobody else can open, so those read as having no photo.
+export function withPhotoUrls<T extends { photoUri: string | null }>(record: T): T & { photoThumbUri: string | null } {
+  if (!isPhotoId(record.photoUri)) {
+    const remote = record.photoUri && /^https?:\/\//.test(record.photoUri) ? record.photoUri : null;
+    return { ...record, photoUri: remote, photoThumbUri: remote };
+  }
+  return {
+    ...record,
+    photoUri: signedPhotoUrl(record.photoUri, "full"),
+    photoThumbUri: signedPhotoUrl(record.photoUri, "thumb"),
+  };
+}
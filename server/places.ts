@@ -0,0 +1,163 @@
+import { storage } from "./storage";
+import { bboxAround, getDistanceKm } from "./geo";
+import { isOpen } from "./lifecycle";
+import { pushSender, type PushMessage, type PushResult } from "./push";
+import { OUTAGE_TYPES, type OutageRecord, type SavedPlace, type SavedPlaceUpdate } from "./records";
+
+const MIN_RADIUS_M = 100;
+const MAX_RADIUS_M = 20000;
+const MAX_PLACES_PER_USER = 10;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_TIMEZONE = "Africa/Douala";
+
+const TYPE_LABELS: Record<string, string> = {
+  water: "Coupure d'eau",
+  electricity: "Coupure d'électricité",
+  internet: "Coupure d'internet",
+};
+
+function invalidPlace(message: string) {
+  return { code: 400, message };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Validates a create (all of name/latitude/longitude required) or a partial update.
+export function placeInput(body: any, partial: boolean): SavedPlaceUpdate {
+  const input: SavedPlaceUpdate = {};
+  const has = (key: string) => body?.[key] !== undefined;
+
+  if (has("name") || !partial) {
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 60) throw invalidPlace("name required (60 characters max)");
+    input.name = name;
+  }
+  for (const key of ["latitude", "longitude"] as const) {
+    if (!has(key) && partial) continue;
+    const value = Number(body?.[key]);
+    const limit = key === "latitude" ? 90 : 180;
+    if (!has(key) || isNaN(value) || Math.abs(value) > limit) throw invalidPlace(`${key} required`);
+    input[key] = value;
+  }
+  if (has("radiusM")) {
+    const radius = Math.round(Number(body.radiusM));
+    if (isNaN(radius) || radius < MIN_RADIUS_M || radius > MAX_RADIUS_M) {
+      throw invalidPlace(`radiusM must be between ${MIN_RADIUS_M} and ${MAX_RADIUS_M}`);
+    }
+    input.radiusM = radius;
+  }
+  if (has("types")) {
+    if (!Array.isArray(body.types) || body.types.some((t: unknown) => !OUTAGE_TYPES.includes(t as any))) {
+      throw invalidPlace(`types must be a list of ${OUTAGE_TYPES.join(", ")}`);
+    }
+    input.types = [...new Set<string>(body.types)];
+  }
+  for (const key of ["quietStart", "quietEnd"] as const) {
+    if (!has(key)) continue;
+    if (body[key] !== null && !TIME_PATTERN.test(body[key])) throw invalidPlace(`${key} must be HH:MM or null`);
+    input[key] = body[key];
+  }
+  if (has("timezone")) {
+    if (typeof body.timezone !== "string" || !isValidTimezone(body.timezone)) throw invalidPlace("unknown timezone");
+    input.timezone = body.timezone;
+  }
+  return input;
+}
+
+export async function createPlace(userId: string, body: any): Promise<SavedPlace> {
+  const input = placeInput(body, false);
+  const existing = await storage.listPlaces(userId);
+  if (existing.length >= MAX_PLACES_PER_USER) {
+    throw { code: 409, message: `${MAX_PLACES_PER_USER} lieux au maximum` };
+  }
+  return storage.createPlace({
+    userId,
+    name: input.name!,
+    latitude: input.latitude!,
+    longitude: input.longitude!,
+    radiusM: input.radiusM ?? 1000,
+    types: input.types ?? [],
+    quietStart: input.quietStart ?? null,
+    quietEnd: input.quietEnd ?? null,
+    timezone: input.timezone ?? DEFAULT_TIMEZONE,
+  });
+}
+
+function localTime(now: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+}
+
+// Quiet hours may wrap around midnight (22:00 → 06:00).
+export function isQuietNow(place: SavedPlace, now = new Date()): boolean {
+  if (!place.quietStart || !place.quietEnd || place.quietStart === place.quietEnd) return false;
+  const time = localTime(now, place.timezone);
+  if (place.quietStart < place.quietEnd) return time >= place.quietStart && time < place.quietEnd;
+  return time >= place.quietStart || time < place.quietEnd;
+}
+
+function alertMessage(place: SavedPlace, outage: OutageRecord, token: string): PushMessage {
+  const where = [outage.quartier, outage.ville].filter(s => s && s !== "N/A").join(", ");
+  const reports = outage.reportCount > 1 ? ` (${outage.reportCount} signalements)` : "";
+  return {
+    to: token,
+    title: `${TYPE_LABELS[outage.type] || "Coupure"} près de « ${place.name} »`,
+    body: `${where ? `Signalée à ${where}` : "Signalée près de chez vous"}${reports}`,
+    data: { action: "outage_nearby", outageId: outage.id, placeId: place.id },
+  };
+}
+
+// Called after every new or clustered report. Each place is alerted at most
+// once per outage; a place in quiet hours is skipped, so a later report on
+// the same outage can still reach it once the quiet hours are over.
+// Places are marked before sending so concurrent reports cannot alert twice;
+// a place none of whose messages went out is unmarked for the next report.
+export async function alertNearbyPlaces(outage: OutageRecord, reporterUserId?: string): Promise<number> {
+  if (!isOpen(outage.status)) return 0;
+  const now = new Date();
+  // No place reaches further than MAX_RADIUS_M, so only those within it of the outage can match.
+  const box = bboxAround(outage.centroidLatitude, outage.centroidLongitude, MAX_RADIUS_M / 1000);
+  const places = (await storage.listPlacesIn(box)).filter(place =>
+    place.userId !== reporterUserId
+    && (place.types.length === 0 || place.types.includes(outage.type))
+    && getDistanceKm(place.latitude, place.longitude, outage.centroidLatitude, outage.centroidLongitude) * 1000 <= place.radiusM
+    && !isQuietNow(place, now));
+
+  const due: SavedPlace[] = [];
+  for (const place of places) {
+    if (await storage.markPlaceAlerted(place.id, outage.id)) due.push(place);
+  }
+  if (due.length === 0) return 0;
+
+  const tokens = await storage.listPushTokens([...new Set(due.map(p => p.userId))]);
+  const messages = due.flatMap(place =>
+    tokens.filter(t => t.userId === place.userId).map(t => alertMessage(place, outage, t.token)));
+  if (messages.length === 0) return 0;
+
+  let result: PushResult;
+  try {
+    result = await pushSender.send(messages);
+  } catch (e) {
+    await Promise.all(due.map(place => storage.unmarkPlaceAlerted(place.id, outage.id)));
+    throw e;
+  }
+  const undelivered = new Set([...result.stale, ...result.failed]);
+  const unreached = due.filter(place =>
+    messages.every(m => m.data?.placeId !== place.id || undelivered.has(m.to)));
+  await Promise.all([
+    ...result.stale.map(token => storage.deletePushToken(token)),
+    ...unreached.map(place => storage.unmarkPlaceAlerted(place.id, outage.id)),
+  ]);
+  return messages.filter(m => !undelivered.has(m.to)).length;
+}
@@ -0,0 +1,83 @@
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Expo rejects requests with more than 100 messages.
+const EXPO_BATCH_SIZE = 100;
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  // Tokens the push service no longer knows, so callers can forget them.
+  stale: string[];
+  // Tokens whose message was refused for any other reason.
+  failed: string[];
+}
+
+export interface PushSender {
+  // Rejects when the push service could not be reached at all.
+  send(messages: PushMessage[]): Promise<PushResult>;
+}
+
+export class ExpoPushSender implements PushSender {
+  async send(messages: PushMessage[]): Promise<PushResult> {
+    const result: PushResult = { stale: [], failed: [] };
+    for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+      const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+      const res = await fetch(EXPO_PUSH_URL, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+          ...(process.env.EXPO_ACCESS_TOKEN ? { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` } : {}),
+        },
+        body: JSON.stringify(batch.map(m => ({ ...m, sound: "default" }))),
+      });
+      if (!res.ok) {
+        // Earlier batches went out: only this one and the rest failed.
+        if (i > 0) {
+          result.failed.push(...messages.slice(i).map(m => m.to));
+          return result;
+        }
+        throw { code: res.status, message: `Expo push failed: ${await res.text()}` };
+      }
+      const { data } = await res.json() as { data: { status: string; details?: { error?: string } }[] };
+      data.forEach((ticket, j) => {
+        if (ticket.status !== "error") return;
+        if (ticket.details?.error === "DeviceNotRegistered") result.stale.push(batch[j].to);
+        else result.failed.push(batch[j].to);
+      });
+    }
+    return result;
+  }
+}
+
+// Stand-in for development and tests: keeps and logs what would have been sent.
+export class MemoryPushSender implements PushSender {
+  sent: PushMessage[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushResult> {
+    this.sent.push(...messages);
+    messages.forEach(m => console.log(`[push] ${m.to}: ${m.title} - ${m.body}`));
+    return { stale: [], failed: [] };
+  }
+}
+
+export type PushBackend = "expo" | "memory";
+
+export function createPushSender(
+  backend: PushBackend = (process.env.PUSH_SENDER as PushBackend) || "expo",
+): PushSender {
+  switch (backend) {
+    case "expo":
+      return new ExpoPushSender();
+    case "memory":
+      return new MemoryPushSender();
+    default:
+      throw new Error(`Unknown PUSH_SENDER: ${backend}`);
+  }
+}
+
+export const pushSender = createPushSender();
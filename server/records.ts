@@ -0,0 +1,315 @@
+import type { SpatialFilter } from './geo';
+
+export const OUTAGE_TYPES = ['water', 'electricity', 'internet'] as const;
+export const INCIDENT_TYPES = ['broken_pipe', 'fallen_pole', 'cable_on_ground', 'other'] as const;
+export const OUTAGE_STATUSES = [
+  'reported', 'confirmed', 'restoration_claimed', 'restored', 'verified', 'reopened', 'rejected',
+] as const;
+
+export type OutageStatus = typeof OUTAGE_STATUSES[number];
+export type ActorRole = 'user' | 'device' | 'admin' | 'system';
+
+export interface OutageRecord {
+  id: string;
+  type: string;
+  latitude: number;
+  longitude: number;
+  quartier: string;
+  ville: string;
+  region: string;
+  confirmations: number;
+  photoUri: string | null;
+  estRetablie: boolean;
+  dateRetablissement: string | null;
+  createdAt: string;
+  userId: string;
+  status: OutageStatus;
+  reportCount: number;
+  lastReportAt: string;
+  centroidLatitude: number;
+  centroidLongitude: number;
+}
+
+export interface OutageHistoryEntry {
+  id: string;
+  outageId: string;
+  fromStatus: OutageStatus | null;
+  toStatus: OutageStatus;
+  actorId: string;
+  actorRole: ActorRole;
+  note: string;
+  createdAt: string;
+}
+
+export type NewOutageHistory = Omit<OutageHistoryEntry, 'id' | 'createdAt'>;
+
+export interface IncidentRecord {
+  id: string;
+  incidentType: string;
+  latitude: number;
+  longitude: number;
+  quartier: string;
+  ville: string;
+  region: string;
+  confirmations: number;
+  photoUri: string | null;
+  commentaire: string;
+  estResolue: boolean;
+  dateResolution: string | null;
+  createdAt: string;
+  userId: string;
+}
+
+export interface UserProfile {
+  id: string;
+  phone: string;
+  displayName: string;
+  isAdmin: boolean;
+  createdAt?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Opaque; null on the last page.
+  nextCursor: string | null;
+}
+
+export interface ListFilters extends SpatialFilter {
+  type?: string;
+  region?: string;
+  hours?: string;
+  // Outages only: last reported at or after this ISO date.
+  reportedSince?: string;
+}
+
+export interface NewOutage {
+  type: string;
+  latitude: number;
+  longitude: number;
+  quartier?: string;
+  ville?: string;
+  region?: string;
+  photoUri?: string | null;
+  userId?: string;
+}
+
+export interface NewIncident {
+  incidentType: string;
+  latitude: number;
+  longitude: number;
+  quartier?: string;
+  ville?: string;
+  region?: string;
+  photoUri?: string | null;
+  commentaire?: string;
+  userId?: string;
+}
+
+export type ConfirmationTarget = 'outage' | 'incident';
+
+export interface ConfirmationVote {
+  voterId: string;
+  targetType: ConfirmationTarget;
+  targetId: string;
+  day: string;
+}
+
+export type MediaKind = 'photo' | 'video';
+
+// A photo or video attached to an outage or incident, by its reporter or by
+// anyone adding evidence later. `mediaId` names the files in the photo store.
+export interface MediaAttachment {
+  id: string;
+  targetType: ConfirmationTarget;
+  targetId: string;
+  kind: MediaKind;
+  mediaId: string;
+  bytes: number;
+  durationSec: number | null;
+  // The voter (user or device) who added it.
+  uploaderId: string;
+  createdAt: string;
+}
+
+export type NewMediaAttachment = Omit<MediaAttachment, 'id' | 'createdAt'>;
+
+// clean: nothing found. blurred: faces or plates blurred, published. held:
+// waiting in the admin queue, published veiled (or, for a video, not at all).
+export const MODERATION_STATUSES = ['clean', 'blurred', 'held', 'approved', 'rejected'] as const;
+export type ModerationStatus = typeof MODERATION_STATUSES[number];
+
+// The moderation outcome for one uploaded photo or video, keyed by media id.
+export interface ModerationRecord {
+  id: string;
+  mediaId: string;
+  kind: MediaKind;
+  status: ModerationStatus;
+  faces: number;
+  plates: number;
+  // Chance (0-1) of inappropriate content; null when not checked.
+  nsfwScore: number | null;
+  // Why it was held: 'nsfw', 'video', or 'unchecked:<detector>'.
+  reasons: string[];
+  createdAt: string;
+  reviewedAt: string | null;
+  reviewerId: string | null;
+}
+
+export type NewModerationRecord = Omit<ModerationRecord, 'id' | 'createdAt' | 'reviewedAt' | 'reviewerId'>;
+
+export type RestorationVoteValue = 'restored' | 'still_out';
+
+export interface RestorationVote {
+  outageId: string;
+  voterId: string;
+  vote: RestorationVoteValue;
+  createdAt: string;
+}
+
+export interface RestorationTally {
+  restored: number;
+  stillOut: number;
+  threshold: number;
+  myVote: RestorationVoteValue | null;
+}
+
+export interface SavedPlace {
+  id: string;
+  userId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusM: number;
+  // Outage types to alert about; empty means all of them.
+  types: string[];
+  // "HH:MM" in the place's timezone; no alerts between the two when both are set.
+  quietStart: string | null;
+  quietEnd: string | null;
+  timezone: string;
+  createdAt: string;
+}
+
+export type NewSavedPlace = Omit<SavedPlace, 'id' | 'createdAt'>;
+export type SavedPlaceUpdate = Partial<Omit<SavedPlace, 'id' | 'userId' | 'createdAt'>>;
+
+export interface PushToken {
+  token: string;
+  userId: string;
+  platform: string;
+  updatedAt: string;
+}
+
+export interface ReportLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// Status changes go through setOutageStatus, never through a plain update.
+export type OutageUpdate = Partial<{
+  type: string;
+  quartier: string;
+  ville: string;
+  region: string;
+}>;
+
+export type IncidentUpdate = Partial<{
+  incidentType: string;
+  quartier: string;
+  ville: string;
+  region: string;
+  commentaire: string;
+  estResolue: boolean;
+  dateResolution: string | null;
+}>;
+
+export interface OutageStats {
+  total: number;
+  active: number;
+  restored: number;
+  byType: Record<string, number>;
+  byRegion: Record<string, number>;
+}
+
+export interface IncidentStats {
+  total: number;
+  active: number;
+  resolved: number;
+  byType: Record<string, number>;
+  byRegion: Record<string, number>;
+}
+
+export type StatEntity = 'outage' | 'incident';
+
+// The `day` of the all-time counters; the others carry a UTC day (YYYY-MM-DD).
+export const ALL_TIME = 'all';
+
+// Counters for one entity, day, region and type. `reported` counts the records
+// created that day and `closed` those of them since restored or resolved.
+export interface StatCounter {
+  entity: StatEntity;
+  day: string;
+  region: string;
+  type: string;
+  reported: number;
+  closed: number;
+}
+
+export function statCounterKey(counter: Pick<StatCounter, 'entity' | 'day' | 'region' | 'type'>): string {
+  return [counter.entity, counter.day, counter.region, counter.type].join(':');
+}
+
+export interface StatPoint {
+  day: string;
+  reported: number;
+  closed: number;
+  // `reported`, split by outage or incident type.
+  byType: Record<string, number>;
+}
+
+export function notFound() {
+  return { code: 404, message: 'Not found' };
+}
+
+export function statusConflict() {
+  return { code: 409, message: 'Le statut a changé entre-temps' };
+}
+
+// estRetablie stays the "closed" flag that stats and older clients read:
+// restored, verified and rejected outages are no longer active.
+export function statusPatch(to: OutageStatus): Partial<Pick<OutageRecord, 'estRetablie' | 'dateRetablissement'>> {
+  switch (to) {
+    case 'restored':
+      return { estRetablie: true, dateRetablissement: new Date().toISOString() };
+    case 'verified':
+      return { estRetablie: true };
+    case 'rejected':
+      return { estRetablie: true, dateRetablissement: null };
+    case 'reopened':
+      return { estRetablie: false, dateRetablissement: null };
+    default:
+      return {};
+  }
+}
+
+export function initialStatus(item: { status?: string; estRetablie?: boolean }): OutageStatus {
+  if (item.status && (OUTAGE_STATUSES as readonly string[]).includes(item.status)) return item.status as OutageStatus;
+  return item.estRetablie ? 'restored' : 'reported';
+}
+
+// Running mean of the report positions, so the centroid never needs the individual reports.
+export function nextCentroid(outage: OutageRecord, report: ReportLocation): ReportLocation {
+  const n = outage.reportCount;
+  return {
+    latitude: (outage.centroidLatitude * n + report.latitude) / (n + 1),
+    longitude: (outage.centroidLongitude * n + report.longitude) / (n + 1),
+  };
+}
+
+// Confirmations are limited to one per voter and target for each UTC day.
+export function confirmationDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function hoursCutoff(hours: string): string {
+  return new Date(Date.now() - parseInt(hours) * 3600000).toISOString();
+}
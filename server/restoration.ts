@@ -0,0 +1,62 @@
+import { storage } from "./storage";
+import { outageClosed } from "./confirmations";
+import { isOpen, tryTransition, type Actor } from "./lifecycle";
+import type { OutageRecord, RestorationTally, RestorationVote, RestorationVoteValue } from "./records";
+
+// Independent "it's back" votes from signed-in users needed to close an outage when
+// neither the reporter nor an admin has voted. The same number of "still out" votes reopens it.
+const RESTORE_VOTE_THRESHOLD = parseInt(process.env.RESTORE_VOTE_THRESHOLD || "3");
+
+function tallyOf(votes: RestorationVote[], voterId?: string): RestorationTally {
+  const restored = votes.filter(v => v.vote === "restored").length;
+  return {
+    restored,
+    stillOut: votes.length - restored,
+    threshold: RESTORE_VOTE_THRESHOLD,
+    myVote: votes.find(v => v.voterId === voterId)?.vote ?? null,
+  };
+}
+
+export async function getRestorationTally(outageId: string, voterId?: string): Promise<RestorationTally> {
+  return tallyOf(await storage.listRestorationVotes(outageId), voterId);
+}
+
+function isAuthoritative(outage: OutageRecord, actor: Actor): boolean {
+  return actor.role === "admin" || (!!outage.userId && actor.id === `user:${outage.userId}`);
+}
+
+export async function voteRestoration(
+  id: string,
+  actor: Actor,
+  vote: RestorationVoteValue,
+): Promise<{ outage: OutageRecord; tally: RestorationTally }> {
+  let outage = await storage.getOutage(id);
+  if (outage.status === "rejected") throw outageClosed();
+
+  await storage.castRestorationVote({ outageId: id, voterId: actor.id, vote });
+  const votes = await storage.listRestorationVotes(id);
+  const tally = tallyOf(votes, actor.id);
+  // A device id is whatever the client sends and costs nothing to rotate, so
+  // device votes are shown but only signed-in voters count toward consensus.
+  const counted = tallyOf(votes.filter(v => v.voterId.startsWith("user:")));
+  const note = `${tally.restored} rétablie / ${tally.stillOut} toujours coupée`;
+  const authoritative = isAuthoritative(outage, actor);
+
+  if (vote === "restored" && isOpen(outage.status)) {
+    const consensus = counted.restored >= RESTORE_VOTE_THRESHOLD && counted.restored > counted.stillOut;
+    if (authoritative || consensus) {
+      outage = await tryTransition(id, "restored", actor, note);
+    } else if (outage.status !== "restoration_claimed") {
+      outage = await tryTransition(id, "restoration_claimed", actor, note);
+    }
+  } else if (vote === "still_out" && (outage.status === "restoration_claimed" || !isOpen(outage.status))) {
+    const contradicted = counted.stillOut >= RESTORE_VOTE_THRESHOLD || counted.stillOut > counted.restored;
+    if (authoritative || contradicted) {
+      outage = await tryTransition(id, "reopened", actor, note);
+      if (outage.status === "reopened") {
+        return { outage, tally: await getRestorationTally(id, actor.id) };
+      }
+    }
+  }
+  return { outage, tally };
+}
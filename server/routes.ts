@@ -1,25 +1,116 @@
 import type { Express } from "express";
 import { createServer, type Server } from "node:http";
+import { storage } from "./storage";
+import { attachUser, identifyVoter, issueToken, requireAdmin, requireAuth } from "./auth";
+import { getActiveAreas, getDurationStats, getOutageHeatmap, parseHeatmapPeriod, parsePeriod } from "./analytics";
+import { getIncidentStats, getOutageStats, getStatSeries, parseSeriesQuery, parseStatsQuery, trackIncident, trackOutage } from "./aggregates";
+import { attachFeed, publishFeed, type FeedAction } from "./feed";
+import { reportOutage, toOutageEvent, type OutageEvent } from "./clustering";
+import { confirmIncidentOnce, confirmOutageOnce, confirmedToday, recordVote } from "./confirmations";
+import { actorOf, transitionOutage } from "./lifecycle";
 import {
-  listOutages,
-  getOutage,
-  createOutage,
-  batchCreateOutages,
-  confirmOutage,
-  restoreOutage,
-  getStats,
-  registerUser,
-  loginUser,
-  getUserById,
-  getUserOutages,
-  deleteOutage,
-  updateOutage,
-  listAllUsers,
-  deleteUser,
-  setUserAdmin,
-} from "./appwrite";
+  MODERATION_STATUSES,
+  OUTAGE_STATUSES,
+  OUTAGE_TYPES,
+  confirmationDay,
+  type IncidentRecord,
+  type IncidentUpdate,
+  type ModerationStatus,
+  type OutageRecord,
+  type OutageStatus,
+  type OutageUpdate,
+  type RestorationVoteValue,
+} from "./records";
+import { getRestorationTally, voteRestoration } from "./restoration";
+import { alertNearbyPlaces, createPlace, placeInput } from "./places";
+import { getDistanceKm, parseSpatialQuery, type SpatialFilter } from "./geo";
+import { parsePageQuery } from "./pagination";
+import { backtestForecast, forecastNear, forecastQuartiers } from "./forecast";
+import { getRegionSnapshot } from "./offline";
+import { checkPhotoUrl, isPhotoId, mediaUpload, parseVariant, photoUpload, readPhoto, withPhotoUrls } from "./photos";
+import { mp4ContentType } from "./mp4";
+import {
+  attachMedia,
+  attachReportPhoto,
+  deleteReportMedia,
+  listMediaViews,
+  listReviewQueue,
+  reviewMedia,
+  saveModerated,
+} from "./media";
+
+function statusAction(outage: OutageRecord): FeedAction {
+  return outage.status === "restored" || outage.status === "verified" ? "restored" : "updated";
+}
+
+// One new outage report, from POST /api/outages or a batch; throws { code: 400 } on bad input.
+async function submitOutage(body: any, voterId?: string): Promise<{ event: OutageEvent; clustered: boolean }> {
+  const { type, latitude, longitude, quartier, ville, region, photoId, userId } = body ?? {};
+  if (!type || latitude === undefined || longitude === undefined) {
+    throw { code: 400, message: "type, latitude, longitude required" };
+  }
+  if (photoId && !isPhotoId(photoId)) throw { code: 400, message: "photoId invalide" };
+  const { event, clustered } = await reportOutage({
+    type, latitude, longitude, quartier, ville, region, photoUri: photoId || null, userId,
+  }, voterId);
+  if (photoId) {
+    await attachReportPhoto("outage", event.id, photoId, voterId ?? "")
+      .catch(e => console.error("attachReportPhoto error:", e));
+  }
+  publishFeed("outage", clustered ? "confirmed" : "created", event);
+  const reporterId = voterId?.startsWith("user:") ? voterId.slice(5) : undefined;
+  alertNearbyPlaces(event, reporterId).catch(e => console.error("alertNearbyPlaces error:", e));
+  return { event, clustered };
+}
+
+async function submitIncident(body: any, voterId?: string): Promise<IncidentRecord & { photoThumbUri: string | null }> {
+  const { incidentType, latitude, longitude, quartier, ville, region, photoId, commentaire, userId } = body ?? {};
+  if (!incidentType || latitude === undefined || longitude === undefined) {
+    throw { code: 400, message: "incidentType, latitude, longitude required" };
+  }
+  if (photoId && !isPhotoId(photoId)) throw { code: 400, message: "photoId invalide" };
+  const newIncident = await storage.createIncident({
+    incidentType, latitude, longitude, quartier, ville, region, photoUri: photoId || null, commentaire, userId,
+  });
+  await trackIncident(null, newIncident);
+  if (voterId) await recordVote(voterId, "incident", newIncident.id);
+  if (photoId) {
+    await attachReportPhoto("incident", newIncident.id, photoId, voterId ?? "")
+      .catch(e => console.error("attachReportPhoto error:", e));
+  }
+  const event = withPhotoUrls(newIncident);
+  publishFeed("incident", "created", event);
+  return event;
+}
+
+type BatchResult = { index: number; id: string } | { index: number; error: string };
+
+// Items are submitted one by one, in order, so later ones can cluster onto earlier ones.
+// A failed item is reported by its index and does not stop the rest.
+async function submitBatch<T extends { id: string }>(
+  items: unknown[],
+  submit: (item: any) => Promise<T>,
+): Promise<{ synced: number; results: BatchResult[] }> {
+  const results: BatchResult[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      results.push({ index, id: (await submit(item)).id });
+    } catch (e: any) {
+      if (e.code !== 400) console.error(`batch item ${index} error:`, e);
+      results.push({ index, error: e.code === 400 ? e.message : "Erreur" });
+    }
+  }
+  return { synced: results.filter(r => "id" in r).length, results };
+}
+
+function distanceFrom(spatial: SpatialFilter, item: { latitude: number; longitude: number }) {
+  if (!spatial.near) return {};
+  const km = getDistanceKm(spatial.near.latitude, spatial.near.longitude, item.latitude, item.longitude);
+  return { distanceKm: Math.round(km * 100) / 100 };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  app.use("/api", identifyVoter);
 
   app.post("/api/auth/register", async (req, res) => {
     try {
@@ -30,8 +121,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (password.length < 8) {
         return res.status(400).json({ error: "Le mot de passe doit contenir au moins 8 caractères" });
       }
-      const user = await registerUser(phone, password, displayName);
-      res.status(201).json(user);
+      const user = await storage.registerUser(phone, password, displayName);
+      res.status(201).json({ ...user, token: issueToken(user.id) });
     } catch (e: any) {
       if (e.code === 409) return res.status(409).json({ error: e.message });
       console.error("POST /api/auth/register error:", e);
@@ -45,8 +136,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!phone || !password) {
         return res.status(400).json({ error: "Numéro et mot de passe requis" });
       }
-      const user = await loginUser(phone, password);
-      res.json(user);
+      const user = await storage.loginUser(phone, password);
+      res.json({ ...user, token: issueToken(user.id) });
     } catch (e: any) {
       if (e.code === 401) return res.status(401).json({ error: e.message });
       console.error("POST /api/auth/login error:", e);
@@ -54,9 +145,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+
   app.get("/api/auth/user/:id", async (req, res) => {
     try {
-      const user = await getUserById(req.params.id);
+      const user = await storage.getUserById(req.params.id);
       res.json(user);
     } catch (e: any) {
       if (e.code === 404) return res.status(404).json({ error: "Utilisateur non trouvé" });
@@ -67,9 +162,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/auth/user/:id/outages", async (req, res) => {
     try {
-      const outages = await getUserOutages(req.params.id);
-      res.json(outages);
-    } catch (e) {
+      const outages = await storage.getUserOutages(req.params.id, parsePageQuery(req.query));
+      res.json({ ...outages, items: outages.items.map(withPhotoUrls) });
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
       console.error("GET /api/auth/user/:id/outages error:", e);
       res.status(500).json({ error: "Erreur" });
     }
@@ -78,9 +174,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/outages", async (req, res) => {
     try {
       const { type, region, hours } = req.query as Record<string, string>;
-      const result = await listOutages({ type, region, hours });
-      res.json(result);
-    } catch (e) {
+      const spatial = parseSpatialQuery(req.query);
+      const page = await storage.listOutages({ type, region, hours, ...spatial }, parsePageQuery(req.query));
+      const mine = await confirmedToday(req.voterId, "outage");
+      res.json({
+        items: page.items.map(o => ({ ...toOutageEvent(o), confirmedByMe: mine.has(o.id), ...distanceFrom(spatial, o) })),
+        nextCursor: page.nextCursor,
+      });
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
       console.error("GET /api/outages error:", e);
       res.status(500).json({ error: "Failed to fetch outages" });
     }
@@ -88,8 +190,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/outages/:id", async (req, res) => {
     try {
-      const result = await getOutage(req.params.id);
-      res.json(result);
+      const result = await storage.getOutage(req.params.id);
+      const mine = await confirmedToday(req.voterId, "outage");
+      res.json({ ...toOutageEvent(result), confirmedByMe: mine.has(result.id) });
     } catch (e: any) {
       if (e.code === 404) return res.status(404).json({ error: "Not found" });
       console.error("GET /api/outages/:id error:", e);
@@ -99,15 +202,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/outages", async (req, res) => {
     try {
-      const { type, latitude, longitude, quartier, ville, region, photoUri, userId } = req.body;
-      if (!type || latitude === undefined || longitude === undefined) {
-        return res.status(400).json({ error: "type, latitude, longitude required" });
-      }
-      const newOutage = await createOutage({
-        type, latitude, longitude, quartier, ville, region, photoUri, userId,
-      });
-      res.status(201).json(newOutage);
-    } catch (e) {
+      const { event, clustered } = await submitOutage(req.body, req.voterId);
+      res.status(clustered ? 200 : 201).json({ ...event, clustered, confirmedByMe: !!req.voterId });
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
       console.error("POST /api/outages error:", e);
       res.status(500).json({ error: "Failed to create outage" });
     }
@@ -117,8 +215,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const items = req.body;
       if (!Array.isArray(items)) return res.status(400).json({ error: "Array expected" });
-      const created = await batchCreateOutages(items);
-      res.json({ synced: created });
+      res.json(await submitBatch(items, async item => (await submitOutage(item, req.voterId)).event));
     } catch (e) {
       console.error("POST /api/outages/batch error:", e);
       res.status(500).json({ error: "Failed to batch sync" });
@@ -126,63 +223,485 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/outages/:id/confirm", async (req, res) => {
+    if (!req.voterId) {
+      return res.status(400).json({ error: "Connexion ou identifiant d'appareil requis" });
+    }
     try {
-      const updated = await confirmOutage(req.params.id);
-      res.json(updated);
+      const updated = await confirmOutageOnce(req.voterId, req.params.id);
+      publishFeed("outage", "confirmed", toOutageEvent(updated));
+      res.json({ ...toOutageEvent(updated), confirmedByMe: true });
     } catch (e: any) {
       if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      if (e.code === 409) return res.status(409).json({ error: e.message });
       console.error("POST /api/outages/:id/confirm error:", e);
       res.status(500).json({ error: "Failed to confirm" });
     }
   });
 
+  // Votes from the reporter or an admin settle restoration on their own.
+  app.use(["/api/outages/:id/votes", "/api/outages/:id/restore"], attachUser);
+
+  app.get("/api/outages/:id/votes", async (req, res) => {
+    try {
+      await storage.getOutage(req.params.id);
+      res.json(await getRestorationTally(req.params.id, req.voterId));
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("GET /api/outages/:id/votes error:", e);
+      res.status(500).json({ error: "Failed to fetch votes" });
+    }
+  });
+
+  app.post("/api/outages/:id/votes", async (req, res) => {
+    const actor = actorOf(req);
+    if (!actor) return res.status(400).json({ error: "Connexion ou identifiant d'appareil requis" });
+    const vote = req.body?.vote as RestorationVoteValue;
+    if (vote !== "restored" && vote !== "still_out") {
+      return res.status(400).json({ error: "vote must be restored or still_out" });
+    }
+    try {
+      const { outage, tally } = await voteRestoration(req.params.id, actor, vote);
+      publishFeed("outage", statusAction(outage), toOutageEvent(outage));
+      res.json({ ...toOutageEvent(outage), votes: tally });
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      if (e.code === 409) return res.status(409).json({ error: e.message });
+      console.error("POST /api/outages/:id/votes error:", e);
+      res.status(500).json({ error: "Failed to vote" });
+    }
+  });
+
+  // Kept for clients that still have restore actions queued in their outbox.
   app.post("/api/outages/:id/restore", async (req, res) => {
+    const actor = actorOf(req);
+    if (!actor) return res.status(400).json({ error: "Connexion ou identifiant d'appareil requis" });
     try {
-      const updated = await restoreOutage(req.params.id);
-      res.json(updated);
+      const { outage, tally } = await voteRestoration(req.params.id, actor, "restored");
+      publishFeed("outage", statusAction(outage), toOutageEvent(outage));
+      res.json({ ...toOutageEvent(outage), votes: tally });
     } catch (e: any) {
       if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      if (e.code === 409) return res.status(409).json({ error: e.message });
       console.error("POST /api/outages/:id/restore error:", e);
       res.status(500).json({ error: "Failed to restore" });
     }
   });
 
-  app.get("/api/stats", async (_req, res) => {
+  app.get("/api/outages/:id/history", async (req, res) => {
     try {
-      const stats = await getStats();
+      await storage.getOutage(req.params.id);
+      const history = await storage.getOutageHistory(req.params.id);
+      res.json(history);
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("GET /api/outages/:id/history error:", e);
+      res.status(500).json({ error: "Failed to fetch history" });
+    }
+  });
+
+  app.get("/api/stats", async (req, res) => {
+    try {
+      const stats = await getOutageStats(parseStatsQuery(req.query));
       res.json(stats);
-    } catch (e) {
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
       console.error("GET /api/stats error:", e);
       res.status(500).json({ error: "Failed to get stats" });
     }
   });
 
-  app.get("/api/admin/users", async (_req, res) => {
+  app.get("/api/stats/timeseries", async (req, res) => {
     try {
-      const users = await listAllUsers();
-      res.json(users);
+      const series = await getStatSeries(parseSeriesQuery(req.query));
+      res.json(series);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/stats/timeseries error:", e);
+      res.status(500).json({ error: "Failed to get time series" });
+    }
+  });
+
+  app.get("/api/stats/durations", async (req, res) => {
+    try {
+      const { from, to, type, region } = req.query as Record<string, string>;
+      const stats = await getDurationStats(parsePeriod(from, to), { type, region });
+      res.json(stats);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/stats/durations error:", e);
+      res.status(500).json({ error: "Failed to get duration stats" });
+    }
+  });
+
+  app.get("/api/stats/active-areas", async (_req, res) => {
+    try {
+      const areas = await getActiveAreas();
+      res.json(areas);
+    } catch (e) {
+      console.error("GET /api/stats/active-areas error:", e);
+      res.status(500).json({ error: "Failed to get active areas" });
+    }
+  });
+
+  app.get("/api/stats/heatmap", async (req, res) => {
+    try {
+      const { from, to, region, ville, type } = req.query as Record<string, string>;
+      const heatmap = await getOutageHeatmap(parseHeatmapPeriod(from, to), { region, ville, type });
+      res.json(heatmap);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/stats/heatmap error:", e);
+      res.status(500).json({ error: "Failed to get heatmap" });
+    }
+  });
+
+  app.get("/api/forecast", async (req, res) => {
+    try {
+      const { near } = parseSpatialQuery({ near: req.query.near });
+      if (!near) return res.status(400).json({ error: "near=lat,lon required" });
+      const forecast = await forecastNear(near.latitude, near.longitude);
+      res.json(forecast);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      if (e.code === 404) return res.status(404).json({ error: e.message });
+      console.error("GET /api/forecast error:", e);
+      res.status(500).json({ error: "Failed to get forecast" });
+    }
+  });
+
+  app.get("/api/forecast/quartiers", async (req, res) => {
+    try {
+      const { ville, type } = req.query as Record<string, string>;
+      const forecast = await forecastQuartiers(new Date(), { ville, type });
+      res.json(forecast);
+    } catch (e: any) {
+      console.error("GET /api/forecast/quartiers error:", e);
+      res.status(500).json({ error: "Failed to get forecast" });
+    }
+  });
+
+  app.get("/api/offline/snapshot", async (req, res) => {
+    try {
+      const snapshot = await getRegionSnapshot(String(req.query.region || ""));
+      res.json(snapshot);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/offline/snapshot error:", e);
+      res.status(500).json({ error: "Failed to build offline snapshot" });
+    }
+  });
+
+  // Multipart upload, field "photo". The returned id goes in the report's photoId.
+  app.post("/api/photos", (req, res) => {
+    photoUpload(req, res, async err => {
+      if (err) {
+        if (err.code === "LIMIT_FILE_SIZE") return res.status(413).json({ error: "Photo trop volumineuse" });
+        return res.status(400).json({ error: err.message });
+      }
+      if (!req.file) return res.status(400).json({ error: "photo required" });
+      try {
+        const { id } = await saveModerated("photo", req.file.buffer);
+        res.status(201).json(withPhotoUrls({ id, photoUri: id }));
+      } catch (e: any) {
+        if (e.code === 400) return res.status(400).json({ error: e.message });
+        console.error("POST /api/photos error:", e);
+        res.status(500).json({ error: "Failed to save photo" });
+      }
+    });
+  });
+
+  app.get("/api/photos/:id", async (req, res) => {
+    const { expires, sig } = req.query;
+    const variant = parseVariant(req.query.variant);
+    if (!checkPhotoUrl(req.params.id, variant, expires, sig)) {
+      return res.status(403).json({ error: "Lien expiré ou invalide" });
+    }
+    try {
+      const data = await readPhoto(req.params.id, variant);
+      const maxAge = Math.max(0, Math.floor((Number(expires) - Date.now()) / 1000));
+      res.set({
+        "Content-Type": variant === "video" ? mp4ContentType(data) : "image/jpeg",
+        "Cache-Control": `private, max-age=${maxAge}`,
+        "Accept-Ranges": "bytes",
+      });
+      // Video players read in byte ranges, and iOS will not play without them.
+      const ranges = req.range(data.length);
+      if (ranges === -1) return res.status(416).set("Content-Range", `bytes */${data.length}`).end();
+      if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+        const { start, end } = ranges[0];
+        return res.status(206)
+          .set("Content-Range", `bytes ${start}-${end}/${data.length}`)
+          .send(data.subarray(start, end + 1));
+      }
+      res.send(data);
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("GET /api/photos/:id error:", e);
+      res.status(500).json({ error: "Failed to fetch photo" });
+    }
+  });
+
+  // Evidence on an existing report, from anyone: multipart "file" (photo or
+  // video) and, for a video, an optional "thumbnail" image.
+  for (const [path, target] of [["outages", "outage"], ["incidents", "incident"]] as const) {
+    app.get(`/api/${path}/:id/media`, async (req, res) => {
+      try {
+        res.json(await listMediaViews(target, req.params.id));
+      } catch (e: any) {
+        if (e.code === 404) return res.status(404).json({ error: "Not found" });
+        console.error(`GET /api/${path}/:id/media error:`, e);
+        res.status(500).json({ error: "Failed to fetch media" });
+      }
+    });
+
+    app.post(`/api/${path}/:id/media`, (req, res) => {
+      if (!req.voterId) {
+        return res.status(400).json({ error: "Connexion ou identifiant d'appareil requis" });
+      }
+      mediaUpload(req, res, async err => {
+        if (err) {
+          if (err.code === "LIMIT_FILE_SIZE") return res.status(413).json({ error: "Fichier trop volumineux" });
+          return res.status(400).json({ error: err.message });
+        }
+        const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+        const file = files?.file?.[0];
+        if (!file) return res.status(400).json({ error: "file required" });
+        try {
+          const media = await attachMedia(target, req.params.id, req.voterId!, file, files?.thumbnail?.[0]);
+          res.status(201).json(media);
+        } catch (e: any) {
+          if (e.code === 400) return res.status(400).json({ error: e.message });
+          if (e.code === 404) return res.status(404).json({ error: "Not found" });
+          if (e.code === 409) return res.status(409).json({ error: e.message });
+          if (e.code === 413) return res.status(413).json({ error: e.message });
+          console.error(`POST /api/${path}/:id/media error:`, e);
+          res.status(500).json({ error: "Failed to attach media" });
+        }
+      });
+    });
+  }
+
+  app.get("/api/confirmations/today", async (req, res) => {
+    try {
+      const [outageIds, incidentIds] = await Promise.all([
+        confirmedToday(req.voterId, "outage"),
+        confirmedToday(req.voterId, "incident"),
+      ]);
+      res.json({ day: confirmationDay(), outages: [...outageIds], incidents: [...incidentIds] });
+    } catch (e) {
+      console.error("GET /api/confirmations/today error:", e);
+      res.status(500).json({ error: "Failed to fetch confirmations" });
+    }
+  });
+
+  app.use(["/api/places", "/api/push-token"], requireAuth);
+
+  app.get("/api/places", async (req, res) => {
+    try {
+      res.json(await storage.listPlaces(req.user!.id));
+    } catch (e) {
+      console.error("GET /api/places error:", e);
+      res.status(500).json({ error: "Failed to fetch places" });
+    }
+  });
+
+  app.post("/api/places", async (req, res) => {
+    try {
+      const place = await createPlace(req.user!.id, req.body);
+      res.status(201).json(place);
+    } catch (e: any) {
+      if (e.code === 400 || e.code === 409) return res.status(e.code).json({ error: e.message });
+      console.error("POST /api/places error:", e);
+      res.status(500).json({ error: "Failed to save place" });
+    }
+  });
+
+  app.put("/api/places/:id", async (req, res) => {
+    try {
+      const place = await storage.updatePlace(req.params.id, req.user!.id, placeInput(req.body, true));
+      res.json(place);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("PUT /api/places/:id error:", e);
+      res.status(500).json({ error: "Failed to update place" });
+    }
+  });
+
+  app.delete("/api/places/:id", async (req, res) => {
+    try {
+      await storage.deletePlace(req.params.id, req.user!.id);
+      res.status(204).end();
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("DELETE /api/places/:id error:", e);
+      res.status(500).json({ error: "Failed to delete place" });
+    }
+  });
+
+  app.put("/api/push-token", async (req, res) => {
+    const { token, platform } = req.body || {};
+    if (typeof token !== "string" || !token || token.length > 255) {
+      return res.status(400).json({ error: "token required" });
+    }
+    try {
+      await storage.savePushToken(req.user!.id, token, typeof platform === "string" ? platform.slice(0, 10) : "");
+      res.status(204).end();
+    } catch (e) {
+      console.error("PUT /api/push-token error:", e);
+      res.status(500).json({ error: "Failed to save push token" });
+    }
+  });
+
+  app.delete("/api/push-token", async (req, res) => {
+    const { token } = req.body || {};
+    if (typeof token !== "string" || !token) return res.status(400).json({ error: "token required" });
+    try {
+      const mine = await storage.listPushTokens([req.user!.id]);
+      if (mine.some(t => t.token === token)) await storage.deletePushToken(token);
+      res.status(204).end();
     } catch (e) {
+      console.error("DELETE /api/push-token error:", e);
+      res.status(500).json({ error: "Failed to delete push token" });
+    }
+  });
+
+  app.get("/api/incidents", async (req, res) => {
+    try {
+      const { type, region, hours } = req.query as Record<string, string>;
+      const spatial = parseSpatialQuery(req.query);
+      const page = await storage.listIncidents({ type, region, hours, ...spatial }, parsePageQuery(req.query));
+      const mine = await confirmedToday(req.voterId, "incident");
+      res.json({
+        items: page.items.map(i => ({ ...withPhotoUrls(i), confirmedByMe: mine.has(i.id), ...distanceFrom(spatial, i) })),
+        nextCursor: page.nextCursor,
+      });
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/incidents error:", e);
+      res.status(500).json({ error: "Failed to fetch incidents" });
+    }
+  });
+
+  app.get("/api/incidents/stats", async (req, res) => {
+    try {
+      const stats = await getIncidentStats(parseStatsQuery(req.query));
+      res.json(stats);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/incidents/stats error:", e);
+      res.status(500).json({ error: "Failed to get incident stats" });
+    }
+  });
+
+  app.get("/api/incidents/:id", async (req, res) => {
+    try {
+      const result = await storage.getIncident(req.params.id);
+      const mine = await confirmedToday(req.voterId, "incident");
+      res.json({ ...withPhotoUrls(result), confirmedByMe: mine.has(result.id) });
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("GET /api/incidents/:id error:", e);
+      res.status(500).json({ error: "Failed to fetch incident" });
+    }
+  });
+
+  app.post("/api/incidents", async (req, res) => {
+    try {
+      const event = await submitIncident(req.body, req.voterId);
+      res.status(201).json({ ...event, confirmedByMe: !!req.voterId });
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("POST /api/incidents error:", e);
+      res.status(500).json({ error: "Failed to create incident" });
+    }
+  });
+
+  app.post("/api/incidents/batch", async (req, res) => {
+    try {
+      const items = req.body;
+      if (!Array.isArray(items)) return res.status(400).json({ error: "Array expected" });
+      res.json(await submitBatch(items, item => submitIncident(item, req.voterId)));
+    } catch (e) {
+      console.error("POST /api/incidents/batch error:", e);
+      res.status(500).json({ error: "Failed to batch sync" });
+    }
+  });
+
+  app.post("/api/incidents/:id/confirm", async (req, res) => {
+    if (!req.voterId) {
+      return res.status(400).json({ error: "Connexion ou identifiant d'appareil requis" });
+    }
+    try {
+      const updated = withPhotoUrls(await confirmIncidentOnce(req.voterId, req.params.id));
+      publishFeed("incident", "confirmed", updated);
+      res.json({ ...updated, confirmedByMe: true });
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      if (e.code === 409) return res.status(409).json({ error: e.message });
+      console.error("POST /api/incidents/:id/confirm error:", e);
+      res.status(500).json({ error: "Failed to confirm" });
+    }
+  });
+
+  app.post("/api/incidents/:id/resolve", async (req, res) => {
+    try {
+      const incident = await storage.getIncident(req.params.id);
+      const updated = await storage.resolveIncident(req.params.id);
+      await trackIncident(incident, updated);
+      const event = withPhotoUrls(updated);
+      publishFeed("incident", "restored", event);
+      res.json(event);
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("POST /api/incidents/:id/resolve error:", e);
+      res.status(500).json({ error: "Failed to resolve" });
+    }
+  });
+
+  app.use("/api/admin", requireAdmin);
+
+  app.get("/api/admin/users", async (req, res) => {
+    try {
+      const users = await storage.listUsers(parsePageQuery(req.query));
+      res.json(users);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
       console.error("GET /api/admin/users error:", e);
       res.status(500).json({ error: "Erreur" });
     }
   });
 
+  app.get("/api/admin/forecast/backtest", async (req, res) => {
+    try {
+      const report = await backtestForecast(req.query.days === undefined ? undefined : Number(req.query.days));
+      res.json(report);
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/admin/forecast/backtest error:", e);
+      res.status(500).json({ error: "Erreur" });
+    }
+  });
+
   app.delete("/api/admin/users/:id", async (req, res) => {
     try {
-      await deleteUser(req.params.id);
+      await storage.deleteUser(req.params.id);
       res.json({ success: true });
     } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Utilisateur non trouvé" });
       console.error("DELETE /api/admin/users/:id error:", e);
       res.status(500).json({ error: "Erreur" });
     }
   });
 
   app.post("/api/admin/users/:id/admin", async (req, res) => {
+    const { isAdmin } = req.body ?? {};
+    if (typeof isAdmin !== "boolean") return res.status(400).json({ error: "isAdmin must be true or false" });
     try {
-      const { isAdmin } = req.body;
-      const user = await setUserAdmin(req.params.id, isAdmin);
+      const user = await storage.setUserAdmin(req.params.id, isAdmin);
       res.json(user);
     } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Utilisateur non trouvé" });
       console.error("POST /api/admin/users/:id/admin error:", e);
       res.status(500).json({ error: "Erreur" });
     }
@@ -190,24 +709,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/admin/outages/:id", async (req, res) => {
     try {
-      await deleteOutage(req.params.id);
+      const outage = await storage.getOutage(req.params.id);
+      await storage.deleteOutage(req.params.id);
+      await trackOutage(outage, null);
+      deleteReportMedia("outage", outage.id, outage.photoUri).catch(e => console.error("deleteReportMedia error:", e));
+      publishFeed("outage", "deleted", outage);
       res.json({ success: true });
     } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
       console.error("DELETE /api/admin/outages/:id error:", e);
       res.status(500).json({ error: "Erreur" });
     }
   });
 
   app.put("/api/admin/outages/:id", async (req, res) => {
+    const data: OutageUpdate = {};
+    for (const field of ["type", "quartier", "ville", "region"] as const) {
+      if (typeof req.body?.[field] === "string") data[field] = req.body[field];
+    }
+    if (data.type !== undefined && !OUTAGE_TYPES.includes(data.type as any)) {
+      return res.status(400).json({ error: `type must be one of ${OUTAGE_TYPES.join(", ")}` });
+    }
+    if (Object.keys(data).length === 0) return res.status(400).json({ error: "Aucun champ à modifier" });
     try {
-      const updated = await updateOutage(req.params.id, req.body);
-      res.json(updated);
+      const outage = await storage.getOutage(req.params.id);
+      const updated = await storage.updateOutage(req.params.id, data);
+      await trackOutage(outage, updated);
+      const event = toOutageEvent(updated);
+      publishFeed("outage", "updated", event);
+      res.json(event);
     } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
       console.error("PUT /api/admin/outages/:id error:", e);
       res.status(500).json({ error: "Erreur" });
     }
   });
 
+  // Photo moderation: held media by default, oldest first; `status=blurred`
+  // lists what was published with faces or plates blurred.
+  app.get("/api/admin/moderation", async (req, res) => {
+    const status = req.query.status ?? "held";
+    if (!MODERATION_STATUSES.includes(status as ModerationStatus)) {
+      return res.status(400).json({ error: "Statut inconnu" });
+    }
+    try {
+      res.json(await listReviewQueue(status as ModerationStatus, parsePageQuery(req.query).limit));
+    } catch (e: any) {
+      if (e.code === 400) return res.status(400).json({ error: e.message });
+      console.error("GET /api/admin/moderation error:", e);
+      res.status(500).json({ error: "Erreur" });
+    }
+  });
+
+  app.post("/api/admin/moderation/:mediaId", async (req, res) => {
+    const { decision } = req.body;
+    if (decision !== "approve" && decision !== "reject") {
+      return res.status(400).json({ error: "Décision inconnue" });
+    }
+    try {
+      res.json(await reviewMedia(req.params.mediaId, decision, `user:${req.user!.id}`));
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      if (e.code === 409) return res.status(409).json({ error: e.message });
+      console.error("POST /api/admin/moderation/:mediaId error:", e);
+      res.status(500).json({ error: "Erreur" });
+    }
+  });
+
+  app.post("/api/admin/outages/:id/status", async (req, res) => {
+    const { status, note } = req.body;
+    if (!OUTAGE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: "Statut inconnu" });
+    }
+    try {
+      const updated = await transitionOutage(req.params.id, status as OutageStatus, actorOf(req)!, note || "");
+      publishFeed("outage", statusAction(updated), toOutageEvent(updated));
+      res.json(toOutageEvent(updated));
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      if (e.code === 409) return res.status(409).json({ error: e.message });
+      console.error("POST /api/admin/outages/:id/status error:", e);
+      res.status(500).json({ error: "Erreur" });
+    }
+  });
+
+  app.delete("/api/admin/incidents/:id", async (req, res) => {
+    try {
+      const incident = await storage.getIncident(req.params.id);
+      await storage.deleteIncident(req.params.id);
+      await trackIncident(incident, null);
+      deleteReportMedia("incident", incident.id, incident.photoUri).catch(e => console.error("deleteReportMedia error:", e));
+      publishFeed("incident", "deleted", incident);
+      res.json({ success: true });
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("DELETE /api/admin/incidents/:id error:", e);
+      res.status(500).json({ error: "Erreur" });
+    }
+  });
+
+  app.put("/api/admin/incidents/:id", async (req, res) => {
+    const data: IncidentUpdate = {};
+    for (const field of ["incidentType", "quartier", "ville", "region", "commentaire"] as const) {
+      if (typeof req.body?.[field] === "string") data[field] = req.body[field];
+    }
+    if (Object.keys(data).length === 0) return res.status(400).json({ error: "Aucun champ à modifier" });
+    try {
+      const incident = await storage.getIncident(req.params.id);
+      const updated = await storage.updateIncident(req.params.id, data);
+      await trackIncident(incident, updated);
+      const event = withPhotoUrls(updated);
+      publishFeed("incident", "updated", event);
+      res.json(event);
+    } catch (e: any) {
+      if (e.code === 404) return res.status(404).json({ error: "Not found" });
+      console.error("PUT /api/admin/incidents/:id error:", e);
+      res.status(500).json({ error: "Erreur" });
+    }
+  });
+
   const httpServer = createServer(app);
+  attachFeed(httpServer);
   return httpServer;
 }
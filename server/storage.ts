@@ -1,38 +1,581 @@
-import { type User, type InsertUser } from "@shared/schema";
 import { randomUUID } from "crypto";
+import bcrypt from "bcryptjs";
+import { AppwriteStorage } from "./appwrite";
+import { DatabaseStorage } from "./pg-storage";
+import { inBBox, matchesSpatial, sortSpatial, type BBox } from "./geo";
+import { byNewestKey, mapPage, pageFromList, type PageRequest } from "./pagination";
+import {
+  hoursCutoff,
+  ALL_TIME,
+  nextCentroid,
+  notFound,
+  statCounterKey,
+  statusConflict,
+  statusPatch,
+  type ConfirmationTarget,
+  type ConfirmationVote,
+  type IncidentRecord,
+  type IncidentUpdate,
+  type ListFilters,
+  type MediaAttachment,
+  type ModerationRecord,
+  type ModerationStatus,
+  type NewIncident,
+  type NewMediaAttachment,
+  type NewModerationRecord,
+  type NewOutage,
+  type NewOutageHistory,
+  type OutageHistoryEntry,
+  type OutageRecord,
+  type OutageStatus,
+  type OutageUpdate,
+  type Page,
+  type ReportLocation,
+  type PushToken,
+  type RestorationVote,
+  type SavedPlace,
+  type SavedPlaceUpdate,
+  type StatCounter,
+  type StatEntity,
+  type NewSavedPlace,
+  type UserProfile,
+} from "./records";
 
-// modify the interface with any CRUD methods
-// you might need
-
+// Every backend throws `{ code, message }` objects (404 for unknown ids,
+// 409 for duplicates, 401 for bad credentials), like the Appwrite SDK does.
+// Counter updates (confirm*, addOutageReport) must be atomic in the backend:
+// callers run them concurrently and never read-modify-write themselves.
+// List methods return one page at a time, newest first (or nearest first
+// with `sort: "distance"`); see pagination.ts for the cursor format.
 export interface IStorage {
-  getUser(id: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  listOutages(filters: ListFilters, page: PageRequest): Promise<Page<OutageRecord>>;
+  getOutage(id: string): Promise<OutageRecord>;
+  createOutage(data: NewOutage): Promise<OutageRecord>;
+  confirmOutage(id: string): Promise<OutageRecord>;
+  addOutageReport(id: string, report: ReportLocation): Promise<OutageRecord>;
+  // Compare-and-set: throws 409 when the outage is no longer in `from`.
+  setOutageStatus(id: string, from: OutageStatus, to: OutageStatus): Promise<OutageRecord>;
+  updateOutage(id: string, data: OutageUpdate): Promise<OutageRecord>;
+  deleteOutage(id: string): Promise<void>;
+  getUserOutages(userId: string, page: PageRequest): Promise<Page<OutageRecord>>;
+  // Every outage that was ongoing at some point between `from` and `to`
+  // (ISO dates), not capped like listOutages. Rejected reports are left out.
+  listOutagesInPeriod(from: string, to: string): Promise<OutageRecord[]>;
+  addOutageHistory(entry: NewOutageHistory): Promise<OutageHistoryEntry>;
+  getOutageHistory(outageId: string): Promise<OutageHistoryEntry[]>;
+  // One vote per voter and outage: voting again replaces the previous vote.
+  castRestorationVote(vote: Omit<RestorationVote, 'createdAt'>): Promise<void>;
+  listRestorationVotes(outageId: string): Promise<RestorationVote[]>;
+  clearRestorationVotes(outageId: string): Promise<void>;
+
+  listIncidents(filters: ListFilters, page: PageRequest): Promise<Page<IncidentRecord>>;
+  // Every unresolved incident, not capped like listIncidents.
+  listOpenIncidents(): Promise<IncidentRecord[]>;
+  getIncident(id: string): Promise<IncidentRecord>;
+  createIncident(data: NewIncident): Promise<IncidentRecord>;
+  confirmIncident(id: string): Promise<IncidentRecord>;
+  resolveIncident(id: string): Promise<IncidentRecord>;
+  updateIncident(id: string, data: IncidentUpdate): Promise<IncidentRecord>;
+  deleteIncident(id: string): Promise<void>;
+
+  // Returns false when the vote was already recorded, without counting it twice.
+  recordConfirmation(vote: ConfirmationVote): Promise<boolean>;
+  listConfirmedTargets(voterId: string, targetType: ConfirmationTarget, day: string): Promise<string[]>;
+
+  // Oldest first.
+  listMedia(targetType: ConfirmationTarget, targetId: string): Promise<MediaAttachment[]>;
+  addMedia(data: NewMediaAttachment): Promise<MediaAttachment>;
+  deleteMedia(id: string): Promise<void>;
+
+  // One record per media id (404 when there is none); held ones, oldest
+  // first, make the admin review queue.
+  addModeration(data: NewModerationRecord): Promise<ModerationRecord>;
+  getModeration(mediaId: string): Promise<ModerationRecord>;
+  listModeration(status: ModerationStatus, limit: number): Promise<ModerationRecord[]>;
+  reviewModeration(mediaId: string, status: ModerationStatus, reviewerId: string): Promise<ModerationRecord>;
+  // Quietly does nothing for media from before moderation.
+  deleteModeration(mediaId: string): Promise<void>;
+
+  // Adds each delta to its counter, creating the counter when missing.
+  applyStatDeltas(deltas: StatCounter[]): Promise<void>;
+  // The all-time counters, or the daily ones from `from` to `to` (UTC days, inclusive).
+  listStatCounters(entity: StatEntity, days?: { from: string; to: string }): Promise<StatCounter[]>;
+  replaceStatCounters(counters: StatCounter[]): Promise<void>;
+
+  listPlaces(userId: string): Promise<SavedPlace[]>;
+  // Every place whose position lies inside the box, whoever it belongs to.
+  listPlacesIn(box: BBox): Promise<SavedPlace[]>;
+  createPlace(data: NewSavedPlace): Promise<SavedPlace>;
+  // Both throw 404 when the place does not exist or belongs to someone else.
+  updatePlace(id: string, userId: string, data: SavedPlaceUpdate): Promise<SavedPlace>;
+  deletePlace(id: string, userId: string): Promise<void>;
+  // Returns false when the place was already alerted about this outage.
+  markPlaceAlerted(placeId: string, outageId: string): Promise<boolean>;
+  // Undoes markPlaceAlerted for an alert that could not be delivered.
+  unmarkPlaceAlerted(placeId: string, outageId: string): Promise<void>;
+  // A token belongs to one user at a time: saving it again moves it.
+  savePushToken(userId: string, token: string, platform: string): Promise<void>;
+  deletePushToken(token: string): Promise<void>;
+  listPushTokens(userIds: string[]): Promise<PushToken[]>;
+
+  registerUser(phone: string, password: string, displayName?: string): Promise<UserProfile>;
+  loginUser(phone: string, password: string): Promise<UserProfile>;
+  getUserById(id: string): Promise<UserProfile>;
+  listUsers(page: PageRequest): Promise<Page<UserProfile>>;
+  deleteUser(id: string): Promise<void>;
+  setUserAdmin(id: string, isAdmin: boolean): Promise<UserProfile>;
+}
+
+interface MemUser extends UserProfile {
+  passwordHash: string;
+  createdAt: string;
+}
+
+function voteKey(vote: ConfirmationVote): string {
+  return [vote.voterId, vote.targetType, vote.targetId, vote.day].join(':');
+}
+
+function byNewest<T extends { id: string; createdAt: string }>(a: T, b: T) {
+  return byNewestKey(a, b);
 }
 
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+  private outages: Map<string, OutageRecord>;
+  private incidents: Map<string, IncidentRecord>;
+  private users: Map<string, MemUser>;
+  private votes: Map<string, ConfirmationVote>;
+  private history: OutageHistoryEntry[];
+  private restorationVotes: Map<string, RestorationVote>;
+  private places: Map<string, SavedPlace>;
+  private placeAlerts: Set<string>;
+  private pushTokens: Map<string, PushToken>;
+  private statCounters: Map<string, StatCounter>;
+  private media: Map<string, MediaAttachment>;
+  private moderation: Map<string, ModerationRecord>;
 
   constructor() {
+    this.outages = new Map();
+    this.incidents = new Map();
     this.users = new Map();
+    this.votes = new Map();
+    this.history = [];
+    this.restorationVotes = new Map();
+    this.places = new Map();
+    this.placeAlerts = new Set();
+    this.pushTokens = new Map();
+    this.statCounters = new Map();
+    this.media = new Map();
+    this.moderation = new Map();
   }
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+  private getOutageOrThrow(id: string): OutageRecord {
+    const outage = this.outages.get(id);
+    if (!outage) throw notFound();
+    return outage;
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+  private getIncidentOrThrow(id: string): IncidentRecord {
+    const incident = this.incidents.get(id);
+    if (!incident) throw notFound();
+    return incident;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
+  private getUserOrThrow(id: string): MemUser {
+    const user = this.users.get(id);
+    if (!user) throw notFound();
     return user;
   }
+
+  private toProfile(user: MemUser): UserProfile {
+    const { passwordHash: _passwordHash, ...profile } = user;
+    return { ...profile };
+  }
+
+  async listOutages(filters: ListFilters, page: PageRequest): Promise<Page<OutageRecord>> {
+    const cutoff = filters.hours ? hoursCutoff(filters.hours) : null;
+    const matching = Array.from(this.outages.values())
+      .filter(o => !filters.type || o.type === filters.type)
+      .filter(o => !filters.region || o.region === filters.region)
+      .filter(o => !cutoff || o.createdAt > cutoff)
+      .filter(o => !filters.reportedSince || o.lastReportAt >= filters.reportedSince)
+      .filter(o => matchesSpatial(filters, o.latitude, o.longitude))
+      .sort(byNewest);
+    const byDistance = filters.sort === "distance" && !!filters.near;
+    return pageFromList(sortSpatial(matching, filters), page, byDistance);
+  }
+
+  async getOutage(id: string): Promise<OutageRecord> {
+    return { ...this.getOutageOrThrow(id) };
+  }
+
+  async createOutage(data: NewOutage): Promise<OutageRecord> {
+    const now = new Date().toISOString();
+    const outage: OutageRecord = {
+      id: randomUUID(),
+      type: data.type,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      quartier: data.quartier || 'N/A',
+      ville: data.ville || 'N/A',
+      region: data.region || 'N/A',
+      confirmations: 1,
+      photoUri: data.photoUri || null,
+      estRetablie: false,
+      dateRetablissement: null,
+      createdAt: now,
+      userId: data.userId || '',
+      status: 'reported',
+      reportCount: 1,
+      lastReportAt: now,
+      centroidLatitude: data.latitude,
+      centroidLongitude: data.longitude,
+    };
+    this.outages.set(outage.id, outage);
+    return { ...outage };
+  }
+
+  async confirmOutage(id: string): Promise<OutageRecord> {
+    const outage = this.getOutageOrThrow(id);
+    outage.confirmations += 1;
+    return { ...outage };
+  }
+
+  async addOutageReport(id: string, report: ReportLocation): Promise<OutageRecord> {
+    const outage = this.getOutageOrThrow(id);
+    const centroid = nextCentroid(outage, report);
+    outage.confirmations += 1;
+    outage.reportCount += 1;
+    outage.lastReportAt = new Date().toISOString();
+    outage.centroidLatitude = centroid.latitude;
+    outage.centroidLongitude = centroid.longitude;
+    return { ...outage };
+  }
+
+  async setOutageStatus(id: string, from: OutageStatus, to: OutageStatus): Promise<OutageRecord> {
+    const outage = this.getOutageOrThrow(id);
+    if (outage.status !== from) throw statusConflict();
+    Object.assign(outage, { status: to, ...statusPatch(to) });
+    return { ...outage };
+  }
+
+  async updateOutage(id: string, data: OutageUpdate): Promise<OutageRecord> {
+    const outage = this.getOutageOrThrow(id);
+    Object.assign(outage, data);
+    return { ...outage };
+  }
+
+  async deleteOutage(id: string): Promise<void> {
+    this.getOutageOrThrow(id);
+    this.outages.delete(id);
+  }
+
+  async getUserOutages(userId: string, page: PageRequest): Promise<Page<OutageRecord>> {
+    const mine = Array.from(this.outages.values())
+      .filter(o => o.userId === userId)
+      .sort(byNewest);
+    return pageFromList(mine, page);
+  }
+
+  async listOutagesInPeriod(from: string, to: string): Promise<OutageRecord[]> {
+    return Array.from(this.outages.values())
+      .filter(o => o.createdAt < to)
+      .filter(o => !o.estRetablie || (!!o.dateRetablissement && o.dateRetablissement >= from))
+      .map(o => ({ ...o }));
+  }
+
+  async addOutageHistory(entry: NewOutageHistory): Promise<OutageHistoryEntry> {
+    const created: OutageHistoryEntry = { ...entry, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.history.push(created);
+    return { ...created };
+  }
+
+  async getOutageHistory(outageId: string): Promise<OutageHistoryEntry[]> {
+    return this.history.filter(h => h.outageId === outageId).map(h => ({ ...h }));
+  }
+
+  async castRestorationVote(vote: Omit<RestorationVote, 'createdAt'>): Promise<void> {
+    this.restorationVotes.set(`${vote.outageId}:${vote.voterId}`, { ...vote, createdAt: new Date().toISOString() });
+  }
+
+  async listRestorationVotes(outageId: string): Promise<RestorationVote[]> {
+    return Array.from(this.restorationVotes.values())
+      .filter(v => v.outageId === outageId)
+      .map(v => ({ ...v }));
+  }
+
+  async clearRestorationVotes(outageId: string): Promise<void> {
+    for (const [key, vote] of this.restorationVotes) {
+      if (vote.outageId === outageId) this.restorationVotes.delete(key);
+    }
+  }
+
+  async listIncidents(filters: ListFilters, page: PageRequest): Promise<Page<IncidentRecord>> {
+    const cutoff = filters.hours ? hoursCutoff(filters.hours) : null;
+    const matching = Array.from(this.incidents.values())
+      .filter(o => !filters.type || o.incidentType === filters.type)
+      .filter(o => !filters.region || o.region === filters.region)
+      .filter(o => !cutoff || o.createdAt > cutoff)
+      .filter(o => matchesSpatial(filters, o.latitude, o.longitude))
+      .sort(byNewest);
+    const byDistance = filters.sort === "distance" && !!filters.near;
+    return pageFromList(sortSpatial(matching, filters), page, byDistance);
+  }
+
+  async listOpenIncidents(): Promise<IncidentRecord[]> {
+    return Array.from(this.incidents.values()).filter(i => !i.estResolue).map(i => ({ ...i }));
+  }
+
+  async getIncident(id: string): Promise<IncidentRecord> {
+    return { ...this.getIncidentOrThrow(id) };
+  }
+
+  async createIncident(data: NewIncident): Promise<IncidentRecord> {
+    const incident: IncidentRecord = {
+      id: randomUUID(),
+      incidentType: data.incidentType,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      quartier: data.quartier || 'N/A',
+      ville: data.ville || 'N/A',
+      region: data.region || 'N/A',
+      confirmations: 1,
+      photoUri: data.photoUri || null,
+      commentaire: data.commentaire || '',
+      estResolue: false,
+      dateResolution: null,
+      createdAt: new Date().toISOString(),
+      userId: data.userId || '',
+    };
+    this.incidents.set(incident.id, incident);
+    return { ...incident };
+  }
+
+  async confirmIncident(id: string): Promise<IncidentRecord> {
+    const incident = this.getIncidentOrThrow(id);
+    incident.confirmations += 1;
+    return { ...incident };
+  }
+
+  async resolveIncident(id: string): Promise<IncidentRecord> {
+    return this.updateIncident(id, { estResolue: true, dateResolution: new Date().toISOString() });
+  }
+
+  async updateIncident(id: string, data: IncidentUpdate): Promise<IncidentRecord> {
+    const incident = this.getIncidentOrThrow(id);
+    Object.assign(incident, data);
+    return { ...incident };
+  }
+
+  async deleteIncident(id: string): Promise<void> {
+    this.getIncidentOrThrow(id);
+    this.incidents.delete(id);
+  }
+
+  async recordConfirmation(vote: ConfirmationVote): Promise<boolean> {
+    const key = voteKey(vote);
+    if (this.votes.has(key)) return false;
+    this.votes.set(key, { ...vote });
+    return true;
+  }
+
+  async listConfirmedTargets(voterId: string, targetType: ConfirmationTarget, day: string): Promise<string[]> {
+    return Array.from(this.votes.values())
+      .filter(v => v.voterId === voterId && v.targetType === targetType && v.day === day)
+      .map(v => v.targetId);
+  }
+
+  async listMedia(targetType: ConfirmationTarget, targetId: string): Promise<MediaAttachment[]> {
+    return Array.from(this.media.values())
+      .filter(m => m.targetType === targetType && m.targetId === targetId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(m => ({ ...m }));
+  }
+
+  async addMedia(data: NewMediaAttachment): Promise<MediaAttachment> {
+    const media: MediaAttachment = { ...data, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.media.set(media.id, media);
+    return { ...media };
+  }
+
+  async deleteMedia(id: string): Promise<void> {
+    if (!this.media.delete(id)) throw notFound();
+  }
+
+  async addModeration(data: NewModerationRecord): Promise<ModerationRecord> {
+    if (this.moderation.has(data.mediaId)) throw { code: 409, message: "Média déjà modéré" };
+    const record: ModerationRecord = {
+      ...data,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      reviewedAt: null,
+      reviewerId: null,
+    };
+    this.moderation.set(data.mediaId, record);
+    return { ...record };
+  }
+
+  async getModeration(mediaId: string): Promise<ModerationRecord> {
+    const record = this.moderation.get(mediaId);
+    if (!record) throw notFound();
+    return { ...record };
+  }
+
+  async listModeration(status: ModerationStatus, limit: number): Promise<ModerationRecord[]> {
+    return Array.from(this.moderation.values())
+      .filter(r => r.status === status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, limit)
+      .map(r => ({ ...r }));
+  }
+
+  async reviewModeration(mediaId: string, status: ModerationStatus, reviewerId: string): Promise<ModerationRecord> {
+    const record = this.moderation.get(mediaId);
+    if (!record) throw notFound();
+    Object.assign(record, { status, reviewerId, reviewedAt: new Date().toISOString() });
+    return { ...record };
+  }
+
+  async deleteModeration(mediaId: string): Promise<void> {
+    this.moderation.delete(mediaId);
+  }
+
+  async applyStatDeltas(deltas: StatCounter[]): Promise<void> {
+    for (const delta of deltas) {
+      const key = statCounterKey(delta);
+      const counter = this.statCounters.get(key) ?? { ...delta, reported: 0, closed: 0 };
+      counter.reported += delta.reported;
+      counter.closed += delta.closed;
+      this.statCounters.set(key, counter);
+    }
+  }
+
+  async listStatCounters(entity: StatEntity, days?: { from: string; to: string }): Promise<StatCounter[]> {
+    return Array.from(this.statCounters.values())
+      .filter(c => c.entity === entity && (days ? c.day >= days.from && c.day <= days.to : c.day === ALL_TIME))
+      .map(c => ({ ...c }));
+  }
+
+  async replaceStatCounters(counters: StatCounter[]): Promise<void> {
+    this.statCounters = new Map(counters.map(c => [statCounterKey(c), { ...c }]));
+  }
+
+  private getOwnPlaceOrThrow(id: string, userId: string): SavedPlace {
+    const place = this.places.get(id);
+    if (!place || place.userId !== userId) throw notFound();
+    return place;
+  }
+
+  async listPlaces(userId: string): Promise<SavedPlace[]> {
+    return Array.from(this.places.values())
+      .filter(p => p.userId === userId)
+      .map(p => ({ ...p, types: [...p.types] }));
+  }
+
+  async listPlacesIn(box: BBox): Promise<SavedPlace[]> {
+    return Array.from(this.places.values())
+      .filter(p => inBBox(p.latitude, p.longitude, box))
+      .map(p => ({ ...p, types: [...p.types] }));
+  }
+
+  async createPlace(data: NewSavedPlace): Promise<SavedPlace> {
+    const place: SavedPlace = { ...data, types: [...data.types], id: randomUUID(), createdAt: new Date().toISOString() };
+    this.places.set(place.id, place);
+    return { ...place };
+  }
+
+  async updatePlace(id: string, userId: string, data: SavedPlaceUpdate): Promise<SavedPlace> {
+    const place = this.getOwnPlaceOrThrow(id, userId);
+    Object.assign(place, data);
+    return { ...place, types: [...place.types] };
+  }
+
+  async deletePlace(id: string, userId: string): Promise<void> {
+    this.getOwnPlaceOrThrow(id, userId);
+    this.places.delete(id);
+  }
+
+  async markPlaceAlerted(placeId: string, outageId: string): Promise<boolean> {
+    const key = `${placeId}:${outageId}`;
+    if (this.placeAlerts.has(key)) return false;
+    this.placeAlerts.add(key);
+    return true;
+  }
+
+  async unmarkPlaceAlerted(placeId: string, outageId: string): Promise<void> {
+    this.placeAlerts.delete(`${placeId}:${outageId}`);
+  }
+
+  async savePushToken(userId: string, token: string, platform: string): Promise<void> {
+    this.pushTokens.set(token, { token, userId, platform, updatedAt: new Date().toISOString() });
+  }
+
+  async deletePushToken(token: string): Promise<void> {
+    this.pushTokens.delete(token);
+  }
+
+  async listPushTokens(userIds: string[]): Promise<PushToken[]> {
+    return Array.from(this.pushTokens.values()).filter(t => userIds.includes(t.userId)).map(t => ({ ...t }));
+  }
+
+  async registerUser(phone: string, password: string, displayName?: string): Promise<UserProfile> {
+    if (Array.from(this.users.values()).some(u => u.phone === phone)) {
+      throw { code: 409, message: 'Ce numéro est déjà utilisé' };
+    }
+    const user: MemUser = {
+      id: randomUUID(),
+      phone,
+      displayName: displayName || '',
+      isAdmin: false,
+      passwordHash: await bcrypt.hash(password, 10),
+      createdAt: new Date().toISOString(),
+    };
+    this.users.set(user.id, user);
+    return this.toProfile(user);
+  }
+
+  async loginUser(phone: string, password: string): Promise<UserProfile> {
+    const user = Array.from(this.users.values()).find(u => u.phone === phone);
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      throw { code: 401, message: 'Numéro ou mot de passe incorrect' };
+    }
+    return this.toProfile(user);
+  }
+
+  async getUserById(id: string): Promise<UserProfile> {
+    return this.toProfile(this.getUserOrThrow(id));
+  }
+
+  async listUsers(page: PageRequest): Promise<Page<UserProfile>> {
+    return mapPage(pageFromList(Array.from(this.users.values()).sort(byNewest), page), u => this.toProfile(u));
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    this.getUserOrThrow(id);
+    this.users.delete(id);
+  }
+
+  async setUserAdmin(id: string, isAdmin: boolean): Promise<UserProfile> {
+    const user = this.getUserOrThrow(id);
+    user.isAdmin = isAdmin;
+    return this.toProfile(user);
+  }
+}
+
+export type StorageBackend = "appwrite" | "postgres" | "memory";
+
+export function createStorage(
+  backend: StorageBackend = (process.env.STORAGE_BACKEND as StorageBackend) || "appwrite",
+): IStorage {
+  switch (backend) {
+    case "appwrite":
+      return new AppwriteStorage();
+    case "postgres":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
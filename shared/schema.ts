@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, doublePrecision, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, doublePrecision, integer, boolean, timestamp, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,8 +7,11 @@ export const users = pgTable("users", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  phone: varchar("phone", { length: 20 }).notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  displayName: text("display_name").notNull().default(''),
+  isAdmin: boolean("is_admin").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const outages = pgTable("outages", {
@@ -26,7 +29,170 @@ export const outages = pgTable("outages", {
   estRetablie: boolean("est_retablie").notNull().default(false),
   dateRetablissement: timestamp("date_retablissement"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  userId: varchar("user_id").notNull().default(''),
+  status: varchar("status", { length: 24 }).notNull().default('reported'),
+  reportCount: integer("report_count").notNull().default(1),
+  lastReportAt: timestamp("last_report_at").notNull().defaultNow(),
+  centroidLatitude: doublePrecision("centroid_latitude").notNull(),
+  centroidLongitude: doublePrecision("centroid_longitude").notNull(),
+  // Of the first report's position; prefix searches back the spatial queries.
+  geohash: varchar("geohash", { length: 12 }).notNull().default(''),
+}, (table) => [
+  index("outages_created_at_idx").on(table.createdAt),
+  index("outages_user_id_idx").on(table.userId),
+  index("outages_geohash_idx").on(table.geohash.op("text_pattern_ops")),
+]);
+
+export const incidents = pgTable("incidents", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  incidentType: varchar("incident_type", { length: 20 }).notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  quartier: text("quartier").notNull().default('N/A'),
+  ville: text("ville").notNull().default('N/A'),
+  region: text("region").notNull().default('N/A'),
+  confirmations: integer("confirmations").notNull().default(1),
+  photoUri: text("photo_uri"),
+  commentaire: text("commentaire").notNull().default(''),
+  estResolue: boolean("est_resolue").notNull().default(false),
+  dateResolution: timestamp("date_resolution"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: varchar("user_id").notNull().default(''),
+  geohash: varchar("geohash", { length: 12 }).notNull().default(''),
+}, (table) => [
+  index("incidents_created_at_idx").on(table.createdAt),
+  index("incidents_geohash_idx").on(table.geohash.op("text_pattern_ops")),
+]);
+
+export const outageHistory = pgTable("outage_history", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  outageId: varchar("outage_id").notNull(),
+  fromStatus: varchar("from_status", { length: 24 }),
+  toStatus: varchar("to_status", { length: 24 }).notNull(),
+  actorId: varchar("actor_id").notNull(),
+  actorRole: varchar("actor_role", { length: 10 }).notNull(),
+  note: text("note").notNull().default(''),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("outage_history_outage_id_idx").on(table.outageId, table.createdAt),
+]);
+
+export const restorationVotes = pgTable("restoration_votes", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  outageId: varchar("outage_id").notNull(),
+  voterId: varchar("voter_id").notNull(),
+  vote: varchar("vote", { length: 10 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("restoration_votes_voter_idx").on(table.outageId, table.voterId),
+]);
+
+// One row per voter (user or device), target and day; the unique index rejects repeats.
+export const confirmations = pgTable("confirmations", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  voterId: varchar("voter_id").notNull(),
+  targetType: varchar("target_type", { length: 10 }).notNull(),
+  targetId: varchar("target_id").notNull(),
+  day: varchar("day", { length: 10 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("confirmations_vote_idx").on(table.voterId, table.targetType, table.targetId, table.day),
+]);
+
+export const mediaAttachments = pgTable("media_attachments", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  targetType: varchar("target_type", { length: 10 }).notNull(),
+  targetId: varchar("target_id").notNull(),
+  kind: varchar("kind", { length: 10 }).notNull(),
+  mediaId: varchar("media_id", { length: 36 }).notNull(),
+  bytes: integer("bytes").notNull(),
+  durationSec: doublePrecision("duration_sec"),
+  uploaderId: varchar("uploader_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("media_attachments_target_idx").on(table.targetType, table.targetId, table.createdAt),
+]);
+
+export const photoModeration = pgTable("photo_moderation", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  mediaId: varchar("media_id", { length: 36 }).notNull(),
+  kind: varchar("kind", { length: 10 }).notNull(),
+  status: varchar("status", { length: 10 }).notNull(),
+  faces: integer("faces").notNull().default(0),
+  plates: integer("plates").notNull().default(0),
+  nsfwScore: doublePrecision("nsfw_score"),
+  reasons: text("reasons").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewerId: varchar("reviewer_id"),
+}, (table) => [
+  uniqueIndex("photo_moderation_media_idx").on(table.mediaId),
+  index("photo_moderation_status_idx").on(table.status, table.createdAt),
+]);
+
+export const savedPlaces = pgTable("saved_places", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  radiusM: integer("radius_m").notNull().default(1000),
+  types: text("types").array().notNull().default(sql`'{}'::text[]`),
+  quietStart: varchar("quiet_start", { length: 5 }),
+  quietEnd: varchar("quiet_end", { length: 5 }),
+  timezone: varchar("timezone", { length: 64 }).notNull().default('Africa/Douala'),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  geohash: varchar("geohash", { length: 12 }).notNull().default(''),
+}, (table) => [
+  index("saved_places_user_idx").on(table.userId),
+  index("saved_places_geohash_idx").on(table.geohash.op("text_pattern_ops")),
+]);
+
+export const placeAlerts = pgTable("place_alerts", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  placeId: varchar("place_id").notNull(),
+  outageId: varchar("outage_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("place_alerts_pair_idx").on(table.placeId, table.outageId),
+]);
+
+export const pushTokens = pgTable("push_tokens", {
+  token: varchar("token", { length: 255 }).primaryKey(),
+  userId: varchar("user_id").notNull(),
+  platform: varchar("platform", { length: 10 }).notNull().default(''),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("push_tokens_user_idx").on(table.userId),
+]);
+
+// Maintained incrementally by server/aggregates.ts; `day` is a UTC day or 'all'.
+export const statCounters = pgTable("stat_counters", {
+  entity: varchar("entity", { length: 10 }).notNull(),
+  day: varchar("day", { length: 10 }).notNull(),
+  region: text("region").notNull(),
+  type: varchar("type", { length: 20 }).notNull(),
+  reported: integer("reported").notNull().default(0),
+  closed: integer("closed").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.entity, table.day, table.region, table.type] }),
+]);
 
 export const insertOutageSchema = createInsertSchema(outages).omit({
   id: true,
@@ -34,14 +200,38 @@ export const insertOutageSchema = createInsertSchema(outages).omit({
   estRetablie: true,
   dateRetablissement: true,
   createdAt: true,
+  status: true,
+  reportCount: true,
+  lastReportAt: true,
+  centroidLatitude: true,
+  centroidLongitude: true,
+});
+
+export const insertIncidentSchema = createInsertSchema(incidents).omit({
+  id: true,
+  confirmations: true,
+  estResolue: true,
+  dateResolution: true,
+  createdAt: true,
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
+  phone: true,
+  passwordHash: true,
+  displayName: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Outage = typeof outages.$inferSelect;
 export type InsertOutage = z.infer<typeof insertOutageSchema>;
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncident = z.infer<typeof insertIncidentSchema>;
+export type Confirmation = typeof confirmations.$inferSelect;
+export type OutageHistory = typeof outageHistory.$inferSelect;
+export type RestorationVoteRow = typeof restorationVotes.$inferSelect;
+export type SavedPlaceRow = typeof savedPlaces.$inferSelect;
+export type MediaAttachmentRow = typeof mediaAttachments.$inferSelect;
+export type PhotoModerationRow = typeof photoModeration.$inferSelect;
+export type PushTokenRow = typeof pushTokens.$inferSelect;
+export type StatCounterRow = typeof statCounters.$inferSelect;